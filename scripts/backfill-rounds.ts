@@ -0,0 +1,109 @@
+#!/usr/bin/env tsx
+/**
+ * Historical backfill script.
+ *
+ * Recovers rounds the live collector missed by reading Round accounts
+ * on-chain and storing post-fin-only records (flagged as backfilled).
+ * Safe to run multiple times (existing rounds are skipped).
+ *
+ * Usage: yarn db:backfill --from <roundId> [--to <roundId>] [--batch <size>]
+ *   --to defaults to the last finished round (current board round - 1)
+ */
+
+import { parseArgs } from "node:util";
+import { config } from "../src/config/index.js";
+import { initLogger } from "../src/shared/logger.js";
+import { openRoundRepository } from "../src/infrastructure/database/repository.factory.js";
+import { initSolanaConnection } from "../src/infrastructure/solana/connection.js";
+import { BOARD_ADDRESS } from "../src/infrastructure/solana/pda.js";
+import { decodeBoardAccount } from "../src/infrastructure/solana/decoders/board.decoder.js";
+import { backfillRounds } from "../src/application/use-cases/backfill-rounds.js";
+
+function parseBatchSize(value: string | undefined): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new Error(`Invalid --batch (expected a positive integer): ${value}`);
+  }
+  return parsed;
+}
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      from: { type: "string" },
+      to: { type: "string" },
+      batch: { type: "string" },
+    },
+  });
+
+  console.log("=".repeat(50));
+  console.log("ORE Collector - Historical Backfill");
+  console.log("=".repeat(50));
+
+  if (!values.from) {
+    console.error("❌ Missing --from <roundId>");
+    process.exit(1);
+  }
+
+  const batchSize = parseBatchSize(values.batch);
+
+  initLogger(config.LOG_LEVEL);
+
+  const database = await openRoundRepository({
+    driver: config.DB_DRIVER,
+    dbPath: config.DB_PATH,
+    databaseUrl: config.DATABASE_URL,
+  });
+
+  const solanaConnection = initSolanaConnection(config.RPC_URL, config.RPC_WS_URL, {
+    fallbackRpcUrls: config.RPC_FALLBACK_URLS,
+  });
+  await solanaConnection.initialize();
+
+  try {
+    // * Default upper bound: last finished round
+    let toRoundId: bigint;
+    if (values.to) {
+      toRoundId = BigInt(values.to);
+    } else {
+      const boardInfo = await solanaConnection.getAccountInfo(BOARD_ADDRESS);
+      if (!boardInfo) {
+        throw new Error("Board account not found");
+      }
+      toRoundId = decodeBoardAccount(boardInfo.data).roundId - 1n;
+    }
+
+    const fromRoundId = BigInt(values.from);
+    console.log(`Database: ${config.DB_DRIVER === "sqlite" ? config.DB_PATH : "postgres"}`);
+    console.log(`Range: ${fromRoundId} → ${toRoundId}\n`);
+
+    const result = await backfillRounds(
+      { fromRoundId, toRoundId },
+      { repository: database.repository },
+      { batchSize }
+    );
+
+    console.log("\n📊 Backfill Summary:");
+    console.log(`  Scanned:           ${result.scanned}`);
+    console.log(`  Inserted:          ${result.inserted}`);
+    console.log(`  Already present:   ${result.skippedExisting}`);
+    console.log(`  Account missing:   ${result.accountMissing}`);
+    console.log(`  Invalid slot hash: ${result.invalidSlotHash}`);
+    console.log(`  Failed:            ${result.failed}`);
+
+    console.log("\n✅ Backfill complete!");
+  } finally {
+    await solanaConnection.close();
+    await database.close();
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(`❌ Backfill failed: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  });
@@ -0,0 +1,167 @@
+#!/usr/bin/env tsx
+/**
+ * Strategy backtest script.
+ *
+ * Simulates a staking strategy round by round over the collected history
+ * (pre-fin EV ranks and stakes, settled against the final board) and prints PnL.
+ *
+ * Usage: yarn backtest [--strategy <file.json>] [--name <name>] [--top <n>]
+ *          [--min-ev <ratio>] [--stake <max-profitable|fixed>] [--stake-sol <sol>]
+ *          [--from <roundId>] [--to <roundId>] [--out <rounds.csv>]
+ * - --strategy: JSON strategy definition; flags override its fields
+ * - --stake-sol: fixed stake, or cap of the max profitable stake (0 = uncapped)
+ * - --out: per-round results as CSV
+ */
+
+import { createWriteStream } from "node:fs";
+import { once } from "node:events";
+import { readFile } from "node:fs/promises";
+import { parseArgs } from "node:util";
+import { z } from "zod";
+import { config } from "../src/config/index.js";
+import { initLogger } from "../src/shared/logger.js";
+import { lamportsToSol, ORE_DECIMALS } from "../src/shared/types.js";
+import { openRoundRepository } from "../src/infrastructure/database/repository.factory.js";
+import { runBacktest } from "../src/application/use-cases/run-backtest.js";
+import type { BacktestStrategy } from "../src/domain/entities/index.js";
+
+/**
+ * Strategy definition (file or flags).
+ */
+const strategySchema = z.object({
+  name: z.string().min(1).default("backtest"),
+  topN: z.coerce.number().int().min(1).max(25).default(1),
+  minEvRatio: z.coerce.number().min(0).default(1),
+  stakeMode: z.enum(["max-profitable", "fixed"]).default("max-profitable"),
+  stakeSol: z.coerce.number().min(0).default(0),
+});
+
+async function loadStrategy(values: Record<string, string | undefined>): Promise<BacktestStrategy> {
+  const definition: Record<string, unknown> = values.strategy
+    ? JSON.parse(await readFile(values.strategy, "utf8"))
+    : {};
+
+  const overrides: Record<string, string | undefined> = {
+    name: values.name,
+    topN: values.top,
+    minEvRatio: values["min-ev"],
+    stakeMode: values.stake,
+    stakeSol: values["stake-sol"],
+  };
+  for (const [key, value] of Object.entries(overrides)) {
+    if (value !== undefined) {
+      definition[key] = value;
+    }
+  }
+
+  const parsed = strategySchema.safeParse(definition);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`);
+    throw new Error(`Invalid strategy: ${issues.join("; ")}`);
+  }
+  if (parsed.data.stakeMode === "fixed" && parsed.data.stakeSol === 0) {
+    throw new Error("Invalid strategy: fixed stake mode needs stakeSol > 0");
+  }
+  return parsed.data;
+}
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      strategy: { type: "string" },
+      name: { type: "string" },
+      top: { type: "string" },
+      "min-ev": { type: "string" },
+      stake: { type: "string" },
+      "stake-sol": { type: "string" },
+      from: { type: "string" },
+      to: { type: "string" },
+      out: { type: "string" },
+    },
+  });
+
+  const strategy = await loadStrategy(values);
+
+  console.log("=".repeat(50));
+  console.log("ORE Collector - Strategy Backtest");
+  console.log("=".repeat(50));
+
+  initLogger(config.LOG_LEVEL);
+
+  const database = await openRoundRepository({
+    driver: config.DB_DRIVER,
+    dbPath: config.DB_PATH,
+    databaseUrl: config.DATABASE_URL,
+  });
+
+  // * Optional per-round results
+  const out = values.out ? createWriteStream(values.out, { encoding: "utf8" }) : null;
+  out?.write("round_id,tiles,staked_sol,won,returned_sol,rewards_ore,pnl_sol,cumulative_pnl_sol\n");
+  let cumulativePnlSol = 0;
+
+  try {
+    console.log(`Database: ${config.DB_DRIVER === "sqlite" ? config.DB_PATH : "postgres"}`);
+    console.log(`Strategy: ${strategy.name}`);
+    console.log(`  Top N:        ${strategy.topN}`);
+    console.log(`  Min EV ratio: ${strategy.minEvRatio}`);
+    const stakeSol = strategy.stakeSol > 0 ? ` (${strategy.stakeSol} SOL)` : "";
+    console.log(`  Stake:        ${strategy.stakeMode}${stakeSol}\n`);
+
+    const summary = await runBacktest(
+      {
+        strategy,
+        fromRoundId: values.from !== undefined ? BigInt(values.from) : undefined,
+        toRoundId: values.to !== undefined ? BigInt(values.to) : undefined,
+      },
+      { repository: database.repository },
+      {
+        onRound: async (result) => {
+          cumulativePnlSol += result.pnlSol;
+          const line = [
+            result.roundId,
+            result.tiles.join(" "),
+            lamportsToSol(result.staked),
+            result.won,
+            lamportsToSol(result.returnedSol),
+            Number(result.rewardsOre) / ORE_DECIMALS,
+            result.pnlSol,
+            cumulativePnlSol,
+          ].join(",");
+          if (out && !out.write(`${line}\n`)) {
+            await once(out, "drain");
+          }
+        },
+      }
+    );
+
+    const winRate = summary.roundsPlayed > 0 ? summary.roundsWon / summary.roundsPlayed : 0;
+
+    console.log("📊 Backtest Summary:");
+    console.log(`  Rounds scanned:   ${summary.roundsScanned}`);
+    console.log(`  Rounds played:    ${summary.roundsPlayed}`);
+    console.log(`  Rounds won:       ${summary.roundsWon} (${(winRate * 100).toFixed(2)}%)`);
+    console.log(`  Staked:           ${summary.stakedSol.toFixed(4)} SOL`);
+    console.log(`  Returned:         ${summary.returnedSol.toFixed(4)} SOL`);
+    console.log(`  ORE earned:       ${summary.rewardsOre.toFixed(4)} ORE`);
+    console.log(`  PnL:              ${summary.pnlSol.toFixed(4)} SOL`);
+    console.log(`  ROI:              ${(summary.roi * 100).toFixed(2)}%`);
+    console.log(`  Max drawdown:     ${summary.maxDrawdownSol.toFixed(4)} SOL`);
+
+    if (values.out) {
+      console.log(`\nPer-round results: ${values.out}`);
+    }
+  } finally {
+    if (out) {
+      out.end();
+      await once(out, "finish");
+    }
+    await database.close();
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(`❌ Backtest failed: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  });
@@ -43,9 +43,10 @@ function main(): void {
 
   const roundsCount = db.prepare("SELECT COUNT(*) as count FROM rounds").get() as { count: number };
   const roundsComplete = db.prepare("SELECT COUNT(*) as count FROM rounds WHERE ts_post IS NOT NULL").get() as { count: number };
-  const roundsPending = db.prepare("SELECT COUNT(*) as count FROM rounds WHERE ts_post IS NULL").get() as { count: number };
+  const roundsPending = db.prepare("SELECT COUNT(*) as count FROM rounds WHERE ts_post IS NULL AND backfilled = 0").get() as { count: number };
+  const roundsBackfilled = db.prepare("SELECT COUNT(*) as count FROM rounds WHERE backfilled = 1").get() as { count: number };
 
-  console.log(`  rounds: ${roundsCount.count} total (${roundsComplete.count} complete, ${roundsPending.count} pending)`);
+  console.log(`  rounds: ${roundsCount.count} total (${roundsComplete.count} complete, ${roundsPending.count} pending, ${roundsBackfilled.count} backfilled)`);
 
   const tilesCount = db.prepare("SELECT COUNT(*) as count FROM tiles").get() as { count: number };
   console.log(`  tiles: ${tilesCount.count} total`);
@@ -54,17 +55,17 @@ function main(): void {
   if (roundsCount.count > 0) {
     console.log("\n📈 Latest Round:");
     const latest = db.prepare(`
-      SELECT round_id, ts_pre, ts_post, winning_tile, total_deployed
+      SELECT round_id, ts_pre, ts_post, winning_tile, total_deployed, backfilled
       FROM rounds
       ORDER BY round_id DESC
       LIMIT 1
-    `).get() as { round_id: number; ts_pre: number; ts_post: number | null; winning_tile: number | null; total_deployed: number };
+    `).get() as { round_id: number; ts_pre: number | null; ts_post: number | null; winning_tile: number | null; total_deployed: number | null; backfilled: number };
 
-    console.log(`  Round ID: ${latest.round_id}`);
-    console.log(`  Pre-fin: ${new Date(latest.ts_pre).toISOString()}`);
-    console.log(`  Post-fin: ${latest.ts_post ? new Date(latest.ts_post).toISOString() : "PENDING"}`);
+    console.log(`  Round ID: ${latest.round_id}${latest.backfilled ? " (backfilled)" : ""}`);
+    console.log(`  Pre-fin: ${latest.ts_pre ? new Date(latest.ts_pre).toISOString() : "N/A"}`);
+    console.log(`  Post-fin: ${latest.ts_post ? new Date(latest.ts_post).toISOString() : latest.backfilled ? "N/A" : "PENDING"}`);
     console.log(`  Winning tile: ${latest.winning_tile ?? "N/A"}`);
-    console.log(`  Total deployed: ${(latest.total_deployed / 1e9).toFixed(4)} SOL`);
+    console.log(`  Total deployed: ${latest.total_deployed !== null ? `${(latest.total_deployed / 1e9).toFixed(4)} SOL` : "N/A"}`);
   }
 
   // * Database size
@@ -0,0 +1,128 @@
+#!/usr/bin/env tsx
+/**
+ * Gap detection and coverage report.
+ *
+ * Lists missing round ID ranges between the first stored round and the
+ * latest one, classifies each gap, and prints coverage per UTC day.
+ *
+ * Gap kinds:
+ * - missing: never captured (candidate for `yarn db:backfill`)
+ * - failed:  deleted after a recorded collection failure
+ * - pending: stored but post-fin never completed
+ *
+ * Usage: yarn db:gaps [--limit <n>]
+ */
+
+import { parseArgs } from "node:util";
+import { config } from "../src/config/index.js";
+import { initLogger } from "../src/shared/logger.js";
+import { openRoundRepository } from "../src/infrastructure/database/repository.factory.js";
+import type { IRoundRepository } from "../src/domain/interfaces/round.repository.js";
+import type { RoundGapKind } from "../src/domain/entities/index.js";
+
+// * Default number of gaps printed
+const DEFAULT_LIMIT = 50;
+
+const KIND_ICONS: Record<RoundGapKind, string> = {
+  missing: "⬜",
+  failed: "❌",
+  pending: "⏳",
+};
+
+function parseLimit(value: string | undefined): number {
+  if (value === undefined) {
+    return DEFAULT_LIMIT;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new Error(`Invalid --limit (expected a positive integer): ${value}`);
+  }
+  return parsed;
+}
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      limit: { type: "string" },
+    },
+  });
+  const limit = parseLimit(values.limit);
+
+  console.log("=".repeat(50));
+  console.log("ORE Collector - Gap & Coverage Report");
+  console.log("=".repeat(50));
+  console.log(`Database: ${config.DB_DRIVER === "sqlite" ? config.DB_PATH : "postgres"}`);
+
+  initLogger("warn");
+  const database = await openRoundRepository({
+    driver: config.DB_DRIVER,
+    dbPath: config.DB_PATH,
+    databaseUrl: config.DATABASE_URL,
+  });
+
+  try {
+    await printReport(database.repository, limit);
+  } finally {
+    await database.close();
+  }
+}
+
+async function printReport(repository: IRoundRepository, limit: number): Promise<void> {
+  const latestRoundId = await repository.getLatestRoundId();
+  if (latestRoundId === null) {
+    console.log("\nNo rounds stored yet.");
+    return;
+  }
+
+  // * Gaps
+  const gaps = await repository.findGaps();
+  const totals: Record<RoundGapKind, bigint> = { missing: 0n, failed: 0n, pending: 0n };
+  for (const gap of gaps) {
+    totals[gap.kind] += gap.toRoundId - gap.fromRoundId + 1n;
+  }
+
+  console.log(`\n🕳️  Gaps (up to round ${latestRoundId}):`);
+  if (gaps.length === 0) {
+    console.log("  ✅ No gaps");
+  }
+  for (const gap of gaps.slice(0, limit)) {
+    const size = gap.toRoundId - gap.fromRoundId + 1n;
+    const range = size === 1n ? `${gap.fromRoundId}` : `${gap.fromRoundId}-${gap.toRoundId}`;
+    console.log(`  ${KIND_ICONS[gap.kind]} ${gap.kind.padEnd(7)} ${range} (${size} rounds)`);
+  }
+  if (gaps.length > limit) {
+    console.log(`  ... ${gaps.length - limit} more (use --limit)`);
+  }
+
+  console.log("\n📊 Gap Totals:");
+  console.log(`  missing: ${totals.missing} rounds`);
+  console.log(`  failed:  ${totals.failed} rounds`);
+  console.log(`  pending: ${totals.pending} rounds`);
+
+  // * Coverage per day
+  const coverage = await repository.getDailyCoverage();
+  console.log("\n📅 Coverage per Day (UTC):");
+  if (coverage.length === 0) {
+    console.log("  No live rounds to date the coverage.");
+  }
+
+  let expectedTotal = 0;
+  let completeTotal = 0;
+  for (const day of coverage) {
+    expectedTotal += day.expected;
+    completeTotal += day.complete;
+    const pending = day.pending > 0 ? `, ${day.pending} pending` : "";
+    console.log(
+      `  ${day.day}: ${day.coveragePct.toFixed(2).padStart(6)}% (${day.complete}/${day.expected}${pending})`
+    );
+  }
+
+  if (expectedTotal > 0) {
+    console.log(`\n📈 Overall Coverage: ${((completeTotal / expectedTotal) * 100).toFixed(2)}%`);
+  }
+}
+
+main().catch((error) => {
+  console.error(`Fatal error: ${error instanceof Error ? error.message : String(error)}`);
+  process.exit(1);
+});
@@ -0,0 +1,119 @@
+#!/usr/bin/env tsx
+/**
+ * EV calibration report.
+ *
+ * Buckets tiles of completed rounds by pre-fin ev_ratio and compares the
+ * predicted EV to the realized return of a min stake settled against the final
+ * board, plus hit rates per EV rank.
+ *
+ * Usage: yarn report:calibration [--from <roundId>] [--to <roundId>]
+ *          [--buckets <e1,e2,...>] [--json]
+ * - --buckets: ascending ev_ratio edges (default: 0.8,0.9,0.95,1,1.05,1.1,1.2,1.5)
+ * - --json:    print the report as JSON
+ */
+
+import { parseArgs } from "node:util";
+import { config } from "../src/config/index.js";
+import { initLogger } from "../src/shared/logger.js";
+import { openRoundRepository } from "../src/infrastructure/database/repository.factory.js";
+import { buildEvCalibration } from "../src/application/use-cases/build-ev-calibration.js";
+import type { CalibrationStats } from "../src/application/services/ev-calibration.js";
+
+function formatBound(value: number | null, unbounded: string): string {
+  return value !== null ? value.toFixed(2) : unbounded;
+}
+
+function formatStats(stats: CalibrationStats): string {
+  return [
+    String(stats.tiles).padStart(8),
+    `${(stats.hitRate * 100).toFixed(2)}%`.padStart(8),
+    stats.avgEvRatio.toFixed(4).padStart(10),
+    stats.avgFinalEvRatio.toFixed(4).padStart(10),
+    stats.avgRealizedReturn.toFixed(4).padStart(10),
+    `±${stats.realizedStdErr.toFixed(4)}`.padStart(9),
+  ].join(" ");
+}
+
+const STATS_HEADER = [
+  "Tiles".padStart(8),
+  "Hit".padStart(8),
+  "Predicted".padStart(10),
+  "Final EV".padStart(10),
+  "Realized".padStart(10),
+  "StdErr".padStart(9),
+].join(" ");
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      from: { type: "string" },
+      to: { type: "string" },
+      buckets: { type: "string" },
+      json: { type: "boolean", default: false },
+    },
+  });
+
+  const edges = values.buckets?.split(",").map((edge) => {
+    const value = Number(edge.trim());
+    if (!Number.isFinite(value)) {
+      throw new Error(`Invalid --buckets edge: ${edge}`);
+    }
+    return value;
+  });
+
+  initLogger(config.LOG_LEVEL);
+
+  const database = await openRoundRepository({
+    driver: config.DB_DRIVER,
+    dbPath: config.DB_PATH,
+    databaseUrl: config.DATABASE_URL,
+  });
+
+  try {
+    const report = await buildEvCalibration(
+      {
+        fromRoundId: values.from !== undefined ? BigInt(values.from) : undefined,
+        toRoundId: values.to !== undefined ? BigInt(values.to) : undefined,
+        edges,
+      },
+      { repository: database.repository }
+    );
+
+    if (values.json) {
+      console.log(JSON.stringify(report, null, 2));
+      return;
+    }
+
+    console.log("=".repeat(50));
+    console.log("ORE Collector - EV Calibration");
+    console.log("=".repeat(50));
+    console.log(`Rounds: ${report.rounds}`);
+    console.log("Predicted = pre-fin ev_ratio, Final EV = ev_ratio on the final board,");
+    console.log("Realized = return per SOL of a min stake placed at pre-fin\n");
+
+    console.log("📊 By EV ratio:");
+    console.log(`  ${"EV ratio".padEnd(14)} ${STATS_HEADER}`);
+    for (const bucket of report.buckets) {
+      const low = formatBound(bucket.minEvRatio, "-∞");
+      const high = formatBound(bucket.maxEvRatio, "+∞");
+      const range = `[${low}, ${high})`;
+      console.log(`  ${range.padEnd(14)} ${formatStats(bucket)}`);
+    }
+    console.log(`  ${"All".padEnd(14)} ${formatStats(report.overall)}`);
+
+    console.log("\n📊 By EV rank:");
+    console.log(`  ${"Rank".padEnd(14)} ${STATS_HEADER}`);
+    for (const rank of report.ranks) {
+      console.log(`  ${String(rank.rankEv).padEnd(14)} ${formatStats(rank)}`);
+    }
+  } finally {
+    await database.close();
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(`❌ Report failed: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  });
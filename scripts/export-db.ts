@@ -0,0 +1,127 @@
+#!/usr/bin/env tsx
+/**
+ * Dataset export command.
+ *
+ * Dumps rounds joined with tiles (one row per round and tile) to CSV,
+ * JSON Lines or Parquet, for pandas / DuckDB.
+ *
+ * Usage: yarn db:export --format <csv|jsonl|parquet> [--out <file>]
+ *          [--from <roundId>] [--to <roundId>]
+ *          [--since <YYYY-MM-DD>] [--until <YYYY-MM-DD>]
+ *          [--completed] [--columns <a,b,c>] [--list-columns]
+ * - --since/--until: UTC days (inclusive), on the pre-fin time (excludes backfilled rounds)
+ * - --completed:     only rounds with post-fin data
+ * - --out defaults to ./data/rounds.<format>
+ */
+
+import { parseArgs } from "node:util";
+import { config } from "../src/config/index.js";
+import { initLogger } from "../src/shared/logger.js";
+import { openRoundRepository } from "../src/infrastructure/database/repository.factory.js";
+import {
+  EXPORT_COLUMNS,
+  EXPORT_FORMATS,
+  openExportWriter,
+  selectExportColumns,
+  type ExportFormat,
+} from "../src/infrastructure/export/index.js";
+import {
+  iterateExportRows,
+  type ExportFilters,
+} from "../src/application/use-cases/export-rounds.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Parse a UTC day (YYYY-MM-DD) to its start timestamp (ms).
+ */
+function parseDay(value: string, option: string): number {
+  const timestamp = /^\d{4}-\d{2}-\d{2}$/.test(value) ? Date.parse(`${value}T00:00:00Z`) : NaN;
+  if (Number.isNaN(timestamp)) {
+    throw new Error(`Invalid --${option} date (expected YYYY-MM-DD): ${value}`);
+  }
+  return timestamp;
+}
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      format: { type: "string", default: "csv" },
+      out: { type: "string" },
+      from: { type: "string" },
+      to: { type: "string" },
+      since: { type: "string" },
+      until: { type: "string" },
+      completed: { type: "boolean", default: false },
+      columns: { type: "string" },
+      "list-columns": { type: "boolean", default: false },
+    },
+  });
+
+  if (values["list-columns"]) {
+    for (const column of EXPORT_COLUMNS) {
+      console.log(`${column.name.padEnd(24)} ${column.type}`);
+    }
+    return;
+  }
+
+  const format = values.format as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) {
+    throw new Error(`Invalid --format (expected ${EXPORT_FORMATS.join(", ")}): ${values.format}`);
+  }
+
+  const columns = selectExportColumns(
+    (values.columns ?? "")
+      .split(",")
+      .map((name) => name.trim())
+      .filter((name) => name.length > 0)
+  );
+
+  const filters: ExportFilters = {
+    fromRoundId: values.from !== undefined ? BigInt(values.from) : undefined,
+    toRoundId: values.to !== undefined ? BigInt(values.to) : undefined,
+    fromTimestamp: values.since !== undefined ? parseDay(values.since, "since") : undefined,
+    toTimestamp: values.until !== undefined ? parseDay(values.until, "until") + DAY_MS : undefined,
+    completedOnly: values.completed,
+  };
+  const outPath = values.out ?? `./data/rounds.${format}`;
+
+  console.log("=".repeat(50));
+  console.log("ORE Collector - Dataset Export");
+  console.log("=".repeat(50));
+  console.log(`Database: ${config.DB_DRIVER === "sqlite" ? config.DB_PATH : "postgres"}`);
+
+  initLogger(config.LOG_LEVEL);
+
+  const database = await openRoundRepository({
+    driver: config.DB_DRIVER,
+    dbPath: config.DB_PATH,
+    databaseUrl: config.DATABASE_URL,
+  });
+
+  console.log(`Format:  ${format}`);
+  console.log(`Output:  ${outPath}`);
+  console.log(`Columns: ${columns.length}/${EXPORT_COLUMNS.length}`);
+
+  let rowCount = 0;
+  try {
+    const writer = await openExportWriter(format, outPath, columns);
+    try {
+      for await (const row of iterateExportRows(database.repository, columns, filters)) {
+        await writer.write(row);
+        rowCount++;
+      }
+    } finally {
+      await writer.close();
+    }
+  } finally {
+    await database.close();
+  }
+
+  console.log(`\n✅ Exported ${rowCount} rows`);
+}
+
+main().catch((error) => {
+  console.error(`❌ Export failed: ${error instanceof Error ? error.message : String(error)}`);
+  process.exit(1);
+});
@@ -0,0 +1,104 @@
+#!/usr/bin/env tsx
+/**
+ * Late-deposit ("sniping") report.
+ *
+ * Relates pre-fin tiles (deployed, miners_count, EV rank) to final ones
+ * (deployed_final, count_final): which tiles attract the most SOL after the
+ * snapshot, and how that reshuffles the EV ranking.
+ *
+ * Usage: yarn report:late-flow [--from <roundId>] [--to <roundId>] [--json]
+ */
+
+import { parseArgs } from "node:util";
+import { config } from "../src/config/index.js";
+import { initLogger } from "../src/shared/logger.js";
+import { lamportsToSol } from "../src/shared/types.js";
+import { openRoundRepository } from "../src/infrastructure/database/repository.factory.js";
+import { buildLateFlowReport } from "../src/application/use-cases/build-late-flow.js";
+import type { LateFlowStats } from "../src/domain/entities/index.js";
+
+function formatStats(stats: LateFlowStats): string {
+  return [
+    lamportsToSol(stats.avgLateDeployed).toFixed(4).padStart(10),
+    stats.avgLateMiners.toFixed(1).padStart(8),
+    `${(stats.avgLateShare * 100).toFixed(1)}%`.padStart(8),
+    `${(stats.shareOfLateFlow * 100).toFixed(1)}%`.padStart(8),
+    stats.avgEvRatio.toFixed(3).padStart(8),
+    stats.avgFinalEvRatio.toFixed(3).padStart(8),
+    stats.avgRankShift.toFixed(2).padStart(8),
+  ].join(" ");
+}
+
+const STATS_HEADER = [
+  "Late SOL".padStart(10),
+  "Miners".padStart(8),
+  "Of tile".padStart(8),
+  "Of flow".padStart(8),
+  "EV pre".padStart(8),
+  "EV final".padStart(8),
+  "Δ rank".padStart(8),
+].join(" ");
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      from: { type: "string" },
+      to: { type: "string" },
+      json: { type: "boolean", default: false },
+    },
+  });
+
+  initLogger(config.LOG_LEVEL);
+
+  const database = await openRoundRepository({
+    driver: config.DB_DRIVER,
+    dbPath: config.DB_PATH,
+    databaseUrl: config.DATABASE_URL,
+  });
+
+  try {
+    const report = await buildLateFlowReport(
+      {
+        fromRoundId: values.from !== undefined ? BigInt(values.from) : undefined,
+        toRoundId: values.to !== undefined ? BigInt(values.to) : undefined,
+      },
+      { repository: database.repository }
+    );
+
+    if (values.json) {
+      console.log(JSON.stringify(report, null, 2));
+      return;
+    }
+
+    console.log("=".repeat(50));
+    console.log("ORE Collector - Late Deposits");
+    console.log("=".repeat(50));
+    console.log(`Rounds:               ${report.rounds}`);
+    console.log(`Avg snapshot window:  ${report.avgRemainingSlots?.toFixed(1) ?? "-"} slots`);
+    console.log(`Avg late SOL / round: ${lamportsToSol(report.avgLateDeployed).toFixed(4)}`);
+    console.log(`Avg late share:       ${(report.avgLateShare * 100).toFixed(2)}% of final deployment`);
+    console.log("Δ rank = final EV rank - pre-fin EV rank (> 0: the tile lost places)\n");
+
+    console.log("📊 By tile:");
+    console.log(`  ${"Tile".padEnd(6)} ${STATS_HEADER}`);
+    const byLateFlow = [...report.byTile].sort((a, b) => b.shareOfLateFlow - a.shareOfLateFlow);
+    for (const tile of byLateFlow) {
+      console.log(`  ${String(tile.tileIndex).padEnd(6)} ${formatStats(tile)}`);
+    }
+
+    console.log("\n📊 By pre-fin EV rank:");
+    console.log(`  ${"Rank".padEnd(6)} ${STATS_HEADER}`);
+    for (const rank of report.byRank) {
+      console.log(`  ${String(rank.rankEv).padEnd(6)} ${formatStats(rank)}`);
+    }
+  } finally {
+    await database.close();
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(`❌ Report failed: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  });
@@ -0,0 +1,95 @@
+#!/usr/bin/env tsx
+/**
+ * Schema migration command.
+ *
+ * Applies pending migrations (the collector also applies them on startup).
+ * Applied versions are tracked in the `schema_migrations` table.
+ *
+ * Usage: yarn db:migrate [--status] [--dry-run]
+ * - --status:  list every migration with its applied date
+ * - --dry-run: list pending migrations without applying them
+ */
+
+import { existsSync } from "node:fs";
+import { parseArgs } from "node:util";
+import Database from "better-sqlite3";
+import { initLogger } from "../src/shared/logger.js";
+import {
+  MIGRATIONS,
+  applyMigrations,
+  getMigrationStatus,
+  getPendingMigrations,
+} from "../src/infrastructure/database/migrations/index.js";
+
+// * Default DB path
+const DB_PATH = process.env.DB_PATH || "./data/rounds.db";
+
+function formatMigration(version: number, name: string): string {
+  return `${String(version).padStart(3, "0")} ${name}`;
+}
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      status: { type: "boolean", default: false },
+      "dry-run": { type: "boolean", default: false },
+    },
+  });
+
+  console.log("=".repeat(50));
+  console.log("ORE Collector - Schema Migrations");
+  console.log("=".repeat(50));
+  console.log(`Database path: ${DB_PATH}`);
+
+  // * Check if DB exists
+  if (!existsSync(DB_PATH)) {
+    console.error("\n❌ Database file not found!");
+    console.log("Run 'yarn db:init' to create the database.");
+    process.exit(1);
+  }
+
+  initLogger("warn");
+  const db = new Database(DB_PATH);
+  db.pragma("journal_mode = WAL");
+  db.pragma("foreign_keys = ON");
+
+  if (values.status) {
+    console.log("\n📋 Migrations:");
+    for (const migration of getMigrationStatus(db, MIGRATIONS)) {
+      const state = migration.appliedAt !== null
+        ? `✅ ${new Date(migration.appliedAt).toISOString()}`
+        : "⏳ pending";
+      console.log(`  ${formatMigration(migration.version, migration.name).padEnd(30)} ${state}`);
+    }
+    db.close();
+    return;
+  }
+
+  const pending = getPendingMigrations(db, MIGRATIONS);
+  if (pending.length === 0) {
+    console.log("\n✅ Schema is up to date");
+    db.close();
+    return;
+  }
+
+  console.log(`\n⏳ Pending migrations (${pending.length}):`);
+  for (const migration of pending) {
+    console.log(`  ${formatMigration(migration.version, migration.name)}`);
+  }
+
+  if (values["dry-run"]) {
+    console.log("\n🔍 Dry run: nothing applied");
+    db.close();
+    return;
+  }
+
+  const applied = applyMigrations(db, MIGRATIONS);
+  console.log(`\n✅ Applied ${applied.length} migrations`);
+
+  db.close();
+}
+
+main().catch((error) => {
+  console.error(`Fatal error: ${error instanceof Error ? error.message : String(error)}`);
+  process.exit(1);
+});
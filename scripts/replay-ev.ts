@@ -0,0 +1,114 @@
+#!/usr/bin/env tsx
+/**
+ * EV replay script.
+ *
+ * Re-runs the EV calculation over stored pre-fin snapshots with alternative
+ * model parameters and stores the results in ev_replay_tiles (live tiles are untouched).
+ * Re-running with the same name replaces the previous results.
+ *
+ * Usage: yarn db:replay --name <name> [--fee-factor <f>] [--motherlode-probability <p>]
+ *          [--min-stake <sol>] [--exposure <sol>] [--from <roundId>] [--to <roundId>]
+ *   Unset parameters default to the live collection parameters.
+ */
+
+import { parseArgs } from "node:util";
+import { config } from "../src/config/index.js";
+import { initLogger } from "../src/shared/logger.js";
+import { openRoundRepository } from "../src/infrastructure/database/repository.factory.js";
+import { DEFAULT_EV_PARAMETERS } from "../src/application/services/ev-calculator.js";
+import { replayEv } from "../src/application/use-cases/replay-ev.js";
+import type { EvParameters } from "../src/domain/entities/index.js";
+
+/**
+ * Parse a non-negative number option.
+ */
+function parseNumber(value: string | undefined, option: string, fallback: number): number {
+  if (value === undefined) {
+    return fallback;
+  }
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    throw new Error(`Invalid --${option} (expected a non-negative number): ${value}`);
+  }
+  return parsed;
+}
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      name: { type: "string" },
+      "fee-factor": { type: "string" },
+      "motherlode-probability": { type: "string" },
+      "min-stake": { type: "string" },
+      exposure: { type: "string" },
+      from: { type: "string" },
+      to: { type: "string" },
+    },
+  });
+
+  console.log("=".repeat(50));
+  console.log("ORE Collector - EV Replay");
+  console.log("=".repeat(50));
+
+  if (!values.name) {
+    console.error("❌ Missing --name <name>");
+    process.exit(1);
+  }
+
+  const parameters: EvParameters = {
+    feeFactor: parseNumber(values["fee-factor"], "fee-factor", DEFAULT_EV_PARAMETERS.feeFactor),
+    motherlodeProbability: parseNumber(
+      values["motherlode-probability"],
+      "motherlode-probability",
+      DEFAULT_EV_PARAMETERS.motherlodeProbability
+    ),
+    minStakeSol: parseNumber(values["min-stake"], "min-stake", DEFAULT_EV_PARAMETERS.minStakeSol),
+    exposureSol: parseNumber(values.exposure, "exposure", DEFAULT_EV_PARAMETERS.exposureSol),
+  };
+  if (parameters.feeFactor > 1 || parameters.motherlodeProbability > 1) {
+    throw new Error("--fee-factor and --motherlode-probability must be between 0 and 1");
+  }
+
+  initLogger(config.LOG_LEVEL);
+
+  const database = await openRoundRepository({
+    driver: config.DB_DRIVER,
+    dbPath: config.DB_PATH,
+    databaseUrl: config.DATABASE_URL,
+  });
+
+  try {
+    console.log(`Database: ${config.DB_DRIVER === "sqlite" ? config.DB_PATH : "postgres"}`);
+    console.log(`Replay:   ${values.name}`);
+    console.log(`Fee factor:             ${parameters.feeFactor}`);
+    console.log(`Motherlode probability: ${parameters.motherlodeProbability}`);
+    console.log(`Min stake (SOL):        ${parameters.minStakeSol}`);
+    console.log(`Exposure (SOL):         ${parameters.exposureSol}\n`);
+
+    const result = await replayEv(
+      {
+        name: values.name,
+        parameters,
+        fromRoundId: values.from !== undefined ? BigInt(values.from) : undefined,
+        toRoundId: values.to !== undefined ? BigInt(values.to) : undefined,
+      },
+      { repository: database.repository }
+    );
+
+    console.log("\n📊 Replay Summary:");
+    console.log(`  Scanned:         ${result.scanned}`);
+    console.log(`  Replayed:        ${result.replayed}`);
+    console.log(`  No pre-fin data: ${result.skippedNoPreFin}`);
+
+    console.log("\n✅ Replay complete!");
+  } finally {
+    await database.close();
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(`❌ Replay failed: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  });
@@ -0,0 +1,175 @@
+#!/usr/bin/env tsx
+/**
+ * RNG fairness statistics.
+ *
+ * Checks that stored slot hashes behave as rng-calculator assumes: uniform
+ * winning tile (chi-square), split top miner 1/2, motherlode 1/625, overall
+ * and over rolling windows. Exits with code 1 when a check fails, for cron/CI.
+ *
+ * Usage: yarn stats:rng [--from <roundId>] [--to <roundId>] [--window <rounds>]
+ *          [--step <rounds>] [--alpha <p>] [--json]
+ * - --window: rounds per rolling window (default: 1000, 0 disables windows)
+ * - --step:   rounds between window starts (default: --window)
+ * - --alpha:  significance level (default: 0.001, Bonferroni-corrected for windows)
+ */
+
+import { parseArgs } from "node:util";
+import { config } from "../src/config/index.js";
+import { initLogger } from "../src/shared/logger.js";
+import { openRoundRepository } from "../src/infrastructure/database/repository.factory.js";
+import { buildRngFairness } from "../src/application/use-cases/build-rng-fairness.js";
+import type { ProportionTest, RngFairnessStats } from "../src/application/services/rng-fairness.js";
+
+function parseCount(value: string | undefined, option: string, fallback: number): number {
+  if (value === undefined) {
+    return fallback;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`Invalid --${option} (expected a non-negative integer): ${value}`);
+  }
+  return parsed;
+}
+
+function formatRate(rate: number): string {
+  return `${(rate * 100).toFixed(3)}%`;
+}
+
+function formatProportion(test: ProportionTest): string {
+  return (
+    `${test.successes}/${test.trials} = ${formatRate(test.rate)} ` +
+    `[${formatRate(test.ciLow)}, ${formatRate(test.ciHigh)}] ` +
+    `expected ${formatRate(test.expectedRate)}, p=${test.pValue.toPrecision(3)}`
+  );
+}
+
+/**
+ * Tests of a round set that reject the RNG assumptions at the given level.
+ */
+function failedTests(stats: RngFairnessStats, alpha: number): string[] {
+  const failed: string[] = [];
+  if (stats.winningTile.pValue < alpha) {
+    failed.push("winning tile uniformity");
+  }
+  if (stats.split.pValue < alpha) {
+    failed.push("split frequency");
+  }
+  if (stats.motherlode.pValue < alpha) {
+    failed.push("motherlode frequency");
+  }
+  return failed;
+}
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      from: { type: "string" },
+      to: { type: "string" },
+      window: { type: "string" },
+      step: { type: "string" },
+      alpha: { type: "string", default: "0.001" },
+      json: { type: "boolean", default: false },
+    },
+  });
+
+  const windowSize = parseCount(values.window, "window", 1000);
+  const windowStep = parseCount(values.step, "step", windowSize);
+  const alpha = Number(values.alpha);
+  if (!(alpha > 0 && alpha < 1)) {
+    throw new Error(`Invalid --alpha (expected 0 < alpha < 1): ${values.alpha}`);
+  }
+
+  initLogger(config.LOG_LEVEL);
+
+  const database = await openRoundRepository({
+    driver: config.DB_DRIVER,
+    dbPath: config.DB_PATH,
+    databaseUrl: config.DATABASE_URL,
+  });
+
+  let failures: string[];
+  try {
+    const report = await buildRngFairness(
+      {
+        fromRoundId: values.from !== undefined ? BigInt(values.from) : undefined,
+        toRoundId: values.to !== undefined ? BigInt(values.to) : undefined,
+        windowSize,
+        windowStep,
+      },
+      { repository: database.repository }
+    );
+
+    const windowAlpha = alpha / Math.max(report.windows.length, 1);
+    const flaggedWindows = report.windows.filter(
+      (window) => failedTests(window, windowAlpha).length > 0
+    );
+
+    failures = failedTests(report, alpha);
+    if (report.winningTileMismatches > 0) {
+      failures.push(`${report.winningTileMismatches} stored winning tiles differ from the slot hash`);
+    }
+    if (report.splitMismatches > 0) {
+      failures.push(`${report.splitMismatches} on-chain splits differ from shouldSplitReward`);
+    }
+    if (flaggedWindows.length > 0) {
+      failures.push(`${flaggedWindows.length} window(s) rejected`);
+    }
+
+    if (values.json) {
+      console.log(
+        JSON.stringify(
+          { ...report, alpha, failures },
+          (_key, value: unknown) => (typeof value === "bigint" ? value.toString() : value),
+          2
+        )
+      );
+    } else {
+      console.log("=".repeat(50));
+      console.log("ORE Collector - RNG Fairness");
+      console.log("=".repeat(50));
+      const range = `${report.fromRoundId ?? "-"} → ${report.toRoundId ?? "-"}`;
+      console.log(`Rounds with slot hash: ${report.rounds} (${range})`);
+
+      console.log("\n📊 Winning tile (uniform, expected 4%):");
+      console.log(
+        `  chi²=${report.winningTile.chiSquare.toFixed(2)} ` +
+          `(df=${report.winningTile.degreesOfFreedom}), p=${report.winningTile.pValue.toPrecision(3)}`
+      );
+      report.tiles.forEach((tile, index) => {
+        const rate = `${formatRate(tile.rate)} [${formatRate(tile.ciLow)}, ${formatRate(tile.ciHigh)}]`;
+        console.log(`  Tile ${String(index).padStart(2)}: ${String(tile.successes).padStart(7)}  ${rate}`);
+      });
+
+      console.log("\n📊 Split top miner (shouldSplitReward):");
+      console.log(`  ${formatProportion(report.split)}`);
+      console.log(`  Mismatches with on-chain top miner: ${report.splitMismatches}`);
+
+      console.log("\n📊 Motherlode (isMotherlodeTriggered):");
+      console.log(`  ${formatProportion(report.motherlode)}`);
+
+      console.log(`\n📊 Windows: ${report.windows.length} × ${windowSize} rounds (step ${windowStep})`);
+      console.log(`  Rejected at α=${windowAlpha.toPrecision(3)}: ${flaggedWindows.length}`);
+      for (const window of flaggedWindows) {
+        console.log(
+          `  ⚠️  ${window.fromRoundId} → ${window.toRoundId}: ${failedTests(window, windowAlpha).join(", ")}`
+        );
+      }
+
+      console.log(`\nWinning tile mismatches: ${report.winningTileMismatches}`);
+      if (failures.length === 0) {
+        console.log(`\n✅ RNG consistent with rng-calculator (α=${alpha})`);
+      } else {
+        console.log(`\n❌ RNG checks failed (α=${alpha}): ${failures.join("; ")}`);
+      }
+    }
+  } finally {
+    await database.close();
+  }
+
+  process.exit(failures.length === 0 ? 0 : 1);
+}
+
+main().catch((error) => {
+  console.error(`❌ RNG stats failed: ${error instanceof Error ? error.message : String(error)}`);
+  process.exit(1);
+});
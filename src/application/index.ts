@@ -1,4 +1,9 @@
-export { Orchestrator, type OrchestratorConfig } from "./orchestrator.js";
+export {
+  Orchestrator,
+  type OrchestratorConfig,
+  type OrchestratorStatus,
+  type PhaseSuccess,
+} from "./orchestrator.js";
 export * from "./use-cases/index.js";
 export * from "./services/index.js";
 
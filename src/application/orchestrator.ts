@@ -5,6 +5,9 @@
  * - Phase 1 (~15 slots): Fetch prices and mining cost (stable data)
  * - Phase 2 (~5 slots): Fetch board state and calculate EV (volatile data, like smart-bot)
  *
+ * Optional snapshot series: board state + EV at each configured offset (e.g. 40, 20, 10, 2 slots).
+ * Optional miner watchlist: per-tile deployment and rewards of given authorities at post-fin.
+ *
  * Wires together:
  * - Board watcher (triggers)
  * - Use cases (pre-fin, post-fin)
@@ -12,6 +15,7 @@
  * - Notifier (alerts)
  */
 
+import type { PublicKey } from "@solana/web3.js";
 import type { BoardAccount } from "../infrastructure/solana/decoders/board.decoder.js";
 import type { PriceQuote } from "../domain/entities/price.entity.js";
 import type { MiningCostData } from "../domain/entities/mining-cost.entity.js";
@@ -22,13 +26,50 @@ import { JupiterPriceFetcher } from "../infrastructure/fetchers/jupiter-price.fe
 import { MiningCostFetcher } from "../infrastructure/fetchers/mining-cost.fetcher.js";
 import { collectPreFin, type CachedPhase1Data } from "./use-cases/collect-pre-fin.js";
 import { completePostFin, completePendingRounds } from "./use-cases/complete-post-fin.js";
+import { captureBoardSnapshot } from "./use-cases/capture-board-snapshot.js";
 import { getLogger } from "../shared/logger.js";
 
 const logger = getLogger().child("Orchestrator");
 
+// * Max age of the last known price reused for snapshot series EV
+const SNAPSHOT_PRICE_MAX_AGE_MS = 5 * 60_000;
+
 export interface OrchestratorConfig {
   preFinThresholdSlots: number;
   evSnapshotSlots: number;
+  /** Extra snapshot offsets (slots before round end) */
+  snapshotOffsets: number[];
+  /** Miner authorities recorded at post-fin */
+  minerWatchlist: PublicKey[];
+  /** Check post-fin slot hashes against the SlotHashes sysvar */
+  verifySlotHash: boolean;
+}
+
+/**
+ * Last successful completion of a collection phase.
+ */
+export interface PhaseSuccess {
+  roundId: bigint;
+  /** Completion timestamp (ms) */
+  at: number;
+}
+
+/**
+ * Snapshot of the orchestrator and board watcher state.
+ */
+export interface OrchestratorStatus {
+  currentRoundId: bigint | null;
+  phase1InFlight: number;
+  phase2InFlight: number;
+  postFinInFlight: number;
+  hasCachedPrices: boolean;
+  watcherRunning: boolean;
+  /** Last WebSocket board update (ms), null if none yet */
+  lastWsUpdateAt: number | null;
+  /** Last processed board state from WS or HTTP (ms), null if none yet */
+  lastBoardUpdateAt: number | null;
+  lastPreFin: PhaseSuccess | null;
+  lastPostFin: PhaseSuccess | null;
 }
 
 /**
@@ -49,10 +90,18 @@ export class Orchestrator {
   // * Phase 1 cache - prices and mining cost fetched early
   private phase1Cache: Phase1Cache | null = null;
 
+  // * Latest price quote, reused by snapshot series
+  private lastPriceQuote: PriceQuote | null = null;
+
   // * Track in-flight operations to prevent duplicates
   private phase1InFlight = new Set<string>();
   private phase2InFlight = new Set<string>();
   private postFinInFlight = new Set<string>();
+  private snapshotInFlight = new Set<string>();
+
+  // * Last successful rounds (exposed via status)
+  private lastPreFin: PhaseSuccess | null = null;
+  private lastPostFin: PhaseSuccess | null = null;
 
   constructor(
     private readonly config: OrchestratorConfig,
@@ -70,6 +119,7 @@ export class Orchestrator {
     await completePendingRounds({
       repository: this.repository,
       notifier: this.notifier,
+      verifySlotHash: this.config.verifySlotHash,
     });
 
     // * Create board watcher with two-phase event handlers
@@ -77,8 +127,11 @@ export class Orchestrator {
       onPricesFetchTrigger: (board, remainingSlots, currentSlot) => {
         this.handlePhase1PricesFetch(board, remainingSlots, currentSlot);
       },
-      onEvSnapshotTrigger: (board, remainingSlots, currentSlot) => {
-        this.handlePhase2EvSnapshot(board, remainingSlots, currentSlot);
+      onEvSnapshotTrigger: (board, remainingSlots, currentSlot, targetSlot) => {
+        this.handlePhase2EvSnapshot(board, remainingSlots, currentSlot, targetSlot);
+      },
+      onBoardSnapshotTrigger: (board, targetSlots, _remainingSlots, currentSlot) => {
+        this.handleBoardSnapshot(board, targetSlots, currentSlot);
       },
       onPostFinTrigger: (previousRoundId, newBoard) => {
         this.handlePostFinTrigger(previousRoundId, newBoard);
@@ -95,6 +148,7 @@ export class Orchestrator {
     this.boardWatcher = new BoardWatcher(
       this.config.preFinThresholdSlots,
       this.config.evSnapshotSlots,
+      this.config.snapshotOffsets,
       events
     );
     await this.boardWatcher.start();
@@ -118,13 +172,17 @@ export class Orchestrator {
     const startWait = Date.now();
 
     while (
-      (this.phase1InFlight.size > 0 || this.phase2InFlight.size > 0 || this.postFinInFlight.size > 0) &&
+      (this.phase1InFlight.size > 0 ||
+        this.phase2InFlight.size > 0 ||
+        this.postFinInFlight.size > 0 ||
+        this.snapshotInFlight.size > 0) &&
       Date.now() - startWait < maxWaitMs
     ) {
       logger.debug("Waiting for in-flight operations", {
         phase1: this.phase1InFlight.size,
         phase2: this.phase2InFlight.size,
         postFin: this.postFinInFlight.size,
+        snapshots: this.snapshotInFlight.size,
       });
       await new Promise((resolve) => setTimeout(resolve, 500));
     }
@@ -181,6 +239,7 @@ export class Orchestrator {
     ]);
 
     // * Cache for Phase 2
+    this.lastPriceQuote = priceQuote;
     this.phase1Cache = {
       roundId,
       priceQuote,
@@ -203,7 +262,8 @@ export class Orchestrator {
   private handlePhase2EvSnapshot(
     board: BoardAccount,
     remainingSlots: number,
-    currentSlot: bigint
+    currentSlot: bigint,
+    targetSlot: bigint
   ): void {
     const roundId = board.roundId.toString();
 
@@ -220,15 +280,21 @@ export class Orchestrator {
 
     // * Execute async without blocking
     collectPreFin(
-      { board, remainingSlots, currentSlot },
+      { board, remainingSlots, currentSlot, targetSlot },
       {
         repository: this.repository,
         notifier: this.notifier,
         priceFetcher: this.priceFetcher,
         miningCostFetcher: this.miningCostFetcher,
+        pushedRoundState: (roundId) => this.boardWatcher?.getPushedRoundState(roundId) ?? null,
       },
       cachedData
     )
+      .then((success) => {
+        if (success) {
+          this.lastPreFin = { roundId: board.roundId, at: Date.now() };
+        }
+      })
       .catch((error) => {
         logger.error("Phase 2 EV snapshot failed", {
           roundId,
@@ -258,6 +324,58 @@ export class Orchestrator {
     return undefined;
   }
 
+  /**
+   * Snapshot series: capture board state + EV at a configured offset.
+   */
+  private handleBoardSnapshot(board: BoardAccount, targetSlots: number, triggerSlot: bigint): void {
+    const key = `${board.roundId.toString()}:${targetSlots}`;
+
+    // * Prevent duplicate operations
+    if (this.snapshotInFlight.has(key)) {
+      logger.debug("Snapshot already in flight, skipping", { key });
+      return;
+    }
+
+    this.snapshotInFlight.add(key);
+
+    // * Execute async without blocking
+    this.resolveSnapshotPrice(board.roundId)
+      .then((priceQuote) =>
+        captureBoardSnapshot(
+          { board, targetSlots, triggerSlot },
+          { repository: this.repository },
+          priceQuote
+        )
+      )
+      .catch((error) => {
+        logger.warn("Snapshot price unavailable", {
+          roundId: board.roundId.toString(),
+          targetSlots,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      })
+      .finally(() => {
+        this.snapshotInFlight.delete(key);
+      });
+  }
+
+  /**
+   * Price for snapshot EV: Phase 1 cache, else a recent quote, else a fresh fetch.
+   */
+  private async resolveSnapshotPrice(roundId: bigint): Promise<PriceQuote> {
+    if (this.phase1Cache?.roundId === roundId) {
+      return this.phase1Cache.priceQuote;
+    }
+
+    if (this.lastPriceQuote && Date.now() - this.lastPriceQuote.fetchedAt <= SNAPSHOT_PRICE_MAX_AGE_MS) {
+      return this.lastPriceQuote;
+    }
+
+    const priceQuote = await this.priceFetcher.fetch();
+    this.lastPriceQuote = priceQuote;
+    return priceQuote;
+  }
+
   /**
    * Handle post-fin trigger from board watcher.
    */
@@ -278,8 +396,15 @@ export class Orchestrator {
       {
         repository: this.repository,
         notifier: this.notifier,
+        minerWatchlist: this.config.minerWatchlist,
+        verifySlotHash: this.config.verifySlotHash,
       }
     )
+      .then((success) => {
+        if (success) {
+          this.lastPostFin = { roundId: previousRoundId, at: Date.now() };
+        }
+      })
       .catch((error) => {
         logger.error("Unhandled error in post-fin completion", {
           roundId,
@@ -294,19 +419,18 @@ export class Orchestrator {
   /**
    * Get current status.
    */
-  getStatus(): {
-    currentRoundId: bigint | null;
-    phase1InFlight: number;
-    phase2InFlight: number;
-    postFinInFlight: number;
-    hasCachedPrices: boolean;
-  } {
+  getStatus(): OrchestratorStatus {
     return {
       currentRoundId: this.boardWatcher?.getCurrentBoard()?.roundId ?? null,
       phase1InFlight: this.phase1InFlight.size,
       phase2InFlight: this.phase2InFlight.size,
       postFinInFlight: this.postFinInFlight.size,
       hasCachedPrices: this.phase1Cache !== null,
+      watcherRunning: this.boardWatcher?.isActive() ?? false,
+      lastWsUpdateAt: this.boardWatcher?.getLastWsUpdate() ?? null,
+      lastBoardUpdateAt: this.boardWatcher?.getLastBoardUpdate() ?? null,
+      lastPreFin: this.lastPreFin,
+      lastPostFin: this.lastPostFin,
     };
   }
 }
@@ -0,0 +1,188 @@
+/**
+ * Backtester - simulates a staking strategy on stored rounds.
+ *
+ * Stakes are chosen from the pre-fin snapshot (EV ranks, max profitable stakes)
+ * and settled against the final board, as if they had been placed at pre-fin
+ * and every later deposit had still happened:
+ * - Winning tile: stake back + pro rata share of the winnings, which also grow
+ *   by our losing stakes (at the round's observed winnings / losers ratio)
+ * - ORE: pro rata share of the top miner reward (expected value when not split)
+ *   and of the motherlode when it was hit
+ * - ORE is valued at the stored pre-fin price, net of the EV model fee factor
+ */
+
+import type {
+  BacktestRoundResult,
+  BacktestStrategy,
+  BacktestSummary,
+  RoundRecord,
+  TileRecord,
+} from "../../domain/entities/index.js";
+import { DEFAULT_EV_PARAMETERS } from "./ev-calculator.js";
+import { lamportsToSol, ORE_DECIMALS, solToLamports } from "../../shared/types.js";
+
+/**
+ * Stake placed on one tile (lamports).
+ */
+export interface Bet {
+  tileIndex: number;
+  stake: bigint;
+}
+
+/**
+ * Outcome of a set of stakes in a finished round.
+ */
+export type Settlement = Omit<BacktestRoundResult, "roundId" | "tiles">;
+
+/**
+ * Pick the tiles and stakes of a strategy from a round's pre-fin tiles.
+ */
+function selectBets(tiles: TileRecord[], strategy: BacktestStrategy): Bet[] {
+  const cap = strategy.stakeSol > 0 ? solToLamports(strategy.stakeSol) : null;
+  const bets: Bet[] = [];
+
+  for (const tile of tiles) {
+    if (tile.rankEv === null || tile.evRatio === null || tile.maxProfitable === null) {
+      continue;
+    }
+    if (tile.rankEv > strategy.topN || tile.evRatio <= strategy.minEvRatio) {
+      continue;
+    }
+
+    let stake: bigint;
+    if (strategy.stakeMode === "fixed") {
+      stake = cap ?? 0n;
+    } else {
+      stake = cap !== null && tile.maxProfitable > cap ? cap : tile.maxProfitable;
+    }
+
+    if (stake > 0n) {
+      bets.push({ tileIndex: tile.tileIndex, stake });
+    }
+  }
+
+  return bets;
+}
+
+/**
+ * Whether a round has everything the simulation needs
+ * (pre-fin snapshot, post-fin results and final tiles).
+ */
+export function isBacktestable(round: RoundRecord, tiles: TileRecord[]): boolean {
+  return (
+    !round.backfilled &&
+    round.priceOreSol !== null &&
+    round.winningTile !== null &&
+    round.totalWinnings !== null &&
+    tiles.length === 25 &&
+    tiles.every((tile) => tile.rankEv !== null && tile.deployedFinal !== null)
+  );
+}
+
+/**
+ * Simulate a strategy on one round.
+ * The round must be backtestable (see isBacktestable).
+ * @returns null if the strategy doesn't stake in this round
+ */
+export function simulateRound(
+  round: RoundRecord,
+  tiles: TileRecord[],
+  strategy: BacktestStrategy
+): BacktestRoundResult | null {
+  const bets = selectBets(tiles, strategy);
+  if (bets.length === 0) {
+    return null;
+  }
+
+  return {
+    roundId: round.roundId,
+    tiles: bets.map((bet) => bet.tileIndex),
+    ...settleBets(round, tiles, bets),
+  };
+}
+
+/**
+ * Settle stakes placed at pre-fin against the final board of a backtestable round.
+ */
+export function settleBets(round: RoundRecord, tiles: TileRecord[], bets: Bet[]): Settlement {
+  const winningTile = round.winningTile!;
+  const totalWinnings = round.totalWinnings!;
+  const finalDeployed = tiles.map((tile) => tile.deployedFinal!);
+  const winningDeployed = finalDeployed[winningTile];
+  const losersDeployed =
+    finalDeployed.reduce((acc, deployed) => acc + deployed, 0n) - winningDeployed;
+
+  const staked = bets.reduce((acc, bet) => acc + bet.stake, 0n);
+  const winningStake = bets.find((bet) => bet.tileIndex === winningTile)?.stake ?? 0n;
+
+  let returnedSol = 0n;
+  let rewardsOre = 0n;
+
+  if (winningStake > 0n) {
+    // * Our losing stakes join the pot, minus the same cut as the observed losers
+    const losingStake = staked - winningStake;
+    const winnings =
+      losersDeployed > 0n
+        ? totalWinnings + (losingStake * totalWinnings) / losersDeployed
+        : totalWinnings;
+    const tileTotal = winningDeployed + winningStake;
+
+    returnedSol = winningStake + (winnings * winningStake) / tileTotal;
+    rewardsOre =
+      (((round.topMinerReward ?? 0n) + (round.motherlodePaid ?? 0n)) * winningStake) / tileTotal;
+  }
+
+  const oreValueSol =
+    (Number(rewardsOre) / ORE_DECIMALS) * round.priceOreSol! * DEFAULT_EV_PARAMETERS.feeFactor;
+
+  return {
+    staked,
+    won: winningStake > 0n,
+    returnedSol,
+    rewardsOre,
+    pnlSol: lamportsToSol(returnedSol - staked) + oreValueSol,
+  };
+}
+
+/**
+ * Aggregate simulated rounds (in round order) into a summary.
+ */
+export function summarizeBacktest(
+  strategy: BacktestStrategy,
+  roundsScanned: number,
+  results: BacktestRoundResult[]
+): BacktestSummary {
+  let staked = 0n;
+  let returned = 0n;
+  let rewardsOre = 0n;
+  let pnlSol = 0;
+  let peakPnlSol = 0;
+  let maxDrawdownSol = 0;
+  let roundsWon = 0;
+
+  for (const result of results) {
+    staked += result.staked;
+    returned += result.returnedSol;
+    rewardsOre += result.rewardsOre;
+    roundsWon += result.won ? 1 : 0;
+
+    pnlSol += result.pnlSol;
+    peakPnlSol = Math.max(peakPnlSol, pnlSol);
+    maxDrawdownSol = Math.max(maxDrawdownSol, peakPnlSol - pnlSol);
+  }
+
+  const stakedSol = lamportsToSol(staked);
+
+  return {
+    strategy,
+    roundsScanned,
+    roundsPlayed: results.length,
+    roundsWon,
+    stakedSol,
+    returnedSol: lamportsToSol(returned),
+    rewardsOre: Number(rewardsOre) / ORE_DECIMALS,
+    pnlSol,
+    roi: stakedSol > 0 ? pnlSol / stakedSol : 0,
+    maxDrawdownSol,
+  };
+}
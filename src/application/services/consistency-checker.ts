@@ -0,0 +1,83 @@
+/**
+ * Consistency Checker - cross-checks stored post-fin data against the on-chain Round account.
+ *
+ * Post-fin derives winning tile, winners and split from the slot hash, and copies
+ * the final board. Reading the stored round back and comparing it with the account
+ * catches decoding, derivation and persistence errors:
+ * - sum(deployed_final) == total_deployed
+ * - num_winners == counts[winning_tile]
+ * - top miner = split address <=> shouldSplitReward(slot_hash), when the winning tile had miners
+ * - total_winnings + total_vaulted <= SOL deployed on the losing tiles (fees are kept on-chain)
+ */
+
+import type { RoundAnomaly, RoundRecord, TileRecord } from "../../domain/entities/index.js";
+import type { RoundAccount } from "../../infrastructure/solana/decoders/round.decoder.js";
+import { isSlotHashValid } from "../../infrastructure/solana/decoders/round.decoder.js";
+import { shouldSplitReward } from "./rng-calculator.js";
+
+function formatValue(value: bigint | boolean | null): string {
+  return value === null ? "null" : value.toString();
+}
+
+/**
+ * Failed checks of a stored round against its on-chain account.
+ * @param tiles - Stored tiles of the round
+ * @param detectedAt - Timestamp recorded on the anomalies (ms)
+ */
+export function findRoundAnomalies(
+  round: RoundRecord,
+  tiles: TileRecord[],
+  onChain: RoundAccount,
+  detectedAt: number
+): RoundAnomaly[] {
+  const anomalies: RoundAnomaly[] = [];
+  const report = (
+    check: RoundAnomaly["check"],
+    expected: bigint | boolean | string,
+    actual: bigint | boolean | null
+  ): void => {
+    anomalies.push({
+      roundId: round.roundId,
+      check,
+      expected: expected.toString(),
+      actual: formatValue(actual),
+      detectedAt,
+    });
+  };
+
+  // * Final board
+  const storedDeployed = tiles.reduce((sum, tile) => sum + (tile.deployedFinal ?? 0n), 0n);
+  if (tiles.length !== 25 || storedDeployed !== onChain.totalDeployed) {
+    report("deployed_total", onChain.totalDeployed, storedDeployed);
+  }
+
+  if (round.winningTile === null) {
+    return anomalies;
+  }
+
+  // * Winners
+  const winners = onChain.counts[round.winningTile];
+  if (round.numWinners !== winners) {
+    report("num_winners", winners, round.numWinners);
+  }
+
+  // * Split (no top miner without winners)
+  if (round.slotHash && isSlotHashValid(round.slotHash) && winners > 0n) {
+    const split = shouldSplitReward(round.slotHash);
+    if (round.splitTopMiner !== split) {
+      report("split_top_miner", split, round.splitTopMiner);
+    }
+  }
+
+  // * Payouts come out of the losing tiles
+  const losingDeployed = onChain.totalDeployed - onChain.deployed[round.winningTile];
+  const payout =
+    round.totalWinnings !== null && round.totalVaulted !== null
+      ? round.totalWinnings + round.totalVaulted
+      : null;
+  if (payout === null || payout > losingDeployed) {
+    report("payout_total", `<=${losingDeployed}`, payout);
+  }
+
+  return anomalies;
+}
@@ -10,13 +10,30 @@
 
 import type { RoundAccount } from "../../infrastructure/solana/decoders/round.decoder.js";
 import type { PriceQuote } from "../../domain/entities/price.entity.js";
+import type { EvParameters } from "../../domain/entities/ev-replay.entity.js";
 import { lamportsToSol, ORE_DECIMALS } from "../../shared/types.js";
 
 // * Constants EXACTLY matching smart-bot/src/core/ev-strategy.ts lines 6-10
 const PROBABILITY_OF_WIN = 1 / 25;
 const SOL_PAYOUT_FEE_FACTOR = 0.9;
 const MOTHERLODE_TRIGGER_PROBABILITY = 1 / 625;
-const EV_DENOMINATOR = 1 - PROBABILITY_OF_WIN * SOL_PAYOUT_FEE_FACTOR; // 0.964
+const MIN_STAKE_SOL = 0.001;
+
+/**
+ * Live collection parameters (observer: no existing exposure).
+ * Replays override them to recompute history under other program parameters.
+ */
+export const DEFAULT_EV_PARAMETERS: EvParameters = {
+  feeFactor: SOL_PAYOUT_FEE_FACTOR,
+  motherlodeProbability: MOTHERLODE_TRIGGER_PROBABILITY,
+  minStakeSol: MIN_STAKE_SOL,
+  exposureSol: 0,
+};
+
+/**
+ * Round fields the EV model reads (a decoded Round account or stored data).
+ */
+export type EvRoundInput = Pick<RoundAccount, "deployed" | "counts" | "motherlode">;
 
 /**
  * EV calculation result for a single tile.
@@ -37,11 +54,15 @@ export interface TileEvResult {
  * smart-bot uses priceQuote.netOreValueInSol which is orePriceInSol * 0.9
  * We calculate the same: oreSol * 0.9
  */
-function computeNetOreValueSol(round: RoundAccount, priceQuote: PriceQuote): number {
+function computeNetOreValueSol(
+  round: EvRoundInput,
+  priceQuote: PriceQuote,
+  params: EvParameters
+): number {
   const motherlodeOre = Number(round.motherlode) / ORE_DECIMALS;
   // * netOreValueInSol = oreSol * 0.9 (same as smart-bot's price-oracle.ts line 90)
-  const netOreValueInSol = priceQuote.oreSol * SOL_PAYOUT_FEE_FACTOR;
-  return netOreValueInSol * (1 + MOTHERLODE_TRIGGER_PROBABILITY * Math.max(motherlodeOre, 0));
+  const netOreValueInSol = priceQuote.oreSol * params.feeFactor;
+  return netOreValueInSol * (1 + params.motherlodeProbability * Math.max(motherlodeOre, 0));
 }
 
 /**
@@ -50,7 +71,7 @@ function computeNetOreValueSol(round: RoundAccount, priceQuote: PriceQuote): num
  * NOTE: smart-bot subtracts its own miner stakes (computePotFromOthersLamports).
  * As an observer with NO stake, potFromOthers = total deployed (everything is "others").
  */
-function computePotFromOthers(round: RoundAccount): bigint {
+function computePotFromOthers(round: EvRoundInput): bigint {
   return round.deployed.reduce((acc, deployed) => acc + deployed, 0n);
 }
 
@@ -67,8 +88,10 @@ function computeEvRatio(params: {
   exposureBeforeSol: number;
   stakeSol: number;
   netOreValueSol: number;
+  feeFactor: number;
 }): number {
-  const { othersStakeSol, potFromOthersSol, exposureBeforeSol, stakeSol, netOreValueSol } = params;
+  const { othersStakeSol, potFromOthersSol, exposureBeforeSol, stakeSol, netOreValueSol, feeFactor } =
+    params;
   const denominator = othersStakeSol + stakeSol;
 
   if (denominator <= 0) {
@@ -78,7 +101,7 @@ function computeEvRatio(params: {
   // * EXACT formula from smart-bot lines 74-76
   const numerator =
     PROBABILITY_OF_WIN *
-    (SOL_PAYOUT_FEE_FACTOR * (potFromOthersSol + exposureBeforeSol + stakeSol) + netOreValueSol);
+    (feeFactor * (potFromOthersSol + exposureBeforeSol + stakeSol) + netOreValueSol);
 
   return numerator / denominator;
 }
@@ -94,19 +117,22 @@ function solveMaxProfitableStake(params: {
   potFromOthersSol: number;
   exposureBeforeSol: number;
   netOreValueSol: number;
+  feeFactor: number;
 }): number {
-  const { othersStakeSol, potFromOthersSol, exposureBeforeSol, netOreValueSol } = params;
+  const { othersStakeSol, potFromOthersSol, exposureBeforeSol, netOreValueSol, feeFactor } = params;
 
   // * EXACT formula from smart-bot lines 87-89
   const numerator =
-    PROBABILITY_OF_WIN * (SOL_PAYOUT_FEE_FACTOR * (potFromOthersSol + exposureBeforeSol) + netOreValueSol) -
+    PROBABILITY_OF_WIN * (feeFactor * (potFromOthersSol + exposureBeforeSol) + netOreValueSol) -
     othersStakeSol;
 
   if (numerator <= 0) {
     return 0;
   }
 
-  return numerator / EV_DENOMINATOR;
+  // * 0.964 with the default fee factor
+  const denominator = 1 - PROBABILITY_OF_WIN * feeFactor;
+  return numerator / denominator;
 }
 
 
@@ -120,19 +146,21 @@ function solveMaxProfitableStake(params: {
  *
  * @param round - Round account data
  * @param priceQuote - Current price quote
+ * @param params - Model parameters (defaults to the live collection parameters)
  * @returns Array of tile EV results (unsorted)
  */
 export function calculateAllTileEvs(
-  round: RoundAccount,
-  priceQuote: PriceQuote
+  round: EvRoundInput,
+  priceQuote: PriceQuote,
+  params: EvParameters = DEFAULT_EV_PARAMETERS
 ): TileEvResult[] {
   const potFromOthers = computePotFromOthers(round);
   const potFromOthersSol = lamportsToSol(potFromOthers);
-  const netOreValueSol = computeNetOreValueSol(round, priceQuote);
+  const netOreValueSol = computeNetOreValueSol(round, priceQuote, params);
 
-  // * As observer, we have zero existing exposure
+  // * As observer, we have zero existing exposure (replays may simulate one)
   // * This matches smart-bot's baseline EV calculation with exposureExistingSol=0
-  const exposureBeforeSol = 0;
+  const exposureBeforeSol = params.exposureSol;
 
   const results: TileEvResult[] = [];
 
@@ -146,13 +174,14 @@ export function calculateAllTileEvs(
 
     // * Calculate baseline EV with minimal stake (matches smart-bot line 164)
     // * smart-bot uses Math.max(minStakeSol, Number.EPSILON)
-    const minStakeSol = Math.max(0.001, Number.EPSILON);
+    const minStakeSol = Math.max(params.minStakeSol, Number.EPSILON);
     const evRatio = computeEvRatio({
       othersStakeSol,
       potFromOthersSol,
       exposureBeforeSol,
       stakeSol: minStakeSol,
       netOreValueSol,
+      feeFactor: params.feeFactor,
     });
 
     // * Calculate max profitable stake (matches smart-bot lines 168-173)
@@ -161,6 +190,7 @@ export function calculateAllTileEvs(
       potFromOthersSol,
       exposureBeforeSol,
       netOreValueSol,
+      feeFactor: params.feeFactor,
     });
 
     results.push({
@@ -0,0 +1,222 @@
+/**
+ * EV Calibration - compares the pre-fin EV ratio to realized returns.
+ *
+ * Each tile of a completed round is a sample: the EV ratio predicted at pre-fin
+ * vs the return of the same marginal stake (min stake) settled against the final
+ * board (see backtester). The EV ratio recomputed on the final board, with the
+ * same price, isolates what late deposits between the snapshot and round end
+ * did to the prediction.
+ */
+
+import type { RoundRecord, TilePreFin, TileRecord } from "../../domain/entities/index.js";
+import { calculateAllTileEvs, DEFAULT_EV_PARAMETERS } from "./ev-calculator.js";
+import { rankTilesByEv } from "./tile-ranker.js";
+import { settleBets } from "./backtester.js";
+import { solToLamports } from "../../shared/types.js";
+
+/**
+ * Default ev_ratio bucket edges (a bucket below the first and above the last are implied).
+ */
+export const DEFAULT_CALIBRATION_EDGES = [0.8, 0.9, 0.95, 1, 1.05, 1.1, 1.2, 1.5];
+
+/**
+ * One tile of one completed round.
+ */
+export interface CalibrationSample {
+  rankEv: number;
+  /** Pre-fin EV ratio (predicted return per SOL) */
+  evRatio: number;
+  /** EV ratio recomputed on the final board */
+  finalEvRatio: number;
+  /** Return per SOL of a min stake placed at pre-fin */
+  realizedReturn: number;
+  won: boolean;
+}
+
+/**
+ * Predicted vs realized statistics of a group of samples.
+ */
+export interface CalibrationStats {
+  tiles: number;
+  wins: number;
+  /** wins / tiles (1/25 for an unbiased tile) */
+  hitRate: number;
+  avgEvRatio: number;
+  avgFinalEvRatio: number;
+  avgRealizedReturn: number;
+  /** Standard error of avgRealizedReturn */
+  realizedStdErr: number;
+}
+
+export interface CalibrationBucket extends CalibrationStats {
+  /** Inclusive lower bound (null for the first bucket, unbounded) */
+  minEvRatio: number | null;
+  /** Exclusive upper bound (null for the last bucket, unbounded) */
+  maxEvRatio: number | null;
+}
+
+export interface RankCalibration extends CalibrationStats {
+  rankEv: number;
+}
+
+export interface EvCalibrationReport {
+  rounds: number;
+  overall: CalibrationStats;
+  buckets: CalibrationBucket[];
+  /** 25 entries, rank 1 first */
+  ranks: RankCalibration[];
+}
+
+/**
+ * Recompute and rank tile EVs on the final board of a backtestable round,
+ * with the pre-fin price.
+ * @returns 25 tiles ordered by tile index
+ */
+export function calculateFinalTileEvs(round: RoundRecord, tiles: TileRecord[]): TilePreFin[] {
+  const ranked = rankTilesByEv(
+    calculateAllTileEvs(
+      {
+        deployed: tiles.map((tile) => tile.deployedFinal!),
+        counts: tiles.map((tile) => tile.countFinal ?? 0n),
+        motherlode: round.motherlodePool ?? 0n,
+      },
+      {
+        oreSol: round.priceOreSol!,
+        solUsd: round.priceSolUsd ?? 0,
+        oreUsd: round.priceOreUsd ?? 0,
+        fetchedAt: round.priceFetchedAt ?? 0,
+      }
+    )
+  );
+  return ranked.sort((a, b) => a.tileIndex - b.tileIndex);
+}
+
+/**
+ * Build the calibration samples of a backtestable round (see isBacktestable).
+ */
+export function buildCalibrationSamples(
+  round: RoundRecord,
+  tiles: TileRecord[]
+): CalibrationSample[] {
+  const stake = solToLamports(DEFAULT_EV_PARAMETERS.minStakeSol);
+  const finalEvs = calculateFinalTileEvs(round, tiles);
+
+  const samples: CalibrationSample[] = [];
+  for (const tile of tiles) {
+    if (tile.evRatio === null || !Number.isFinite(tile.evRatio)) {
+      continue;
+    }
+
+    const settlement = settleBets(round, tiles, [{ tileIndex: tile.tileIndex, stake }]);
+    samples.push({
+      rankEv: tile.rankEv!,
+      evRatio: tile.evRatio,
+      finalEvRatio: finalEvs[tile.tileIndex].evRatio,
+      realizedReturn: 1 + settlement.pnlSol / DEFAULT_EV_PARAMETERS.minStakeSol,
+      won: settlement.won,
+    });
+  }
+
+  return samples;
+}
+
+/**
+ * Running sums of a group of samples.
+ */
+interface StatsAccumulator {
+  tiles: number;
+  wins: number;
+  evRatio: number;
+  finalEvRatio: number;
+  realized: number;
+  realizedSquared: number;
+}
+
+function createAccumulator(): StatsAccumulator {
+  return { tiles: 0, wins: 0, evRatio: 0, finalEvRatio: 0, realized: 0, realizedSquared: 0 };
+}
+
+function accumulate(acc: StatsAccumulator, sample: CalibrationSample): void {
+  acc.tiles++;
+  acc.wins += sample.won ? 1 : 0;
+  acc.evRatio += sample.evRatio;
+  acc.finalEvRatio += sample.finalEvRatio;
+  acc.realized += sample.realizedReturn;
+  acc.realizedSquared += sample.realizedReturn * sample.realizedReturn;
+}
+
+function toStats(acc: StatsAccumulator): CalibrationStats {
+  if (acc.tiles === 0) {
+    return {
+      tiles: 0,
+      wins: 0,
+      hitRate: 0,
+      avgEvRatio: 0,
+      avgFinalEvRatio: 0,
+      avgRealizedReturn: 0,
+      realizedStdErr: 0,
+    };
+  }
+
+  const mean = acc.realized / acc.tiles;
+  // * Sample variance (n - 1), 0 for a single sample
+  const variance =
+    acc.tiles > 1 ? Math.max(acc.realizedSquared - acc.tiles * mean * mean, 0) / (acc.tiles - 1) : 0;
+
+  return {
+    tiles: acc.tiles,
+    wins: acc.wins,
+    hitRate: acc.wins / acc.tiles,
+    avgEvRatio: acc.evRatio / acc.tiles,
+    avgFinalEvRatio: acc.finalEvRatio / acc.tiles,
+    avgRealizedReturn: mean,
+    realizedStdErr: Math.sqrt(variance / acc.tiles),
+  };
+}
+
+/**
+ * Incremental calibration report builder (rounds are added one at a time).
+ */
+export class EvCalibrationBuilder {
+  private rounds = 0;
+  private readonly overall = createAccumulator();
+  private readonly buckets: StatsAccumulator[];
+  private readonly ranks: StatsAccumulator[] = Array.from({ length: 25 }, createAccumulator);
+
+  /**
+   * @param edges - Ascending ev_ratio bucket edges
+   */
+  constructor(private readonly edges: number[] = DEFAULT_CALIBRATION_EDGES) {
+    if (edges.some((edge, i) => i > 0 && edge <= edges[i - 1])) {
+      throw new Error(`Calibration bucket edges must be ascending: ${edges.join(", ")}`);
+    }
+    this.buckets = Array.from({ length: edges.length + 1 }, createAccumulator);
+  }
+
+  addRound(samples: CalibrationSample[]): void {
+    this.rounds++;
+    for (const sample of samples) {
+      accumulate(this.overall, sample);
+      accumulate(this.buckets[this.bucketIndex(sample.evRatio)], sample);
+      accumulate(this.ranks[sample.rankEv - 1], sample);
+    }
+  }
+
+  build(): EvCalibrationReport {
+    return {
+      rounds: this.rounds,
+      overall: toStats(this.overall),
+      buckets: this.buckets.map((acc, i) => ({
+        minEvRatio: i === 0 ? null : this.edges[i - 1],
+        maxEvRatio: i === this.edges.length ? null : this.edges[i],
+        ...toStats(acc),
+      })),
+      ranks: this.ranks.map((acc, i) => ({ rankEv: i + 1, ...toStats(acc) })),
+    };
+  }
+
+  private bucketIndex(evRatio: number): number {
+    const index = this.edges.findIndex((edge) => evRatio < edge);
+    return index === -1 ? this.edges.length : index;
+  }
+}
@@ -7,6 +7,8 @@ export {
 
 export {
   calculateAllTileEvs,
+  DEFAULT_EV_PARAMETERS,
+  type EvRoundInput,
   type TileEvResult,
 } from "./ev-calculator.js";
 
@@ -16,3 +18,40 @@ export {
   getTilesAboveThreshold,
 } from "./tile-ranker.js";
 
+export { computeMinerRound } from "./miner-rewards.js";
+
+export {
+  isBacktestable,
+  simulateRound,
+  settleBets,
+  summarizeBacktest,
+  type Bet,
+  type Settlement,
+} from "./backtester.js";
+
+export {
+  buildCalibrationSamples,
+  calculateFinalTileEvs,
+  EvCalibrationBuilder,
+  DEFAULT_CALIBRATION_EDGES,
+  type CalibrationSample,
+  type CalibrationStats,
+  type CalibrationBucket,
+  type RankCalibration,
+  type EvCalibrationReport,
+} from "./ev-calibration.js";
+
+export { computeLateFlow, LateFlowReportBuilder } from "./late-flow.js";
+
+export {
+  buildRngSample,
+  computeRngFairnessStats,
+  computeRngFairnessReport,
+  type RngSample,
+  type ProportionTest,
+  type UniformityTest,
+  type RngFairnessStats,
+  type RngFairnessReport,
+} from "./rng-fairness.js";
+
+export { findRoundAnomalies } from "./consistency-checker.js";
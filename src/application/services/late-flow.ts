@@ -0,0 +1,160 @@
+/**
+ * Late Flow - deposits made between the pre-fin snapshot and round end.
+ *
+ * Relates the pre-fin tiles (deployed, miners_count, EV rank) to the final ones
+ * (deployed_final, count_final) to measure last-seconds SOL per tile and how
+ * it reshuffles the EV ranking.
+ */
+
+import type {
+  LateFlowReport,
+  LateFlowStats,
+  RoundLateFlow,
+  RoundRecord,
+  TileLateFlow,
+  TileRecord,
+} from "../../domain/entities/index.js";
+import { calculateFinalTileEvs } from "./ev-calibration.js";
+
+/**
+ * Compute the late flow of a backtestable round (see isBacktestable).
+ */
+export function computeLateFlow(round: RoundRecord, tiles: TileRecord[]): RoundLateFlow {
+  const finalEvs = calculateFinalTileEvs(round, tiles);
+
+  let lateDeployed = 0n;
+  let lateMiners = 0n;
+  let totalFinal = 0n;
+
+  const lateTiles: TileLateFlow[] = tiles.map((tile) => {
+    const deployedFinal = tile.deployedFinal!;
+    const tileLate = deployedFinal - (tile.deployed ?? 0n);
+    const tileLateMiners = (tile.countFinal ?? 0n) - (tile.minersCount ?? 0n);
+
+    lateDeployed += tileLate;
+    lateMiners += tileLateMiners;
+    totalFinal += deployedFinal;
+
+    return {
+      tileIndex: tile.tileIndex,
+      lateDeployed: tileLate,
+      lateMiners: tileLateMiners,
+      lateShare: deployedFinal > 0n ? Number(tileLate) / Number(deployedFinal) : 0,
+      evRatio: tile.evRatio!,
+      rankEv: tile.rankEv!,
+      finalEvRatio: finalEvs[tile.tileIndex].evRatio,
+      finalRankEv: finalEvs[tile.tileIndex].rankEv,
+    };
+  });
+
+  return {
+    roundId: round.roundId,
+    remainingSlots: round.remainingSlots,
+    lateDeployed,
+    lateMiners,
+    lateShare: totalFinal > 0n ? Number(lateDeployed) / Number(totalFinal) : 0,
+    tiles: lateTiles,
+  };
+}
+
+/**
+ * Running sums of a group of tiles.
+ */
+interface LateFlowAccumulator {
+  tiles: number;
+  lateDeployed: number;
+  lateMiners: number;
+  lateShare: number;
+  evRatio: number;
+  finalEvRatio: number;
+  finalRankEv: number;
+  rankShift: number;
+}
+
+function createAccumulator(): LateFlowAccumulator {
+  return {
+    tiles: 0,
+    lateDeployed: 0,
+    lateMiners: 0,
+    lateShare: 0,
+    evRatio: 0,
+    finalEvRatio: 0,
+    finalRankEv: 0,
+    rankShift: 0,
+  };
+}
+
+function accumulate(acc: LateFlowAccumulator, tile: TileLateFlow): void {
+  acc.tiles++;
+  acc.lateDeployed += Number(tile.lateDeployed);
+  acc.lateMiners += Number(tile.lateMiners);
+  acc.lateShare += tile.lateShare;
+  acc.evRatio += tile.evRatio;
+  acc.finalEvRatio += tile.finalEvRatio;
+  acc.finalRankEv += tile.finalRankEv;
+  acc.rankShift += tile.finalRankEv - tile.rankEv;
+}
+
+function toStats(acc: LateFlowAccumulator, totalLateDeployed: number): LateFlowStats {
+  const n = Math.max(acc.tiles, 1);
+  return {
+    tiles: acc.tiles,
+    avgLateDeployed: acc.lateDeployed / n,
+    avgLateMiners: acc.lateMiners / n,
+    avgLateShare: acc.lateShare / n,
+    shareOfLateFlow: totalLateDeployed > 0 ? acc.lateDeployed / totalLateDeployed : 0,
+    avgEvRatio: acc.evRatio / n,
+    avgFinalEvRatio: acc.finalEvRatio / n,
+    avgFinalRankEv: acc.finalRankEv / n,
+    avgRankShift: acc.rankShift / n,
+  };
+}
+
+/**
+ * Incremental late flow report builder (rounds are added one at a time).
+ */
+export class LateFlowReportBuilder {
+  private rounds = 0;
+  private lateDeployed = 0;
+  private lateShare = 0;
+  private remainingSlots = 0;
+  private roundsWithRemainingSlots = 0;
+  private readonly byTile: LateFlowAccumulator[] = Array.from({ length: 25 }, createAccumulator);
+  private readonly byRank: LateFlowAccumulator[] = Array.from({ length: 25 }, createAccumulator);
+
+  addRound(flow: RoundLateFlow): void {
+    this.rounds++;
+    this.lateDeployed += Number(flow.lateDeployed);
+    this.lateShare += flow.lateShare;
+    if (flow.remainingSlots !== null) {
+      this.remainingSlots += flow.remainingSlots;
+      this.roundsWithRemainingSlots++;
+    }
+
+    for (const tile of flow.tiles) {
+      accumulate(this.byTile[tile.tileIndex], tile);
+      accumulate(this.byRank[tile.rankEv - 1], tile);
+    }
+  }
+
+  build(): LateFlowReport {
+    const rounds = Math.max(this.rounds, 1);
+    return {
+      rounds: this.rounds,
+      avgRemainingSlots:
+        this.roundsWithRemainingSlots > 0
+          ? this.remainingSlots / this.roundsWithRemainingSlots
+          : null,
+      avgLateDeployed: this.lateDeployed / rounds,
+      avgLateShare: this.lateShare / rounds,
+      byTile: this.byTile.map((acc, i) => ({
+        tileIndex: i,
+        ...toStats(acc, this.lateDeployed),
+      })),
+      byRank: this.byRank.map((acc, i) => ({
+        rankEv: i + 1,
+        ...toStats(acc, this.lateDeployed),
+      })),
+    };
+  }
+}
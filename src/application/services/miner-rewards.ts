@@ -0,0 +1,87 @@
+/**
+ * Miner Rewards - derives a miner's rewards for a finished round.
+ *
+ * Mirrors the on-chain checkpoint split, proportional to the miner's
+ * share of the winning tile:
+ * - SOL: stake on the winning tile + share of total winnings
+ * - ORE: top miner reward (whole or split) + motherlode share when triggered
+ *
+ * The Round account only names a non-split top miner once that miner checkpoints,
+ * after post-fin: the top miner is derived from the RNG sample instead, which falls
+ * in [cumulative, cumulative + deployed) of the winning tile for exactly one miner.
+ */
+
+import type { MinerAccount } from "../../infrastructure/solana/decoders/miner.decoder.js";
+import type { RoundAccount } from "../../infrastructure/solana/decoders/round.decoder.js";
+import type { MinerRound, MinerTileDeployment } from "../../domain/entities/index.js";
+import { SPLIT_ADDRESS } from "../../infrastructure/solana/constants.js";
+import { getMinerTotalDeployed } from "../../infrastructure/solana/decoders/miner.decoder.js";
+import {
+  computeTopMinerSample,
+  computeWinningTile,
+  isMotherlodeTriggered,
+} from "./rng-calculator.js";
+
+/**
+ * Build a miner's round record from its Miner account and the finished Round account.
+ * The miner account must still hold the deployments of that round.
+ */
+export function computeMinerRound(
+  miner: MinerAccount,
+  round: RoundAccount,
+  tsCapture: number
+): MinerRound {
+  if (miner.roundId !== round.id) {
+    throw new Error(
+      `Miner round mismatch: miner=${miner.roundId.toString()}, round=${round.id.toString()}`
+    );
+  }
+
+  const winningTile = computeWinningTile(round.slotHash);
+  const deployedWinning = miner.deployed[winningTile];
+  const tileDeployed = round.deployed[winningTile];
+
+  let rewardsSol = 0n;
+  let rewardsOre = 0n;
+  let isTopMiner = false;
+
+  if (deployedWinning > 0n && tileDeployed > 0n) {
+    rewardsSol = deployedWinning + (round.totalWinnings * deployedWinning) / tileDeployed;
+
+    // * Top miner reward: split pro rata, or whole to the selected miner
+    if (round.topMiner.equals(SPLIT_ADDRESS)) {
+      rewardsOre += (round.topMinerReward * deployedWinning) / tileDeployed;
+    } else {
+      const sample = computeTopMinerSample(round.slotHash, tileDeployed);
+      const rangeStart = miner.cumulative[winningTile];
+      if (sample >= rangeStart && sample < rangeStart + deployedWinning) {
+        rewardsOre += round.topMinerReward;
+        isTopMiner = true;
+      }
+    }
+
+    // * Motherlode is shared by all winners when triggered
+    if (isMotherlodeTriggered(round.slotHash)) {
+      rewardsOre += (round.motherlode * deployedWinning) / tileDeployed;
+    }
+  }
+
+  const tiles: MinerTileDeployment[] = [];
+  for (let i = 0; i < miner.deployed.length; i++) {
+    if (miner.deployed[i] > 0n) {
+      tiles.push({ tileIndex: i, deployed: miner.deployed[i] });
+    }
+  }
+
+  return {
+    roundId: round.id,
+    authority: miner.authority.toBase58(),
+    tsCapture,
+    totalDeployed: getMinerTotalDeployed(miner),
+    deployedWinning,
+    rewardsSol,
+    rewardsOre,
+    isTopMiner,
+    tiles,
+  };
+}
@@ -42,6 +42,18 @@ export function isMotherlodeTriggered(slotHash: Buffer): boolean {
   return reversed % 625n === 0n;
 }
 
+/**
+ * Calculate the sample selecting the top miner of a non-split round.
+ * Top miner sample = rng.reverse_bits() % deployed[winning_tile]; the top miner is the
+ * one whose cumulative range on the winning tile contains it.
+ */
+export function computeTopMinerSample(slotHash: Buffer, winningTileDeployed: bigint): bigint {
+  if (winningTileDeployed === 0n) {
+    return 0n;
+  }
+  return reverseBits64(computeRng(slotHash)) % winningTileDeployed;
+}
+
 /**
  * Reverse the bits of a 64-bit value.
  */
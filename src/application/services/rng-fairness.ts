@@ -0,0 +1,197 @@
+/**
+ * RNG Fairness - checks that stored slot hashes behave as rng-calculator assumes.
+ *
+ * Over rounds with a slot hash:
+ * - winning_tile (rng % 25) should be uniform: chi-square test, 24 degrees of freedom
+ * - shouldSplitReward should hold for 1/2 of the rounds
+ * - isMotherlodeTriggered should hold for 1/625 of the rounds
+ * Each proportion gets a Wilson 95% interval and a two-sided binomial p-value.
+ * The formulas are also checked against on-chain outcomes: the stored winning
+ * tile, and the top miner being the split address.
+ */
+
+import type { RoundRecord } from "../../domain/entities/index.js";
+import { isSlotHashValid } from "../../infrastructure/solana/decoders/round.decoder.js";
+import {
+  computeWinningTile,
+  isMotherlodeTriggered,
+  shouldSplitReward,
+} from "./rng-calculator.js";
+import { binomialTestPValue, chiSquarePValue, wilsonInterval } from "../../shared/statistics.js";
+
+const TILE_COUNT = 25;
+const TILE_PROBABILITY = 1 / TILE_COUNT;
+const SPLIT_PROBABILITY = 1 / 2;
+const MOTHERLODE_PROBABILITY = 1 / 625;
+
+/**
+ * RNG outcomes of one round, derived from its slot hash.
+ */
+export interface RngSample {
+  roundId: bigint;
+  winningTile: number;
+  split: boolean;
+  motherlode: boolean;
+  /** Stored winning_tile differs from the slot hash */
+  winningTileMismatch: boolean;
+  /**
+   * On-chain split (top miner = split address) differs from shouldSplitReward.
+   * Only checked when the winning tile had miners (no top miner otherwise).
+   */
+  splitMismatch: boolean;
+}
+
+/**
+ * Observed vs expected frequency of an event.
+ */
+export interface ProportionTest {
+  successes: number;
+  trials: number;
+  rate: number;
+  expectedRate: number;
+  /** Wilson 95% interval of rate */
+  ciLow: number;
+  ciHigh: number;
+  /** Two-sided p-value of the observed count under expectedRate */
+  pValue: number;
+}
+
+/**
+ * Chi-square goodness-of-fit of the winning tile against a uniform distribution.
+ */
+export interface UniformityTest {
+  /** Wins per tile index */
+  counts: number[];
+  expectedCount: number;
+  chiSquare: number;
+  degreesOfFreedom: number;
+  pValue: number;
+}
+
+/**
+ * Fairness tests over a set of rounds.
+ */
+export interface RngFairnessStats {
+  fromRoundId: bigint | null;
+  toRoundId: bigint | null;
+  rounds: number;
+  winningTile: UniformityTest;
+  split: ProportionTest;
+  motherlode: ProportionTest;
+}
+
+export interface RngFairnessReport extends RngFairnessStats {
+  /** Win frequency of each tile (expected 1/25) */
+  tiles: ProportionTest[];
+  winningTileMismatches: number;
+  splitMismatches: number;
+  /** Consecutive windows of rounds (full windows only) */
+  windows: RngFairnessStats[];
+}
+
+/**
+ * Derive the RNG outcomes of a completed round.
+ * @returns null if the round has no valid slot hash
+ */
+export function buildRngSample(round: RoundRecord): RngSample | null {
+  if (!round.slotHash || round.slotHash.length !== 32 || !isSlotHashValid(round.slotHash)) {
+    return null;
+  }
+
+  const winningTile = computeWinningTile(round.slotHash);
+  const split = shouldSplitReward(round.slotHash);
+  const hasTopMiner = round.topMinerPubkey !== null && (round.numWinners ?? 0n) > 0n;
+
+  return {
+    roundId: round.roundId,
+    winningTile,
+    split,
+    motherlode: isMotherlodeTriggered(round.slotHash),
+    winningTileMismatch: round.winningTile !== null && round.winningTile !== winningTile,
+    splitMismatch: hasTopMiner && round.splitTopMiner !== split,
+  };
+}
+
+function testProportion(successes: number, trials: number, expectedRate: number): ProportionTest {
+  const interval = wilsonInterval(successes, trials);
+  return {
+    successes,
+    trials,
+    rate: trials > 0 ? successes / trials : 0,
+    expectedRate,
+    ciLow: interval.low,
+    ciHigh: interval.high,
+    pValue: binomialTestPValue(successes, trials, expectedRate),
+  };
+}
+
+function testUniformity(counts: number[], total: number): UniformityTest {
+  const expectedCount = total * TILE_PROBABILITY;
+  const chiSquare =
+    expectedCount > 0
+      ? counts.reduce((acc, count) => acc + (count - expectedCount) ** 2 / expectedCount, 0)
+      : 0;
+  const degreesOfFreedom = TILE_COUNT - 1;
+
+  return {
+    counts,
+    expectedCount,
+    chiSquare,
+    degreesOfFreedom,
+    pValue: total > 0 ? chiSquarePValue(chiSquare, degreesOfFreedom) : 1,
+  };
+}
+
+/**
+ * Run the fairness tests over samples (in round order).
+ */
+export function computeRngFairnessStats(samples: RngSample[]): RngFairnessStats {
+  const counts = new Array<number>(TILE_COUNT).fill(0);
+  let splits = 0;
+  let motherlodes = 0;
+
+  for (const sample of samples) {
+    counts[sample.winningTile]++;
+    splits += sample.split ? 1 : 0;
+    motherlodes += sample.motherlode ? 1 : 0;
+  }
+
+  return {
+    fromRoundId: samples[0]?.roundId ?? null,
+    toRoundId: samples[samples.length - 1]?.roundId ?? null,
+    rounds: samples.length,
+    winningTile: testUniformity(counts, samples.length),
+    split: testProportion(splits, samples.length, SPLIT_PROBABILITY),
+    motherlode: testProportion(motherlodes, samples.length, MOTHERLODE_PROBABILITY),
+  };
+}
+
+/**
+ * Full report: overall tests, per-tile frequencies, formula mismatches and rolling windows.
+ * @param windowSize - Rounds per window (0 disables windows)
+ * @param step - Rounds between window starts (default: windowSize, non-overlapping)
+ */
+export function computeRngFairnessReport(
+  samples: RngSample[],
+  windowSize: number,
+  step = windowSize
+): RngFairnessReport {
+  const overall = computeRngFairnessStats(samples);
+
+  const windows: RngFairnessStats[] = [];
+  if (windowSize > 0 && step > 0) {
+    for (let start = 0; start + windowSize <= samples.length; start += step) {
+      windows.push(computeRngFairnessStats(samples.slice(start, start + windowSize)));
+    }
+  }
+
+  return {
+    ...overall,
+    tiles: overall.winningTile.counts.map((wins) =>
+      testProportion(wins, samples.length, TILE_PROBABILITY)
+    ),
+    winningTileMismatches: samples.filter((sample) => sample.winningTileMismatch).length,
+    splitMismatches: samples.filter((sample) => sample.splitMismatch).length,
+    windows,
+  };
+}
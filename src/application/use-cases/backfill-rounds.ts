@@ -0,0 +1,153 @@
+/**
+ * Backfill Use Case
+ *
+ * Recovers rounds the live collector missed (downtime, restarts):
+ * 1. Walk a round ID range in batches
+ * 2. Skip rounds already in the database
+ * 3. Fetch and decode each Round PDA
+ * 4. Insert post-fin-only records flagged as backfilled (no EV snapshot)
+ *
+ * The Round account does not say when the round ended, so backfilled rows keep
+ * ts_post NULL and record the run time in backfilled_at instead.
+ *
+ * Rounds whose account is gone or whose slot hash is not set are skipped.
+ */
+
+import type { IRoundRepository } from "../../domain/interfaces/round.repository.js";
+import { fetchRoundStatesBatch } from "../../infrastructure/fetchers/round-state.fetcher.js";
+import { isSlotHashValid } from "../../infrastructure/solana/decoders/round.decoder.js";
+import { buildRoundOutcome } from "./complete-post-fin.js";
+import { getLogger } from "../../shared/logger.js";
+import { collectorMetrics } from "../../shared/metrics.js";
+
+const logger = getLogger().child("Backfill");
+const DEFAULT_BATCH_SIZE = 100;
+
+export interface BackfillRange {
+  /** First round ID (inclusive) */
+  fromRoundId: bigint;
+  /** Last round ID (inclusive) */
+  toRoundId: bigint;
+}
+
+export interface BackfillDependencies {
+  repository: IRoundRepository;
+}
+
+export interface BackfillOptions {
+  /** Rounds fetched per RPC batch (default: 100) */
+  batchSize?: number;
+}
+
+/**
+ * Outcome counters for a backfill run.
+ */
+export interface BackfillResult {
+  scanned: number;
+  inserted: number;
+  skippedExisting: number;
+  accountMissing: number;
+  invalidSlotHash: number;
+  failed: number;
+}
+
+/**
+ * Backfill missing rounds in the given range.
+ */
+export async function backfillRounds(
+  range: BackfillRange,
+  deps: BackfillDependencies,
+  options: BackfillOptions = {}
+): Promise<BackfillResult> {
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+  const result: BackfillResult = {
+    scanned: 0,
+    inserted: 0,
+    skippedExisting: 0,
+    accountMissing: 0,
+    invalidSlotHash: 0,
+    failed: 0,
+  };
+
+  if (range.toRoundId < range.fromRoundId) {
+    throw new Error(
+      `Invalid backfill range: ${range.fromRoundId.toString()} > ${range.toRoundId.toString()}`
+    );
+  }
+
+  if (!Number.isInteger(batchSize) || batchSize < 1) {
+    throw new Error(`Invalid backfill batch size: ${batchSize}`);
+  }
+
+  logger.info("Starting backfill", {
+    fromRoundId: range.fromRoundId.toString(),
+    toRoundId: range.toRoundId.toString(),
+  });
+
+  const batchSpan = BigInt(batchSize);
+  for (let batchStart = range.fromRoundId; batchStart <= range.toRoundId; batchStart += batchSpan) {
+    const batchEnd = batchStart + batchSpan - 1n < range.toRoundId
+      ? batchStart + batchSpan - 1n
+      : range.toRoundId;
+
+    // * Only fetch rounds we don't have yet
+    const missingIds: bigint[] = [];
+    for (let roundId = batchStart; roundId <= batchEnd; roundId++) {
+      result.scanned++;
+      if (await deps.repository.exists(roundId)) {
+        result.skippedExisting++;
+      } else {
+        missingIds.push(roundId);
+      }
+    }
+
+    if (missingIds.length === 0) {
+      continue;
+    }
+
+    const roundStates = await fetchRoundStatesBatch(missingIds);
+    const backfilledAt = Date.now();
+
+    for (let i = 0; i < missingIds.length; i++) {
+      const roundId = missingIds[i];
+      const roundState = roundStates[i];
+
+      if (!roundState) {
+        result.accountMissing++;
+        logger.debug("Round account not found", { roundId: roundId.toString() });
+        continue;
+      }
+
+      if (!isSlotHashValid(roundState.slotHash)) {
+        result.invalidSlotHash++;
+        logger.debug("Round has no valid slot hash", { roundId: roundId.toString() });
+        continue;
+      }
+
+      try {
+        await deps.repository.insertBackfilled({
+          ...buildRoundOutcome(roundId, roundState),
+          backfilledAt,
+        });
+        result.inserted++;
+        collectorMetrics.roundsCollected.inc(1, { phase: "backfill" });
+      } catch (error) {
+        result.failed++;
+        logger.error("Failed to insert backfilled round", {
+          roundId: roundId.toString(),
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    logger.info("Backfill progress", {
+      throughRoundId: batchEnd.toString(),
+      inserted: result.inserted,
+      scanned: result.scanned,
+    });
+  }
+
+  logger.info("Backfill complete", { ...result });
+
+  return result;
+}
@@ -0,0 +1,42 @@
+/**
+ * EV Calibration Use Case
+ *
+ * Builds the predicted vs realized EV report over completed rounds
+ * that have a pre-fin snapshot (see services/ev-calibration).
+ */
+
+import type { IRoundRepository } from "../../domain/interfaces/round.repository.js";
+import { isBacktestable } from "../services/backtester.js";
+import {
+  buildCalibrationSamples,
+  EvCalibrationBuilder,
+  type EvCalibrationReport,
+} from "../services/ev-calibration.js";
+import { iterateStoredRounds, type StoredRoundRange } from "./stored-rounds.js";
+
+export interface EvCalibrationRequest extends StoredRoundRange {
+  /** Ascending ev_ratio bucket edges (default: DEFAULT_CALIBRATION_EDGES) */
+  edges?: number[];
+}
+
+export interface EvCalibrationDependencies {
+  repository: IRoundRepository;
+}
+
+/**
+ * Build the EV calibration report of a round range.
+ */
+export async function buildEvCalibration(
+  request: EvCalibrationRequest,
+  deps: EvCalibrationDependencies
+): Promise<EvCalibrationReport> {
+  const builder = new EvCalibrationBuilder(request.edges);
+
+  for await (const { round, tiles } of iterateStoredRounds(deps.repository, request)) {
+    if (isBacktestable(round, tiles)) {
+      builder.addRound(buildCalibrationSamples(round, tiles));
+    }
+  }
+
+  return builder.build();
+}
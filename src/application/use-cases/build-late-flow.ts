@@ -0,0 +1,52 @@
+/**
+ * Late Flow Use Case
+ *
+ * Late deposits (pre-fin snapshot → round end) of a single round, or
+ * aggregated over a round range (see services/late-flow).
+ * Only completed rounds with a pre-fin snapshot have a late flow.
+ */
+
+import type { IRoundRepository } from "../../domain/interfaces/round.repository.js";
+import type { LateFlowReport, RoundLateFlow } from "../../domain/entities/index.js";
+import { isBacktestable } from "../services/backtester.js";
+import { computeLateFlow, LateFlowReportBuilder } from "../services/late-flow.js";
+import { iterateStoredRounds, type StoredRoundRange } from "./stored-rounds.js";
+
+export interface LateFlowDependencies {
+  repository: IRoundRepository;
+}
+
+/**
+ * Late flow of one round.
+ * @returns null if the round doesn't exist, isn't complete or has no pre-fin snapshot
+ */
+export async function getRoundLateFlow(
+  roundId: bigint,
+  deps: LateFlowDependencies
+): Promise<RoundLateFlow | null> {
+  const round = await deps.repository.getRound(roundId);
+  if (!round) {
+    return null;
+  }
+
+  const tiles = await deps.repository.getTiles(roundId);
+  return isBacktestable(round, tiles) ? computeLateFlow(round, tiles) : null;
+}
+
+/**
+ * Aggregate the late flow of a round range.
+ */
+export async function buildLateFlowReport(
+  range: StoredRoundRange,
+  deps: LateFlowDependencies
+): Promise<LateFlowReport> {
+  const builder = new LateFlowReportBuilder();
+
+  for await (const { round, tiles } of iterateStoredRounds(deps.repository, range)) {
+    if (isBacktestable(round, tiles)) {
+      builder.addRound(computeLateFlow(round, tiles));
+    }
+  }
+
+  return builder.build();
+}
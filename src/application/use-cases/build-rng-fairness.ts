@@ -0,0 +1,45 @@
+/**
+ * RNG Fairness Use Case
+ *
+ * Runs the RNG fairness tests (see services/rng-fairness) over the
+ * stored rounds that have a slot hash, backfilled ones included.
+ */
+
+import type { IRoundRepository } from "../../domain/interfaces/round.repository.js";
+import {
+  buildRngSample,
+  computeRngFairnessReport,
+  type RngFairnessReport,
+  type RngSample,
+} from "../services/rng-fairness.js";
+import { iterateStoredRoundRecords, type StoredRoundRange } from "./stored-rounds.js";
+
+export interface RngFairnessRequest extends StoredRoundRange {
+  /** Rounds per rolling window (0 disables windows) */
+  windowSize: number;
+  /** Rounds between window starts (default: windowSize) */
+  windowStep?: number;
+}
+
+export interface RngFairnessDependencies {
+  repository: IRoundRepository;
+}
+
+/**
+ * Build the RNG fairness report of a round range.
+ */
+export async function buildRngFairness(
+  request: RngFairnessRequest,
+  deps: RngFairnessDependencies
+): Promise<RngFairnessReport> {
+  const samples: RngSample[] = [];
+
+  for await (const round of iterateStoredRoundRecords(deps.repository, request)) {
+    const sample = buildRngSample(round);
+    if (sample) {
+      samples.push(sample);
+    }
+  }
+
+  return computeRngFairnessReport(samples, request.windowSize, request.windowStep);
+}
@@ -0,0 +1,89 @@
+/**
+ * Board Snapshot Use Case
+ *
+ * Captures an intermediate board state at a configured offset before round end:
+ * 1. Fetch round state (with RPC context slot)
+ * 2. Calculate and rank EV for all tiles
+ * 3. Store the snapshot in the per-round time series
+ *
+ * Snapshots are best-effort: a failure is logged but does not affect the round.
+ */
+
+import type { BoardAccount } from "../../infrastructure/solana/decoders/board.decoder.js";
+import type { PriceQuote } from "../../domain/entities/price.entity.js";
+import type { IRoundRepository } from "../../domain/interfaces/round.repository.js";
+import { fetchRoundStateWithContext } from "../../infrastructure/fetchers/round-state.fetcher.js";
+import { getTotalMiners } from "../../infrastructure/solana/decoders/round.decoder.js";
+import { calculateAllTileEvs } from "../services/ev-calculator.js";
+import { rankTilesByEv } from "../services/tile-ranker.js";
+import { getLogger } from "../../shared/logger.js";
+
+const logger = getLogger().child("Snapshot");
+
+export interface SnapshotContext {
+  board: BoardAccount;
+  /** Configured offset that fired this snapshot */
+  targetSlots: number;
+  /** Current slot when the trigger fired */
+  triggerSlot: bigint;
+}
+
+export interface SnapshotDependencies {
+  repository: IRoundRepository;
+}
+
+/**
+ * Capture and store one board snapshot.
+ *
+ * @param priceQuote - Price used for EV (latest known quote)
+ * @returns true if stored, false if failed
+ */
+export async function captureBoardSnapshot(
+  context: SnapshotContext,
+  deps: SnapshotDependencies,
+  priceQuote: PriceQuote
+): Promise<boolean> {
+  const roundId = context.board.roundId;
+  const tsCapture = Date.now();
+
+  try {
+    const { roundState, contextSlot } = await fetchRoundStateWithContext(roundId, {
+      retries: 1,
+    });
+
+    const rankedTiles = rankTilesByEv(calculateAllTileEvs(roundState, priceQuote));
+    const remainingSlots = context.board.endSlot > contextSlot
+      ? Number(context.board.endSlot - contextSlot)
+      : 0;
+
+    await deps.repository.insertSnapshot({
+      roundId,
+      slot: contextSlot,
+      tsCapture,
+      remainingSlots,
+      totalDeployed: roundState.totalDeployed,
+      totalMiners: getTotalMiners(roundState),
+      priceOreSol: priceQuote.oreSol,
+      targetSlot: context.board.endSlot - BigInt(context.targetSlots),
+      triggerSlot: context.triggerSlot,
+      tiles: rankedTiles,
+    });
+
+    logger.info("Board snapshot stored", {
+      roundId: roundId.toString(),
+      targetSlots: context.targetSlots,
+      remainingSlots,
+      slot: contextSlot.toString(),
+      latencyMs: Date.now() - tsCapture,
+    });
+
+    return true;
+  } catch (error) {
+    logger.warn("Board snapshot failed", {
+      roundId: roundId.toString(),
+      targetSlots: context.targetSlots,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return false;
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Miner Capture Use Case
+ *
+ * Records per-tile deployment and rewards of watched miners for a finished round:
+ * 1. Fetch the Miner accounts of the watchlist in one batch
+ * 2. Keep miners whose account still points at the finished round
+ * 3. Derive rewards from the Round account and store them
+ *
+ * A Miner account only holds its latest round: miners that already deployed
+ * in the next round can't be captured anymore and are skipped.
+ * Best effort: failures are logged and never fail the round.
+ */
+
+import type { PublicKey } from "@solana/web3.js";
+import type { RoundAccount } from "../../infrastructure/solana/decoders/round.decoder.js";
+import type { MinerRound } from "../../domain/entities/index.js";
+import type { IRoundRepository } from "../../domain/interfaces/round.repository.js";
+import { fetchMinerAccounts } from "../../infrastructure/fetchers/miner.fetcher.js";
+import { computeMinerRound } from "../services/miner-rewards.js";
+import { getLogger } from "../../shared/logger.js";
+import { collectorMetrics } from "../../shared/metrics.js";
+
+const logger = getLogger().child("MinerCapture");
+
+export interface MinerCaptureDependencies {
+  repository: IRoundRepository;
+  /** Authorities to capture */
+  minerWatchlist: PublicKey[];
+}
+
+/**
+ * Capture watched miners' participation in a finished round.
+ *
+ * @returns Number of miners recorded
+ */
+export async function captureMinerRounds(
+  roundState: RoundAccount,
+  deps: MinerCaptureDependencies
+): Promise<number> {
+  if (deps.minerWatchlist.length === 0) {
+    return 0;
+  }
+
+  const roundId = roundState.id;
+
+  try {
+    const miners = await fetchMinerAccounts(deps.minerWatchlist);
+    const tsCapture = Date.now();
+    const records: MinerRound[] = [];
+
+    for (let i = 0; i < miners.length; i++) {
+      const miner = miners[i];
+      const authority = deps.minerWatchlist[i].toBase58();
+
+      if (!miner || miner.roundId < roundId) {
+        // * Did not play this round
+        continue;
+      }
+      if (miner.roundId > roundId) {
+        collectorMetrics.minerCaptures.inc(1, { outcome: "missed" });
+        logger.warn("Miner already moved to a later round", {
+          roundId: roundId.toString(),
+          authority,
+          minerRoundId: miner.roundId.toString(),
+        });
+        continue;
+      }
+
+      records.push(computeMinerRound(miner, roundState, tsCapture));
+    }
+
+    await deps.repository.insertMinerRounds(records);
+    collectorMetrics.minerCaptures.inc(records.length, { outcome: "captured" });
+
+    logger.info("Captured watched miners", {
+      roundId: roundId.toString(),
+      watched: deps.minerWatchlist.length,
+      captured: records.length,
+    });
+
+    return records.length;
+  } catch (error) {
+    collectorMetrics.minerCaptures.inc(1, { outcome: "failed" });
+    logger.error("Miner capture failed", {
+      roundId: roundId.toString(),
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return 0;
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * Treasury Snapshot Use Case
+ *
+ * Stores Treasury balances alongside a round, once at pre-fin and once at
+ * post-fin, so motherlode growth and payouts can be reconciled per round.
+ * Best effort: failures are logged and never fail the round.
+ */
+
+import type { CollectionPhase } from "../../domain/entities/index.js";
+import type { IRoundRepository } from "../../domain/interfaces/round.repository.js";
+import { fetchTreasuryWithContext } from "../../infrastructure/fetchers/treasury.fetcher.js";
+import { getLogger } from "../../shared/logger.js";
+import { collectorMetrics } from "../../shared/metrics.js";
+
+const logger = getLogger().child("TreasurySnapshot");
+
+export interface TreasurySnapshotDependencies {
+  repository: IRoundRepository;
+}
+
+/**
+ * Capture the treasury for a round at the given phase.
+ * The round must already be stored.
+ *
+ * @returns true if the snapshot was stored
+ */
+export async function captureTreasurySnapshot(
+  roundId: bigint,
+  phase: CollectionPhase,
+  deps: TreasurySnapshotDependencies
+): Promise<boolean> {
+  try {
+    const { treasury, contextSlot } = await fetchTreasuryWithContext({ retries: 2 });
+
+    await deps.repository.insertTreasurySnapshot({
+      roundId,
+      phase,
+      slot: contextSlot,
+      tsCapture: Date.now(),
+      balance: treasury.balance,
+      motherlode: treasury.motherlode,
+      totalStaked: treasury.totalStaked,
+      totalUnclaimed: treasury.totalUnclaimed,
+      totalRefined: treasury.totalRefined,
+      minerRewardsFactor: treasury.minerRewardsFactor,
+      stakeRewardsFactor: treasury.stakeRewardsFactor,
+    });
+    collectorMetrics.treasurySnapshots.inc(1, { phase, outcome: "captured" });
+
+    logger.debug("Treasury snapshot stored", {
+      roundId: roundId.toString(),
+      phase,
+      motherlode: treasury.motherlode.toString(),
+      contextSlot: contextSlot.toString(),
+    });
+
+    return true;
+  } catch (error) {
+    collectorMetrics.treasurySnapshots.inc(1, { phase, outcome: "failed" });
+    logger.warn("Treasury snapshot failed", {
+      roundId: roundId.toString(),
+      phase,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return false;
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Consistency Check Use Case
+ *
+ * Run after post-fin: reads the stored round back, cross-checks it against the
+ * on-chain Round account (see consistency-checker), stores failed checks in
+ * `anomalies` and notifies. The round itself is kept: anomalies flag it for
+ * review instead of being silently persisted.
+ * Best effort: failures are logged and never fail the round.
+ */
+
+import type { RoundAnomaly } from "../../domain/entities/index.js";
+import type { IRoundRepository } from "../../domain/interfaces/round.repository.js";
+import type { INotifier } from "../../domain/interfaces/notifier.js";
+import type { RoundAccount } from "../../infrastructure/solana/decoders/round.decoder.js";
+import { findRoundAnomalies } from "../services/consistency-checker.js";
+import { getLogger } from "../../shared/logger.js";
+import { collectorMetrics } from "../../shared/metrics.js";
+
+const logger = getLogger().child("ConsistencyCheck");
+
+export interface ConsistencyCheckDependencies {
+  repository: IRoundRepository;
+  notifier: INotifier;
+}
+
+/**
+ * Check a completed round against the account it was built from.
+ *
+ * @returns the anomalies found (empty if consistent or if the check failed)
+ */
+export async function checkRoundConsistency(
+  roundId: bigint,
+  roundState: RoundAccount,
+  deps: ConsistencyCheckDependencies
+): Promise<RoundAnomaly[]> {
+  try {
+    const round = await deps.repository.getRound(roundId);
+    if (!round) {
+      throw new Error("Round not found after post-fin");
+    }
+
+    const tiles = await deps.repository.getTiles(roundId);
+    const anomalies = findRoundAnomalies(round, tiles, roundState, Date.now());
+    if (anomalies.length === 0) {
+      logger.debug("Round consistent with on-chain state", { roundId: roundId.toString() });
+      return anomalies;
+    }
+
+    await deps.repository.insertAnomalies(anomalies);
+    for (const anomaly of anomalies) {
+      collectorMetrics.consistencyAnomalies.inc(1, { check: anomaly.check });
+    }
+
+    const details = Object.fromEntries(
+      anomalies.map((anomaly) => [
+        anomaly.check,
+        `expected ${anomaly.expected}, stored ${anomaly.actual}`,
+      ])
+    );
+    logger.error("Round inconsistent with on-chain state", {
+      roundId: roundId.toString(),
+      ...details,
+    });
+    await deps.notifier.notifyFailure(
+      roundId,
+      `Consistency check failed: ${anomalies.map((anomaly) => anomaly.check).join(", ")}`,
+      details
+    );
+
+    return anomalies;
+  } catch (error) {
+    logger.warn("Consistency check failed to run", {
+      roundId: roundId.toString(),
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return [];
+  }
+}
@@ -7,10 +7,11 @@
  *
  * Orchestrates:
  * 1. Use cached prices OR fetch if not available
- * 2. Fetch round state (this is the critical timing!)
+ * 2. Read round state: pushed by the round subscription, else fetched (critical timing!)
  * 3. Calculate EV for all tiles
  * 4. Rank tiles by EV
  * 5. Insert into database
+ * 6. Store treasury balances (best effort)
  *
  * If any critical fetch fails, the round is not inserted.
  */
@@ -23,11 +24,16 @@ import type { IRoundRepository } from "../../domain/interfaces/round.repository.
 import type { INotifier } from "../../domain/interfaces/notifier.js";
 import { JupiterPriceFetcher } from "../../infrastructure/fetchers/jupiter-price.fetcher.js";
 import { MiningCostFetcher } from "../../infrastructure/fetchers/mining-cost.fetcher.js";
-import { fetchRoundState } from "../../infrastructure/fetchers/round-state.fetcher.js";
+import {
+  fetchRoundStateWithContext,
+  type RoundStateWithContext,
+} from "../../infrastructure/fetchers/round-state.fetcher.js";
 import { getTotalMiners } from "../../infrastructure/solana/decoders/round.decoder.js";
 import { calculateAllTileEvs } from "../services/ev-calculator.js";
 import { rankTilesByEv } from "../services/tile-ranker.js";
+import { captureTreasurySnapshot } from "./capture-treasury-snapshot.js";
 import { getLogger } from "../../shared/logger.js";
+import { collectorMetrics } from "../../shared/metrics.js";
 
 const logger = getLogger().child("Phase2-EV");
 
@@ -35,6 +41,8 @@ export interface PreFinContext {
   board: BoardAccount;
   remainingSlots: number;
   currentSlot: bigint;
+  /** Slot the trigger aimed at (recorded against currentSlot) */
+  targetSlot: bigint;
 }
 
 export interface PreFinDependencies {
@@ -42,6 +50,8 @@ export interface PreFinDependencies {
   notifier: INotifier;
   priceFetcher: JupiterPriceFetcher;
   miningCostFetcher: MiningCostFetcher;
+  /** Pushed round state, null when unavailable or possibly stale (HTTP fetch instead) */
+  pushedRoundState?: (roundId: bigint) => RoundStateWithContext | null;
 }
 
 /**
@@ -107,13 +117,28 @@ export async function collectPreFin(
       priceFetchLatency = Date.now() - priceFetchStart;
     }
 
-    // * Fetch round state - THIS IS THE CRITICAL TIMING (~5 slots)
+    // * Read round state - THIS IS THE CRITICAL TIMING (~5 slots)
     // * Board state changes throughout the round, so we capture it late
+    // * The pushed state of the round subscription is used when it cannot have missed an update;
+    // * otherwise it is fetched, raced across the best RPC endpoints (responses behind the
+    // * trigger slot only win when none reached it, so a lagging endpoint can't return older state)
     const roundStateFetchStart = Date.now();
-    const roundState = await fetchRoundState(roundId);
+    const pushedRoundState = deps.pushedRoundState?.(roundId) ?? null;
+    const roundStateSource = pushedRoundState ? "push" : "http";
+    const { roundState, contextSlot } =
+      pushedRoundState ??
+      (await fetchRoundStateWithContext(roundId, {
+        race: true,
+        preferredContextSlot: Number(context.currentSlot),
+      }));
     const roundStateFetchLatency = Date.now() - roundStateFetchStart;
+    collectorMetrics.roundStateFetchDuration.observe(roundStateFetchLatency / 1000);
+    collectorMetrics.roundStateReads.inc(1, { source: roundStateSource });
 
-    logger.debug("Round state fetched", {
+    logger.debug("Round state read", {
+      source: roundStateSource,
+      contextSlot: contextSlot.toString(),
+      slotLag: (context.currentSlot - contextSlot).toString(),
       latencyMs: roundStateFetchLatency,
       totalDeployed: roundState.totalDeployed.toString(),
     });
@@ -131,6 +156,8 @@ export async function collectPreFin(
       roundId,
       tsPre: startTime,
       slotPre: context.currentSlot,
+      contextSlot,
+      targetSlot: context.targetSlot,
       remainingSlots: context.remainingSlots,
       boardStartSlot: context.board.startSlot,
       boardEndSlot: context.board.endSlot,
@@ -147,25 +174,42 @@ export async function collectPreFin(
     await deps.repository.insertPreFin(preFin);
 
     const totalTime = Date.now() - startTime;
+    collectorMetrics.roundsCollected.inc(1, { phase: "pre-fin" });
+    collectorMetrics.phaseDuration.observe(totalTime / 1000, { phase: "pre-fin" });
+    collectorMetrics.snapshotRemainingSlots.observe(context.remainingSlots);
+
     logger.info("Phase 2: EV snapshot completed", {
       roundId: roundId.toString(),
       totalTimeMs: totalTime,
       roundStateFetchMs: roundStateFetchLatency,
+      roundStateSource,
       evLatencyMs: evLatency,
       usedCachedPrices: usedCache,
       totalDeployed: roundState.totalDeployed.toString(),
       bestEvRatio: rankedTiles[0]?.evRatio.toFixed(4),
     });
 
+    // * Treasury balances (never fails the round)
+    await captureTreasurySnapshot(roundId, "pre-fin", { repository: deps.repository });
+
     return true;
   } catch (error) {
     const err = error instanceof Error ? error : new Error(String(error));
+    collectorMetrics.collectionFailures.inc(1, { phase: "pre-fin" });
 
     logger.error("Phase 2: EV snapshot failed", {
       roundId: roundId.toString(),
       error: err.message,
     });
 
+    // * Keep a trace for gap classification (the round was never inserted)
+    await deps.repository.recordFailure(roundId, "pre-fin", err.message).catch((recordError) => {
+      logger.error("Failed to record pre-fin failure", {
+        roundId: roundId.toString(),
+        error: recordError instanceof Error ? recordError.message : String(recordError),
+      });
+    });
+
     // * Notify via Discord
     await deps.notifier.notifyFailure(roundId, `EV snapshot failed: ${err.message}`, {
       remainingSlots: context.remainingSlots,
@@ -6,11 +6,15 @@
  * 2. Validate slot hash is non-zero
  * 3. Calculate RNG and winning tile
  * 4. Update database with final data
+ * 5. Cross-check stored data against the round account (anomalies)
+ * 6. Store treasury balances (best effort, live rounds only)
+ * 7. Capture watched miners (optional, live rounds only)
+ * 8. Verify the slot hash against the SlotHashes sysvar (optional)
  *
  * If validation fails, the round is deleted and Discord is notified.
  */
 
-import type { Commitment } from "@solana/web3.js";
+import type { Commitment, PublicKey } from "@solana/web3.js";
 import type { BoardAccount } from "../../infrastructure/solana/decoders/board.decoder.js";
 import type { RoundAccount } from "../../infrastructure/solana/decoders/round.decoder.js";
 import type { RoundPostFin, TilePostFin } from "../../domain/entities/index.js";
@@ -19,8 +23,17 @@ import type { INotifier } from "../../domain/interfaces/notifier.js";
 import { fetchRoundStateWithContext } from "../../infrastructure/fetchers/round-state.fetcher.js";
 import { isSlotHashValid } from "../../infrastructure/solana/decoders/round.decoder.js";
 import { SPLIT_ADDRESS } from "../../infrastructure/solana/constants.js";
-import { computeRng, computeWinningTile } from "../services/rng-calculator.js";
+import {
+  computeRng,
+  computeWinningTile,
+  isMotherlodeTriggered,
+} from "../services/rng-calculator.js";
+import { captureMinerRounds } from "./capture-miner-rounds.js";
+import { checkRoundConsistency } from "./check-round-consistency.js";
+import { captureTreasurySnapshot } from "./capture-treasury-snapshot.js";
+import { verifySlotHash } from "./verify-slot-hash.js";
 import { getLogger } from "../../shared/logger.js";
+import { collectorMetrics } from "../../shared/metrics.js";
 import { sleep } from "../../shared/retry.js";
 
 const logger = getLogger().child("PostFin");
@@ -31,11 +44,20 @@ const POST_FIN_DELAY_MS = 1200; // ~2 slots buffer to let RPC catch up
 export interface PostFinContext {
   previousRoundId: bigint;
   newBoard: BoardAccount;
+  /**
+   * Round completed after the fact (startup recovery): the treasury and miner
+   * accounts have moved on, so their current state is not captured for it
+   */
+  recovered?: boolean;
 }
 
 export interface PostFinDependencies {
   repository: IRoundRepository;
   notifier: INotifier;
+  /** Miner authorities whose deployments are recorded at post-fin */
+  minerWatchlist?: PublicKey[];
+  /** Check the slot hash against the SlotHashes sysvar after completion */
+  verifySlotHash?: boolean;
 }
 
 interface ValidatedRoundState {
@@ -105,6 +127,50 @@ async function fetchRoundStateWithValidSlotHash(
   throw lastError ?? new Error("Slot hash remained invalid after retries");
 }
 
+/**
+ * Derive the round outcome from a finished round account.
+ * Shared by live completion and backfill.
+ */
+export function buildRoundOutcome(
+  roundId: bigint,
+  roundState: RoundAccount
+): Omit<RoundPostFin, "tsPost"> {
+  // * Calculate RNG and winning tile
+  const rngU64 = computeRng(roundState.slotHash);
+  const winningTile = computeWinningTile(roundState.slotHash);
+  const splitTopMiner = roundState.topMiner.equals(SPLIT_ADDRESS);
+  const motherlodeTriggered = isMotherlodeTriggered(roundState.slotHash);
+
+  // * Build tile post-fin data
+  const tiles: TilePostFin[] = [];
+  for (let i = 0; i < 25; i++) {
+    tiles.push({
+      tileIndex: i,
+      deployedFinal: roundState.deployed[i],
+      countFinal: roundState.counts[i],
+    });
+  }
+
+  return {
+    roundId,
+    slotHash: roundState.slotHash,
+    rngU64,
+    winningTile,
+    splitTopMiner,
+    topMinerReward: roundState.topMinerReward,
+    // * The round account holds the pool; it is only paid out when triggered
+    motherlodeTriggered,
+    motherlodePaid: motherlodeTriggered ? roundState.motherlode : 0n,
+    motherlodePool: roundState.motherlode,
+    numWinners: roundState.counts[winningTile],
+    totalWinnings: roundState.totalWinnings,
+    totalVaulted: roundState.totalVaulted,
+    rentPayer: roundState.rentPayer.toBase58(),
+    topMinerPubkey: roundState.topMiner.toBase58(),
+    tiles,
+  };
+}
+
 /**
  * Execute post-fin completion for a round.
  *
@@ -143,57 +209,50 @@ export async function completePostFin(
       minContextSlot
     );
 
-    // * Calculate RNG and winning tile
-    const rngU64 = computeRng(roundState.slotHash);
-    const winningTile = computeWinningTile(roundState.slotHash);
-    const splitTopMiner = roundState.topMiner.equals(SPLIT_ADDRESS);
-
-    // * Build tile post-fin data
-    const tiles: TilePostFin[] = [];
-    for (let i = 0; i < 25; i++) {
-      tiles.push({
-        tileIndex: i,
-        deployedFinal: roundState.deployed[i],
-        countFinal: roundState.counts[i],
-      });
-    }
-
-    // * Build post-fin data
-    const postFin: RoundPostFin = {
-      roundId,
-      tsPost: startTime,
-      slotHash: roundState.slotHash,
-      rngU64,
-      winningTile,
-      splitTopMiner,
-      topMinerReward: roundState.topMinerReward,
-      motherlodePaid: roundState.motherlode, // ! Note: this is the pool, not paid amount
-      numWinners: roundState.counts[winningTile],
-      totalWinnings: roundState.totalWinnings,
-      totalVaulted: roundState.totalVaulted,
-      rentPayer: roundState.rentPayer.toBase58(),
-      topMinerPubkey: roundState.topMiner.toBase58(),
-      tiles,
-    };
+    // * Build post-fin data (RNG, winning tile, final tiles)
+    const postFin: RoundPostFin = { ...buildRoundOutcome(roundId, roundState), tsPost: startTime };
 
     // * Update database
     await deps.repository.completePostFin(postFin);
 
     const totalTime = Date.now() - startTime;
+    collectorMetrics.roundsCollected.inc(1, { phase: "post-fin" });
+    collectorMetrics.phaseDuration.observe(totalTime / 1000, { phase: "post-fin" });
+    collectorMetrics.slotHashFetchAttempts.observe(attempts);
+
     logger.info("Post-fin completion successful", {
       roundId: roundId.toString(),
       totalTimeMs: totalTime,
-      winningTile,
+      winningTile: postFin.winningTile,
       numWinners: postFin.numWinners.toString(),
+      motherlodeTriggered: postFin.motherlodeTriggered,
       totalWinnings: roundState.totalWinnings.toString(),
       fetchAttempts: attempts,
       fetchCommitment: commitment,
       fetchContextSlot: contextSlot.toString(),
     });
 
+    // * Stored data vs on-chain round (records anomalies, never fails the round)
+    await checkRoundConsistency(roundId, roundState, deps);
+
+    // * Treasury balances, watched miners, slot hash check (best effort, never fail the round)
+    if (!context.recovered) {
+      await captureTreasurySnapshot(roundId, "post-fin", { repository: deps.repository });
+      if (deps.minerWatchlist && deps.minerWatchlist.length > 0) {
+        await captureMinerRounds(roundState, {
+          repository: deps.repository,
+          minerWatchlist: deps.minerWatchlist,
+        });
+      }
+    }
+    if (deps.verifySlotHash) {
+      await verifySlotHash(roundId, roundState.slotHash, deps);
+    }
+
     return true;
   } catch (error) {
     const err = error instanceof Error ? error : new Error(String(error));
+    collectorMetrics.collectionFailures.inc(1, { phase: "post-fin" });
 
     logger.error("Post-fin completion failed", {
       roundId: roundId.toString(),
@@ -206,17 +265,26 @@ export async function completePostFin(
 }
 
 /**
- * Handle failure: delete round and notify.
+ * Handle failure: record it, delete round and notify.
  */
 async function handleFailure(
   roundId: bigint,
   reason: string,
   deps: PostFinDependencies
 ): Promise<void> {
+  // * Keep a trace for gap classification (survives the delete)
+  await deps.repository.recordFailure(roundId, "post-fin", reason).catch((error) => {
+    logger.error("Failed to record post-fin failure", {
+      roundId: roundId.toString(),
+      error: error instanceof Error ? error.message : String(error),
+    });
+  });
+
   // * Delete the incomplete round
   const deleted = await deps.repository.deleteRound(roundId);
 
   if (deleted) {
+    collectorMetrics.roundsDeleted.inc();
     logger.warn("Deleted incomplete round", { roundId: roundId.toString() });
   }
 
@@ -241,7 +309,11 @@ export async function completePendingRounds(deps: PostFinDependencies): Promise<
   for (const roundId of pendingIds) {
     try {
       await completePostFin(
-        { previousRoundId: roundId, newBoard: { roundId: roundId + 1n, startSlot: 0n, endSlot: 0n } },
+        {
+          previousRoundId: roundId,
+          newBoard: { roundId: roundId + 1n, startSlot: 0n, endSlot: 0n },
+          recovered: true,
+        },
         deps
       );
     } catch (error) {
@@ -0,0 +1,110 @@
+/**
+ * Dataset Export Use Case
+ *
+ * Rows of the rounds ⋈ tiles dataset (one per round and tile, in round/tile
+ * order), read through the repository so every database driver can be exported.
+ */
+
+import type { IRoundRepository } from "../../domain/interfaces/round.repository.js";
+import type { RoundRecord } from "../../domain/entities/index.js";
+import type { ExportColumn, ExportRow } from "../../infrastructure/export/index.js";
+import { iterateStoredRoundRecords, type StoredRoundRange } from "./stored-rounds.js";
+
+/**
+ * Row filters of an export (all optional, combined with AND).
+ */
+export interface ExportFilters {
+  fromRoundId?: bigint;
+  toRoundId?: bigint;
+  /**
+   * Inclusive lower bound (ms) on the pre-fin time.
+   * Backfilled rounds have no round time and are left out of date-filtered exports.
+   */
+  fromTimestamp?: number;
+  /** Exclusive upper bound (ms) on the pre-fin time */
+  toTimestamp?: number;
+  /** Only rounds with post-fin data */
+  completedOnly?: boolean;
+}
+
+/**
+ * Whether a round passes the time and completion filters.
+ */
+export function matchesExportFilters(round: RoundRecord, filters: ExportFilters): boolean {
+  if (filters.fromTimestamp !== undefined || filters.toTimestamp !== undefined) {
+    if (round.tsPre === null) {
+      return false;
+    }
+    if (filters.fromTimestamp !== undefined && round.tsPre < filters.fromTimestamp) {
+      return false;
+    }
+    if (filters.toTimestamp !== undefined && round.tsPre >= filters.toTimestamp) {
+      return false;
+    }
+  }
+
+  return !filters.completedOnly || round.winningTile !== null;
+}
+
+/**
+ * Round ID range to scan: the filter's IDs, narrowed to the rounds collected
+ * in the date window when there is one.
+ * @returns null if no round can match
+ */
+async function resolveExportRange(
+  repository: IRoundRepository,
+  filters: ExportFilters
+): Promise<StoredRoundRange | null> {
+  const range = { fromRoundId: filters.fromRoundId, toRoundId: filters.toRoundId };
+  if (filters.fromTimestamp === undefined && filters.toTimestamp === undefined) {
+    return range;
+  }
+
+  const window = await repository.getRoundIdRangeByTime(
+    filters.fromTimestamp,
+    filters.toTimestamp
+  );
+  if (window === null) {
+    return null;
+  }
+
+  return {
+    fromRoundId:
+      range.fromRoundId !== undefined && range.fromRoundId > window.fromRoundId
+        ? range.fromRoundId
+        : window.fromRoundId,
+    toRoundId:
+      range.toRoundId !== undefined && range.toRoundId < window.toRoundId
+        ? range.toRoundId
+        : window.toRoundId,
+  };
+}
+
+/**
+ * Stream export rows (one per round and tile) in round/tile order.
+ * Tiles are only read for rounds that pass the filters.
+ */
+export async function* iterateExportRows(
+  repository: IRoundRepository,
+  columns: ExportColumn[],
+  filters: ExportFilters = {}
+): AsyncGenerator<ExportRow> {
+  const range = await resolveExportRange(repository, filters);
+  if (range === null) {
+    return;
+  }
+
+  for await (const round of iterateStoredRoundRecords(repository, range)) {
+    if (!matchesExportFilters(round, filters)) {
+      continue;
+    }
+
+    for (const tile of await repository.getTiles(round.roundId)) {
+      const row: ExportRow = {};
+      for (const column of columns) {
+        row[column.name] = column.value(round, tile);
+      }
+      yield row;
+    }
+  }
+}
@@ -7,10 +7,93 @@ export {
 export {
   completePostFin,
   completePendingRounds,
+  buildRoundOutcome,
   type PostFinContext,
   type PostFinDependencies,
 } from "./complete-post-fin.js";
 
+export {
+  captureBoardSnapshot,
+  type SnapshotContext,
+  type SnapshotDependencies,
+} from "./capture-board-snapshot.js";
+
+export {
+  captureMinerRounds,
+  type MinerCaptureDependencies,
+} from "./capture-miner-rounds.js";
+
+export {
+  captureTreasurySnapshot,
+  type TreasurySnapshotDependencies,
+} from "./capture-treasury-snapshot.js";
+
+export {
+  checkRoundConsistency,
+  type ConsistencyCheckDependencies,
+} from "./check-round-consistency.js";
+
+export {
+  verifySlotHash,
+  checkSlotHash,
+  type SlotHashCheck,
+  type SlotHashVerificationDependencies,
+} from "./verify-slot-hash.js";
+
+export {
+  backfillRounds,
+  type BackfillRange,
+  type BackfillDependencies,
+  type BackfillOptions,
+  type BackfillResult,
+} from "./backfill-rounds.js";
+
+export {
+  replayEv,
+  type EvReplayRequest,
+  type EvReplayDependencies,
+  type EvReplayOptions,
+  type EvReplayResult,
+} from "./replay-ev.js";
+
+export {
+  iterateStoredRoundRecords,
+  iterateStoredRounds,
+  type StoredRoundRange,
+  type StoredRound,
+} from "./stored-rounds.js";
+
+export {
+  iterateExportRows,
+  matchesExportFilters,
+  type ExportFilters,
+} from "./export-rounds.js";
+
+export {
+  runBacktest,
+  type BacktestRequest,
+  type BacktestDependencies,
+  type BacktestOptions,
+} from "./run-backtest.js";
+
+export {
+  buildEvCalibration,
+  type EvCalibrationRequest,
+  type EvCalibrationDependencies,
+} from "./build-ev-calibration.js";
+
+export {
+  getRoundLateFlow,
+  buildLateFlowReport,
+  type LateFlowDependencies,
+} from "./build-late-flow.js";
+
+export {
+  buildRngFairness,
+  type RngFairnessRequest,
+  type RngFairnessDependencies,
+} from "./build-rng-fairness.js";
+
 export {
   handleCollectionFailure,
   type FailureHandlerDeps,
@@ -0,0 +1,172 @@
+/**
+ * EV Replay Use Case
+ *
+ * Re-runs the EV model over stored pre-fin snapshots with alternative parameters:
+ * 1. Create (or reset) a named replay with its parameters
+ * 2. Walk stored rounds in batches
+ * 3. Rebuild the board from the stored pre-fin tiles and price
+ * 4. Recompute + rank tile EVs and store them in ev_replay_tiles
+ *
+ * The motherlode pool comes from the round's post-fin data (same Round account
+ * field the live snapshot reads), falling back to the pre-fin treasury snapshot.
+ * Rounds without a pre-fin snapshot (backfilled) are skipped.
+ */
+
+import type { IRoundRepository } from "../../domain/interfaces/round.repository.js";
+import type { EvParameters, EvReplayRound } from "../../domain/entities/ev-replay.entity.js";
+import type { RoundRecord } from "../../domain/entities/round.entity.js";
+import type { TileRecord } from "../../domain/entities/tile.entity.js";
+import type { PriceQuote } from "../../domain/entities/price.entity.js";
+import { calculateAllTileEvs, type EvRoundInput } from "../services/ev-calculator.js";
+import { rankTilesByEv } from "../services/tile-ranker.js";
+import { getLogger } from "../../shared/logger.js";
+import { iterateStoredRounds } from "./stored-rounds.js";
+
+const logger = getLogger().child("EvReplay");
+const DEFAULT_BATCH_SIZE = 500;
+
+export interface EvReplayRequest {
+  /** Replay name (an existing replay with the same name is overwritten) */
+  name: string;
+  parameters: EvParameters;
+  /** First round ID (inclusive, default: first stored round) */
+  fromRoundId?: bigint;
+  /** Last round ID (inclusive, default: latest stored round) */
+  toRoundId?: bigint;
+}
+
+export interface EvReplayDependencies {
+  repository: IRoundRepository;
+}
+
+export interface EvReplayOptions {
+  /** Rounds loaded per batch (default: 500) */
+  batchSize?: number;
+}
+
+/**
+ * Outcome counters for a replay run.
+ */
+export interface EvReplayResult {
+  scanned: number;
+  replayed: number;
+  /** Rounds without a pre-fin snapshot */
+  skippedNoPreFin: number;
+}
+
+/**
+ * Recompute tile EVs of stored rounds with the given parameters.
+ */
+export async function replayEv(
+  request: EvReplayRequest,
+  deps: EvReplayDependencies,
+  options: EvReplayOptions = {}
+): Promise<EvReplayResult> {
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+  const result: EvReplayResult = { scanned: 0, replayed: 0, skippedNoPreFin: 0 };
+
+  await deps.repository.saveEvReplayRun({
+    name: request.name,
+    parameters: request.parameters,
+    createdAt: Date.now(),
+  });
+
+  logger.info("Starting EV replay", {
+    name: request.name,
+    fromRoundId: request.fromRoundId?.toString(),
+    toRoundId: request.toRoundId?.toString(),
+    ...request.parameters,
+  });
+
+  // * Replayed rounds are written once per batch of scanned rounds
+  let batch: EvReplayRound[] = [];
+  let batchScanned = 0;
+  let lastRoundId: bigint | null = null;
+  const flush = async (): Promise<void> => {
+    await deps.repository.insertEvReplayRounds(request.name, batch);
+    result.replayed += batch.length;
+    batch = [];
+    batchScanned = 0;
+
+    logger.info("EV replay progress", {
+      throughRoundId: lastRoundId?.toString(),
+      replayed: result.replayed,
+      scanned: result.scanned,
+    });
+  };
+
+  for await (const { round, tiles } of iterateStoredRounds(
+    deps.repository,
+    request,
+    batchSize
+  )) {
+    result.scanned++;
+    batchScanned++;
+    lastRoundId = round.roundId;
+
+    const replayed = await replayRound(round, tiles, request.parameters, deps);
+    if (replayed) {
+      batch.push({ roundId: round.roundId, tiles: replayed });
+    } else {
+      result.skippedNoPreFin++;
+    }
+
+    if (batchScanned === batchSize) {
+      await flush();
+    }
+  }
+  if (batchScanned > 0) {
+    await flush();
+  }
+
+  logger.info("EV replay complete", { name: request.name, ...result });
+
+  return result;
+}
+
+/**
+ * Recompute and rank the tiles of one stored round.
+ * @returns null if the round has no pre-fin snapshot
+ */
+async function replayRound(
+  round: RoundRecord,
+  tiles: TileRecord[],
+  parameters: EvParameters,
+  deps: EvReplayDependencies
+): Promise<EvReplayRound["tiles"] | null> {
+  if (
+    round.backfilled ||
+    round.priceOreSol === null ||
+    round.priceSolUsd === null ||
+    round.priceOreUsd === null ||
+    round.priceFetchedAt === null
+  ) {
+    return null;
+  }
+
+  if (tiles.length !== 25 || tiles.some((tile) => tile.deployed === null || tile.minersCount === null)) {
+    return null;
+  }
+
+  const board: EvRoundInput = {
+    deployed: tiles.map((tile) => tile.deployed!),
+    counts: tiles.map((tile) => tile.minersCount!),
+    motherlode: round.motherlodePool ?? (await getPreFinMotherlode(round.roundId, deps)),
+  };
+  const priceQuote: PriceQuote = {
+    oreSol: round.priceOreSol,
+    solUsd: round.priceSolUsd,
+    oreUsd: round.priceOreUsd,
+    fetchedAt: round.priceFetchedAt,
+  };
+
+  return rankTilesByEv(calculateAllTileEvs(board, priceQuote, parameters));
+}
+
+/**
+ * Motherlode pool of the pre-fin treasury snapshot (0 if none was captured).
+ */
+async function getPreFinMotherlode(roundId: bigint, deps: EvReplayDependencies): Promise<bigint> {
+  const snapshots = await deps.repository.getTreasurySnapshots(roundId);
+  return snapshots.find((snapshot) => snapshot.phase === "pre-fin")?.motherlode ?? 0n;
+}
@@ -0,0 +1,78 @@
+/**
+ * Backtest Use Case
+ *
+ * Replays a strategy round by round over stored history:
+ * 1. Walk stored rounds in batches
+ * 2. Keep completed rounds with a pre-fin snapshot
+ * 3. Simulate the strategy's stakes against the final board
+ * 4. Aggregate PnL, ROI and drawdown
+ */
+
+import type { IRoundRepository } from "../../domain/interfaces/round.repository.js";
+import type {
+  BacktestRoundResult,
+  BacktestStrategy,
+  BacktestSummary,
+} from "../../domain/entities/index.js";
+import { isBacktestable, simulateRound, summarizeBacktest } from "../services/backtester.js";
+import { iterateStoredRounds, type StoredRoundRange } from "./stored-rounds.js";
+import { getLogger } from "../../shared/logger.js";
+
+const logger = getLogger().child("Backtest");
+
+export interface BacktestRequest extends StoredRoundRange {
+  strategy: BacktestStrategy;
+}
+
+export interface BacktestDependencies {
+  repository: IRoundRepository;
+}
+
+export interface BacktestOptions {
+  /** Rounds loaded per batch (default: 500) */
+  batchSize?: number;
+  /** Called for every round the strategy staked in, in round order */
+  onRound?: (result: BacktestRoundResult) => void | Promise<void>;
+}
+
+/**
+ * Run a strategy over stored rounds.
+ */
+export async function runBacktest(
+  request: BacktestRequest,
+  deps: BacktestDependencies,
+  options: BacktestOptions = {}
+): Promise<BacktestSummary> {
+  const results: BacktestRoundResult[] = [];
+  let roundsScanned = 0;
+
+  logger.info("Starting backtest", { ...request.strategy });
+
+  for await (const { round, tiles } of iterateStoredRounds(
+    deps.repository,
+    request,
+    options.batchSize
+  )) {
+    if (!isBacktestable(round, tiles)) {
+      continue;
+    }
+
+    roundsScanned++;
+    const result = simulateRound(round, tiles, request.strategy);
+    if (result) {
+      results.push(result);
+      await options.onRound?.(result);
+    }
+  }
+
+  const summary = summarizeBacktest(request.strategy, roundsScanned, results);
+
+  logger.info("Backtest complete", {
+    name: request.strategy.name,
+    roundsScanned: summary.roundsScanned,
+    roundsPlayed: summary.roundsPlayed,
+    pnlSol: summary.pnlSol.toFixed(4),
+  });
+
+  return summary;
+}
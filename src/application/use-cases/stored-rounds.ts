@@ -0,0 +1,62 @@
+/**
+ * Batched reader of stored rounds and their tiles, shared by the
+ * analysis use cases (backtest, reports).
+ */
+
+import type { IRoundRepository } from "../../domain/interfaces/round.repository.js";
+import type { RoundRecord, TileRecord } from "../../domain/entities/index.js";
+
+const DEFAULT_BATCH_SIZE = 500;
+
+export interface StoredRoundRange {
+  /** First round ID (inclusive, default: first stored round) */
+  fromRoundId?: bigint;
+  /** Last round ID (inclusive, default: latest stored round) */
+  toRoundId?: bigint;
+}
+
+export interface StoredRound {
+  round: RoundRecord;
+  /** Tiles ordered by tile index */
+  tiles: TileRecord[];
+}
+
+/**
+ * Iterate stored round records of a range in round ID order (without tiles).
+ * @param batchSize - Rounds loaded per query (default: 500)
+ */
+export async function* iterateStoredRoundRecords(
+  repository: IRoundRepository,
+  range: StoredRoundRange = {},
+  batchSize = DEFAULT_BATCH_SIZE
+): AsyncGenerator<RoundRecord> {
+  const toRoundId = range.toRoundId ?? (await repository.getLatestRoundId());
+  if (toRoundId === null) {
+    return;
+  }
+
+  let cursor = range.fromRoundId ?? 0n;
+  while (cursor <= toRoundId) {
+    const rounds = await repository.getRounds(cursor, toRoundId, batchSize);
+    if (rounds.length === 0) {
+      return;
+    }
+
+    yield* rounds;
+    cursor = rounds[rounds.length - 1].roundId + 1n;
+  }
+}
+
+/**
+ * Iterate stored rounds of a range, with their tiles, in round ID order.
+ * @param batchSize - Rounds loaded per query (default: 500)
+ */
+export async function* iterateStoredRounds(
+  repository: IRoundRepository,
+  range: StoredRoundRange = {},
+  batchSize = DEFAULT_BATCH_SIZE
+): AsyncGenerator<StoredRound> {
+  for await (const round of iterateStoredRoundRecords(repository, range, batchSize)) {
+    yield { round, tiles: await repository.getTiles(round.roundId) };
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Slot Hash Verification Use Case
+ *
+ * The round's slot_hash is written by the program from the SlotHashes sysvar
+ * entry of the board end slot. This re-reads the sysvar after post-fin and
+ * checks the stored hash against that entry, so a bad RPC read or a program
+ * change cannot silently skew the RNG data.
+ *
+ * SlotHashes holds bank hashes of the last ~512 slots only: the block hash of
+ * the end slot (getBlock) is a different value and cannot replace it, so a
+ * round checked too late (or whose end slot was skipped) is "unavailable".
+ * Best effort: failures are logged and never fail the round.
+ */
+
+import type { HashVerificationStatus } from "../../domain/entities/index.js";
+import type { IRoundRepository } from "../../domain/interfaces/round.repository.js";
+import type { INotifier } from "../../domain/interfaces/notifier.js";
+import type { SlotHashEntry } from "../../infrastructure/solana/decoders/slot-hashes.decoder.js";
+import { fetchSlotHashesWithContext } from "../../infrastructure/fetchers/slot-hashes.fetcher.js";
+import { getLogger } from "../../shared/logger.js";
+import { collectorMetrics } from "../../shared/metrics.js";
+
+const logger = getLogger().child("SlotHashVerification");
+
+export interface SlotHashVerificationDependencies {
+  repository: IRoundRepository;
+  notifier: INotifier;
+}
+
+export interface SlotHashCheck {
+  status: HashVerificationStatus;
+  /** Slot whose sysvar hash equals the round's hash, when it is not the end slot */
+  matchedSlot: bigint | null;
+}
+
+/**
+ * Compare a round's slot hash with the SlotHashes entry of its end slot.
+ */
+export function checkSlotHash(
+  slotHash: Buffer,
+  endSlot: bigint,
+  entries: SlotHashEntry[]
+): SlotHashCheck {
+  const expected = entries.find((entry) => entry.slot === endSlot);
+  if (expected?.hash.equals(slotHash)) {
+    return { status: "verified", matchedSlot: null };
+  }
+
+  // * Locate the hash elsewhere in the window to tell an off-by-n slot from garbage
+  const matchedSlot = entries.find((entry) => entry.hash.equals(slotHash))?.slot ?? null;
+  if (!expected && matchedSlot === null) {
+    return { status: "unavailable", matchedSlot: null };
+  }
+  return { status: "mismatch", matchedSlot };
+}
+
+/**
+ * Verify the stored slot hash of a completed round and record the status.
+ *
+ * @returns the stored status, or null if the check could not run
+ */
+export async function verifySlotHash(
+  roundId: bigint,
+  slotHash: Buffer,
+  deps: SlotHashVerificationDependencies
+): Promise<HashVerificationStatus | null> {
+  try {
+    const round = await deps.repository.getRound(roundId);
+    if (!round || round.boardEndSlot === null) {
+      collectorMetrics.slotHashVerifications.inc(1, { outcome: "skipped" });
+      logger.debug("No board end slot stored, skipping slot hash verification", {
+        roundId: roundId.toString(),
+      });
+      return null;
+    }
+
+    const endSlot = round.boardEndSlot;
+    const { entries, contextSlot } = await fetchSlotHashesWithContext({ retries: 2 });
+    const { status, matchedSlot } = checkSlotHash(slotHash, endSlot, entries);
+
+    await deps.repository.setHashVerification(roundId, status);
+    collectorMetrics.slotHashVerifications.inc(1, { outcome: status });
+
+    const details = {
+      roundId: roundId.toString(),
+      endSlot: endSlot.toString(),
+      matchedSlot: matchedSlot?.toString(),
+      contextSlot: contextSlot.toString(),
+      oldestSlot: entries[entries.length - 1]?.slot.toString(),
+      hashPrefix: slotHash.subarray(0, 8).toString("hex"),
+    };
+
+    if (status === "mismatch") {
+      logger.error("Slot hash does not match the SlotHashes sysvar", details);
+      await deps.notifier.notifyFailure(
+        roundId,
+        "Slot hash does not match the SlotHashes sysvar",
+        details
+      );
+    } else if (status === "unavailable") {
+      logger.warn("End slot not in the SlotHashes sysvar, hash not verified", details);
+    } else {
+      logger.debug("Slot hash verified", details);
+    }
+
+    return status;
+  } catch (error) {
+    collectorMetrics.slotHashVerifications.inc(1, { outcome: "failed" });
+    logger.warn("Slot hash verification failed", {
+      roundId: roundId.toString(),
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
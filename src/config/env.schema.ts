@@ -9,6 +9,43 @@ export const envSchema = z.object({
   RPC_URL: z.string().url().describe("Solana RPC HTTP endpoint"),
   RPC_WS_URL: z.string().url().describe("Solana RPC WebSocket endpoint"),
 
+  RPC_FALLBACK_URLS: z
+    .string()
+    .default("")
+    .transform((value) =>
+      value
+        .split(",")
+        .map((part) => part.trim())
+        .filter((part) => part.length > 0)
+    )
+    .pipe(z.array(z.string().url()))
+    .describe("Comma-separated extra RPC HTTP endpoints for failover and racing"),
+
+  RPC_RACE_WIDTH: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .max(5)
+    .default(2)
+    .describe("RPC endpoints raced for the Phase 2 round state fetch (1 disables racing)"),
+
+  // * Account update stream
+  ACCOUNT_STREAM: z
+    .enum(["websocket", "yellowstone"])
+    .default("websocket")
+    .describe("Push source of board updates: RPC WebSocket or Yellowstone gRPC"),
+
+  YELLOWSTONE_GRPC_URL: z
+    .string()
+    .url()
+    .optional()
+    .describe("Yellowstone gRPC endpoint (required when ACCOUNT_STREAM=yellowstone)"),
+
+  YELLOWSTONE_X_TOKEN: z
+    .string()
+    .optional()
+    .describe("Yellowstone gRPC access token (x-token header)"),
+
   // * Discord webhook for error notifications
   DISCORD_WEBHOOK_URL: z
     .string()
@@ -33,17 +70,90 @@ export const envSchema = z.object({
     .default(5)
     .describe("Slots remaining to capture board state + calculate EV (like smart-bot)"),
 
+  EV_SNAPSHOT_OFFSETS: z
+    .string()
+    .default("")
+    .transform((value) =>
+      value
+        .split(",")
+        .map((part) => part.trim())
+        .filter((part) => part.length > 0)
+        .map(Number)
+    )
+    .pipe(z.array(z.number().int().min(1).max(150)))
+    .describe("Comma-separated slot offsets for extra board snapshots (e.g. 40,20,10,5,2)"),
+
+  MINER_WATCHLIST: z
+    .string()
+    .default("")
+    .transform((value) =>
+      value
+        .split(",")
+        .map((part) => part.trim())
+        .filter((part) => part.length > 0)
+    )
+    .pipe(z.array(z.string().regex(/^[1-9A-HJ-NP-Za-km-z]{32,44}$/, "Invalid base58 pubkey")))
+    .describe("Comma-separated miner authorities whose deployments are recorded per round"),
+
+  VERIFY_SLOT_HASH: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((value) => value === "true")
+    .describe("Check post-fin slot hashes against the SlotHashes sysvar"),
+
+  // * Storage backend
+  DB_DRIVER: z
+    .enum(["sqlite", "postgres"])
+    .default("sqlite")
+    .describe("Round repository backend"),
+
   DB_PATH: z
     .string()
     .default("./data/rounds.db")
     .describe("Path to SQLite database file"),
 
+  DATABASE_URL: z
+    .string()
+    .url()
+    .optional()
+    .describe("PostgreSQL connection string (required when DB_DRIVER=postgres)"),
+
+  // * Optional HTTP server (query API)
+  HTTP_PORT: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .max(65535)
+    .optional()
+    .describe("Port for the read-only HTTP API (disabled when unset)"),
+
+  HTTP_HOST: z
+    .string()
+    .default("127.0.0.1")
+    .describe("Interface the HTTP API binds to"),
+
+  HEALTH_MAX_WS_AGE_MS: z.coerce
+    .number()
+    .int()
+    .min(1000)
+    .default(180_000)
+    .describe("WebSocket update age after which /health reports the watcher as stale"),
+
   // * Logging
   LOG_LEVEL: z
     .enum(["debug", "info", "warn", "error"])
     .default("info")
     .describe("Logging verbosity level"),
-});
+}).refine((env) => env.DB_DRIVER !== "postgres" || env.DATABASE_URL !== undefined, {
+  message: "DATABASE_URL is required when DB_DRIVER=postgres",
+  path: ["DATABASE_URL"],
+}).refine(
+  (env) => env.ACCOUNT_STREAM !== "yellowstone" || env.YELLOWSTONE_GRPC_URL !== undefined,
+  {
+    message: "YELLOWSTONE_GRPC_URL is required when ACCOUNT_STREAM=yellowstone",
+    path: ["YELLOWSTONE_GRPC_URL"],
+  }
+);
 
 export type EnvConfig = z.infer<typeof envSchema>;
 
@@ -0,0 +1,22 @@
+/**
+ * Post-fin consistency checks between stored round data and the on-chain Round account.
+ * - deployed_total: sum of stored deployed_final vs on-chain total_deployed
+ * - num_winners: stored num_winners vs on-chain counts[winning_tile]
+ * - split_top_miner: top miner = split address vs shouldSplitReward(slot_hash)
+ * - payout_total: total_winnings + total_vaulted within the losing tiles' SOL
+ */
+export type AnomalyCheck = "deployed_total" | "num_winners" | "split_top_miner" | "payout_total";
+
+/**
+ * A failed consistency check of a round.
+ */
+export interface RoundAnomaly {
+  roundId: bigint;
+  check: AnomalyCheck;
+  /** Value implied by the on-chain state (decimal string or boolean) */
+  expected: string;
+  /** Value stored for the round */
+  actual: string;
+  /** Detection timestamp (ms) */
+  detectedAt: number;
+}
@@ -0,0 +1,62 @@
+/**
+ * How a backtested strategy sizes its stake on a selected tile.
+ * - max-profitable: the tile's pre-fin max profitable stake (capped by stakeSol if > 0)
+ * - fixed: stakeSol on every selected tile
+ */
+export type BacktestStakeMode = "max-profitable" | "fixed";
+
+/**
+ * Strategy definition replayed by the backtester.
+ * Each round, it stakes on the top-N tiles by pre-fin EV rank whose EV ratio
+ * is above the threshold.
+ */
+export interface BacktestStrategy {
+  name: string;
+  /** Number of best-ranked tiles considered (1-25) */
+  topN: number;
+  /** Minimum pre-fin EV ratio to stake on a tile */
+  minEvRatio: number;
+  stakeMode: BacktestStakeMode;
+  /** Fixed stake, or cap of the max profitable stake (0 = uncapped), in SOL */
+  stakeSol: number;
+}
+
+/**
+ * Simulated outcome of a strategy in one round.
+ */
+export interface BacktestRoundResult {
+  roundId: bigint;
+  /** Tiles staked on, by index */
+  tiles: number[];
+  /** Total stake (lamports) */
+  staked: bigint;
+  /** Whether one of the staked tiles won */
+  won: boolean;
+  /** SOL paid back: winning stake + share of winnings (lamports) */
+  returnedSol: bigint;
+  /** ORE earned: top miner reward + motherlode shares (atomic units) */
+  rewardsOre: bigint;
+  /** Net result in SOL, ORE valued at the round's stored price (after fees) */
+  pnlSol: number;
+}
+
+/**
+ * Aggregated backtest result over a round range.
+ */
+export interface BacktestSummary {
+  strategy: BacktestStrategy;
+  /** Completed rounds with pre-fin data */
+  roundsScanned: number;
+  /** Rounds where the strategy staked */
+  roundsPlayed: number;
+  /** Played rounds where a staked tile won */
+  roundsWon: number;
+  stakedSol: number;
+  returnedSol: number;
+  rewardsOre: number;
+  pnlSol: number;
+  /** pnlSol / stakedSol (0 if nothing was staked) */
+  roi: number;
+  /** Largest peak-to-trough drop of the cumulative PnL (SOL) */
+  maxDrawdownSol: number;
+}
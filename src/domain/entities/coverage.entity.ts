@@ -0,0 +1,47 @@
+/**
+ * Coverage Entities
+ *
+ * Describe holes and per-day completeness of the collected round history.
+ */
+
+/**
+ * Collection phase in which a failure happened.
+ */
+export type CollectionPhase = "pre-fin" | "post-fin";
+
+/**
+ * Classification of a gap in the rounds table.
+ * - missing: never captured (no row, no recorded failure)
+ * - failed: captured or attempted, then deleted after a failure
+ * - pending: row exists but post-fin was never completed
+ */
+export type RoundGapKind = "missing" | "failed" | "pending";
+
+/**
+ * Contiguous range of round IDs sharing the same gap kind.
+ */
+export interface RoundGap {
+  /** First round ID (inclusive) */
+  fromRoundId: bigint;
+  /** Last round ID (inclusive) */
+  toRoundId: bigint;
+  kind: RoundGapKind;
+}
+
+/**
+ * Coverage of completed rounds for one UTC day.
+ */
+export interface DailyCoverage {
+  /** UTC date (YYYY-MM-DD) */
+  day: string;
+  /** First round ID seen that day */
+  firstRoundId: bigint;
+  /** Round IDs expected that day (up to the next day's first round) */
+  expected: number;
+  /** Completed rounds (post-fin stored) */
+  complete: number;
+  /** Rounds still waiting for post-fin */
+  pending: number;
+  /** complete / expected, in percent */
+  coveragePct: number;
+}
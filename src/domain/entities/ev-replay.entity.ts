@@ -0,0 +1,34 @@
+import type { TilePreFin } from "./tile.entity.js";
+
+/**
+ * Tunable parameters of the EV model.
+ */
+export interface EvParameters {
+  /** Share of SOL winnings and ORE value kept after fees (0.9 = 10% fee) */
+  feeFactor: number;
+  /** Probability that the motherlode is hit in a round */
+  motherlodeProbability: number;
+  /** Stake (SOL) the baseline EV ratio is computed for */
+  minStakeSol: number;
+  /** Existing exposure (SOL) on the board before placing */
+  exposureSol: number;
+}
+
+/**
+ * A named EV recomputation over stored rounds, with the parameters it used.
+ */
+export interface EvReplayRun {
+  name: string;
+  parameters: EvParameters;
+  /** Creation timestamp (ms) */
+  createdAt: number;
+}
+
+/**
+ * Recomputed EV of one round for a replay.
+ */
+export interface EvReplayRound {
+  roundId: bigint;
+  /** 25 tiles with recomputed EV, max profitable stake and rank */
+  tiles: TilePreFin[];
+}
@@ -3,10 +3,35 @@ export type {
   TilePreFin,
   TilePostFin,
   TileRecord,
+  TileStats,
 } from "./tile.entity.js";
 export type {
   RoundPreFin,
   RoundPostFin,
+  RoundBackfill,
   RoundRecord,
+  HashVerificationStatus,
 } from "./round.entity.js";
-
+export type { BoardSnapshot } from "./snapshot.entity.js";
+export type {
+  CollectionPhase,
+  RoundGapKind,
+  RoundGap,
+  DailyCoverage,
+} from "./coverage.entity.js";
+export type { MinerTileDeployment, MinerRound } from "./miner.entity.js";
+export type { TreasurySnapshot } from "./treasury.entity.js";
+export type { AnomalyCheck, RoundAnomaly } from "./anomaly.entity.js";
+export type { EvParameters, EvReplayRun, EvReplayRound } from "./ev-replay.entity.js";
+export type {
+  BacktestStakeMode,
+  BacktestStrategy,
+  BacktestRoundResult,
+  BacktestSummary,
+} from "./backtest.entity.js";
+export type {
+  TileLateFlow,
+  RoundLateFlow,
+  LateFlowStats,
+  LateFlowReport,
+} from "./late-flow.entity.js";
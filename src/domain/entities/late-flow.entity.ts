@@ -0,0 +1,68 @@
+/**
+ * Late flow of one tile: deposits between the pre-fin snapshot and round end.
+ */
+export interface TileLateFlow {
+  /** Tile index on the board (0-24) */
+  tileIndex: number;
+  /** deployed_final - deployed (lamports) */
+  lateDeployed: bigint;
+  /** count_final - miners_count */
+  lateMiners: bigint;
+  /** lateDeployed / deployed_final (0 for an empty tile) */
+  lateShare: number;
+  /** Pre-fin EV ratio and rank */
+  evRatio: number;
+  rankEv: number;
+  /** EV ratio and rank recomputed on the final board (pre-fin price) */
+  finalEvRatio: number;
+  finalRankEv: number;
+}
+
+/**
+ * Late flow of a completed round with a pre-fin snapshot.
+ */
+export interface RoundLateFlow {
+  roundId: bigint;
+  /** Slots left when the pre-fin snapshot was taken (the late window) */
+  remainingSlots: number | null;
+  /** Late lamports across all tiles */
+  lateDeployed: bigint;
+  lateMiners: bigint;
+  /** lateDeployed / final total deployed */
+  lateShare: number;
+  /** 25 tiles ordered by tile index */
+  tiles: TileLateFlow[];
+}
+
+/**
+ * Late flow averages of a group of tiles (a board position or a pre-fin rank).
+ */
+export interface LateFlowStats {
+  tiles: number;
+  /** Average late lamports */
+  avgLateDeployed: number;
+  avgLateMiners: number;
+  avgLateShare: number;
+  /** Share of all late lamports that went to this group */
+  shareOfLateFlow: number;
+  avgEvRatio: number;
+  avgFinalEvRatio: number;
+  avgFinalRankEv: number;
+  /** Average finalRankEv - rankEv (> 0: the tile lost places) */
+  avgRankShift: number;
+}
+
+/**
+ * Late flow aggregated over a round range.
+ */
+export interface LateFlowReport {
+  rounds: number;
+  avgRemainingSlots: number | null;
+  /** Average late lamports per round */
+  avgLateDeployed: number;
+  avgLateShare: number;
+  /** 25 entries, tile 0 first */
+  byTile: (LateFlowStats & { tileIndex: number })[];
+  /** 25 entries, pre-fin rank 1 first */
+  byRank: (LateFlowStats & { rankEv: number })[];
+}
@@ -0,0 +1,31 @@
+/**
+ * Deployment of a watched miner on one tile.
+ */
+export interface MinerTileDeployment {
+  tileIndex: number;
+  /** Deployed lamports */
+  deployed: bigint;
+}
+
+/**
+ * Participation of a watched miner in a completed round.
+ */
+export interface MinerRound {
+  roundId: bigint;
+  /** Miner authority (base58) */
+  authority: string;
+  /** Capture timestamp (ms) */
+  tsCapture: number;
+  /** Total deployed lamports across all tiles */
+  totalDeployed: bigint;
+  /** Lamports deployed on the winning tile */
+  deployedWinning: bigint;
+  /** SOL reward for the round (lamports, stake returned + winnings share) */
+  rewardsSol: bigint;
+  /** ORE reward for the round (atomic units, top miner + motherlode share) */
+  rewardsOre: bigint;
+  /** Whether the miner received the whole top miner reward */
+  isTopMiner: boolean;
+  /** Tiles the miner deployed on (non-zero only) */
+  tiles: MinerTileDeployment[];
+}
@@ -1,6 +1,14 @@
 import type { PriceQuote } from "./price.entity.js";
 import type { TilePreFin, TilePostFin } from "./tile.entity.js";
 
+/**
+ * Outcome of checking a round's slot hash against the SlotHashes sysvar:
+ * - verified: the sysvar hash of the board end slot matches
+ * - mismatch: the sysvar holds a different hash for that slot
+ * - unavailable: the slot is not in the sysvar (skipped, or older than its window)
+ */
+export type HashVerificationStatus = "verified" | "mismatch" | "unavailable";
+
 /**
  * Round snapshot captured during pre-fin phase.
  * Contains all data needed before round completion.
@@ -11,6 +19,10 @@ export interface RoundPreFin {
   tsPre: number;
   /** Slot at snapshot time */
   slotPre: bigint;
+  /** Slot the round state was read at (RPC context or pushed update) */
+  contextSlot: bigint;
+  /** Slot the Phase 2 trigger aimed at (end slot - EV snapshot slots) */
+  targetSlot: bigint;
   /** Slots remaining when snapshot was taken */
   remainingSlots: number;
   /** Board start slot */
@@ -50,8 +62,12 @@ export interface RoundPostFin {
   splitTopMiner: boolean;
   /** Top miner ORE reward (atomic units) */
   topMinerReward: bigint;
-  /** Motherlode ORE paid (atomic units) */
+  /** Whether the motherlode was hit this round */
+  motherlodeTriggered: boolean;
+  /** Motherlode ORE paid to winners (atomic units, 0 when not triggered) */
   motherlodePaid: bigint;
+  /** Motherlode ORE pool at round end (atomic units) */
+  motherlodePool: bigint;
   /** Number of winners */
   numWinners: bigint;
   /** Total winnings in lamports */
@@ -66,40 +82,57 @@ export interface RoundPostFin {
   tiles: TilePostFin[];
 }
 
+/**
+ * Post-fin-only round recovered by backfill.
+ * When the round actually ended is unknown, so only the backfill time is kept.
+ */
+export interface RoundBackfill extends Omit<RoundPostFin, "tsPost"> {
+  /** Timestamp of the backfill run (ms) */
+  backfilledAt: number;
+}
+
 /**
  * Complete round record for database storage.
+ * Pre-fin fields are null for backfilled rounds (post-fin only).
  */
 export interface RoundRecord {
   roundId: bigint;
-  tsPre: number;
+  tsPre: number | null;
   tsPost: number | null;
-  slotPre: bigint;
-  remainingSlots: number;
-  boardStartSlot: bigint;
-  boardEndSlot: bigint;
+  slotPre: bigint | null;
+  remainingSlots: number | null;
+  boardStartSlot: bigint | null;
+  boardEndSlot: bigint | null;
   // Price
-  priceOreSol: number;
-  priceSolUsd: number;
-  priceOreUsd: number;
-  priceFetchedAt: number;
+  priceOreSol: number | null;
+  priceSolUsd: number | null;
+  priceOreUsd: number | null;
+  priceFetchedAt: number | null;
   // Aggregates
-  totalDeployed: bigint;
-  totalMiners: bigint;
+  totalDeployed: bigint | null;
+  totalMiners: bigint | null;
   // Metrics
-  latencyFetchMs: number;
-  latencyEvMs: number;
-  miningCostPct: number;
+  latencyFetchMs: number | null;
+  latencyEvMs: number | null;
+  miningCostPct: number | null;
   // Post-fin (nullable)
   slotHash: Buffer | null;
   rngU64: bigint | null;
   winningTile: number | null;
   splitTopMiner: boolean;
   topMinerReward: bigint | null;
+  motherlodeTriggered: boolean;
   motherlodePaid: bigint | null;
+  motherlodePool: bigint | null;
   numWinners: bigint | null;
   totalWinnings: bigint | null;
   totalVaulted: bigint | null;
   rentPayer: string | null;
   topMinerPubkey: string | null;
+  /** SlotHashes check of slotHash (null when not verified) */
+  hashVerified: HashVerificationStatus | null;
+  // Provenance
+  backfilled: boolean;
+  /** Backfill run time (ms), null for live rounds; backfilled rounds have no tsPost */
+  backfilledAt: number | null;
 }
-
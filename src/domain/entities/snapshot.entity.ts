@@ -0,0 +1,27 @@
+import type { TilePreFin } from "./tile.entity.js";
+
+/**
+ * Board state + EV captured at one point of a round.
+ * A round has one snapshot per configured offset, plus the Phase 2 snapshot.
+ */
+export interface BoardSnapshot {
+  roundId: bigint;
+  /** Slot the board state was read at */
+  slot: bigint;
+  /** Capture timestamp (ms) */
+  tsCapture: number;
+  /** Slots remaining before round end at capture */
+  remainingSlots: number;
+  /** Total deployed lamports across all tiles */
+  totalDeployed: bigint;
+  /** Total miner count across all tiles */
+  totalMiners: bigint;
+  /** ORE price in SOL used for EV */
+  priceOreSol: number;
+  /** Slot the trigger aimed at (end slot - offset), null for older snapshots */
+  targetSlot: bigint | null;
+  /** Current slot when the trigger fired, null for older snapshots */
+  triggerSlot: bigint | null;
+  /** Per-tile deployment and EV */
+  tiles: TilePreFin[];
+}
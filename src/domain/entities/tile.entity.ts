@@ -33,19 +33,41 @@ export interface TilePostFin {
 
 /**
  * Combined tile data for database storage.
+ * Pre-fin fields are null for backfilled rounds (post-fin only).
  */
 export interface TileRecord {
   roundId: bigint;
   tileIndex: number;
-  // Pre-fin
-  deployed: bigint;
-  minersCount: bigint;
-  othersStake: bigint;
-  evRatio: number;
-  maxProfitable: bigint;
-  rankEv: number;
+  // Pre-fin (nullable)
+  deployed: bigint | null;
+  minersCount: bigint | null;
+  othersStake: bigint | null;
+  evRatio: number | null;
+  maxProfitable: bigint | null;
+  rankEv: number | null;
   // Post-fin (nullable)
   deployedFinal: bigint | null;
   countFinal: bigint | null;
 }
 
+/**
+ * Aggregated statistics for one tile across stored rounds.
+ */
+export interface TileStats {
+  /** Tile index on the board (0-24) */
+  tileIndex: number;
+  /** Completed rounds included */
+  rounds: number;
+  /** Rounds won by this tile */
+  wins: number;
+  /** wins / rounds */
+  winRate: number;
+  /** Average pre-fin EV ratio (null if no pre-fin data) */
+  avgEvRatio: number | null;
+  /** Average pre-fin EV rank (null if no pre-fin data) */
+  avgRankEv: number | null;
+  /** Average pre-fin deployed lamports (null if no pre-fin data) */
+  avgDeployed: number | null;
+  /** Average final deployed lamports */
+  avgDeployedFinal: number | null;
+}
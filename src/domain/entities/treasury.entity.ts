@@ -0,0 +1,27 @@
+import type { CollectionPhase } from "./coverage.entity.js";
+
+/**
+ * Treasury balances read alongside a round (once per collection phase).
+ */
+export interface TreasurySnapshot {
+  roundId: bigint;
+  phase: CollectionPhase;
+  /** Slot the treasury was read at */
+  slot: bigint;
+  /** Capture timestamp (ms) */
+  tsCapture: number;
+  /** SOL collected for buy-bury (lamports) */
+  balance: bigint;
+  /** Motherlode ORE pool (atomic units) */
+  motherlode: bigint;
+  /** Total ORE staking deposits (atomic units) */
+  totalStaked: bigint;
+  /** Total unclaimed ORE mining rewards (atomic units) */
+  totalUnclaimed: bigint;
+  /** Total refined ORE mining rewards (atomic units) */
+  totalRefined: bigint;
+  /** Miner rewards factor (cumulative ORE per unclaimed ORE) */
+  minerRewardsFactor: number;
+  /** Staking rewards factor (cumulative ORE per staked ORE) */
+  stakeRewardsFactor: number;
+}
@@ -1,4 +1,21 @@
-import type { RoundPreFin, RoundPostFin } from "../entities/index.js";
+import type {
+  RoundPreFin,
+  RoundPostFin,
+  RoundBackfill,
+  RoundRecord,
+  TileRecord,
+  TileStats,
+  BoardSnapshot,
+  CollectionPhase,
+  RoundGap,
+  DailyCoverage,
+  MinerRound,
+  TreasurySnapshot,
+  EvReplayRun,
+  EvReplayRound,
+  HashVerificationStatus,
+  RoundAnomaly,
+} from "../entities/index.js";
 
 /**
  * Repository interface for round data persistence.
@@ -7,11 +24,17 @@ import type { RoundPreFin, RoundPostFin } from "../entities/index.js";
 export interface IRoundRepository {
   /**
    * Insert a pre-fin snapshot into the database.
-   * Creates round + 25 tile records in a single transaction.
+   * Creates round + 25 tile records (and the matching board snapshot) in a single transaction.
    * @throws if round already exists
    */
   insertPreFin(data: RoundPreFin): Promise<void>;
 
+  /**
+   * Insert an intermediate board snapshot (round state + EV at a given slot).
+   * Ignored if a snapshot already exists for the same round and slot.
+   */
+  insertSnapshot(snapshot: BoardSnapshot): Promise<void>;
+
   /**
    * Complete a round with post-fin data.
    * Updates existing round + tile records in a single transaction.
@@ -20,12 +43,60 @@ export interface IRoundRepository {
   completePostFin(data: RoundPostFin): Promise<void>;
 
   /**
-   * Delete a round and all associated tiles.
+   * Insert a post-fin-only round recovered by backfill.
+   * Creates round + 25 tile records flagged as backfilled, without EV snapshot
+   * and without post-fin time (ts_post stays NULL, backfilled_at holds the run time).
+   * @throws if round already exists
+   */
+  insertBackfilled(data: RoundBackfill): Promise<void>;
+
+  /**
+   * Insert watched miners' participation in a completed round (+ their tiles).
+   * Ignored for miners already recorded for the same round.
+   */
+  insertMinerRounds(records: MinerRound[]): Promise<void>;
+
+  /**
+   * Insert the treasury balances read during a collection phase of a round.
+   * Ignored if the round already has a treasury snapshot for that phase.
+   */
+  insertTreasurySnapshot(snapshot: TreasurySnapshot): Promise<void>;
+
+  /**
+   * Store the failed consistency checks of a round (single transaction).
+   * A check already recorded for the round is overwritten.
+   */
+  insertAnomalies(anomalies: RoundAnomaly[]): Promise<void>;
+
+  /**
+   * Create or reset an EV replay: stores its parameters and drops the results
+   * of a previous replay with the same name.
+   */
+  saveEvReplayRun(run: EvReplayRun): Promise<void>;
+
+  /**
+   * Insert recomputed tiles of replayed rounds (single transaction).
+   */
+  insertEvReplayRounds(name: string, rounds: EvReplayRound[]): Promise<void>;
+
+  /**
+   * Delete a round and all associated tiles and snapshots.
    * Used when collection fails and we need to remove partial data.
    * @returns true if round was deleted, false if not found
    */
   deleteRound(roundId: bigint): Promise<boolean>;
 
+  /**
+   * Store the result of checking a round's slot hash against the SlotHashes sysvar.
+   */
+  setHashVerification(roundId: bigint, status: HashVerificationStatus): Promise<void>;
+
+  /**
+   * Record a collection failure for a round.
+   * Kept even after the round is deleted, so gaps can be classified.
+   */
+  recordFailure(roundId: bigint, phase: CollectionPhase, reason: string): Promise<void>;
+
   /**
    * Check if a round exists in the database.
    */
@@ -38,9 +109,75 @@ export interface IRoundRepository {
   getLatestRoundId(): Promise<bigint | null>;
 
   /**
-   * Get all pending (incomplete) round IDs.
+   * Get all pending (incomplete) round IDs; backfilled rounds are never pending.
    * Used on startup to complete any interrupted rounds.
    */
   getPendingRoundIds(): Promise<bigint[]>;
-}
 
+  /**
+   * List gaps between the first stored round and the latest round ID.
+   * Missing IDs are split into failed/missing runs; incomplete rows are pending.
+   * @returns Gaps ordered by round ID
+   */
+  findGaps(): Promise<RoundGap[]>;
+
+  /**
+   * Compute per-day coverage of completed rounds (UTC days).
+   * @returns Days ordered chronologically
+   */
+  getDailyCoverage(): Promise<DailyCoverage[]>;
+
+  /**
+   * Get a single round record.
+   * @returns null if the round doesn't exist
+   */
+  getRound(roundId: bigint): Promise<RoundRecord | null>;
+
+  /**
+   * Get round records in an ID range (inclusive), ordered by round ID.
+   * @param limit - Maximum number of rounds returned
+   */
+  getRounds(fromRoundId: bigint, toRoundId: bigint, limit: number): Promise<RoundRecord[]>;
+
+  /**
+   * Get the first and last round IDs with a pre-fin time in [fromTimestamp, toTimestamp).
+   * Backfilled rounds have no pre-fin time and never match.
+   * @returns null if no round was collected in that window
+   */
+  getRoundIdRangeByTime(
+    fromTimestamp?: number,
+    toTimestamp?: number
+  ): Promise<{ fromRoundId: bigint; toRoundId: bigint } | null>;
+
+  /**
+   * Get the 25 tile records of a round, ordered by tile index.
+   * @returns Empty array if the round doesn't exist
+   */
+  getTiles(roundId: bigint): Promise<TileRecord[]>;
+
+  /**
+   * Aggregate per-tile statistics over completed rounds in an optional ID range.
+   * @returns 25 entries ordered by tile index
+   */
+  getTileStats(fromRoundId?: bigint, toRoundId?: bigint): Promise<TileStats[]>;
+
+  /**
+   * Get all board snapshots of a round, ordered by slot.
+   */
+  getSnapshots(roundId: bigint): Promise<BoardSnapshot[]>;
+
+  /**
+   * Get watched miners' participation in a round, ordered by authority.
+   */
+  getMinerRounds(roundId: bigint): Promise<MinerRound[]>;
+
+  /**
+   * Get the treasury snapshots of a round (pre-fin, then post-fin).
+   */
+  getTreasurySnapshots(roundId: bigint): Promise<TreasurySnapshot[]>;
+
+  /**
+   * Get the failed consistency checks of a round.
+   */
+  getAnomalies(roundId: bigint): Promise<RoundAnomaly[]>;
+}
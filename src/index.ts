@@ -6,26 +6,39 @@
  * Features:
  * - Collects pre-fin and post-fin data for every ORE round
  * - Parallel fetching for price, mining cost, and on-chain data
- * - SQLite persistence with atomic transactions
+ * - SQLite or PostgreSQL persistence with atomic transactions
  * - Discord notifications on failures
+ * - Optional read-only HTTP API with health/status and Prometheus metrics
  * - Graceful shutdown on SIGINT/SIGTERM
  */
 
-import { existsSync, mkdirSync } from "node:fs";
-import { dirname } from "node:path";
+import { PublicKey } from "@solana/web3.js";
 import { config } from "./config/index.js";
 import { initLogger } from "./shared/logger.js";
-import { initSqliteClient, getSqliteClient } from "./infrastructure/database/sqlite.client.js";
-import { SqliteRoundRepository } from "./infrastructure/database/sqlite.repository.js";
+import {
+  openRoundRepository,
+  type OpenedRepository,
+} from "./infrastructure/database/repository.factory.js";
 import { initSolanaConnection, getSolanaConnection } from "./infrastructure/solana/connection.js";
+import {
+  initYellowstoneStream,
+  getYellowstoneStream,
+} from "./infrastructure/solana/account-stream.js";
 import { DiscordNotifier } from "./infrastructure/notifications/discord.notifier.js";
 import { Orchestrator } from "./application/orchestrator.js";
+import { HttpServer } from "./presentation/http/http.server.js";
+import { registerQueryRoutes } from "./presentation/http/query.routes.js";
+import { registerStatusRoutes } from "./presentation/http/status.routes.js";
+import { registerMetricsRoutes } from "./presentation/http/metrics.routes.js";
+import { metricsRegistry } from "./shared/metrics.js";
 
 // * Initialize logger first
 const logger = initLogger(config.LOG_LEVEL);
 
 // * Global orchestrator for shutdown handling
 let orchestrator: Orchestrator | null = null;
+let httpServer: HttpServer | null = null;
+let database: OpenedRepository | null = null;
 let isShuttingDown = false;
 
 /**
@@ -37,29 +50,40 @@ async function main(): Promise<void> {
   logger.info("=".repeat(60));
   logger.info("Configuration loaded", {
     rpcUrl: config.RPC_URL.substring(0, 30) + "...",
-    dbPath: config.DB_PATH,
+    rpcFallbacks: config.RPC_FALLBACK_URLS.length,
+    dbDriver: config.DB_DRIVER,
+    dbPath: config.DB_DRIVER === "sqlite" ? config.DB_PATH : undefined,
     pricesFetchThreshold: config.PRE_FIN_THRESHOLD_SLOTS,
     evSnapshotSlots: config.EV_SNAPSHOT_SLOTS,
+    snapshotOffsets: config.EV_SNAPSHOT_OFFSETS,
+    watchedMiners: config.MINER_WATCHLIST.length,
+    verifySlotHash: config.VERIFY_SLOT_HASH,
+    accountStream: config.ACCOUNT_STREAM,
     discordEnabled: !!config.DISCORD_WEBHOOK_URL,
+    httpPort: config.HTTP_PORT ?? "disabled",
   });
 
-  // * Ensure data directory exists
-  const dbDir = dirname(config.DB_PATH);
-  if (!existsSync(dbDir)) {
-    logger.info("Creating data directory", { path: dbDir });
-    mkdirSync(dbDir, { recursive: true });
-  }
-
-  // * Initialize SQLite
-  const sqliteClient = initSqliteClient(config.DB_PATH);
-  await sqliteClient.initialize();
+  // * Initialize database (SQLite or PostgreSQL) and its repository
+  database = await openRoundRepository({
+    driver: config.DB_DRIVER,
+    dbPath: config.DB_PATH,
+    databaseUrl: config.DATABASE_URL,
+  });
+  const repository = database.repository;
 
   // * Initialize Solana connection
-  const solanaConnection = initSolanaConnection(config.RPC_URL, config.RPC_WS_URL);
+  const solanaConnection = initSolanaConnection(config.RPC_URL, config.RPC_WS_URL, {
+    fallbackRpcUrls: config.RPC_FALLBACK_URLS,
+    raceWidth: config.RPC_RACE_WIDTH,
+  });
   await solanaConnection.initialize();
 
-  // * Create repository and notifier
-  const repository = new SqliteRoundRepository();
+  // * Optional Yellowstone gRPC stream for account updates
+  if (config.ACCOUNT_STREAM === "yellowstone" && config.YELLOWSTONE_GRPC_URL) {
+    await initYellowstoneStream(config.YELLOWSTONE_GRPC_URL, config.YELLOWSTONE_X_TOKEN).start();
+  }
+
+  // * Create notifier
   const notifier = new DiscordNotifier(config.DISCORD_WEBHOOK_URL);
 
   // * Create and start orchestrator
@@ -67,6 +91,9 @@ async function main(): Promise<void> {
     {
       preFinThresholdSlots: config.PRE_FIN_THRESHOLD_SLOTS,
       evSnapshotSlots: config.EV_SNAPSHOT_SLOTS,
+      snapshotOffsets: config.EV_SNAPSHOT_OFFSETS,
+      minerWatchlist: config.MINER_WATCHLIST.map((authority) => new PublicKey(authority)),
+      verifySlotHash: config.VERIFY_SLOT_HASH,
     },
     repository,
     notifier
@@ -74,6 +101,17 @@ async function main(): Promise<void> {
 
   await orchestrator.start();
 
+  // * Start optional HTTP API
+  if (config.HTTP_PORT !== undefined) {
+    httpServer = new HttpServer(config.HTTP_PORT, config.HTTP_HOST);
+    registerQueryRoutes(httpServer, repository);
+    registerStatusRoutes(httpServer, orchestrator, solanaConnection, {
+      maxWsUpdateAgeMs: config.HEALTH_MAX_WS_AGE_MS,
+    });
+    registerMetricsRoutes(httpServer, metricsRegistry);
+    await httpServer.start();
+  }
+
   // * Send startup notification
   await notifier.notifyInfo(
     "Collector Started",
@@ -96,11 +134,19 @@ async function shutdown(signal: string): Promise<void> {
   logger.info(`Received ${signal}, shutting down gracefully...`);
 
   try {
-    // * Stop orchestrator first (waits for in-flight operations)
+    // * Stop HTTP API first (no new reads)
+    if (httpServer) {
+      await httpServer.stop();
+    }
+
+    // * Stop orchestrator (waits for in-flight operations)
     if (orchestrator) {
       await orchestrator.stop();
     }
 
+    // * Close Yellowstone stream
+    await getYellowstoneStream()?.close();
+
     // * Close Solana connection
     try {
       await getSolanaConnection().close();
@@ -108,11 +154,9 @@ async function shutdown(signal: string): Promise<void> {
       // Ignore if not initialized
     }
 
-    // * Close SQLite connection
-    try {
-      getSqliteClient().close();
-    } catch {
-      // Ignore if not initialized
+    // * Close database connection
+    if (database) {
+      await database.close();
     }
 
     logger.info("Shutdown complete");
@@ -0,0 +1,157 @@
+/**
+ * Driver-independent aggregation shared by repository implementations.
+ * Repositories run the queries; these helpers turn the rows into domain results.
+ */
+
+import type {
+  RoundGap,
+  RoundGapKind,
+  DailyCoverage,
+  TileStats,
+} from "../../domain/entities/index.js";
+
+/**
+ * Stored round with its completion state, ordered by round ID.
+ */
+export interface RoundStatus {
+  roundId: number;
+  pending: boolean;
+}
+
+/**
+ * First live round of a UTC day.
+ */
+export interface DayBoundary {
+  day: string;
+  firstRoundId: number;
+}
+
+/**
+ * Per-tile aggregates over completed rounds.
+ */
+export interface TileAggregate {
+  tileIndex: number;
+  rounds: number;
+  wins: number;
+  avgEvRatio: number | null;
+  avgRankEv: number | null;
+  avgDeployed: number | null;
+  avgDeployedFinal: number | null;
+}
+
+/**
+ * Append a gap, merging it with the previous one when contiguous and of the same kind.
+ */
+function pushGap(gaps: RoundGap[], from: number, to: number, kind: RoundGapKind): void {
+  const last = gaps[gaps.length - 1];
+  if (last && last.kind === kind && last.toRoundId === BigInt(from - 1)) {
+    last.toRoundId = BigInt(to);
+    return;
+  }
+  gaps.push({ fromRoundId: BigInt(from), toRoundId: BigInt(to), kind });
+}
+
+/**
+ * Build gaps between stored rounds.
+ * Missing IDs are split into failed/missing runs; incomplete rows are pending.
+ *
+ * @param statuses - Stored rounds ordered by round ID
+ * @param failedIds - Deleted round IDs with a recorded failure, ascending
+ */
+export function buildGaps(statuses: RoundStatus[], failedIds: number[]): RoundGap[] {
+  const gaps: RoundGap[] = [];
+  let failedIndex = 0;
+
+  for (let i = 0; i < statuses.length; i++) {
+    const roundId = statuses[i].roundId;
+
+    // * Split the hole before this row into failed / missing runs
+    if (i > 0) {
+      let next = statuses[i - 1].roundId + 1;
+      while (next < roundId) {
+        while (failedIndex < failedIds.length && failedIds[failedIndex] < next) {
+          failedIndex++;
+        }
+        const failedId = failedIds[failedIndex];
+        if (failedId === next) {
+          pushGap(gaps, next, next, "failed");
+          next++;
+        } else {
+          const end = failedId !== undefined && failedId < roundId ? failedId - 1 : roundId - 1;
+          pushGap(gaps, next, end, "missing");
+          next = end + 1;
+        }
+      }
+    }
+
+    if (statuses[i].pending) {
+      pushGap(gaps, roundId, roundId, "pending");
+    }
+  }
+
+  return gaps;
+}
+
+/**
+ * Build per-day coverage of completed rounds.
+ *
+ * @param days - Day boundaries ordered chronologically
+ * @param statuses - Stored rounds ordered by round ID
+ */
+export function buildDailyCoverage(days: DayBoundary[], statuses: RoundStatus[]): DailyCoverage[] {
+  if (days.length === 0 || statuses.length === 0) {
+    return [];
+  }
+
+  // * Day i covers [first_i, first_{i+1}); the first day also absorbs earlier backfilled rows
+  const lastRoundId = statuses[statuses.length - 1].roundId;
+  const coverage = days.map((day, i) => {
+    const first = i === 0 ? Math.min(day.firstRoundId, statuses[0].roundId) : day.firstRoundId;
+    const end = i + 1 < days.length ? days[i + 1].firstRoundId : lastRoundId + 1;
+    return { day: day.day, first, expected: end - first, complete: 0, pending: 0 };
+  });
+
+  let dayIndex = 0;
+  for (const status of statuses) {
+    while (dayIndex + 1 < coverage.length && status.roundId >= coverage[dayIndex + 1].first) {
+      dayIndex++;
+    }
+    if (status.pending) {
+      coverage[dayIndex].pending++;
+    } else {
+      coverage[dayIndex].complete++;
+    }
+  }
+
+  return coverage.map((day) => ({
+    day: day.day,
+    firstRoundId: BigInt(day.first),
+    expected: day.expected,
+    complete: day.complete,
+    pending: day.pending,
+    coveragePct: day.expected > 0 ? (day.complete / day.expected) * 100 : 0,
+  }));
+}
+
+/**
+ * Expand per-tile aggregates to all 25 tiles (tiles without data get zero/null).
+ */
+export function buildTileStats(aggregates: TileAggregate[]): TileStats[] {
+  const byTile = new Map(aggregates.map((aggregate) => [aggregate.tileIndex, aggregate]));
+
+  const stats: TileStats[] = [];
+  for (let tileIndex = 0; tileIndex < 25; tileIndex++) {
+    const aggregate = byTile.get(tileIndex);
+    stats.push({
+      tileIndex,
+      rounds: aggregate?.rounds ?? 0,
+      wins: aggregate?.wins ?? 0,
+      winRate: aggregate && aggregate.rounds > 0 ? aggregate.wins / aggregate.rounds : 0,
+      avgEvRatio: aggregate?.avgEvRatio ?? null,
+      avgRankEv: aggregate?.avgRankEv ?? null,
+      avgDeployed: aggregate?.avgDeployed ?? null,
+      avgDeployedFinal: aggregate?.avgDeployedFinal ?? null,
+    });
+  }
+  return stats;
+}
@@ -1,3 +1,28 @@
 export { SqliteClient, initSqliteClient, getSqliteClient } from "./sqlite.client.js";
 export { SqliteRoundRepository } from "./sqlite.repository.js";
+export {
+  PostgresClient,
+  initPostgresClient,
+  getPostgresClient,
+  type PostgresPool,
+  type PostgresPoolClient,
+  type PostgresQueryable,
+  type PostgresPoolFactory,
+} from "./postgres.client.js";
+export { PostgresRoundRepository } from "./postgres.repository.js";
+export { POSTGRES_MIGRATIONS, type PostgresMigration } from "./postgres.migrations.js";
+export {
+  openRoundRepository,
+  type DatabaseDriver,
+  type DatabaseOptions,
+  type OpenedRepository,
+} from "./repository.factory.js";
 
+export {
+  MIGRATIONS,
+  applyMigrations,
+  getMigrationStatus,
+  getPendingMigrations,
+  type Migration,
+  type MigrationStatus,
+} from "./migrations/index.js";
@@ -0,0 +1,89 @@
+import { getColumns, addColumnIfMissing, rebuildTable, type Migration } from "./migration.js";
+
+/**
+ * Backfill support: pre-fin columns become nullable (post-fin-only rounds)
+ * and rounds get a `backfilled` flag.
+ */
+export const backfilledRounds: Migration = {
+  version: 2,
+  name: "backfilled_rounds",
+  up(db) {
+    // * SQLite can't drop NOT NULL in place: rebuild tables still requiring pre-fin data
+    const roundsRequirePreFin = getColumns(db, "rounds").some(
+      (column) => column.name === "ts_pre" && column.notnull === 1
+    );
+    if (roundsRequirePreFin) {
+      rebuildTable(db, "rounds", `
+        CREATE TABLE rounds_new (
+            round_id            INTEGER PRIMARY KEY,
+            ts_pre              INTEGER,
+            ts_post             INTEGER,
+            slot_pre            INTEGER,
+            remaining_slots     INTEGER,
+            board_start_slot    INTEGER,
+            board_end_slot      INTEGER,
+            price_ore_sol       REAL,
+            price_sol_usd       REAL,
+            price_ore_usd       REAL,
+            price_fetched_at    INTEGER,
+            total_deployed      INTEGER,
+            total_miners        INTEGER,
+            latency_fetch_ms    INTEGER,
+            latency_ev_ms       INTEGER,
+            mining_cost_pct     REAL,
+            slot_hash           BLOB,
+            rng_u64             INTEGER,
+            winning_tile        INTEGER,
+            split_top_miner     INTEGER DEFAULT 0,
+            top_miner_reward    INTEGER,
+            motherlode_paid     INTEGER,
+            num_winners         INTEGER,
+            total_winnings      INTEGER,
+            total_vaulted       INTEGER,
+            rent_payer          TEXT,
+            top_miner_pubkey    TEXT,
+            backfilled          INTEGER NOT NULL DEFAULT 0,
+            CHECK(winning_tile IS NULL OR (winning_tile >= 0 AND winning_tile <= 24)),
+            CHECK(split_top_miner IN (0, 1)),
+            CHECK(backfilled IN (0, 1)),
+            CHECK(slot_hash IS NULL OR length(slot_hash) = 32)
+        )
+      `);
+    } else {
+      addColumnIfMissing(db, "rounds", "backfilled", "INTEGER NOT NULL DEFAULT 0");
+    }
+
+    const tilesRequirePreFin = getColumns(db, "tiles").some(
+      (column) => column.name === "deployed" && column.notnull === 1
+    );
+    if (tilesRequirePreFin) {
+      rebuildTable(db, "tiles", `
+        CREATE TABLE tiles_new (
+            round_id            INTEGER NOT NULL,
+            tile_index          INTEGER NOT NULL,
+            deployed            INTEGER,
+            miners_count        INTEGER,
+            others_stake        INTEGER,
+            ev_ratio            REAL,
+            max_profitable      INTEGER,
+            rank_ev             INTEGER,
+            deployed_final      INTEGER,
+            count_final         INTEGER,
+            PRIMARY KEY (round_id, tile_index),
+            FOREIGN KEY (round_id) REFERENCES rounds(round_id) ON DELETE CASCADE,
+            CHECK(tile_index >= 0 AND tile_index <= 24),
+            CHECK(rank_ev >= 1 AND rank_ev <= 25)
+        )
+      `);
+    }
+
+    // * Rebuilt tables lose their indexes
+    db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_rounds_ts_pre ON rounds(ts_pre);
+      CREATE INDEX IF NOT EXISTS idx_rounds_ts_post ON rounds(ts_post) WHERE ts_post IS NOT NULL;
+      CREATE INDEX IF NOT EXISTS idx_rounds_winning_tile ON rounds(winning_tile) WHERE winning_tile IS NOT NULL;
+      CREATE INDEX IF NOT EXISTS idx_tiles_ev ON tiles(ev_ratio DESC);
+      CREATE INDEX IF NOT EXISTS idx_tiles_rank ON tiles(rank_ev);
+    `);
+  },
+};
@@ -0,0 +1,23 @@
+import type { Migration } from "./migration.js";
+
+/**
+ * Collection failures, kept after the round is deleted (gap classification).
+ */
+export const roundFailures: Migration = {
+  version: 3,
+  name: "round_failures",
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS round_failures (
+          id                  INTEGER PRIMARY KEY AUTOINCREMENT,
+          round_id            INTEGER NOT NULL,
+          phase               TEXT NOT NULL,
+          reason              TEXT NOT NULL,
+          failed_at           INTEGER NOT NULL,
+          CHECK(phase IN ('pre-fin', 'post-fin'))
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_round_failures_round ON round_failures(round_id);
+    `);
+  },
+};
@@ -0,0 +1,38 @@
+import type { Migration } from "./migration.js";
+
+/**
+ * Board state + EV series per round (Phase 2 + configured offsets).
+ */
+export const boardSnapshots: Migration = {
+  version: 4,
+  name: "board_snapshots",
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS board_snapshots (
+          round_id            INTEGER NOT NULL,
+          slot                INTEGER NOT NULL,
+          ts_capture          INTEGER NOT NULL,
+          remaining_slots     INTEGER NOT NULL,
+          total_deployed      INTEGER NOT NULL,
+          total_miners        INTEGER NOT NULL,
+          price_ore_sol       REAL NOT NULL,
+          PRIMARY KEY (round_id, slot)
+      );
+
+      CREATE TABLE IF NOT EXISTS tile_snapshots (
+          round_id            INTEGER NOT NULL,
+          slot                INTEGER NOT NULL,
+          tile_index          INTEGER NOT NULL,
+          deployed            INTEGER NOT NULL,
+          miners_count        INTEGER NOT NULL,
+          ev_ratio            REAL NOT NULL,
+          max_profitable      INTEGER NOT NULL,
+          rank_ev             INTEGER NOT NULL,
+          PRIMARY KEY (round_id, slot, tile_index),
+          FOREIGN KEY (round_id, slot) REFERENCES board_snapshots(round_id, slot) ON DELETE CASCADE,
+          CHECK(tile_index >= 0 AND tile_index <= 24),
+          CHECK(rank_ev >= 1 AND rank_ev <= 25)
+      );
+    `);
+  },
+};
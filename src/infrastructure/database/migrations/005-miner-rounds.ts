@@ -0,0 +1,38 @@
+import type { Migration } from "./migration.js";
+
+/**
+ * Deployment and rewards of watched miners per round.
+ */
+export const minerRounds: Migration = {
+  version: 5,
+  name: "miner_rounds",
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS miner_rounds (
+          round_id            INTEGER NOT NULL,
+          authority           TEXT NOT NULL,
+          ts_capture          INTEGER NOT NULL,
+          total_deployed      INTEGER NOT NULL,
+          deployed_winning    INTEGER NOT NULL,
+          rewards_sol         INTEGER NOT NULL,
+          rewards_ore         INTEGER NOT NULL,
+          is_top_miner        INTEGER NOT NULL,
+          PRIMARY KEY (round_id, authority),
+          FOREIGN KEY (round_id) REFERENCES rounds(round_id) ON DELETE CASCADE,
+          CHECK(is_top_miner IN (0, 1))
+      );
+
+      CREATE TABLE IF NOT EXISTS miner_tiles (
+          round_id            INTEGER NOT NULL,
+          authority           TEXT NOT NULL,
+          tile_index          INTEGER NOT NULL,
+          deployed            INTEGER NOT NULL,
+          PRIMARY KEY (round_id, authority, tile_index),
+          FOREIGN KEY (round_id, authority) REFERENCES miner_rounds(round_id, authority) ON DELETE CASCADE,
+          CHECK(tile_index >= 0 AND tile_index <= 24)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_miner_rounds_authority ON miner_rounds(authority, round_id);
+    `);
+  },
+};
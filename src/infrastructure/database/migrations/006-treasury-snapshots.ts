@@ -0,0 +1,29 @@
+import type { Migration } from "./migration.js";
+
+/**
+ * Treasury balances at pre-fin and post-fin of each round.
+ */
+export const treasurySnapshots: Migration = {
+  version: 6,
+  name: "treasury_snapshots",
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS treasury_snapshots (
+          round_id            INTEGER NOT NULL,
+          phase               TEXT NOT NULL,
+          slot                INTEGER NOT NULL,
+          ts_capture          INTEGER NOT NULL,
+          balance             INTEGER NOT NULL,
+          motherlode          INTEGER NOT NULL,
+          total_staked        INTEGER NOT NULL,
+          total_unclaimed     INTEGER NOT NULL,
+          total_refined       INTEGER NOT NULL,
+          miner_rewards_factor REAL NOT NULL,
+          stake_rewards_factor REAL NOT NULL,
+          PRIMARY KEY (round_id, phase),
+          FOREIGN KEY (round_id) REFERENCES rounds(round_id) ON DELETE CASCADE,
+          CHECK(phase IN ('pre-fin', 'post-fin'))
+      );
+    `);
+  },
+};
@@ -0,0 +1,53 @@
+import { addColumnIfMissing, type Migration } from "./migration.js";
+import { isMotherlodeTriggered } from "../../../application/services/rng-calculator.js";
+
+interface LegacyRoundRow {
+  round_id: number;
+  slot_hash: Buffer;
+  motherlode_paid: number | null;
+}
+
+/**
+ * Motherlode payout accounting: hit flag + real paid amount, pool kept separately.
+ * Completed rounds stored the pool in `motherlode_paid`; it moves to `motherlode_pool`
+ * and `motherlode_paid` keeps it only when the motherlode was hit.
+ */
+export const motherlodePayout: Migration = {
+  version: 7,
+  name: "motherlode_payout",
+  up(db) {
+    addColumnIfMissing(
+      db,
+      "rounds",
+      "motherlode_triggered",
+      "INTEGER DEFAULT 0 CHECK(motherlode_triggered IN (0, 1))"
+    );
+    addColumnIfMissing(db, "rounds", "motherlode_pool", "INTEGER");
+
+    const rows = db
+      .prepare(`
+        SELECT round_id, slot_hash, motherlode_paid FROM rounds
+        WHERE ts_post IS NOT NULL AND slot_hash IS NOT NULL AND motherlode_pool IS NULL
+      `)
+      .all() as LegacyRoundRow[];
+
+    const update = db.prepare(`
+      UPDATE rounds SET
+        motherlode_triggered = @triggered,
+        motherlode_paid = @paid,
+        motherlode_pool = @pool
+      WHERE round_id = @roundId
+    `);
+
+    for (const row of rows) {
+      const triggered = isMotherlodeTriggered(row.slot_hash);
+      const pool = row.motherlode_paid ?? 0;
+      update.run({
+        roundId: row.round_id,
+        triggered: triggered ? 1 : 0,
+        paid: triggered ? pool : 0,
+        pool,
+      });
+    }
+  },
+};
@@ -0,0 +1,74 @@
+import { rebuildTable, type Migration } from "./migration.js";
+import { computeRng } from "../../../application/services/rng-calculator.js";
+import { encodeU64 } from "../u64.codec.js";
+
+interface SlotHashRow {
+  round_id: number;
+  slot_hash: Buffer;
+}
+
+/**
+ * Lossless RNG: `rng_u64` becomes decimal TEXT (values above 2^63 don't fit INTEGER
+ * and were rounded through a JS number), recomputed from the stored slot hash.
+ */
+export const losslessRng: Migration = {
+  version: 8,
+  name: "lossless_rng",
+  up(db) {
+    rebuildTable(db, "rounds", `
+      CREATE TABLE rounds_new (
+          round_id            INTEGER PRIMARY KEY,
+          ts_pre              INTEGER,
+          ts_post             INTEGER,
+          slot_pre            INTEGER,
+          remaining_slots     INTEGER,
+          board_start_slot    INTEGER,
+          board_end_slot      INTEGER,
+          price_ore_sol       REAL,
+          price_sol_usd       REAL,
+          price_ore_usd       REAL,
+          price_fetched_at    INTEGER,
+          total_deployed      INTEGER,
+          total_miners        INTEGER,
+          latency_fetch_ms    INTEGER,
+          latency_ev_ms       INTEGER,
+          mining_cost_pct     REAL,
+          slot_hash           BLOB,
+          rng_u64             TEXT,
+          winning_tile        INTEGER,
+          split_top_miner     INTEGER DEFAULT 0,
+          top_miner_reward    INTEGER,
+          motherlode_triggered INTEGER DEFAULT 0,
+          motherlode_paid     INTEGER,
+          motherlode_pool     INTEGER,
+          num_winners         INTEGER,
+          total_winnings      INTEGER,
+          total_vaulted       INTEGER,
+          rent_payer          TEXT,
+          top_miner_pubkey    TEXT,
+          backfilled          INTEGER NOT NULL DEFAULT 0,
+          CHECK(winning_tile IS NULL OR (winning_tile >= 0 AND winning_tile <= 24)),
+          CHECK(split_top_miner IN (0, 1)),
+          CHECK(motherlode_triggered IN (0, 1)),
+          CHECK(backfilled IN (0, 1)),
+          CHECK(slot_hash IS NULL OR length(slot_hash) = 32)
+      )
+    `);
+
+    // * Copied values went through REAL: recompute them from the slot hash
+    const rows = db
+      .prepare(`SELECT round_id, slot_hash FROM rounds WHERE slot_hash IS NOT NULL`)
+      .all() as SlotHashRow[];
+    const update = db.prepare(`UPDATE rounds SET rng_u64 = ? WHERE round_id = ?`);
+    for (const row of rows) {
+      update.run(encodeU64(computeRng(row.slot_hash)), row.round_id);
+    }
+
+    // * Rebuilt tables lose their indexes
+    db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_rounds_ts_pre ON rounds(ts_pre);
+      CREATE INDEX IF NOT EXISTS idx_rounds_ts_post ON rounds(ts_post) WHERE ts_post IS NOT NULL;
+      CREATE INDEX IF NOT EXISTS idx_rounds_winning_tile ON rounds(winning_tile) WHERE winning_tile IS NOT NULL;
+    `);
+  },
+};
@@ -0,0 +1,36 @@
+import type { Migration } from "./migration.js";
+
+/**
+ * EV replays: named recomputations of tile EV over stored pre-fin data,
+ * kept apart from the collected values in `tiles`.
+ */
+export const evReplays: Migration = {
+  version: 9,
+  name: "ev_replays",
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS ev_replays (
+          name                TEXT PRIMARY KEY,
+          fee_factor          REAL NOT NULL,
+          motherlode_probability REAL NOT NULL,
+          min_stake_sol       REAL NOT NULL,
+          exposure_sol        REAL NOT NULL,
+          created_at          INTEGER NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS ev_replay_tiles (
+          replay_name         TEXT NOT NULL,
+          round_id            INTEGER NOT NULL,
+          tile_index          INTEGER NOT NULL,
+          ev_ratio            REAL NOT NULL,
+          max_profitable      INTEGER NOT NULL,
+          rank_ev             INTEGER NOT NULL,
+          PRIMARY KEY (replay_name, round_id, tile_index),
+          FOREIGN KEY (replay_name) REFERENCES ev_replays(name) ON DELETE CASCADE,
+          FOREIGN KEY (round_id) REFERENCES rounds(round_id) ON DELETE CASCADE,
+          CHECK(tile_index >= 0 AND tile_index <= 24),
+          CHECK(rank_ev >= 1 AND rank_ev <= 25)
+      );
+    `);
+  },
+};
@@ -0,0 +1,18 @@
+import { addColumnIfMissing, type Migration } from "./migration.js";
+
+/**
+ * Slot hash verification: result of checking the stored slot hash against
+ * the SlotHashes sysvar (NULL when the check is disabled or not run).
+ */
+export const hashVerification: Migration = {
+  version: 10,
+  name: "hash_verification",
+  up(db) {
+    addColumnIfMissing(
+      db,
+      "rounds",
+      "hash_verified",
+      "TEXT CHECK(hash_verified IN ('verified', 'mismatch', 'unavailable'))"
+    );
+  },
+};
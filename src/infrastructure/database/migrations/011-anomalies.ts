@@ -0,0 +1,24 @@
+import type { Migration } from "./migration.js";
+
+/**
+ * Anomalies: post-fin consistency checks between stored round data and the
+ * on-chain Round account that failed.
+ */
+export const anomalies: Migration = {
+  version: 11,
+  name: "anomalies",
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS anomalies (
+          round_id            INTEGER NOT NULL,
+          check_name          TEXT NOT NULL,
+          expected            TEXT NOT NULL,
+          actual              TEXT NOT NULL,
+          detected_at         INTEGER NOT NULL,
+          PRIMARY KEY (round_id, check_name),
+          FOREIGN KEY (round_id) REFERENCES rounds(round_id) ON DELETE CASCADE,
+          CHECK(check_name IN ('deployed_total', 'num_winners', 'split_top_miner', 'payout_total'))
+      );
+    `);
+  },
+};
@@ -0,0 +1,14 @@
+import { addColumnIfMissing, type Migration } from "./migration.js";
+
+/**
+ * Slot-accurate triggers: slot each snapshot trigger aimed at, and the current
+ * slot when it fired (NULL for snapshots stored before slot scheduling).
+ */
+export const snapshotTriggerSlots: Migration = {
+  version: 12,
+  name: "snapshot_trigger_slots",
+  up(db) {
+    addColumnIfMissing(db, "board_snapshots", "target_slot", "INTEGER");
+    addColumnIfMissing(db, "board_snapshots", "trigger_slot", "INTEGER");
+  },
+};
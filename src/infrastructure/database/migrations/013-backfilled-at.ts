@@ -0,0 +1,17 @@
+import { addColumnIfMissing, type Migration } from "./migration.js";
+
+/**
+ * Backfilled rounds have no known post-fin time: the backfill run time moves
+ * from ts_post to backfilled_at.
+ */
+export const backfilledAt: Migration = {
+  version: 13,
+  name: "backfilled_at",
+  up(db) {
+    addColumnIfMissing(db, "rounds", "backfilled_at", "INTEGER");
+    db.exec(`
+      UPDATE rounds SET backfilled_at = ts_post, ts_post = NULL
+      WHERE backfilled = 1 AND backfilled_at IS NULL
+    `);
+  },
+};
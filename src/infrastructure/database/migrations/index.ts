@@ -0,0 +1,42 @@
+import type { Migration } from "./migration.js";
+import { initialSchema } from "./001-initial-schema.js";
+import { backfilledRounds } from "./002-backfilled-rounds.js";
+import { roundFailures } from "./003-round-failures.js";
+import { boardSnapshots } from "./004-board-snapshots.js";
+import { minerRounds } from "./005-miner-rounds.js";
+import { treasurySnapshots } from "./006-treasury-snapshots.js";
+import { motherlodePayout } from "./007-motherlode-payout.js";
+import { losslessRng } from "./008-lossless-rng.js";
+import { evReplays } from "./009-ev-replays.js";
+import { hashVerification } from "./010-hash-verification.js";
+import { anomalies } from "./011-anomalies.js";
+import { snapshotTriggerSlots } from "./012-snapshot-trigger-slots.js";
+import { backfilledAt } from "./013-backfilled-at.js";
+
+export type { Migration } from "./migration.js";
+export {
+  applyMigrations,
+  getMigrationStatus,
+  getPendingMigrations,
+  type MigrationStatus,
+} from "./migrator.js";
+
+/**
+ * All schema migrations, in version order.
+ * Append new migrations here; never edit an applied one.
+ */
+export const MIGRATIONS: Migration[] = [
+  initialSchema,
+  backfilledRounds,
+  roundFailures,
+  boardSnapshots,
+  minerRounds,
+  treasurySnapshots,
+  motherlodePayout,
+  losslessRng,
+  evReplays,
+  hashVerification,
+  anomalies,
+  snapshotTriggerSlots,
+  backfilledAt,
+];
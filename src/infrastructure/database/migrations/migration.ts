@@ -0,0 +1,66 @@
+import type Database from "better-sqlite3";
+
+/**
+ * A versioned schema change.
+ * Applied once, in version order, inside a transaction (foreign keys disabled).
+ */
+export interface Migration {
+  /** Strictly increasing version number */
+  version: number;
+  /** Short snake_case description */
+  name: string;
+  /** Apply the change */
+  up(db: Database.Database): void;
+}
+
+/**
+ * Column metadata returned by PRAGMA table_info.
+ */
+interface ColumnInfo {
+  name: string;
+  notnull: number;
+}
+
+/**
+ * List the columns of a table (empty if the table doesn't exist).
+ */
+export function getColumns(db: Database.Database, table: string): ColumnInfo[] {
+  return db.pragma(`table_info(${table})`) as ColumnInfo[];
+}
+
+/**
+ * Add a column unless it already exists.
+ * Databases created before migrations were tracked may already have it.
+ */
+export function addColumnIfMissing(
+  db: Database.Database,
+  table: string,
+  column: string,
+  definition: string
+): void {
+  if (getColumns(db, table).some((existing) => existing.name === column)) {
+    return;
+  }
+  db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+}
+
+/**
+ * Rebuild a table with a new definition, copying the columns both versions share.
+ * Indexes on the table are dropped and must be recreated by the caller.
+ *
+ * @param createSql - CREATE TABLE statement for `${table}_new`
+ */
+export function rebuildTable(db: Database.Database, table: string, createSql: string): void {
+  const newTable = `${table}_new`;
+  db.exec(createSql);
+
+  const newColumns = new Set(getColumns(db, newTable).map((column) => column.name));
+  const shared = getColumns(db, table)
+    .map((column) => column.name)
+    .filter((name) => newColumns.has(name))
+    .join(", ");
+
+  db.exec(`INSERT INTO ${newTable} (${shared}) SELECT ${shared} FROM ${table}`);
+  db.exec(`DROP TABLE ${table}`);
+  db.exec(`ALTER TABLE ${newTable} RENAME TO ${table}`);
+}
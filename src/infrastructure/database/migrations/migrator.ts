@@ -0,0 +1,114 @@
+import type Database from "better-sqlite3";
+import type { Migration } from "./migration.js";
+import { getLogger } from "../../../shared/logger.js";
+
+const logger = getLogger().child("Migrations");
+
+/**
+ * Applied state of a known migration.
+ */
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  /** Application timestamp (ms), null if pending */
+  appliedAt: number | null;
+}
+
+interface AppliedRow {
+  version: number;
+  applied_at: number;
+}
+
+function ensureMigrationsTable(db: Database.Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+        version             INTEGER PRIMARY KEY,
+        name                TEXT NOT NULL,
+        applied_at          INTEGER NOT NULL
+    )
+  `);
+}
+
+/**
+ * Read applied versions, refusing databases migrated by a newer collector.
+ */
+function getAppliedVersions(db: Database.Database, migrations: Migration[]): Map<number, number> {
+  ensureMigrationsTable(db);
+  const rows = db.prepare(`SELECT version, applied_at FROM schema_migrations`).all() as AppliedRow[];
+  const applied = new Map(rows.map((row) => [row.version, row.applied_at]));
+
+  const known = new Set(migrations.map((migration) => migration.version));
+  const unknown = [...applied.keys()].filter((version) => !known.has(version));
+  if (unknown.length > 0) {
+    throw new Error(
+      `Database has unknown migrations (${unknown.join(", ")}): it was migrated by a newer version`
+    );
+  }
+
+  return applied;
+}
+
+/**
+ * List every known migration with its applied state, in version order.
+ */
+export function getMigrationStatus(db: Database.Database, migrations: Migration[]): MigrationStatus[] {
+  const applied = getAppliedVersions(db, migrations);
+  return [...migrations]
+    .sort((a, b) => a.version - b.version)
+    .map((migration) => ({
+      version: migration.version,
+      name: migration.name,
+      appliedAt: applied.get(migration.version) ?? null,
+    }));
+}
+
+/**
+ * List migrations not yet applied, in version order.
+ */
+export function getPendingMigrations(db: Database.Database, migrations: Migration[]): Migration[] {
+  const applied = getAppliedVersions(db, migrations);
+  return [...migrations]
+    .filter((migration) => !applied.has(migration.version))
+    .sort((a, b) => a.version - b.version);
+}
+
+/**
+ * Apply pending migrations, each in its own transaction.
+ *
+ * Foreign keys are disabled meanwhile so tables can be rebuilt without cascading
+ * deletes, then checked once all migrations ran.
+ *
+ * @returns Applied migrations
+ */
+export function applyMigrations(db: Database.Database, migrations: Migration[]): Migration[] {
+  const pending = getPendingMigrations(db, migrations);
+  if (pending.length === 0) {
+    return [];
+  }
+
+  const foreignKeys = db.pragma("foreign_keys", { simple: true }) as number;
+  db.pragma("foreign_keys = OFF");
+
+  try {
+    const record = db.prepare(`
+      INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)
+    `);
+
+    for (const migration of pending) {
+      logger.info("Applying migration", { version: migration.version, name: migration.name });
+      db.transaction(() => {
+        migration.up(db);
+        record.run(migration.version, migration.name, Date.now());
+      })();
+    }
+
+    const violations = db.pragma("foreign_key_check") as unknown[];
+    if (violations.length > 0) {
+      throw new Error(`Foreign key violations after migration: ${violations.length}`);
+    }
+  } finally {
+    db.pragma(`foreign_keys = ${foreignKeys ? "ON" : "OFF"}`);
+  }
+
+  return pending;
+}
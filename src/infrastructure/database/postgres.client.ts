@@ -0,0 +1,200 @@
+import pg from "pg";
+import { getLogger } from "../../shared/logger.js";
+import { POSTGRES_MIGRATIONS, type PostgresMigration } from "./postgres.migrations.js";
+
+/**
+ * Query surface of pg.Pool and pg.PoolClient used by the client and repository.
+ */
+export interface PostgresQueryable {
+  query<R extends pg.QueryResultRow = pg.QueryResultRow>(
+    text: string,
+    values?: unknown[]
+  ): Promise<Pick<pg.QueryResult<R>, "rows" | "rowCount">>;
+}
+
+/**
+ * Client checked out of the pool for a transaction.
+ */
+export interface PostgresPoolClient extends PostgresQueryable {
+  release(): void;
+}
+
+/**
+ * Subset of pg.Pool the client relies on.
+ */
+export interface PostgresPool extends PostgresQueryable {
+  connect(): Promise<PostgresPoolClient>;
+  on(event: "error", listener: (error: Error) => void): unknown;
+  end(): Promise<void>;
+}
+
+/**
+ * Creates the connection pool (replaced by an in-memory database in tests).
+ */
+export type PostgresPoolFactory = (connectionString: string) => PostgresPool;
+
+const createPgPool: PostgresPoolFactory = (connectionString) => new pg.Pool({ connectionString });
+
+/**
+ * PostgreSQL client wrapper.
+ * Handles the connection pool, initialization, and schema migrations.
+ */
+export class PostgresClient {
+  private pool: PostgresPool | null = null;
+  private readonly logger = getLogger().child("Postgres");
+
+  constructor(
+    private readonly connectionString: string,
+    private readonly createPool: PostgresPoolFactory = createPgPool
+  ) {}
+
+  /**
+   * Open the pool, check connectivity and bring the schema up to date.
+   */
+  async initialize(): Promise<void> {
+    this.logger.info("Initializing database", { host: describeConnection(this.connectionString) });
+
+    this.pool = this.createPool(this.connectionString);
+    this.pool.on("error", (error) => {
+      this.logger.error("Idle client error", { error: error.message });
+    });
+
+    const applied = await this.applyMigrations(POSTGRES_MIGRATIONS);
+    if (applied.length > 0) {
+      this.logger.info("Applied schema migrations", {
+        versions: applied.map((migration) => migration.version),
+      });
+    }
+
+    this.logger.info("Database initialized successfully");
+  }
+
+  /**
+   * Get the underlying pool.
+   * @throws if not initialized
+   */
+  getPool(): PostgresPool {
+    if (!this.pool) {
+      throw new Error("Database not initialized. Call initialize() first.");
+    }
+    return this.pool;
+  }
+
+  /**
+   * Close the pool.
+   */
+  async close(): Promise<void> {
+    if (this.pool) {
+      await this.pool.end();
+      this.pool = null;
+      this.logger.info("Database connection closed");
+    }
+  }
+
+  /**
+   * Run a function within a transaction on a dedicated client.
+   * Automatically commits on success, rolls back on error.
+   */
+  async transaction<T>(fn: (client: PostgresPoolClient) => Promise<T>): Promise<T> {
+    const client = await this.getPool().connect();
+    try {
+      await client.query("BEGIN");
+      const result = await fn(client);
+      await client.query("COMMIT");
+      return result;
+    } catch (error) {
+      await client.query("ROLLBACK").catch(() => undefined);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Apply pending migrations, each in its own transaction.
+   * An advisory lock keeps concurrent collectors from migrating twice.
+   */
+  private async applyMigrations(migrations: PostgresMigration[]): Promise<PostgresMigration[]> {
+    const client = await this.getPool().connect();
+
+    try {
+      await client.query("SELECT pg_advisory_lock(hashtext('schema_migrations'))");
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS schema_migrations (
+            version             INTEGER PRIMARY KEY,
+            name                TEXT NOT NULL,
+            applied_at          BIGINT NOT NULL
+        )
+      `);
+
+      const { rows } = await client.query<{ version: number }>(
+        `SELECT version FROM schema_migrations`
+      );
+      const applied = new Set(rows.map((row) => row.version));
+      const known = new Set(migrations.map((migration) => migration.version));
+      const unknown = [...applied].filter((version) => !known.has(version));
+      if (unknown.length > 0) {
+        throw new Error(
+          `Database has unknown migrations (${unknown.join(", ")}): it was migrated by a newer version`
+        );
+      }
+
+      const pending = [...migrations]
+        .filter((migration) => !applied.has(migration.version))
+        .sort((a, b) => a.version - b.version);
+
+      for (const migration of pending) {
+        this.logger.info("Applying migration", { version: migration.version, name: migration.name });
+        try {
+          await client.query("BEGIN");
+          await client.query(migration.sql);
+          await client.query(
+            `INSERT INTO schema_migrations (version, name, applied_at) VALUES ($1, $2, $3)`,
+            [migration.version, migration.name, Date.now()]
+          );
+          await client.query("COMMIT");
+        } catch (error) {
+          await client.query("ROLLBACK").catch(() => undefined);
+          throw error;
+        }
+      }
+
+      return pending;
+    } finally {
+      await client
+        .query("SELECT pg_advisory_unlock(hashtext('schema_migrations'))")
+        .catch(() => undefined);
+      client.release();
+    }
+  }
+}
+
+/**
+ * Host/database part of a connection string (credentials are never logged).
+ */
+function describeConnection(connectionString: string): string {
+  try {
+    const url = new URL(connectionString);
+    return `${url.host}${url.pathname}`;
+  } catch {
+    return "unparseable connection string";
+  }
+}
+
+// * Singleton instance
+let instance: PostgresClient | null = null;
+
+export function initPostgresClient(
+  connectionString: string,
+  createPool?: PostgresPoolFactory
+): PostgresClient {
+  instance = new PostgresClient(connectionString, createPool);
+  return instance;
+}
+
+export function getPostgresClient(): PostgresClient {
+  if (!instance) {
+    throw new Error("PostgreSQL client not initialized. Call initPostgresClient() first.");
+  }
+  return instance;
+}
@@ -0,0 +1,255 @@
+/**
+ * PostgreSQL schema migrations.
+ *
+ * Same tables as the SQLite schema (see schema.sql), with lossless types:
+ * - BIGINT for round IDs, slots and ms timestamps
+ * - NUMERIC(20, 0) for u64 amounts (lamports, ORE atoms, counts, RNG)
+ * - BOOLEAN flags and BYTEA slot hashes
+ *
+ * Versions are tracked in schema_migrations, like the SQLite migrations.
+ */
+
+export interface PostgresMigration {
+  version: number;
+  name: string;
+  sql: string;
+}
+
+const INITIAL_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS rounds (
+      round_id            BIGINT PRIMARY KEY,
+
+      ts_pre              BIGINT,
+      ts_post             BIGINT,
+
+      slot_pre            BIGINT,
+      remaining_slots     INTEGER,
+      board_start_slot    BIGINT,
+      board_end_slot      BIGINT,
+
+      price_ore_sol       DOUBLE PRECISION,
+      price_sol_usd       DOUBLE PRECISION,
+      price_ore_usd       DOUBLE PRECISION,
+      price_fetched_at    BIGINT,
+
+      total_deployed      NUMERIC(20, 0),
+      total_miners        NUMERIC(20, 0),
+
+      latency_fetch_ms    INTEGER,
+      latency_ev_ms       INTEGER,
+      mining_cost_pct     DOUBLE PRECISION,
+
+      slot_hash           BYTEA,
+      rng_u64             NUMERIC(20, 0),
+      winning_tile        SMALLINT,
+      split_top_miner     BOOLEAN NOT NULL DEFAULT FALSE,
+      top_miner_reward    NUMERIC(20, 0),
+      motherlode_triggered BOOLEAN NOT NULL DEFAULT FALSE,
+      motherlode_paid     NUMERIC(20, 0),
+      motherlode_pool     NUMERIC(20, 0),
+      num_winners         NUMERIC(20, 0),
+      total_winnings      NUMERIC(20, 0),
+      total_vaulted       NUMERIC(20, 0),
+      rent_payer          TEXT,
+      top_miner_pubkey    TEXT,
+
+      backfilled          BOOLEAN NOT NULL DEFAULT FALSE,
+
+      CHECK (winning_tile IS NULL OR (winning_tile >= 0 AND winning_tile <= 24)),
+      CHECK (slot_hash IS NULL OR octet_length(slot_hash) = 32)
+  );
+
+  CREATE TABLE IF NOT EXISTS tiles (
+      round_id            BIGINT NOT NULL,
+      tile_index          SMALLINT NOT NULL,
+
+      deployed            NUMERIC(20, 0),
+      miners_count        NUMERIC(20, 0),
+      others_stake        NUMERIC(20, 0),
+      ev_ratio            DOUBLE PRECISION,
+      max_profitable      NUMERIC(20, 0),
+      rank_ev             SMALLINT,
+
+      deployed_final      NUMERIC(20, 0),
+      count_final         NUMERIC(20, 0),
+
+      PRIMARY KEY (round_id, tile_index),
+      FOREIGN KEY (round_id) REFERENCES rounds(round_id) ON DELETE CASCADE,
+
+      CHECK (tile_index >= 0 AND tile_index <= 24),
+      CHECK (rank_ev >= 1 AND rank_ev <= 25)
+  );
+
+  CREATE TABLE IF NOT EXISTS round_failures (
+      id                  BIGSERIAL PRIMARY KEY,
+      round_id            BIGINT NOT NULL,
+      phase               TEXT NOT NULL,
+      reason              TEXT NOT NULL,
+      failed_at           BIGINT NOT NULL,
+
+      CHECK (phase IN ('pre-fin', 'post-fin'))
+  );
+
+  CREATE TABLE IF NOT EXISTS board_snapshots (
+      round_id            BIGINT NOT NULL,
+      slot                BIGINT NOT NULL,
+
+      ts_capture          BIGINT NOT NULL,
+      remaining_slots     INTEGER NOT NULL,
+      total_deployed      NUMERIC(20, 0) NOT NULL,
+      total_miners        NUMERIC(20, 0) NOT NULL,
+      price_ore_sol       DOUBLE PRECISION NOT NULL,
+
+      PRIMARY KEY (round_id, slot)
+  );
+
+  CREATE TABLE IF NOT EXISTS tile_snapshots (
+      round_id            BIGINT NOT NULL,
+      slot                BIGINT NOT NULL,
+      tile_index          SMALLINT NOT NULL,
+
+      deployed            NUMERIC(20, 0) NOT NULL,
+      miners_count        NUMERIC(20, 0) NOT NULL,
+      ev_ratio            DOUBLE PRECISION NOT NULL,
+      max_profitable      NUMERIC(20, 0) NOT NULL,
+      rank_ev             SMALLINT NOT NULL,
+
+      PRIMARY KEY (round_id, slot, tile_index),
+      FOREIGN KEY (round_id, slot) REFERENCES board_snapshots(round_id, slot) ON DELETE CASCADE,
+
+      CHECK (tile_index >= 0 AND tile_index <= 24),
+      CHECK (rank_ev >= 1 AND rank_ev <= 25)
+  );
+
+  CREATE TABLE IF NOT EXISTS miner_rounds (
+      round_id            BIGINT NOT NULL,
+      authority           TEXT NOT NULL,
+
+      ts_capture          BIGINT NOT NULL,
+
+      total_deployed      NUMERIC(20, 0) NOT NULL,
+      deployed_winning    NUMERIC(20, 0) NOT NULL,
+
+      rewards_sol         NUMERIC(20, 0) NOT NULL,
+      rewards_ore         NUMERIC(20, 0) NOT NULL,
+      is_top_miner        BOOLEAN NOT NULL,
+
+      PRIMARY KEY (round_id, authority),
+      FOREIGN KEY (round_id) REFERENCES rounds(round_id) ON DELETE CASCADE
+  );
+
+  CREATE TABLE IF NOT EXISTS miner_tiles (
+      round_id            BIGINT NOT NULL,
+      authority           TEXT NOT NULL,
+      tile_index          SMALLINT NOT NULL,
+
+      deployed            NUMERIC(20, 0) NOT NULL,
+
+      PRIMARY KEY (round_id, authority, tile_index),
+      FOREIGN KEY (round_id, authority) REFERENCES miner_rounds(round_id, authority) ON DELETE CASCADE,
+
+      CHECK (tile_index >= 0 AND tile_index <= 24)
+  );
+
+  CREATE TABLE IF NOT EXISTS treasury_snapshots (
+      round_id            BIGINT NOT NULL,
+      phase               TEXT NOT NULL,
+
+      slot                BIGINT NOT NULL,
+      ts_capture          BIGINT NOT NULL,
+
+      balance             NUMERIC(20, 0) NOT NULL,
+      motherlode          NUMERIC(20, 0) NOT NULL,
+      total_staked        NUMERIC(20, 0) NOT NULL,
+      total_unclaimed     NUMERIC(20, 0) NOT NULL,
+      total_refined       NUMERIC(20, 0) NOT NULL,
+
+      miner_rewards_factor DOUBLE PRECISION NOT NULL,
+      stake_rewards_factor DOUBLE PRECISION NOT NULL,
+
+      PRIMARY KEY (round_id, phase),
+      FOREIGN KEY (round_id) REFERENCES rounds(round_id) ON DELETE CASCADE,
+
+      CHECK (phase IN ('pre-fin', 'post-fin'))
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_rounds_ts_pre ON rounds(ts_pre);
+  CREATE INDEX IF NOT EXISTS idx_rounds_ts_post ON rounds(ts_post) WHERE ts_post IS NOT NULL;
+  CREATE INDEX IF NOT EXISTS idx_rounds_winning_tile ON rounds(winning_tile) WHERE winning_tile IS NOT NULL;
+  CREATE INDEX IF NOT EXISTS idx_tiles_ev ON tiles(ev_ratio DESC);
+  CREATE INDEX IF NOT EXISTS idx_tiles_rank ON tiles(rank_ev);
+  CREATE INDEX IF NOT EXISTS idx_round_failures_round ON round_failures(round_id);
+  CREATE INDEX IF NOT EXISTS idx_miner_rounds_authority ON miner_rounds(authority, round_id);
+`;
+
+const EV_REPLAYS = `
+  CREATE TABLE IF NOT EXISTS ev_replays (
+      name                TEXT PRIMARY KEY,
+      fee_factor          DOUBLE PRECISION NOT NULL,
+      motherlode_probability DOUBLE PRECISION NOT NULL,
+      min_stake_sol       DOUBLE PRECISION NOT NULL,
+      exposure_sol        DOUBLE PRECISION NOT NULL,
+      created_at          BIGINT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS ev_replay_tiles (
+      replay_name         TEXT NOT NULL,
+      round_id            BIGINT NOT NULL,
+      tile_index          SMALLINT NOT NULL,
+
+      ev_ratio            DOUBLE PRECISION NOT NULL,
+      max_profitable      NUMERIC(20, 0) NOT NULL,
+      rank_ev             SMALLINT NOT NULL,
+
+      PRIMARY KEY (replay_name, round_id, tile_index),
+      FOREIGN KEY (replay_name) REFERENCES ev_replays(name) ON DELETE CASCADE,
+      FOREIGN KEY (round_id) REFERENCES rounds(round_id) ON DELETE CASCADE,
+
+      CHECK (tile_index >= 0 AND tile_index <= 24),
+      CHECK (rank_ev >= 1 AND rank_ev <= 25)
+  );
+`;
+
+const HASH_VERIFICATION = `
+  ALTER TABLE rounds ADD COLUMN IF NOT EXISTS hash_verified TEXT
+      CHECK (hash_verified IN ('verified', 'mismatch', 'unavailable'));
+`;
+
+const ANOMALIES = `
+  CREATE TABLE IF NOT EXISTS anomalies (
+      round_id            BIGINT NOT NULL,
+      check_name          TEXT NOT NULL,
+      expected            TEXT NOT NULL,
+      actual              TEXT NOT NULL,
+      detected_at         BIGINT NOT NULL,
+
+      PRIMARY KEY (round_id, check_name),
+      FOREIGN KEY (round_id) REFERENCES rounds(round_id) ON DELETE CASCADE,
+
+      CHECK (check_name IN ('deployed_total', 'num_winners', 'split_top_miner', 'payout_total'))
+  );
+`;
+
+const SNAPSHOT_TRIGGER_SLOTS = `
+  ALTER TABLE board_snapshots ADD COLUMN IF NOT EXISTS target_slot BIGINT;
+  ALTER TABLE board_snapshots ADD COLUMN IF NOT EXISTS trigger_slot BIGINT;
+`;
+
+const BACKFILLED_AT = `
+  ALTER TABLE rounds ADD COLUMN IF NOT EXISTS backfilled_at BIGINT;
+  UPDATE rounds SET backfilled_at = ts_post, ts_post = NULL
+  WHERE backfilled AND backfilled_at IS NULL;
+`;
+
+/**
+ * All PostgreSQL migrations, in version order.
+ * Append new migrations; never edit an applied one.
+ */
+export const POSTGRES_MIGRATIONS: PostgresMigration[] = [
+  { version: 1, name: "initial_schema", sql: INITIAL_SCHEMA },
+  { version: 2, name: "ev_replays", sql: EV_REPLAYS },
+  { version: 3, name: "hash_verification", sql: HASH_VERIFICATION },
+  { version: 4, name: "anomalies", sql: ANOMALIES },
+  { version: 5, name: "snapshot_trigger_slots", sql: SNAPSHOT_TRIGGER_SLOTS },
+  { version: 6, name: "backfilled_at", sql: BACKFILLED_AT },
+];
@@ -0,0 +1,873 @@
+import type { IRoundRepository } from "../../domain/interfaces/round.repository.js";
+import type {
+  RoundPreFin,
+  RoundPostFin,
+  RoundBackfill,
+  RoundRecord,
+  TileRecord,
+  TileStats,
+  TilePreFin,
+  BoardSnapshot,
+  CollectionPhase,
+  RoundGap,
+  DailyCoverage,
+  MinerRound,
+  MinerTileDeployment,
+  TreasurySnapshot,
+  EvReplayRun,
+  EvReplayRound,
+  HashVerificationStatus,
+  RoundAnomaly,
+  AnomalyCheck,
+} from "../../domain/entities/index.js";
+import { getLogger } from "../../shared/logger.js";
+import {
+  getPostgresClient,
+  type PostgresPool,
+  type PostgresPoolClient,
+} from "./postgres.client.js";
+import { buildGaps, buildDailyCoverage, buildTileStats, type RoundStatus } from "./aggregates.js";
+
+/**
+ * PostgreSQL implementation of the round repository.
+ *
+ * u64 values are bound as bigint (sent as decimal text) into NUMERIC/BIGINT
+ * columns, and read back from the driver's string representation, so nothing
+ * goes through a lossy Number conversion.
+ */
+export class PostgresRoundRepository implements IRoundRepository {
+  private readonly logger = getLogger().child("Repository");
+
+  private getPool(): PostgresPool {
+    return getPostgresClient().getPool();
+  }
+
+  async insertPreFin(data: RoundPreFin): Promise<void> {
+    await getPostgresClient().transaction(async (client) => {
+      // * Insert round record
+      await client.query(
+        `INSERT INTO rounds (
+          round_id, ts_pre, slot_pre, remaining_slots,
+          board_start_slot, board_end_slot,
+          price_ore_sol, price_sol_usd, price_ore_usd, price_fetched_at,
+          total_deployed, total_miners,
+          latency_fetch_ms, latency_ev_ms, mining_cost_pct
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)`,
+        [
+          data.roundId,
+          data.tsPre,
+          data.slotPre,
+          data.remainingSlots,
+          data.boardStartSlot,
+          data.boardEndSlot,
+          data.price.oreSol,
+          data.price.solUsd,
+          data.price.oreUsd,
+          data.price.fetchedAt,
+          data.totalDeployed,
+          data.totalMiners,
+          data.latencyFetchMs,
+          data.latencyEvMs,
+          data.miningCostPct,
+        ]
+      );
+
+      // * Insert tile records
+      for (const tile of data.tiles) {
+        await client.query(
+          `INSERT INTO tiles (
+            round_id, tile_index,
+            deployed, miners_count, others_stake,
+            ev_ratio, max_profitable, rank_ev
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+          [
+            data.roundId,
+            tile.tileIndex,
+            tile.deployed,
+            tile.minersCount,
+            tile.othersStake,
+            tile.evRatio,
+            tile.maxProfitable,
+            tile.rankEv,
+          ]
+        );
+      }
+
+      // * Phase 2 snapshot is part of the per-round snapshot series. It replaces a
+      // * series snapshot read at the same slot (same board state, the Phase 2 one is kept)
+      const replaced = await client.query(
+        `DELETE FROM board_snapshots WHERE round_id = $1 AND slot = $2`,
+        [data.roundId, data.contextSlot]
+      );
+      if ((replaced.rowCount ?? 0) > 0) {
+        this.logger.warn("Phase 2 snapshot replaces a snapshot read at the same slot", {
+          roundId: data.roundId.toString(),
+          slot: data.contextSlot.toString(),
+        });
+      }
+      await this.writeSnapshot(client, {
+        roundId: data.roundId,
+        slot: data.contextSlot,
+        tsCapture: data.tsPre,
+        remainingSlots: data.remainingSlots,
+        totalDeployed: data.totalDeployed,
+        totalMiners: data.totalMiners,
+        priceOreSol: data.price.oreSol,
+        targetSlot: data.targetSlot,
+        triggerSlot: data.slotPre,
+        tiles: data.tiles,
+      });
+    });
+
+    this.logger.info("Inserted pre-fin data", { roundId: data.roundId.toString() });
+  }
+
+  async insertSnapshot(snapshot: BoardSnapshot): Promise<void> {
+    await getPostgresClient().transaction((client) => this.writeSnapshot(client, snapshot));
+
+    this.logger.debug("Inserted board snapshot", {
+      roundId: snapshot.roundId.toString(),
+      slot: snapshot.slot.toString(),
+      remainingSlots: snapshot.remainingSlots,
+    });
+  }
+
+  /**
+   * Write a board snapshot + its tiles (caller provides the transaction).
+   */
+  private async writeSnapshot(client: PostgresPoolClient, snapshot: BoardSnapshot): Promise<void> {
+    await client.query(
+      `INSERT INTO board_snapshots (
+        round_id, slot, ts_capture, remaining_slots,
+        total_deployed, total_miners, price_ore_sol,
+        target_slot, trigger_slot
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+      [
+        snapshot.roundId,
+        snapshot.slot,
+        snapshot.tsCapture,
+        snapshot.remainingSlots,
+        snapshot.totalDeployed,
+        snapshot.totalMiners,
+        snapshot.priceOreSol,
+        snapshot.targetSlot,
+        snapshot.triggerSlot,
+      ]
+    );
+
+    for (const tile of snapshot.tiles) {
+      await client.query(
+        `INSERT INTO tile_snapshots (
+          round_id, slot, tile_index,
+          deployed, miners_count, ev_ratio, max_profitable, rank_ev
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+        [
+          snapshot.roundId,
+          snapshot.slot,
+          tile.tileIndex,
+          tile.deployed,
+          tile.minersCount,
+          tile.evRatio,
+          tile.maxProfitable,
+          tile.rankEv,
+        ]
+      );
+    }
+  }
+
+  async insertMinerRounds(records: MinerRound[]): Promise<void> {
+    if (records.length === 0) {
+      return;
+    }
+
+    await getPostgresClient().transaction(async (client) => {
+      for (const record of records) {
+        await client.query(
+          `INSERT INTO miner_rounds (
+            round_id, authority, ts_capture, total_deployed, deployed_winning,
+            rewards_sol, rewards_ore, is_top_miner
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+          ON CONFLICT DO NOTHING`,
+          [
+            record.roundId,
+            record.authority,
+            record.tsCapture,
+            record.totalDeployed,
+            record.deployedWinning,
+            record.rewardsSol,
+            record.rewardsOre,
+            record.isTopMiner,
+          ]
+        );
+
+        for (const tile of record.tiles) {
+          await client.query(
+            `INSERT INTO miner_tiles (round_id, authority, tile_index, deployed)
+            VALUES ($1, $2, $3, $4)
+            ON CONFLICT DO NOTHING`,
+            [record.roundId, record.authority, tile.tileIndex, tile.deployed]
+          );
+        }
+      }
+    });
+
+    this.logger.debug("Inserted miner rounds", {
+      roundId: records[0].roundId.toString(),
+      count: records.length,
+    });
+  }
+
+  async insertTreasurySnapshot(snapshot: TreasurySnapshot): Promise<void> {
+    await this.getPool().query(
+      `INSERT INTO treasury_snapshots (
+        round_id, phase, slot, ts_capture,
+        balance, motherlode, total_staked, total_unclaimed, total_refined,
+        miner_rewards_factor, stake_rewards_factor
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+      ON CONFLICT DO NOTHING`,
+      [
+        snapshot.roundId,
+        snapshot.phase,
+        snapshot.slot,
+        snapshot.tsCapture,
+        snapshot.balance,
+        snapshot.motherlode,
+        snapshot.totalStaked,
+        snapshot.totalUnclaimed,
+        snapshot.totalRefined,
+        snapshot.minerRewardsFactor,
+        snapshot.stakeRewardsFactor,
+      ]
+    );
+
+    this.logger.debug("Inserted treasury snapshot", {
+      roundId: snapshot.roundId.toString(),
+      phase: snapshot.phase,
+    });
+  }
+
+  async insertAnomalies(anomalies: RoundAnomaly[]): Promise<void> {
+    if (anomalies.length === 0) {
+      return;
+    }
+
+    await getPostgresClient().transaction(async (client) => {
+      for (const anomaly of anomalies) {
+        await client.query(
+          `INSERT INTO anomalies (round_id, check_name, expected, actual, detected_at)
+          VALUES ($1, $2, $3, $4, $5)
+          ON CONFLICT (round_id, check_name) DO UPDATE SET
+            expected = EXCLUDED.expected,
+            actual = EXCLUDED.actual,
+            detected_at = EXCLUDED.detected_at`,
+          [anomaly.roundId, anomaly.check, anomaly.expected, anomaly.actual, anomaly.detectedAt]
+        );
+      }
+    });
+
+    this.logger.debug("Inserted anomalies", {
+      roundId: anomalies[0].roundId.toString(),
+      checks: anomalies.map((anomaly) => anomaly.check),
+    });
+  }
+
+  async saveEvReplayRun(run: EvReplayRun): Promise<void> {
+    await getPostgresClient().transaction(async (client) => {
+      await client.query(
+        `INSERT INTO ev_replays (
+          name, fee_factor, motherlode_probability, min_stake_sol, exposure_sol, created_at
+        ) VALUES ($1, $2, $3, $4, $5, $6)
+        ON CONFLICT (name) DO UPDATE SET
+          fee_factor = EXCLUDED.fee_factor,
+          motherlode_probability = EXCLUDED.motherlode_probability,
+          min_stake_sol = EXCLUDED.min_stake_sol,
+          exposure_sol = EXCLUDED.exposure_sol,
+          created_at = EXCLUDED.created_at`,
+        [
+          run.name,
+          run.parameters.feeFactor,
+          run.parameters.motherlodeProbability,
+          run.parameters.minStakeSol,
+          run.parameters.exposureSol,
+          run.createdAt,
+        ]
+      );
+      await client.query(`DELETE FROM ev_replay_tiles WHERE replay_name = $1`, [run.name]);
+    });
+
+    this.logger.info("Saved EV replay", { name: run.name });
+  }
+
+  async insertEvReplayRounds(name: string, rounds: EvReplayRound[]): Promise<void> {
+    if (rounds.length === 0) {
+      return;
+    }
+
+    await getPostgresClient().transaction(async (client) => {
+      for (const round of rounds) {
+        for (const tile of round.tiles) {
+          await client.query(
+            `INSERT INTO ev_replay_tiles (
+              replay_name, round_id, tile_index, ev_ratio, max_profitable, rank_ev
+            ) VALUES ($1, $2, $3, $4, $5, $6)`,
+            [name, round.roundId, tile.tileIndex, tile.evRatio, tile.maxProfitable, tile.rankEv]
+          );
+        }
+      }
+    });
+
+    this.logger.debug("Inserted EV replay rounds", { name, count: rounds.length });
+  }
+
+  async completePostFin(data: RoundPostFin): Promise<void> {
+    await getPostgresClient().transaction(async (client) => {
+      // * Update round with post-fin data
+      await client.query(
+        `UPDATE rounds SET
+          ts_post = $2,
+          slot_hash = $3,
+          rng_u64 = $4,
+          winning_tile = $5,
+          split_top_miner = $6,
+          top_miner_reward = $7,
+          motherlode_triggered = $8,
+          motherlode_paid = $9,
+          motherlode_pool = $10,
+          num_winners = $11,
+          total_winnings = $12,
+          total_vaulted = $13,
+          rent_payer = $14,
+          top_miner_pubkey = $15
+        WHERE round_id = $1`,
+        postFinValues(data, data.tsPost)
+      );
+
+      // * Update tile records with final data
+      for (const tile of data.tiles) {
+        await client.query(
+          `UPDATE tiles SET deployed_final = $3, count_final = $4
+          WHERE round_id = $1 AND tile_index = $2`,
+          [data.roundId, tile.tileIndex, tile.deployedFinal, tile.countFinal]
+        );
+      }
+    });
+
+    this.logger.info("Completed post-fin data", {
+      roundId: data.roundId.toString(),
+      winningTile: data.winningTile,
+    });
+  }
+
+  async insertBackfilled(data: RoundBackfill): Promise<void> {
+    await getPostgresClient().transaction(async (client) => {
+      // * Insert post-fin-only round record
+      await client.query(
+        `INSERT INTO rounds (
+          round_id, backfilled_at,
+          slot_hash, rng_u64, winning_tile, split_top_miner,
+          top_miner_reward, motherlode_triggered, motherlode_paid, motherlode_pool, num_winners,
+          total_winnings, total_vaulted, rent_payer, top_miner_pubkey,
+          backfilled
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, TRUE)`,
+        postFinValues(data, data.backfilledAt)
+      );
+
+      // * Insert tile records with final data only
+      for (const tile of data.tiles) {
+        await client.query(
+          `INSERT INTO tiles (round_id, tile_index, deployed_final, count_final)
+          VALUES ($1, $2, $3, $4)`,
+          [data.roundId, tile.tileIndex, tile.deployedFinal, tile.countFinal]
+        );
+      }
+    });
+
+    this.logger.info("Inserted backfilled round", {
+      roundId: data.roundId.toString(),
+      winningTile: data.winningTile,
+    });
+  }
+
+  async deleteRound(roundId: bigint): Promise<boolean> {
+    const deleted = await getPostgresClient().transaction(async (client) => {
+      await client.query(`DELETE FROM board_snapshots WHERE round_id = $1`, [roundId]);
+      const result = await client.query(`DELETE FROM rounds WHERE round_id = $1`, [roundId]);
+      return result.rowCount ?? 0;
+    });
+
+    if (deleted > 0) {
+      this.logger.warn("Deleted round", { roundId: roundId.toString() });
+      return true;
+    }
+    return false;
+  }
+
+  async exists(roundId: bigint): Promise<boolean> {
+    const result = await this.getPool().query(`SELECT 1 FROM rounds WHERE round_id = $1`, [roundId]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async getLatestRoundId(): Promise<bigint | null> {
+    const { rows } = await this.getPool().query<{ max_id: string | null }>(
+      `SELECT MAX(round_id) AS max_id FROM rounds`
+    );
+    return toBigIntOrNull(rows[0]?.max_id ?? null);
+  }
+
+  async getPendingRoundIds(): Promise<bigint[]> {
+    const { rows } = await this.getPool().query<{ round_id: string }>(
+      `SELECT round_id FROM rounds WHERE ts_post IS NULL AND NOT backfilled`
+    );
+    return rows.map((row) => BigInt(row.round_id));
+  }
+
+  async recordFailure(roundId: bigint, phase: CollectionPhase, reason: string): Promise<void> {
+    await this.getPool().query(
+      `INSERT INTO round_failures (round_id, phase, reason, failed_at) VALUES ($1, $2, $3, $4)`,
+      [roundId, phase, reason, Date.now()]
+    );
+  }
+
+  async setHashVerification(roundId: bigint, status: HashVerificationStatus): Promise<void> {
+    await this.getPool().query(`UPDATE rounds SET hash_verified = $2 WHERE round_id = $1`, [
+      roundId,
+      status,
+    ]);
+  }
+
+  async findGaps(): Promise<RoundGap[]> {
+    const { rows } = await this.getPool().query<{ round_id: string }>(`
+      SELECT DISTINCT round_id FROM round_failures
+      WHERE round_id NOT IN (SELECT round_id FROM rounds)
+      ORDER BY round_id
+    `);
+    const failedIds = rows.map((row) => Number(row.round_id));
+    return buildGaps(await this.getRoundStatuses(), failedIds);
+  }
+
+  async getDailyCoverage(): Promise<DailyCoverage[]> {
+    // * Backfilled rows have no round time, so only live rows date a day
+    const { rows } = await this.getPool().query<{ day: string; first_round_id: string }>(`
+      SELECT
+        to_char(to_timestamp(ts_pre / 1000) AT TIME ZONE 'UTC', 'YYYY-MM-DD') AS day,
+        MIN(round_id) AS first_round_id
+      FROM rounds
+      WHERE backfilled = FALSE
+      GROUP BY day
+      ORDER BY day
+    `);
+    return buildDailyCoverage(
+      rows.map((row) => ({ day: row.day, firstRoundId: Number(row.first_round_id) })),
+      await this.getRoundStatuses()
+    );
+  }
+
+  private async getRoundStatuses(): Promise<RoundStatus[]> {
+    const { rows } = await this.getPool().query<{ round_id: string; pending: boolean }>(`
+      SELECT round_id, ts_post IS NULL AND NOT backfilled AS pending
+      FROM rounds
+      ORDER BY round_id
+    `);
+    return rows.map((row) => ({ roundId: Number(row.round_id), pending: row.pending }));
+  }
+
+  async getRound(roundId: bigint): Promise<RoundRecord | null> {
+    const { rows } = await this.getPool().query<RoundRow>(
+      `SELECT * FROM rounds WHERE round_id = $1`,
+      [roundId]
+    );
+    return rows[0] ? mapRoundRow(rows[0]) : null;
+  }
+
+  async getRounds(fromRoundId: bigint, toRoundId: bigint, limit: number): Promise<RoundRecord[]> {
+    const { rows } = await this.getPool().query<RoundRow>(
+      `SELECT * FROM rounds
+      WHERE round_id BETWEEN $1 AND $2
+      ORDER BY round_id
+      LIMIT $3`,
+      [fromRoundId, toRoundId, limit]
+    );
+    return rows.map(mapRoundRow);
+  }
+
+  async getTiles(roundId: bigint): Promise<TileRecord[]> {
+    const { rows } = await this.getPool().query<TileRow>(
+      `SELECT * FROM tiles WHERE round_id = $1 ORDER BY tile_index`,
+      [roundId]
+    );
+    return rows.map(mapTileRow);
+  }
+
+  async getRoundIdRangeByTime(
+    fromTimestamp?: number,
+    toTimestamp?: number
+  ): Promise<{ fromRoundId: bigint; toRoundId: bigint } | null> {
+    const { rows } = await this.getPool().query<{ min_id: string | null; max_id: string | null }>(
+      `SELECT MIN(round_id) AS min_id, MAX(round_id) AS max_id FROM rounds
+      WHERE ts_pre >= $1 AND ts_pre < $2`,
+      [fromTimestamp ?? 0, toTimestamp ?? Number.MAX_SAFE_INTEGER]
+    );
+    const fromRoundId = toBigIntOrNull(rows[0]?.min_id ?? null);
+    const toRoundId = toBigIntOrNull(rows[0]?.max_id ?? null);
+    if (fromRoundId === null || toRoundId === null) {
+      return null;
+    }
+    return { fromRoundId, toRoundId };
+  }
+
+  async getTileStats(fromRoundId?: bigint, toRoundId?: bigint): Promise<TileStats[]> {
+    const { rows } = await this.getPool().query<TileStatsRow>(
+      `SELECT
+        t.tile_index,
+        COUNT(*)::integer AS rounds,
+        COUNT(*) FILTER (WHERE r.winning_tile = t.tile_index)::integer AS wins,
+        AVG(t.ev_ratio) AS avg_ev_ratio,
+        AVG(t.rank_ev)::double precision AS avg_rank_ev,
+        AVG(t.deployed)::double precision AS avg_deployed,
+        AVG(t.deployed_final)::double precision AS avg_deployed_final
+      FROM tiles t
+      JOIN rounds r ON r.round_id = t.round_id
+      WHERE r.winning_tile IS NOT NULL
+        AND r.round_id BETWEEN $1 AND $2
+      GROUP BY t.tile_index
+      ORDER BY t.tile_index`,
+      [fromRoundId ?? 0n, toRoundId ?? BigInt(Number.MAX_SAFE_INTEGER)]
+    );
+    return buildTileStats(
+      rows.map((row) => ({
+        tileIndex: row.tile_index,
+        rounds: row.rounds,
+        wins: row.wins,
+        avgEvRatio: row.avg_ev_ratio,
+        avgRankEv: row.avg_rank_ev,
+        avgDeployed: row.avg_deployed,
+        avgDeployedFinal: row.avg_deployed_final,
+      }))
+    );
+  }
+
+  async getSnapshots(roundId: bigint): Promise<BoardSnapshot[]> {
+    const pool = this.getPool();
+    const [snapshots, tiles] = await Promise.all([
+      pool.query<BoardSnapshotRow>(
+        `SELECT * FROM board_snapshots WHERE round_id = $1 ORDER BY slot`,
+        [roundId]
+      ),
+      pool.query<TileSnapshotRow>(
+        `SELECT * FROM tile_snapshots WHERE round_id = $1 ORDER BY slot, tile_index`,
+        [roundId]
+      ),
+    ]);
+
+    // * Group tiles by slot
+    const tilesBySlot = new Map<string, TilePreFin[]>();
+    for (const row of tiles.rows) {
+      const slotTiles = tilesBySlot.get(row.slot) ?? [];
+      slotTiles.push({
+        tileIndex: row.tile_index,
+        deployed: BigInt(row.deployed),
+        minersCount: BigInt(row.miners_count),
+        othersStake: BigInt(row.deployed), // Observer mode: others stake == deployed
+        evRatio: row.ev_ratio,
+        maxProfitable: BigInt(row.max_profitable),
+        rankEv: row.rank_ev,
+      });
+      tilesBySlot.set(row.slot, slotTiles);
+    }
+
+    return snapshots.rows.map((row) => ({
+      roundId: BigInt(row.round_id),
+      slot: BigInt(row.slot),
+      tsCapture: Number(row.ts_capture),
+      remainingSlots: row.remaining_slots,
+      totalDeployed: BigInt(row.total_deployed),
+      totalMiners: BigInt(row.total_miners),
+      priceOreSol: row.price_ore_sol,
+      targetSlot: toBigIntOrNull(row.target_slot),
+      triggerSlot: toBigIntOrNull(row.trigger_slot),
+      tiles: tilesBySlot.get(row.slot) ?? [],
+    }));
+  }
+
+  async getMinerRounds(roundId: bigint): Promise<MinerRound[]> {
+    const pool = this.getPool();
+    const [miners, tiles] = await Promise.all([
+      pool.query<MinerRoundRow>(
+        `SELECT * FROM miner_rounds WHERE round_id = $1 ORDER BY authority`,
+        [roundId]
+      ),
+      pool.query<MinerTileRow>(
+        `SELECT * FROM miner_tiles WHERE round_id = $1 ORDER BY authority, tile_index`,
+        [roundId]
+      ),
+    ]);
+
+    // * Group tiles by miner
+    const tilesByAuthority = new Map<string, MinerTileDeployment[]>();
+    for (const row of tiles.rows) {
+      const minerTiles = tilesByAuthority.get(row.authority) ?? [];
+      minerTiles.push({ tileIndex: row.tile_index, deployed: BigInt(row.deployed) });
+      tilesByAuthority.set(row.authority, minerTiles);
+    }
+
+    return miners.rows.map((row) => ({
+      roundId: BigInt(row.round_id),
+      authority: row.authority,
+      tsCapture: Number(row.ts_capture),
+      totalDeployed: BigInt(row.total_deployed),
+      deployedWinning: BigInt(row.deployed_winning),
+      rewardsSol: BigInt(row.rewards_sol),
+      rewardsOre: BigInt(row.rewards_ore),
+      isTopMiner: row.is_top_miner,
+      tiles: tilesByAuthority.get(row.authority) ?? [],
+    }));
+  }
+
+  async getTreasurySnapshots(roundId: bigint): Promise<TreasurySnapshot[]> {
+    const { rows } = await this.getPool().query<TreasurySnapshotRow>(
+      `SELECT * FROM treasury_snapshots WHERE round_id = $1 ORDER BY slot`,
+      [roundId]
+    );
+
+    return rows.map((row) => ({
+      roundId: BigInt(row.round_id),
+      phase: row.phase,
+      slot: BigInt(row.slot),
+      tsCapture: Number(row.ts_capture),
+      balance: BigInt(row.balance),
+      motherlode: BigInt(row.motherlode),
+      totalStaked: BigInt(row.total_staked),
+      totalUnclaimed: BigInt(row.total_unclaimed),
+      totalRefined: BigInt(row.total_refined),
+      minerRewardsFactor: row.miner_rewards_factor,
+      stakeRewardsFactor: row.stake_rewards_factor,
+    }));
+  }
+
+  async getAnomalies(roundId: bigint): Promise<RoundAnomaly[]> {
+    const { rows } = await this.getPool().query<AnomalyRow>(
+      `SELECT * FROM anomalies WHERE round_id = $1 ORDER BY check_name`,
+      [roundId]
+    );
+
+    return rows.map((row) => ({
+      roundId: BigInt(row.round_id),
+      check: row.check_name,
+      expected: row.expected,
+      actual: row.actual,
+      detectedAt: Number(row.detected_at),
+    }));
+  }
+}
+
+/**
+ * Positional values shared by the post-fin UPDATE and the backfill INSERT ($1..$15).
+ * $2 is ts_post for live rounds, backfilled_at for backfilled ones.
+ */
+function postFinValues(data: Omit<RoundPostFin, "tsPost">, timestamp: number): unknown[] {
+  return [
+    data.roundId,
+    timestamp,
+    data.slotHash,
+    data.rngU64,
+    data.winningTile,
+    data.splitTopMiner,
+    data.topMinerReward,
+    data.motherlodeTriggered,
+    data.motherlodePaid,
+    data.motherlodePool,
+    data.numWinners,
+    data.totalWinnings,
+    data.totalVaulted,
+    data.rentPayer,
+    data.topMinerPubkey,
+  ];
+}
+
+/**
+ * Raw row shape of the rounds table.
+ * BIGINT and NUMERIC columns are returned by the driver as strings.
+ */
+interface RoundRow {
+  round_id: string;
+  ts_pre: string | null;
+  ts_post: string | null;
+  slot_pre: string | null;
+  remaining_slots: number | null;
+  board_start_slot: string | null;
+  board_end_slot: string | null;
+  price_ore_sol: number | null;
+  price_sol_usd: number | null;
+  price_ore_usd: number | null;
+  price_fetched_at: string | null;
+  total_deployed: string | null;
+  total_miners: string | null;
+  latency_fetch_ms: number | null;
+  latency_ev_ms: number | null;
+  mining_cost_pct: number | null;
+  slot_hash: Buffer | null;
+  rng_u64: string | null;
+  winning_tile: number | null;
+  split_top_miner: boolean;
+  top_miner_reward: string | null;
+  motherlode_triggered: boolean;
+  motherlode_paid: string | null;
+  motherlode_pool: string | null;
+  num_winners: string | null;
+  total_winnings: string | null;
+  total_vaulted: string | null;
+  rent_payer: string | null;
+  top_miner_pubkey: string | null;
+  hash_verified: HashVerificationStatus | null;
+  backfilled: boolean;
+  backfilled_at: string | null;
+}
+
+/**
+ * Raw row shape of the tiles table.
+ */
+interface TileRow {
+  round_id: string;
+  tile_index: number;
+  deployed: string | null;
+  miners_count: string | null;
+  others_stake: string | null;
+  ev_ratio: number | null;
+  max_profitable: string | null;
+  rank_ev: number | null;
+  deployed_final: string | null;
+  count_final: string | null;
+}
+
+interface BoardSnapshotRow {
+  round_id: string;
+  slot: string;
+  ts_capture: string;
+  remaining_slots: number;
+  total_deployed: string;
+  total_miners: string;
+  price_ore_sol: number;
+  target_slot: string | null;
+  trigger_slot: string | null;
+}
+
+interface TileSnapshotRow {
+  round_id: string;
+  slot: string;
+  tile_index: number;
+  deployed: string;
+  miners_count: string;
+  ev_ratio: number;
+  max_profitable: string;
+  rank_ev: number;
+}
+
+interface MinerRoundRow {
+  round_id: string;
+  authority: string;
+  ts_capture: string;
+  total_deployed: string;
+  deployed_winning: string;
+  rewards_sol: string;
+  rewards_ore: string;
+  is_top_miner: boolean;
+}
+
+interface MinerTileRow {
+  round_id: string;
+  authority: string;
+  tile_index: number;
+  deployed: string;
+}
+
+interface TreasurySnapshotRow {
+  round_id: string;
+  phase: CollectionPhase;
+  slot: string;
+  ts_capture: string;
+  balance: string;
+  motherlode: string;
+  total_staked: string;
+  total_unclaimed: string;
+  total_refined: string;
+  miner_rewards_factor: number;
+  stake_rewards_factor: number;
+}
+
+interface AnomalyRow {
+  round_id: string;
+  check_name: AnomalyCheck;
+  expected: string;
+  actual: string;
+  detected_at: string;
+}
+
+interface TileStatsRow {
+  tile_index: number;
+  rounds: number;
+  wins: number;
+  avg_ev_ratio: number | null;
+  avg_rank_ev: number | null;
+  avg_deployed: number | null;
+  avg_deployed_final: number | null;
+}
+
+function toBigIntOrNull(value: string | null): bigint | null {
+  return value !== null ? BigInt(value) : null;
+}
+
+function toNumberOrNull(value: string | null): number | null {
+  return value !== null ? Number(value) : null;
+}
+
+function mapRoundRow(row: RoundRow): RoundRecord {
+  return {
+    roundId: BigInt(row.round_id),
+    tsPre: toNumberOrNull(row.ts_pre),
+    tsPost: toNumberOrNull(row.ts_post),
+    slotPre: toBigIntOrNull(row.slot_pre),
+    remainingSlots: row.remaining_slots,
+    boardStartSlot: toBigIntOrNull(row.board_start_slot),
+    boardEndSlot: toBigIntOrNull(row.board_end_slot),
+    priceOreSol: row.price_ore_sol,
+    priceSolUsd: row.price_sol_usd,
+    priceOreUsd: row.price_ore_usd,
+    priceFetchedAt: toNumberOrNull(row.price_fetched_at),
+    totalDeployed: toBigIntOrNull(row.total_deployed),
+    totalMiners: toBigIntOrNull(row.total_miners),
+    latencyFetchMs: row.latency_fetch_ms,
+    latencyEvMs: row.latency_ev_ms,
+    miningCostPct: row.mining_cost_pct,
+    slotHash: row.slot_hash,
+    rngU64: toBigIntOrNull(row.rng_u64),
+    winningTile: row.winning_tile,
+    splitTopMiner: row.split_top_miner,
+    topMinerReward: toBigIntOrNull(row.top_miner_reward),
+    motherlodeTriggered: row.motherlode_triggered,
+    motherlodePaid: toBigIntOrNull(row.motherlode_paid),
+    motherlodePool: toBigIntOrNull(row.motherlode_pool),
+    numWinners: toBigIntOrNull(row.num_winners),
+    totalWinnings: toBigIntOrNull(row.total_winnings),
+    totalVaulted: toBigIntOrNull(row.total_vaulted),
+    rentPayer: row.rent_payer,
+    topMinerPubkey: row.top_miner_pubkey,
+    hashVerified: row.hash_verified,
+    backfilled: row.backfilled,
+    backfilledAt: toNumberOrNull(row.backfilled_at),
+  };
+}
+
+function mapTileRow(row: TileRow): TileRecord {
+  return {
+    roundId: BigInt(row.round_id),
+    tileIndex: row.tile_index,
+    deployed: toBigIntOrNull(row.deployed),
+    minersCount: toBigIntOrNull(row.miners_count),
+    othersStake: toBigIntOrNull(row.others_stake),
+    evRatio: row.ev_ratio,
+    maxProfitable: toBigIntOrNull(row.max_profitable),
+    rankEv: row.rank_ev,
+    deployedFinal: toBigIntOrNull(row.deployed_final),
+    countFinal: toBigIntOrNull(row.count_final),
+  };
+}
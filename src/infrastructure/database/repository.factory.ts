@@ -0,0 +1,58 @@
+import { existsSync, mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+import type { IRoundRepository } from "../../domain/interfaces/round.repository.js";
+import { getLogger } from "../../shared/logger.js";
+import { initSqliteClient } from "./sqlite.client.js";
+import { SqliteRoundRepository } from "./sqlite.repository.js";
+import { initPostgresClient } from "./postgres.client.js";
+import { PostgresRoundRepository } from "./postgres.repository.js";
+
+export type DatabaseDriver = "sqlite" | "postgres";
+
+export interface DatabaseOptions {
+  driver: DatabaseDriver;
+  /** SQLite database file (sqlite driver) */
+  dbPath: string;
+  /** Connection string (postgres driver) */
+  databaseUrl?: string;
+}
+
+/**
+ * Initialized repository with the function closing its connection.
+ */
+export interface OpenedRepository {
+  repository: IRoundRepository;
+  close(): Promise<void>;
+}
+
+/**
+ * Initialize the configured database (schema included) and create its repository.
+ */
+export async function openRoundRepository(options: DatabaseOptions): Promise<OpenedRepository> {
+  if (options.driver === "postgres") {
+    if (!options.databaseUrl) {
+      throw new Error("DATABASE_URL is required for the postgres driver");
+    }
+
+    const client = initPostgresClient(options.databaseUrl);
+    await client.initialize();
+    return {
+      repository: new PostgresRoundRepository(),
+      close: () => client.close(),
+    };
+  }
+
+  // * Ensure data directory exists
+  const dbDir = dirname(options.dbPath);
+  if (!existsSync(dbDir)) {
+    getLogger().info("Creating data directory", { path: dbDir });
+    mkdirSync(dbDir, { recursive: true });
+  }
+
+  const client = initSqliteClient(options.dbPath);
+  await client.initialize();
+  return {
+    repository: new SqliteRoundRepository(),
+    close: async () => client.close(),
+  };
+}
@@ -1,6 +1,6 @@
 -- ============================================================================
 -- * ORE Historical Rounds Database Schema
--- * Version: 1.0.0
+-- * Reference DDL of the latest migration (see migrations/, which build the database)
 -- ============================================================================
 
 PRAGMA foreign_keys = ON;
@@ -14,47 +14,57 @@ CREATE TABLE IF NOT EXISTS rounds (
     -- Identity
     round_id            INTEGER PRIMARY KEY,
 
-    -- Timestamps
-    ts_pre              INTEGER NOT NULL,       -- Pre-fin snapshot timestamp (ms)
+    -- Timestamps (NULL for backfilled rounds, see backfilled_at)
+    ts_pre              INTEGER,                -- Pre-fin snapshot timestamp (ms)
     ts_post             INTEGER,                -- Post-fin completion timestamp (ms)
 
     -- Slots
-    slot_pre            INTEGER NOT NULL,       -- Slot at pre-fin snapshot
-    remaining_slots     INTEGER NOT NULL,       -- Slots remaining at snapshot
-    board_start_slot    INTEGER NOT NULL,       -- Board start slot
-    board_end_slot      INTEGER NOT NULL,       -- Board end slot
+    slot_pre            INTEGER,                -- Slot at pre-fin snapshot
+    remaining_slots     INTEGER,                -- Slots remaining at snapshot
+    board_start_slot    INTEGER,                -- Board start slot
+    board_end_slot      INTEGER,                -- Board end slot
 
     -- Prices (Jupiter)
-    price_ore_sol       REAL NOT NULL,          -- ORE price in SOL
-    price_sol_usd       REAL NOT NULL,          -- SOL price in USD
-    price_ore_usd       REAL NOT NULL,          -- ORE price in USD
-    price_fetched_at    INTEGER NOT NULL,       -- Price fetch timestamp (ms)
+    price_ore_sol       REAL,                   -- ORE price in SOL
+    price_sol_usd       REAL,                   -- SOL price in USD
+    price_ore_usd       REAL,                   -- ORE price in USD
+    price_fetched_at    INTEGER,                -- Price fetch timestamp (ms)
 
     -- Aggregates
-    total_deployed      INTEGER NOT NULL,       -- Total lamports deployed
-    total_miners        INTEGER NOT NULL,       -- Total miner count
+    total_deployed      INTEGER,                -- Total lamports deployed
+    total_miners        INTEGER,                -- Total miner count
 
     -- Metrics
-    latency_fetch_ms    INTEGER NOT NULL,       -- On-chain fetch latency
-    latency_ev_ms       INTEGER NOT NULL,       -- EV calculation latency
-    mining_cost_pct     REAL NOT NULL,          -- Mining cost percentage
+    latency_fetch_ms    INTEGER,                -- On-chain fetch latency
+    latency_ev_ms       INTEGER,                -- EV calculation latency
+    mining_cost_pct     REAL,                   -- Mining cost percentage
 
     -- Post-fin (nullable until completion)
     slot_hash           BLOB,                   -- 32-byte slot hash
-    rng_u64             INTEGER,                -- RNG value from slot hash
+    rng_u64             TEXT,                   -- RNG value from slot hash (decimal u64)
     winning_tile        INTEGER,                -- Winning tile index (0-24)
     split_top_miner     INTEGER DEFAULT 0,      -- Boolean: top miner split
     top_miner_reward    INTEGER,                -- Top miner ORE reward (atoms)
-    motherlode_paid     INTEGER,                -- Motherlode ORE paid (atoms)
+    motherlode_triggered INTEGER DEFAULT 0,     -- Boolean: motherlode hit
+    motherlode_paid     INTEGER,                -- Motherlode ORE paid (atoms, 0 if not hit)
+    motherlode_pool     INTEGER,                -- Motherlode ORE pool at round end (atoms)
     num_winners         INTEGER,                -- Number of winners
     total_winnings      INTEGER,                -- Total winnings (lamports)
     total_vaulted       INTEGER,                -- Total vaulted (lamports)
     rent_payer          TEXT,                   -- Rent payer pubkey (base58)
     top_miner_pubkey    TEXT,                   -- Top miner pubkey (base58)
+    hash_verified       TEXT,                   -- SlotHashes check: verified/mismatch/unavailable (NULL: not checked)
+
+    -- Provenance
+    backfilled          INTEGER NOT NULL DEFAULT 0, -- Boolean: post-fin only (backfill)
+    backfilled_at       INTEGER,                -- Backfill run time (ms); ts_post stays NULL
 
     -- Constraints
     CHECK(winning_tile IS NULL OR (winning_tile >= 0 AND winning_tile <= 24)),
     CHECK(split_top_miner IN (0, 1)),
+    CHECK(motherlode_triggered IN (0, 1)),
+    CHECK(backfilled IN (0, 1)),
+    CHECK(hash_verified IS NULL OR hash_verified IN ('verified', 'mismatch', 'unavailable')),
     CHECK(slot_hash IS NULL OR length(slot_hash) = 32)
 );
 
@@ -67,20 +77,206 @@ CREATE TABLE IF NOT EXISTS tiles (
     round_id            INTEGER NOT NULL,
     tile_index          INTEGER NOT NULL,
 
-    -- Pre-fin data
+    -- Pre-fin data (NULL for backfilled rounds)
+    deployed            INTEGER,                -- Deployed lamports
+    miners_count        INTEGER,                -- Miner count
+    others_stake        INTEGER,                -- Others' stake (lamports)
+    ev_ratio            REAL,                   -- Expected value ratio
+    max_profitable      INTEGER,                -- Max profitable stake (lamports)
+    rank_ev             INTEGER,                -- EV ranking (1-25)
+
+    -- Post-fin data (nullable until completion)
+    deployed_final      INTEGER,                -- Final deployed lamports
+    count_final         INTEGER,                -- Final miner count
+
+    -- Keys
+    PRIMARY KEY (round_id, tile_index),
+    FOREIGN KEY (round_id) REFERENCES rounds(round_id) ON DELETE CASCADE,
+
+    -- Constraints
+    CHECK(tile_index >= 0 AND tile_index <= 24),
+    CHECK(rank_ev >= 1 AND rank_ev <= 25)
+);
+
+-- ============================================================================
+-- * Table: round_failures
+-- * One row per failed collection attempt (kept after the round is deleted)
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS round_failures (
+    id                  INTEGER PRIMARY KEY AUTOINCREMENT,
+    round_id            INTEGER NOT NULL,       -- Round that failed
+    phase               TEXT NOT NULL,          -- 'pre-fin' or 'post-fin'
+    reason              TEXT NOT NULL,          -- Failure reason
+    failed_at           INTEGER NOT NULL,       -- Failure timestamp (ms)
+
+    -- Constraints
+    CHECK(phase IN ('pre-fin', 'post-fin'))
+);
+
+-- ============================================================================
+-- * Table: board_snapshots
+-- * One row per board read during a round (configured offsets + Phase 2)
+-- * No FK to rounds: early snapshots are taken before the pre-fin row exists
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS board_snapshots (
+    -- Identity
+    round_id            INTEGER NOT NULL,
+    slot                INTEGER NOT NULL,       -- Slot the board was read at
+
+    -- Snapshot data
+    ts_capture          INTEGER NOT NULL,       -- Capture timestamp (ms)
+    remaining_slots     INTEGER NOT NULL,       -- Slots remaining at capture
+    total_deployed      INTEGER NOT NULL,       -- Total lamports deployed
+    total_miners        INTEGER NOT NULL,       -- Total miner count
+    price_ore_sol       REAL NOT NULL,          -- ORE price in SOL used for EV
+
+    -- Trigger timing (NULL for snapshots stored before slot scheduling)
+    target_slot         INTEGER,                -- Slot the trigger aimed at
+    trigger_slot        INTEGER,                -- Current slot when the trigger fired
+
+    -- Keys
+    PRIMARY KEY (round_id, slot)
+);
+
+-- ============================================================================
+-- * Table: tile_snapshots
+-- * 25 rows per board snapshot with per-tile deployment and EV
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS tile_snapshots (
+    -- Reference
+    round_id            INTEGER NOT NULL,
+    slot                INTEGER NOT NULL,
+    tile_index          INTEGER NOT NULL,
+
+    -- Snapshot data
     deployed            INTEGER NOT NULL,       -- Deployed lamports
     miners_count        INTEGER NOT NULL,       -- Miner count
-    others_stake        INTEGER NOT NULL,       -- Others' stake (lamports)
     ev_ratio            REAL NOT NULL,          -- Expected value ratio
     max_profitable      INTEGER NOT NULL,       -- Max profitable stake (lamports)
     rank_ev             INTEGER NOT NULL,       -- EV ranking (1-25)
 
-    -- Post-fin data (nullable until completion)
-    deployed_final      INTEGER,                -- Final deployed lamports
-    count_final         INTEGER,                -- Final miner count
+    -- Keys
+    PRIMARY KEY (round_id, slot, tile_index),
+    FOREIGN KEY (round_id, slot) REFERENCES board_snapshots(round_id, slot) ON DELETE CASCADE,
+
+    -- Constraints
+    CHECK(tile_index >= 0 AND tile_index <= 24),
+    CHECK(rank_ev >= 1 AND rank_ev <= 25)
+);
 
+-- ============================================================================
+-- * Table: miner_rounds
+-- * Participation of watched miners (MINER_WATCHLIST) in completed rounds
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS miner_rounds (
     -- Keys
-    PRIMARY KEY (round_id, tile_index),
+    round_id            INTEGER NOT NULL,
+    authority           TEXT NOT NULL,          -- Miner authority (base58)
+
+    -- Capture
+    ts_capture          INTEGER NOT NULL,       -- Timestamp (ms)
+
+    -- Deployment
+    total_deployed      INTEGER NOT NULL,       -- Lamports across all tiles
+    deployed_winning    INTEGER NOT NULL,       -- Lamports on the winning tile
+
+    -- Rewards (derived from the Round account)
+    rewards_sol         INTEGER NOT NULL,       -- Lamports (stake returned + winnings share)
+    rewards_ore         INTEGER NOT NULL,       -- ORE atomic units (top miner + motherlode)
+    is_top_miner        INTEGER NOT NULL,       -- 1 = received the whole top miner reward
+
+    -- Keys
+    PRIMARY KEY (round_id, authority),
+    FOREIGN KEY (round_id) REFERENCES rounds(round_id) ON DELETE CASCADE,
+
+    -- Constraints
+    CHECK(is_top_miner IN (0, 1))
+);
+
+-- ============================================================================
+-- * Table: miner_tiles
+-- * Per-tile deployment of watched miners (non-zero tiles only)
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS miner_tiles (
+    -- Reference
+    round_id            INTEGER NOT NULL,
+    authority           TEXT NOT NULL,
+    tile_index          INTEGER NOT NULL,
+
+    -- Deployment
+    deployed            INTEGER NOT NULL,       -- Lamports
+
+    -- Keys
+    PRIMARY KEY (round_id, authority, tile_index),
+    FOREIGN KEY (round_id, authority) REFERENCES miner_rounds(round_id, authority) ON DELETE CASCADE,
+
+    -- Constraints
+    CHECK(tile_index >= 0 AND tile_index <= 24)
+);
+
+-- ============================================================================
+-- * Table: treasury_snapshots
+-- * Treasury balances read at pre-fin and post-fin of each round
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS treasury_snapshots (
+    -- Keys
+    round_id            INTEGER NOT NULL,
+    phase               TEXT NOT NULL,          -- 'pre-fin' or 'post-fin'
+
+    -- Capture
+    slot                INTEGER NOT NULL,       -- RPC context slot
+    ts_capture          INTEGER NOT NULL,       -- Timestamp (ms)
+
+    -- Balances
+    balance             INTEGER NOT NULL,       -- SOL collected for buy-bury (lamports)
+    motherlode          INTEGER NOT NULL,       -- Motherlode pool (ORE atomic units)
+    total_staked        INTEGER NOT NULL,       -- Staked ORE (atomic units)
+    total_unclaimed     INTEGER NOT NULL,       -- Unclaimed mining rewards (ORE atomic units)
+    total_refined       INTEGER NOT NULL,       -- Refined mining rewards (ORE atomic units)
+
+    -- Rewards factors (I80F48 as float)
+    miner_rewards_factor REAL NOT NULL,
+    stake_rewards_factor REAL NOT NULL,
+
+    -- Keys
+    PRIMARY KEY (round_id, phase),
+    FOREIGN KEY (round_id) REFERENCES rounds(round_id) ON DELETE CASCADE,
+
+    -- Constraints
+    CHECK(phase IN ('pre-fin', 'post-fin'))
+);
+
+-- ============================================================================
+-- * Table: ev_replays
+-- * Named EV recomputations over stored pre-fin data (yarn db:replay)
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS ev_replays (
+    name                TEXT PRIMARY KEY,       -- Replay name
+    fee_factor          REAL NOT NULL,          -- SOL/ORE share kept after fees
+    motherlode_probability REAL NOT NULL,       -- Motherlode hit probability
+    min_stake_sol       REAL NOT NULL,          -- Stake the EV ratio is computed for (SOL)
+    exposure_sol        REAL NOT NULL,          -- Existing exposure before placing (SOL)
+    created_at          INTEGER NOT NULL        -- Timestamp (ms)
+);
+
+-- ============================================================================
+-- * Table: ev_replay_tiles
+-- * 25 rows per replayed round with recomputed EV and rank
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS ev_replay_tiles (
+    -- Reference
+    replay_name         TEXT NOT NULL,
+    round_id            INTEGER NOT NULL,
+    tile_index          INTEGER NOT NULL,
+
+    -- Recomputed EV
+    ev_ratio            REAL NOT NULL,          -- Expected value ratio
+    max_profitable      INTEGER NOT NULL,       -- Max profitable stake (lamports)
+    rank_ev             INTEGER NOT NULL,       -- EV ranking (1-25)
+
+    -- Keys
+    PRIMARY KEY (replay_name, round_id, tile_index),
+    FOREIGN KEY (replay_name) REFERENCES ev_replays(name) ON DELETE CASCADE,
     FOREIGN KEY (round_id) REFERENCES rounds(round_id) ON DELETE CASCADE,
 
     -- Constraints
@@ -88,6 +284,38 @@ CREATE TABLE IF NOT EXISTS tiles (
     CHECK(rank_ev >= 1 AND rank_ev <= 25)
 );
 
+-- ============================================================================
+-- * Table: anomalies
+-- * Failed post-fin consistency checks (stored data vs on-chain Round account)
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS anomalies (
+    -- Keys
+    round_id            INTEGER NOT NULL,
+    check_name          TEXT NOT NULL,          -- deployed_total, num_winners, split_top_miner, payout_total
+
+    -- Values
+    expected            TEXT NOT NULL,          -- Value implied by the on-chain state
+    actual              TEXT NOT NULL,          -- Value stored for the round
+    detected_at         INTEGER NOT NULL,       -- Timestamp (ms)
+
+    -- Keys
+    PRIMARY KEY (round_id, check_name),
+    FOREIGN KEY (round_id) REFERENCES rounds(round_id) ON DELETE CASCADE,
+
+    -- Constraints
+    CHECK(check_name IN ('deployed_total', 'num_winners', 'split_top_miner', 'payout_total'))
+);
+
+-- ============================================================================
+-- * Table: schema_migrations
+-- * Applied migration versions (managed by the migrator)
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS schema_migrations (
+    version             INTEGER PRIMARY KEY,    -- Migration version
+    name                TEXT NOT NULL,          -- Migration name
+    applied_at          INTEGER NOT NULL        -- Timestamp (ms)
+);
+
 -- ============================================================================
 -- * Indexes
 -- ============================================================================
@@ -96,4 +324,6 @@ CREATE INDEX IF NOT EXISTS idx_rounds_ts_post ON rounds(ts_post) WHERE ts_post I
 CREATE INDEX IF NOT EXISTS idx_rounds_winning_tile ON rounds(winning_tile) WHERE winning_tile IS NOT NULL;
 CREATE INDEX IF NOT EXISTS idx_tiles_ev ON tiles(ev_ratio DESC);
 CREATE INDEX IF NOT EXISTS idx_tiles_rank ON tiles(rank_ev);
+CREATE INDEX IF NOT EXISTS idx_round_failures_round ON round_failures(round_id);
+CREATE INDEX IF NOT EXISTS idx_miner_rounds_authority ON miner_rounds(authority, round_id);
 
@@ -1,8 +1,30 @@
 import type { Database, Statement } from "better-sqlite3";
 import type { IRoundRepository } from "../../domain/interfaces/round.repository.js";
-import type { RoundPreFin, RoundPostFin } from "../../domain/entities/index.js";
+import type {
+  RoundPreFin,
+  RoundPostFin,
+  RoundBackfill,
+  RoundRecord,
+  TileRecord,
+  TileStats,
+  TilePreFin,
+  BoardSnapshot,
+  CollectionPhase,
+  RoundGap,
+  DailyCoverage,
+  MinerRound,
+  MinerTileDeployment,
+  TreasurySnapshot,
+  EvReplayRun,
+  EvReplayRound,
+  HashVerificationStatus,
+  RoundAnomaly,
+  AnomalyCheck,
+} from "../../domain/entities/index.js";
 import { getLogger } from "../../shared/logger.js";
 import { getSqliteClient } from "./sqlite.client.js";
+import { buildGaps, buildDailyCoverage, buildTileStats, type RoundStatus } from "./aggregates.js";
+import { encodeU64, decodeU64 } from "./u64.codec.js";
 
 /**
  * SQLite implementation of the round repository.
@@ -11,14 +33,44 @@ export class SqliteRoundRepository implements IRoundRepository {
   private readonly logger = getLogger().child("Repository");
 
   // * Prepared statements (lazy initialized)
+  // * bigint values are bound as-is; read statements use safeIntegers (INTEGER -> bigint)
   private stmtInsertRound: Statement | null = null;
   private stmtInsertTile: Statement | null = null;
   private stmtUpdateRoundPostFin: Statement | null = null;
   private stmtUpdateTilePostFin: Statement | null = null;
+  private stmtInsertRoundBackfilled: Statement | null = null;
+  private stmtInsertTileBackfilled: Statement | null = null;
   private stmtDeleteRound: Statement | null = null;
   private stmtExistsRound: Statement | null = null;
   private stmtGetLatestRoundId: Statement | null = null;
   private stmtGetPendingRoundIds: Statement | null = null;
+  private stmtInsertFailure: Statement | null = null;
+  private stmtSetHashVerification: Statement | null = null;
+  private stmtGetRoundStatuses: Statement | null = null;
+  private stmtGetFailedRoundIds: Statement | null = null;
+  private stmtGetDayBoundaries: Statement | null = null;
+  private stmtGetRound: Statement | null = null;
+  private stmtGetRounds: Statement | null = null;
+  private stmtGetRoundIdRangeByTime: Statement | null = null;
+  private stmtGetTiles: Statement | null = null;
+  private stmtGetTileStats: Statement | null = null;
+  private stmtInsertSnapshot: Statement | null = null;
+  private stmtInsertTileSnapshot: Statement | null = null;
+  private stmtDeleteSnapshots: Statement | null = null;
+  private stmtDeleteSnapshotAt: Statement | null = null;
+  private stmtGetSnapshots: Statement | null = null;
+  private stmtGetTileSnapshots: Statement | null = null;
+  private stmtInsertMinerRound: Statement | null = null;
+  private stmtInsertMinerTile: Statement | null = null;
+  private stmtGetMinerRounds: Statement | null = null;
+  private stmtGetMinerTiles: Statement | null = null;
+  private stmtInsertTreasurySnapshot: Statement | null = null;
+  private stmtGetTreasurySnapshots: Statement | null = null;
+  private stmtUpsertAnomaly: Statement | null = null;
+  private stmtGetAnomalies: Statement | null = null;
+  private stmtUpsertEvReplay: Statement | null = null;
+  private stmtDeleteEvReplayTiles: Statement | null = null;
+  private stmtInsertEvReplayTile: Statement | null = null;
 
   private getDb(): Database {
     return getSqliteClient().getDb();
@@ -68,7 +120,9 @@ export class SqliteRoundRepository implements IRoundRepository {
           winning_tile = @winningTile,
           split_top_miner = @splitTopMiner,
           top_miner_reward = @topMinerReward,
+          motherlode_triggered = @motherlodeTriggered,
           motherlode_paid = @motherlodePaid,
+          motherlode_pool = @motherlodePool,
           num_winners = @numWinners,
           total_winnings = @totalWinnings,
           total_vaulted = @totalVaulted,
@@ -87,6 +141,183 @@ export class SqliteRoundRepository implements IRoundRepository {
       `);
     }
 
+    if (!this.stmtInsertRoundBackfilled) {
+      this.stmtInsertRoundBackfilled = db.prepare(`
+        INSERT INTO rounds (
+          round_id,
+          slot_hash, rng_u64, winning_tile, split_top_miner,
+          top_miner_reward, motherlode_triggered, motherlode_paid, motherlode_pool, num_winners,
+          total_winnings, total_vaulted, rent_payer, top_miner_pubkey,
+          backfilled, backfilled_at
+        ) VALUES (
+          @roundId,
+          @slotHash, @rngU64, @winningTile, @splitTopMiner,
+          @topMinerReward, @motherlodeTriggered, @motherlodePaid, @motherlodePool, @numWinners,
+          @totalWinnings, @totalVaulted, @rentPayer, @topMinerPubkey,
+          1, @backfilledAt
+        )
+      `);
+    }
+
+    if (!this.stmtInsertTileBackfilled) {
+      this.stmtInsertTileBackfilled = db.prepare(`
+        INSERT INTO tiles (
+          round_id, tile_index, deployed_final, count_final
+        ) VALUES (
+          @roundId, @tileIndex, @deployedFinal, @countFinal
+        )
+      `);
+    }
+
+    if (!this.stmtInsertSnapshot) {
+      this.stmtInsertSnapshot = db.prepare(`
+        INSERT INTO board_snapshots (
+          round_id, slot, ts_capture, remaining_slots,
+          total_deployed, total_miners, price_ore_sol,
+          target_slot, trigger_slot
+        ) VALUES (
+          @roundId, @slot, @tsCapture, @remainingSlots,
+          @totalDeployed, @totalMiners, @priceOreSol,
+          @targetSlot, @triggerSlot
+        )
+      `);
+    }
+
+    if (!this.stmtInsertTileSnapshot) {
+      this.stmtInsertTileSnapshot = db.prepare(`
+        INSERT INTO tile_snapshots (
+          round_id, slot, tile_index,
+          deployed, miners_count, ev_ratio, max_profitable, rank_ev
+        ) VALUES (
+          @roundId, @slot, @tileIndex,
+          @deployed, @minersCount, @evRatio, @maxProfitable, @rankEv
+        )
+      `);
+    }
+
+    if (!this.stmtDeleteSnapshots) {
+      this.stmtDeleteSnapshots = db.prepare(`DELETE FROM board_snapshots WHERE round_id = ?`);
+    }
+
+    if (!this.stmtDeleteSnapshotAt) {
+      this.stmtDeleteSnapshotAt = db.prepare(
+        `DELETE FROM board_snapshots WHERE round_id = ? AND slot = ?`
+      );
+    }
+
+    if (!this.stmtGetSnapshots) {
+      this.stmtGetSnapshots = db.prepare(`
+        SELECT * FROM board_snapshots WHERE round_id = ? ORDER BY slot
+      `).safeIntegers();
+    }
+
+    if (!this.stmtGetTileSnapshots) {
+      this.stmtGetTileSnapshots = db.prepare(`
+        SELECT * FROM tile_snapshots WHERE round_id = ? ORDER BY slot, tile_index
+      `).safeIntegers();
+    }
+
+    if (!this.stmtInsertMinerRound) {
+      this.stmtInsertMinerRound = db.prepare(`
+        INSERT OR IGNORE INTO miner_rounds (
+          round_id, authority, ts_capture, total_deployed, deployed_winning,
+          rewards_sol, rewards_ore, is_top_miner
+        ) VALUES (
+          @roundId, @authority, @tsCapture, @totalDeployed, @deployedWinning,
+          @rewardsSol, @rewardsOre, @isTopMiner
+        )
+      `);
+    }
+
+    if (!this.stmtInsertMinerTile) {
+      this.stmtInsertMinerTile = db.prepare(`
+        INSERT OR IGNORE INTO miner_tiles (
+          round_id, authority, tile_index, deployed
+        ) VALUES (
+          @roundId, @authority, @tileIndex, @deployed
+        )
+      `);
+    }
+
+    if (!this.stmtGetMinerRounds) {
+      this.stmtGetMinerRounds = db.prepare(`
+        SELECT * FROM miner_rounds WHERE round_id = ? ORDER BY authority
+      `).safeIntegers();
+    }
+
+    if (!this.stmtGetMinerTiles) {
+      this.stmtGetMinerTiles = db.prepare(`
+        SELECT * FROM miner_tiles WHERE round_id = ? ORDER BY authority, tile_index
+      `).safeIntegers();
+    }
+
+    if (!this.stmtInsertTreasurySnapshot) {
+      this.stmtInsertTreasurySnapshot = db.prepare(`
+        INSERT OR IGNORE INTO treasury_snapshots (
+          round_id, phase, slot, ts_capture,
+          balance, motherlode, total_staked, total_unclaimed, total_refined,
+          miner_rewards_factor, stake_rewards_factor
+        ) VALUES (
+          @roundId, @phase, @slot, @tsCapture,
+          @balance, @motherlode, @totalStaked, @totalUnclaimed, @totalRefined,
+          @minerRewardsFactor, @stakeRewardsFactor
+        )
+      `);
+    }
+
+    if (!this.stmtGetTreasurySnapshots) {
+      this.stmtGetTreasurySnapshots = db.prepare(`
+        SELECT * FROM treasury_snapshots WHERE round_id = ? ORDER BY slot
+      `).safeIntegers();
+    }
+
+    if (!this.stmtUpsertAnomaly) {
+      this.stmtUpsertAnomaly = db.prepare(`
+        INSERT INTO anomalies (round_id, check_name, expected, actual, detected_at)
+        VALUES (@roundId, @check, @expected, @actual, @detectedAt)
+        ON CONFLICT(round_id, check_name) DO UPDATE SET
+          expected = excluded.expected,
+          actual = excluded.actual,
+          detected_at = excluded.detected_at
+      `);
+    }
+
+    if (!this.stmtGetAnomalies) {
+      this.stmtGetAnomalies = db
+        .prepare(`SELECT * FROM anomalies WHERE round_id = ? ORDER BY check_name`)
+        .safeIntegers();
+    }
+
+    if (!this.stmtUpsertEvReplay) {
+      this.stmtUpsertEvReplay = db.prepare(`
+        INSERT INTO ev_replays (
+          name, fee_factor, motherlode_probability, min_stake_sol, exposure_sol, created_at
+        ) VALUES (
+          @name, @feeFactor, @motherlodeProbability, @minStakeSol, @exposureSol, @createdAt
+        )
+        ON CONFLICT(name) DO UPDATE SET
+          fee_factor = excluded.fee_factor,
+          motherlode_probability = excluded.motherlode_probability,
+          min_stake_sol = excluded.min_stake_sol,
+          exposure_sol = excluded.exposure_sol,
+          created_at = excluded.created_at
+      `);
+    }
+
+    if (!this.stmtDeleteEvReplayTiles) {
+      this.stmtDeleteEvReplayTiles = db.prepare(`DELETE FROM ev_replay_tiles WHERE replay_name = ?`);
+    }
+
+    if (!this.stmtInsertEvReplayTile) {
+      this.stmtInsertEvReplayTile = db.prepare(`
+        INSERT INTO ev_replay_tiles (
+          replay_name, round_id, tile_index, ev_ratio, max_profitable, rank_ev
+        ) VALUES (
+          @replayName, @roundId, @tileIndex, @evRatio, @maxProfitable, @rankEv
+        )
+      `);
+    }
+
     if (!this.stmtDeleteRound) {
       this.stmtDeleteRound = db.prepare(`DELETE FROM rounds WHERE round_id = ?`);
     }
@@ -96,11 +327,102 @@ export class SqliteRoundRepository implements IRoundRepository {
     }
 
     if (!this.stmtGetLatestRoundId) {
-      this.stmtGetLatestRoundId = db.prepare(`SELECT MAX(round_id) as maxId FROM rounds`);
+      this.stmtGetLatestRoundId = db
+        .prepare(`SELECT MAX(round_id) as maxId FROM rounds`)
+        .safeIntegers();
     }
 
     if (!this.stmtGetPendingRoundIds) {
-      this.stmtGetPendingRoundIds = db.prepare(`SELECT round_id FROM rounds WHERE ts_post IS NULL`);
+      this.stmtGetPendingRoundIds = db
+        .prepare(`SELECT round_id FROM rounds WHERE ts_post IS NULL AND backfilled = 0`)
+        .safeIntegers();
+    }
+
+    if (!this.stmtInsertFailure) {
+      this.stmtInsertFailure = db.prepare(`
+        INSERT INTO round_failures (round_id, phase, reason, failed_at)
+        VALUES (@roundId, @phase, @reason, @failedAt)
+      `);
+    }
+
+    if (!this.stmtSetHashVerification) {
+      this.stmtSetHashVerification = db.prepare(
+        `UPDATE rounds SET hash_verified = @status WHERE round_id = @roundId`
+      );
+    }
+
+    if (!this.stmtGetRoundStatuses) {
+      this.stmtGetRoundStatuses = db.prepare(`
+        SELECT round_id, ts_post IS NULL AND backfilled = 0 AS pending
+        FROM rounds
+        ORDER BY round_id
+      `);
+    }
+
+    if (!this.stmtGetFailedRoundIds) {
+      this.stmtGetFailedRoundIds = db.prepare(`
+        SELECT DISTINCT round_id FROM round_failures
+        WHERE round_id NOT IN (SELECT round_id FROM rounds)
+        ORDER BY round_id
+      `);
+    }
+
+    if (!this.stmtGetDayBoundaries) {
+      // * Backfilled rows have no round time, so only live rows date a day
+      this.stmtGetDayBoundaries = db.prepare(`
+        SELECT date(ts_pre / 1000, 'unixepoch') AS day, MIN(round_id) AS first_round_id
+        FROM rounds
+        WHERE backfilled = 0
+        GROUP BY day
+        ORDER BY day
+      `);
+    }
+
+    if (!this.stmtGetRound) {
+      this.stmtGetRound = db.prepare(`SELECT * FROM rounds WHERE round_id = ?`).safeIntegers();
+    }
+
+    if (!this.stmtGetRounds) {
+      this.stmtGetRounds = db.prepare(`
+        SELECT * FROM rounds
+        WHERE round_id BETWEEN @fromRoundId AND @toRoundId
+        ORDER BY round_id
+        LIMIT @limit
+      `).safeIntegers();
+    }
+
+    if (!this.stmtGetTiles) {
+      this.stmtGetTiles = db
+        .prepare(`SELECT * FROM tiles WHERE round_id = ? ORDER BY tile_index`)
+        .safeIntegers();
+    }
+
+    if (!this.stmtGetRoundIdRangeByTime) {
+      this.stmtGetRoundIdRangeByTime = db
+        .prepare(`
+          SELECT MIN(round_id) AS minId, MAX(round_id) AS maxId FROM rounds
+          WHERE ts_pre >= @fromTimestamp AND ts_pre < @toTimestamp
+        `)
+        .safeIntegers();
+    }
+
+    if (!this.stmtGetTileStats) {
+      this.stmtGetTileStats = db.prepare(`
+        SELECT
+          t.tile_index,
+          COUNT(*) AS rounds,
+          SUM(r.winning_tile = t.tile_index) AS wins,
+          AVG(t.ev_ratio) AS avg_ev_ratio,
+          AVG(t.rank_ev) AS avg_rank_ev,
+          AVG(t.deployed) AS avg_deployed,
+          AVG(t.deployed_final) AS avg_deployed_final
+        FROM tiles t
+        JOIN rounds r ON r.round_id = t.round_id
+        WHERE r.winning_tile IS NOT NULL
+          AND r.round_id BETWEEN @fromRoundId AND @toRoundId
+        GROUP BY t.tile_index
+        ORDER BY t.tile_index
+      `);
     }
   }
 
@@ -111,18 +433,18 @@ export class SqliteRoundRepository implements IRoundRepository {
     client.transaction(() => {
       // * Insert round record
       this.stmtInsertRound!.run({
-        roundId: Number(data.roundId),
+        roundId: data.roundId,
         tsPre: data.tsPre,
-        slotPre: Number(data.slotPre),
+        slotPre: data.slotPre,
         remainingSlots: data.remainingSlots,
-        boardStartSlot: Number(data.boardStartSlot),
-        boardEndSlot: Number(data.boardEndSlot),
+        boardStartSlot: data.boardStartSlot,
+        boardEndSlot: data.boardEndSlot,
         priceOreSol: data.price.oreSol,
         priceSolUsd: data.price.solUsd,
         priceOreUsd: data.price.oreUsd,
         priceFetchedAt: data.price.fetchedAt,
-        totalDeployed: Number(data.totalDeployed),
-        totalMiners: Number(data.totalMiners),
+        totalDeployed: data.totalDeployed,
+        totalMiners: data.totalMiners,
         latencyFetchMs: data.latencyFetchMs,
         latencyEvMs: data.latencyEvMs,
         miningCostPct: data.miningCostPct,
@@ -131,21 +453,207 @@ export class SqliteRoundRepository implements IRoundRepository {
       // * Insert tile records
       for (const tile of data.tiles) {
         this.stmtInsertTile!.run({
-          roundId: Number(data.roundId),
+          roundId: data.roundId,
           tileIndex: tile.tileIndex,
-          deployed: Number(tile.deployed),
-          minersCount: Number(tile.minersCount),
-          othersStake: Number(tile.othersStake),
+          deployed: tile.deployed,
+          minersCount: tile.minersCount,
+          othersStake: tile.othersStake,
           evRatio: tile.evRatio,
-          maxProfitable: Number(tile.maxProfitable),
+          maxProfitable: tile.maxProfitable,
           rankEv: tile.rankEv,
         });
       }
+
+      // * Phase 2 snapshot is part of the per-round snapshot series. It replaces a
+      // * series snapshot read at the same slot (same board state, the Phase 2 one is kept)
+      const replaced = this.stmtDeleteSnapshotAt!.run(data.roundId, data.contextSlot).changes;
+      if (replaced > 0) {
+        this.logger.warn("Phase 2 snapshot replaces a snapshot read at the same slot", {
+          roundId: data.roundId.toString(),
+          slot: data.contextSlot.toString(),
+        });
+      }
+      this.writeSnapshot({
+        roundId: data.roundId,
+        slot: data.contextSlot,
+        tsCapture: data.tsPre,
+        remainingSlots: data.remainingSlots,
+        totalDeployed: data.totalDeployed,
+        totalMiners: data.totalMiners,
+        priceOreSol: data.price.oreSol,
+        targetSlot: data.targetSlot,
+        triggerSlot: data.slotPre,
+        tiles: data.tiles,
+      });
     });
 
     this.logger.info("Inserted pre-fin data", { roundId: data.roundId.toString() });
   }
 
+  async insertSnapshot(snapshot: BoardSnapshot): Promise<void> {
+    this.prepareStatements();
+    getSqliteClient().transaction(() => this.writeSnapshot(snapshot));
+
+    this.logger.debug("Inserted board snapshot", {
+      roundId: snapshot.roundId.toString(),
+      slot: snapshot.slot.toString(),
+      remainingSlots: snapshot.remainingSlots,
+    });
+  }
+
+  /**
+   * Write a board snapshot + its tiles (caller provides the transaction).
+   */
+  private writeSnapshot(snapshot: BoardSnapshot): void {
+    this.stmtInsertSnapshot!.run({
+      roundId: snapshot.roundId,
+      slot: snapshot.slot,
+      tsCapture: snapshot.tsCapture,
+      remainingSlots: snapshot.remainingSlots,
+      totalDeployed: snapshot.totalDeployed,
+      totalMiners: snapshot.totalMiners,
+      priceOreSol: snapshot.priceOreSol,
+      targetSlot: snapshot.targetSlot,
+      triggerSlot: snapshot.triggerSlot,
+    });
+
+    for (const tile of snapshot.tiles) {
+      this.stmtInsertTileSnapshot!.run({
+        roundId: snapshot.roundId,
+        slot: snapshot.slot,
+        tileIndex: tile.tileIndex,
+        deployed: tile.deployed,
+        minersCount: tile.minersCount,
+        evRatio: tile.evRatio,
+        maxProfitable: tile.maxProfitable,
+        rankEv: tile.rankEv,
+      });
+    }
+  }
+
+  async insertMinerRounds(records: MinerRound[]): Promise<void> {
+    if (records.length === 0) {
+      return;
+    }
+
+    this.prepareStatements();
+    getSqliteClient().transaction(() => {
+      for (const record of records) {
+        this.stmtInsertMinerRound!.run({
+          roundId: record.roundId,
+          authority: record.authority,
+          tsCapture: record.tsCapture,
+          totalDeployed: record.totalDeployed,
+          deployedWinning: record.deployedWinning,
+          rewardsSol: record.rewardsSol,
+          rewardsOre: record.rewardsOre,
+          isTopMiner: record.isTopMiner ? 1 : 0,
+        });
+
+        for (const tile of record.tiles) {
+          this.stmtInsertMinerTile!.run({
+            roundId: record.roundId,
+            authority: record.authority,
+            tileIndex: tile.tileIndex,
+            deployed: tile.deployed,
+          });
+        }
+      }
+    });
+
+    this.logger.debug("Inserted miner rounds", {
+      roundId: records[0].roundId.toString(),
+      count: records.length,
+    });
+  }
+
+  async insertTreasurySnapshot(snapshot: TreasurySnapshot): Promise<void> {
+    this.prepareStatements();
+    this.stmtInsertTreasurySnapshot!.run({
+      roundId: snapshot.roundId,
+      phase: snapshot.phase,
+      slot: snapshot.slot,
+      tsCapture: snapshot.tsCapture,
+      balance: snapshot.balance,
+      motherlode: snapshot.motherlode,
+      totalStaked: snapshot.totalStaked,
+      totalUnclaimed: snapshot.totalUnclaimed,
+      totalRefined: snapshot.totalRefined,
+      minerRewardsFactor: snapshot.minerRewardsFactor,
+      stakeRewardsFactor: snapshot.stakeRewardsFactor,
+    });
+
+    this.logger.debug("Inserted treasury snapshot", {
+      roundId: snapshot.roundId.toString(),
+      phase: snapshot.phase,
+    });
+  }
+
+  async insertAnomalies(anomalies: RoundAnomaly[]): Promise<void> {
+    if (anomalies.length === 0) {
+      return;
+    }
+
+    this.prepareStatements();
+    getSqliteClient().transaction(() => {
+      for (const anomaly of anomalies) {
+        this.stmtUpsertAnomaly!.run({
+          roundId: anomaly.roundId,
+          check: anomaly.check,
+          expected: anomaly.expected,
+          actual: anomaly.actual,
+          detectedAt: anomaly.detectedAt,
+        });
+      }
+    });
+
+    this.logger.debug("Inserted anomalies", {
+      roundId: anomalies[0].roundId.toString(),
+      checks: anomalies.map((anomaly) => anomaly.check),
+    });
+  }
+
+  async saveEvReplayRun(run: EvReplayRun): Promise<void> {
+    this.prepareStatements();
+    getSqliteClient().transaction(() => {
+      this.stmtUpsertEvReplay!.run({
+        name: run.name,
+        feeFactor: run.parameters.feeFactor,
+        motherlodeProbability: run.parameters.motherlodeProbability,
+        minStakeSol: run.parameters.minStakeSol,
+        exposureSol: run.parameters.exposureSol,
+        createdAt: run.createdAt,
+      });
+      this.stmtDeleteEvReplayTiles!.run(run.name);
+    });
+
+    this.logger.info("Saved EV replay", { name: run.name });
+  }
+
+  async insertEvReplayRounds(name: string, rounds: EvReplayRound[]): Promise<void> {
+    if (rounds.length === 0) {
+      return;
+    }
+
+    this.prepareStatements();
+    getSqliteClient().transaction(() => {
+      for (const round of rounds) {
+        for (const tile of round.tiles) {
+          this.stmtInsertEvReplayTile!.run({
+            replayName: name,
+            roundId: round.roundId,
+            tileIndex: tile.tileIndex,
+            evRatio: tile.evRatio,
+            maxProfitable: tile.maxProfitable,
+            rankEv: tile.rankEv,
+          });
+        }
+      }
+    });
+
+    this.logger.debug("Inserted EV replay rounds", { name, count: rounds.length });
+  }
+
   async completePostFin(data: RoundPostFin): Promise<void> {
     this.prepareStatements();
     const client = getSqliteClient();
@@ -153,17 +661,19 @@ export class SqliteRoundRepository implements IRoundRepository {
     client.transaction(() => {
       // * Update round with post-fin data
       this.stmtUpdateRoundPostFin!.run({
-        roundId: Number(data.roundId),
+        roundId: data.roundId,
         tsPost: data.tsPost,
         slotHash: data.slotHash,
-        rngU64: Number(data.rngU64),
+        rngU64: encodeU64(data.rngU64),
         winningTile: data.winningTile,
         splitTopMiner: data.splitTopMiner ? 1 : 0,
-        topMinerReward: Number(data.topMinerReward),
-        motherlodePaid: Number(data.motherlodePaid),
-        numWinners: Number(data.numWinners),
-        totalWinnings: Number(data.totalWinnings),
-        totalVaulted: Number(data.totalVaulted),
+        topMinerReward: data.topMinerReward,
+        motherlodeTriggered: data.motherlodeTriggered ? 1 : 0,
+        motherlodePaid: data.motherlodePaid,
+        motherlodePool: data.motherlodePool,
+        numWinners: data.numWinners,
+        totalWinnings: data.totalWinnings,
+        totalVaulted: data.totalVaulted,
         rentPayer: data.rentPayer,
         topMinerPubkey: data.topMinerPubkey,
       });
@@ -171,10 +681,10 @@ export class SqliteRoundRepository implements IRoundRepository {
       // * Update tile records with final data
       for (const tile of data.tiles) {
         this.stmtUpdateTilePostFin!.run({
-          roundId: Number(data.roundId),
+          roundId: data.roundId,
           tileIndex: tile.tileIndex,
-          deployedFinal: Number(tile.deployedFinal),
-          countFinal: Number(tile.countFinal),
+          deployedFinal: tile.deployedFinal,
+          countFinal: tile.countFinal,
         });
       }
     });
@@ -185,9 +695,53 @@ export class SqliteRoundRepository implements IRoundRepository {
     });
   }
 
+  async insertBackfilled(data: RoundBackfill): Promise<void> {
+    this.prepareStatements();
+    const client = getSqliteClient();
+
+    client.transaction(() => {
+      // * Insert post-fin-only round record
+      this.stmtInsertRoundBackfilled!.run({
+        roundId: data.roundId,
+        slotHash: data.slotHash,
+        rngU64: encodeU64(data.rngU64),
+        winningTile: data.winningTile,
+        splitTopMiner: data.splitTopMiner ? 1 : 0,
+        topMinerReward: data.topMinerReward,
+        motherlodeTriggered: data.motherlodeTriggered ? 1 : 0,
+        motherlodePaid: data.motherlodePaid,
+        motherlodePool: data.motherlodePool,
+        numWinners: data.numWinners,
+        totalWinnings: data.totalWinnings,
+        totalVaulted: data.totalVaulted,
+        rentPayer: data.rentPayer,
+        topMinerPubkey: data.topMinerPubkey,
+        backfilledAt: data.backfilledAt,
+      });
+
+      // * Insert tile records with final data only
+      for (const tile of data.tiles) {
+        this.stmtInsertTileBackfilled!.run({
+          roundId: data.roundId,
+          tileIndex: tile.tileIndex,
+          deployedFinal: tile.deployedFinal,
+          countFinal: tile.countFinal,
+        });
+      }
+    });
+
+    this.logger.info("Inserted backfilled round", {
+      roundId: data.roundId.toString(),
+      winningTile: data.winningTile,
+    });
+  }
+
   async deleteRound(roundId: bigint): Promise<boolean> {
     this.prepareStatements();
-    const result = this.stmtDeleteRound!.run(Number(roundId));
+    const result = getSqliteClient().transaction(() => {
+      this.stmtDeleteSnapshots!.run(roundId);
+      return this.stmtDeleteRound!.run(roundId);
+    });
 
     if (result.changes > 0) {
       this.logger.warn("Deleted round", { roundId: roundId.toString() });
@@ -198,20 +752,391 @@ export class SqliteRoundRepository implements IRoundRepository {
 
   async exists(roundId: bigint): Promise<boolean> {
     this.prepareStatements();
-    const row = this.stmtExistsRound!.get(Number(roundId));
+    const row = this.stmtExistsRound!.get(roundId);
     return row !== undefined;
   }
 
   async getLatestRoundId(): Promise<bigint | null> {
     this.prepareStatements();
-    const row = this.stmtGetLatestRoundId!.get() as { maxId: number | null } | undefined;
-    return row?.maxId !== null && row?.maxId !== undefined ? BigInt(row.maxId) : null;
+    const row = this.stmtGetLatestRoundId!.get() as { maxId: bigint | null } | undefined;
+    return row?.maxId ?? null;
   }
 
   async getPendingRoundIds(): Promise<bigint[]> {
     this.prepareStatements();
-    const rows = this.stmtGetPendingRoundIds!.all() as { round_id: number }[];
-    return rows.map((row) => BigInt(row.round_id));
+    const rows = this.stmtGetPendingRoundIds!.all() as { round_id: bigint }[];
+    return rows.map((row) => row.round_id);
+  }
+
+  async recordFailure(roundId: bigint, phase: CollectionPhase, reason: string): Promise<void> {
+    this.prepareStatements();
+    this.stmtInsertFailure!.run({
+      roundId: roundId,
+      phase,
+      reason,
+      failedAt: Date.now(),
+    });
+  }
+
+  async setHashVerification(roundId: bigint, status: HashVerificationStatus): Promise<void> {
+    this.prepareStatements();
+    this.stmtSetHashVerification!.run({ roundId, status });
+  }
+
+  async findGaps(): Promise<RoundGap[]> {
+    this.prepareStatements();
+    const failedIds = (this.stmtGetFailedRoundIds!.all() as { round_id: number }[]).map(
+      (row) => row.round_id
+    );
+    return buildGaps(this.getRoundStatuses(), failedIds);
+  }
+
+  async getDailyCoverage(): Promise<DailyCoverage[]> {
+    this.prepareStatements();
+    const days = this.stmtGetDayBoundaries!.all() as { day: string; first_round_id: number }[];
+    return buildDailyCoverage(
+      days.map((day) => ({ day: day.day, firstRoundId: day.first_round_id })),
+      this.getRoundStatuses()
+    );
+  }
+
+  private getRoundStatuses(): RoundStatus[] {
+    const rows = this.stmtGetRoundStatuses!.all() as { round_id: number; pending: number }[];
+    return rows.map((row) => ({ roundId: row.round_id, pending: row.pending === 1 }));
+  }
+
+  async getRound(roundId: bigint): Promise<RoundRecord | null> {
+    this.prepareStatements();
+    const row = this.stmtGetRound!.get(roundId) as RoundRow | undefined;
+    return row ? mapRoundRow(row) : null;
   }
+
+  async getRounds(fromRoundId: bigint, toRoundId: bigint, limit: number): Promise<RoundRecord[]> {
+    this.prepareStatements();
+    const rows = this.stmtGetRounds!.all({
+      fromRoundId: Number(fromRoundId),
+      toRoundId: Number(toRoundId),
+      limit,
+    }) as RoundRow[];
+    return rows.map(mapRoundRow);
+  }
+
+  async getTiles(roundId: bigint): Promise<TileRecord[]> {
+    this.prepareStatements();
+    const rows = this.stmtGetTiles!.all(roundId) as TileRow[];
+    return rows.map(mapTileRow);
+  }
+
+  async getRoundIdRangeByTime(
+    fromTimestamp?: number,
+    toTimestamp?: number
+  ): Promise<{ fromRoundId: bigint; toRoundId: bigint } | null> {
+    this.prepareStatements();
+    const row = this.stmtGetRoundIdRangeByTime!.get({
+      fromTimestamp: fromTimestamp ?? 0,
+      toTimestamp: toTimestamp ?? Number.MAX_SAFE_INTEGER,
+    }) as { minId: bigint | null; maxId: bigint | null } | undefined;
+    if (!row || row.minId === null || row.maxId === null) {
+      return null;
+    }
+    return { fromRoundId: row.minId, toRoundId: row.maxId };
+  }
+
+  async getTileStats(fromRoundId?: bigint, toRoundId?: bigint): Promise<TileStats[]> {
+    this.prepareStatements();
+    const rows = this.stmtGetTileStats!.all({
+      fromRoundId: fromRoundId !== undefined ? Number(fromRoundId) : 0,
+      toRoundId: toRoundId !== undefined ? Number(toRoundId) : Number.MAX_SAFE_INTEGER,
+    }) as TileStatsRow[];
+    return buildTileStats(
+      rows.map((row) => ({
+        tileIndex: row.tile_index,
+        rounds: row.rounds,
+        wins: row.wins,
+        avgEvRatio: row.avg_ev_ratio,
+        avgRankEv: row.avg_rank_ev,
+        avgDeployed: row.avg_deployed,
+        avgDeployedFinal: row.avg_deployed_final,
+      }))
+    );
+  }
+
+  async getSnapshots(roundId: bigint): Promise<BoardSnapshot[]> {
+    this.prepareStatements();
+    const snapshotRows = this.stmtGetSnapshots!.all(roundId) as BoardSnapshotRow[];
+    const tileRows = this.stmtGetTileSnapshots!.all(roundId) as TileSnapshotRow[];
+
+    // * Group tiles by slot
+    const tilesBySlot = new Map<bigint, TilePreFin[]>();
+    for (const row of tileRows) {
+      const tiles = tilesBySlot.get(row.slot) ?? [];
+      tiles.push({
+        tileIndex: Number(row.tile_index),
+        deployed: row.deployed,
+        minersCount: row.miners_count,
+        othersStake: row.deployed, // Observer mode: others stake == deployed
+        evRatio: row.ev_ratio,
+        maxProfitable: row.max_profitable,
+        rankEv: Number(row.rank_ev),
+      });
+      tilesBySlot.set(row.slot, tiles);
+    }
+
+    return snapshotRows.map((row) => ({
+      roundId: row.round_id,
+      slot: row.slot,
+      tsCapture: Number(row.ts_capture),
+      remainingSlots: Number(row.remaining_slots),
+      totalDeployed: row.total_deployed,
+      totalMiners: row.total_miners,
+      priceOreSol: row.price_ore_sol,
+      targetSlot: row.target_slot,
+      triggerSlot: row.trigger_slot,
+      tiles: tilesBySlot.get(row.slot) ?? [],
+    }));
+  }
+
+  async getMinerRounds(roundId: bigint): Promise<MinerRound[]> {
+    this.prepareStatements();
+    const minerRows = this.stmtGetMinerRounds!.all(roundId) as MinerRoundRow[];
+    const tileRows = this.stmtGetMinerTiles!.all(roundId) as MinerTileRow[];
+
+    // * Group tiles by miner
+    const tilesByAuthority = new Map<string, MinerTileDeployment[]>();
+    for (const row of tileRows) {
+      const tiles = tilesByAuthority.get(row.authority) ?? [];
+      tiles.push({ tileIndex: Number(row.tile_index), deployed: row.deployed });
+      tilesByAuthority.set(row.authority, tiles);
+    }
+
+    return minerRows.map((row) => ({
+      roundId: row.round_id,
+      authority: row.authority,
+      tsCapture: Number(row.ts_capture),
+      totalDeployed: row.total_deployed,
+      deployedWinning: row.deployed_winning,
+      rewardsSol: row.rewards_sol,
+      rewardsOre: row.rewards_ore,
+      isTopMiner: row.is_top_miner === 1n,
+      tiles: tilesByAuthority.get(row.authority) ?? [],
+    }));
+  }
+
+  async getTreasurySnapshots(roundId: bigint): Promise<TreasurySnapshot[]> {
+    this.prepareStatements();
+    const rows = this.stmtGetTreasurySnapshots!.all(roundId) as TreasurySnapshotRow[];
+
+    return rows.map((row) => ({
+      roundId: row.round_id,
+      phase: row.phase,
+      slot: row.slot,
+      tsCapture: Number(row.ts_capture),
+      balance: row.balance,
+      motherlode: row.motherlode,
+      totalStaked: row.total_staked,
+      totalUnclaimed: row.total_unclaimed,
+      totalRefined: row.total_refined,
+      minerRewardsFactor: row.miner_rewards_factor,
+      stakeRewardsFactor: row.stake_rewards_factor,
+    }));
+  }
+
+  async getAnomalies(roundId: bigint): Promise<RoundAnomaly[]> {
+    this.prepareStatements();
+    const rows = this.stmtGetAnomalies!.all(roundId) as AnomalyRow[];
+
+    return rows.map((row) => ({
+      roundId: row.round_id,
+      check: row.check_name,
+      expected: row.expected,
+      actual: row.actual,
+      detectedAt: Number(row.detected_at),
+    }));
+  }
+}
+
+/**
+ * Raw row shape of the rounds table (read with safeIntegers).
+ */
+interface RoundRow {
+  round_id: bigint;
+  ts_pre: bigint | null;
+  ts_post: bigint | null;
+  slot_pre: bigint | null;
+  remaining_slots: bigint | null;
+  board_start_slot: bigint | null;
+  board_end_slot: bigint | null;
+  price_ore_sol: number | null;
+  price_sol_usd: number | null;
+  price_ore_usd: number | null;
+  price_fetched_at: bigint | null;
+  total_deployed: bigint | null;
+  total_miners: bigint | null;
+  latency_fetch_ms: bigint | null;
+  latency_ev_ms: bigint | null;
+  mining_cost_pct: number | null;
+  slot_hash: Buffer | null;
+  rng_u64: string | null;
+  winning_tile: bigint | null;
+  split_top_miner: bigint;
+  top_miner_reward: bigint | null;
+  motherlode_triggered: bigint | null;
+  motherlode_paid: bigint | null;
+  motherlode_pool: bigint | null;
+  num_winners: bigint | null;
+  total_winnings: bigint | null;
+  total_vaulted: bigint | null;
+  rent_payer: string | null;
+  top_miner_pubkey: string | null;
+  hash_verified: HashVerificationStatus | null;
+  backfilled: bigint;
+  backfilled_at: bigint | null;
+}
+
+/**
+ * Raw row shape of the tiles table (read with safeIntegers).
+ */
+interface TileRow {
+  round_id: bigint;
+  tile_index: bigint;
+  deployed: bigint | null;
+  miners_count: bigint | null;
+  others_stake: bigint | null;
+  ev_ratio: number | null;
+  max_profitable: bigint | null;
+  rank_ev: bigint | null;
+  deployed_final: bigint | null;
+  count_final: bigint | null;
+}
+
+interface BoardSnapshotRow {
+  round_id: bigint;
+  slot: bigint;
+  ts_capture: bigint;
+  remaining_slots: bigint;
+  total_deployed: bigint;
+  total_miners: bigint;
+  price_ore_sol: number;
+  target_slot: bigint | null;
+  trigger_slot: bigint | null;
+}
+
+interface TileSnapshotRow {
+  round_id: bigint;
+  slot: bigint;
+  tile_index: bigint;
+  deployed: bigint;
+  miners_count: bigint;
+  ev_ratio: number;
+  max_profitable: bigint;
+  rank_ev: bigint;
+}
+
+interface MinerRoundRow {
+  round_id: bigint;
+  authority: string;
+  ts_capture: bigint;
+  total_deployed: bigint;
+  deployed_winning: bigint;
+  rewards_sol: bigint;
+  rewards_ore: bigint;
+  is_top_miner: bigint;
 }
 
+interface MinerTileRow {
+  round_id: bigint;
+  authority: string;
+  tile_index: bigint;
+  deployed: bigint;
+}
+
+interface TreasurySnapshotRow {
+  round_id: bigint;
+  phase: CollectionPhase;
+  slot: bigint;
+  ts_capture: bigint;
+  balance: bigint;
+  motherlode: bigint;
+  total_staked: bigint;
+  total_unclaimed: bigint;
+  total_refined: bigint;
+  miner_rewards_factor: number;
+  stake_rewards_factor: number;
+}
+
+interface AnomalyRow {
+  round_id: bigint;
+  check_name: AnomalyCheck;
+  expected: string;
+  actual: string;
+  detected_at: bigint;
+}
+
+interface TileStatsRow {
+  tile_index: number;
+  rounds: number;
+  wins: number;
+  avg_ev_ratio: number | null;
+  avg_rank_ev: number | null;
+  avg_deployed: number | null;
+  avg_deployed_final: number | null;
+}
+
+/**
+ * Small INTEGER column (ms timestamps, indexes, latencies) as a number.
+ */
+function toNumberOrNull(value: bigint | null): number | null {
+  return value !== null ? Number(value) : null;
+}
+
+function mapRoundRow(row: RoundRow): RoundRecord {
+  return {
+    roundId: row.round_id,
+    tsPre: toNumberOrNull(row.ts_pre),
+    tsPost: toNumberOrNull(row.ts_post),
+    slotPre: row.slot_pre,
+    remainingSlots: toNumberOrNull(row.remaining_slots),
+    boardStartSlot: row.board_start_slot,
+    boardEndSlot: row.board_end_slot,
+    priceOreSol: row.price_ore_sol,
+    priceSolUsd: row.price_sol_usd,
+    priceOreUsd: row.price_ore_usd,
+    priceFetchedAt: toNumberOrNull(row.price_fetched_at),
+    totalDeployed: row.total_deployed,
+    totalMiners: row.total_miners,
+    latencyFetchMs: toNumberOrNull(row.latency_fetch_ms),
+    latencyEvMs: toNumberOrNull(row.latency_ev_ms),
+    miningCostPct: row.mining_cost_pct,
+    slotHash: row.slot_hash,
+    rngU64: decodeU64(row.rng_u64),
+    winningTile: toNumberOrNull(row.winning_tile),
+    splitTopMiner: row.split_top_miner === 1n,
+    topMinerReward: row.top_miner_reward,
+    motherlodeTriggered: row.motherlode_triggered === 1n,
+    motherlodePaid: row.motherlode_paid,
+    motherlodePool: row.motherlode_pool,
+    numWinners: row.num_winners,
+    totalWinnings: row.total_winnings,
+    totalVaulted: row.total_vaulted,
+    rentPayer: row.rent_payer,
+    topMinerPubkey: row.top_miner_pubkey,
+    hashVerified: row.hash_verified,
+    backfilled: row.backfilled === 1n,
+    backfilledAt: toNumberOrNull(row.backfilled_at),
+  };
+}
+
+function mapTileRow(row: TileRow): TileRecord {
+  return {
+    roundId: row.round_id,
+    tileIndex: Number(row.tile_index),
+    deployed: row.deployed,
+    minersCount: row.miners_count,
+    othersStake: row.others_stake,
+    evRatio: row.ev_ratio,
+    maxProfitable: row.max_profitable,
+    rankEv: toNumberOrNull(row.rank_ev),
+    deployedFinal: row.deployed_final,
+    countFinal: row.count_final,
+  };
+}
@@ -0,0 +1,27 @@
+/**
+ * Lossless u64 encoding for SQLite.
+ *
+ * SQLite INTEGER is a signed 64-bit value: amounts, slots and counts fit and are
+ * bound/read as bigint (statements use safeIntegers). Values spanning the full
+ * u64 range (rng_u64) don't, so they are stored as decimal TEXT.
+ */
+
+const U64_MAX = (1n << 64n) - 1n;
+
+/**
+ * Encode a u64 as decimal TEXT.
+ * @throws if the value is outside the u64 range
+ */
+export function encodeU64(value: bigint): string {
+  if (value < 0n || value > U64_MAX) {
+    throw new RangeError(`Value out of u64 range: ${value}`);
+  }
+  return value.toString();
+}
+
+/**
+ * Decode a decimal TEXT u64 (null stays null).
+ */
+export function decodeU64(value: string | null): bigint | null {
+  return value !== null ? BigInt(value) : null;
+}
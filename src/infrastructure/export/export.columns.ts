@@ -0,0 +1,100 @@
+/**
+ * Exportable columns of the rounds ⋈ tiles dataset (one row per round and tile).
+ *
+ * Names are stable: they are the public contract of `yarn db:export`, independent
+ * of the raw schema (tile columns are prefixed, slot hashes are hex).
+ */
+
+import type { RoundRecord, TileRecord } from "../../domain/entities/index.js";
+
+/**
+ * Value type of an exported column.
+ * - int64: integer (bigint)
+ * - u64: full-range u64 (rng_u64)
+ */
+export type ExportColumnType = "int64" | "u64" | "double" | "string" | "boolean";
+
+export type ExportValue = bigint | number | string | boolean | null;
+
+/**
+ * Exported row: column name → value.
+ */
+export type ExportRow = Record<string, ExportValue>;
+
+export interface ExportColumn {
+  name: string;
+  type: ExportColumnType;
+  /** Value for a round and one of its tiles */
+  value: (round: RoundRecord, tile: TileRecord) => ExportValue;
+}
+
+/**
+ * Integers stored as JS numbers (timestamps, small counts) as int64 values.
+ */
+function int64(value: number | bigint | null): bigint | null {
+  return value === null ? null : BigInt(value);
+}
+
+export const EXPORT_COLUMNS: ExportColumn[] = [
+  // * Round
+  { name: "round_id", type: "int64", value: (r) => r.roundId },
+  { name: "ts_pre", type: "int64", value: (r) => int64(r.tsPre) },
+  { name: "ts_post", type: "int64", value: (r) => int64(r.tsPost) },
+  { name: "slot_pre", type: "int64", value: (r) => r.slotPre },
+  { name: "remaining_slots", type: "int64", value: (r) => int64(r.remainingSlots) },
+  { name: "board_start_slot", type: "int64", value: (r) => r.boardStartSlot },
+  { name: "board_end_slot", type: "int64", value: (r) => r.boardEndSlot },
+  { name: "price_ore_sol", type: "double", value: (r) => r.priceOreSol },
+  { name: "price_sol_usd", type: "double", value: (r) => r.priceSolUsd },
+  { name: "price_ore_usd", type: "double", value: (r) => r.priceOreUsd },
+  { name: "total_deployed", type: "int64", value: (r) => r.totalDeployed },
+  { name: "total_miners", type: "int64", value: (r) => r.totalMiners },
+  { name: "mining_cost_pct", type: "double", value: (r) => r.miningCostPct },
+  { name: "slot_hash", type: "string", value: (r) => r.slotHash?.toString("hex") ?? null },
+  { name: "rng_u64", type: "u64", value: (r) => r.rngU64 },
+  { name: "winning_tile", type: "int64", value: (r) => int64(r.winningTile) },
+  { name: "split_top_miner", type: "boolean", value: (r) => r.splitTopMiner },
+  { name: "top_miner_reward", type: "int64", value: (r) => r.topMinerReward },
+  { name: "top_miner_pubkey", type: "string", value: (r) => r.topMinerPubkey },
+  { name: "motherlode_triggered", type: "boolean", value: (r) => r.motherlodeTriggered },
+  { name: "motherlode_paid", type: "int64", value: (r) => r.motherlodePaid },
+  { name: "motherlode_pool", type: "int64", value: (r) => r.motherlodePool },
+  { name: "num_winners", type: "int64", value: (r) => r.numWinners },
+  { name: "total_winnings", type: "int64", value: (r) => r.totalWinnings },
+  { name: "total_vaulted", type: "int64", value: (r) => r.totalVaulted },
+  { name: "hash_verified", type: "string", value: (r) => r.hashVerified },
+  { name: "backfilled", type: "boolean", value: (r) => r.backfilled },
+  { name: "backfilled_at", type: "int64", value: (r) => int64(r.backfilledAt) },
+
+  // * Tile
+  { name: "tile_index", type: "int64", value: (_, t) => int64(t.tileIndex) },
+  { name: "tile_deployed", type: "int64", value: (_, t) => t.deployed },
+  { name: "tile_miners_count", type: "int64", value: (_, t) => t.minersCount },
+  { name: "tile_ev_ratio", type: "double", value: (_, t) => t.evRatio },
+  { name: "tile_max_profitable", type: "int64", value: (_, t) => t.maxProfitable },
+  { name: "tile_rank_ev", type: "int64", value: (_, t) => int64(t.rankEv) },
+  { name: "tile_deployed_final", type: "int64", value: (_, t) => t.deployedFinal },
+  { name: "tile_count_final", type: "int64", value: (_, t) => t.countFinal },
+  {
+    name: "tile_is_winner",
+    type: "boolean",
+    value: (r, t) => (r.winningTile === null ? null : t.tileIndex === r.winningTile),
+  },
+];
+
+/**
+ * Resolve a column selection (all columns when empty).
+ * @throws on unknown column names
+ */
+export function selectExportColumns(names: string[]): ExportColumn[] {
+  if (names.length === 0) {
+    return EXPORT_COLUMNS;
+  }
+
+  const byName = new Map(EXPORT_COLUMNS.map((column) => [column.name, column]));
+  const unknown = names.filter((name) => !byName.has(name));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown export columns: ${unknown.join(", ")}`);
+  }
+  return names.map((name) => byName.get(name)!);
+}
@@ -0,0 +1,202 @@
+import { createWriteStream, type WriteStream } from "node:fs";
+import { once } from "node:events";
+import parquet, { type ParquetType, type ParquetWriter } from "@dsnp/parquetjs";
+import type { ExportColumn, ExportColumnType, ExportRow } from "./export.columns.js";
+
+export type ExportFormat = "csv" | "jsonl" | "parquet";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["csv", "jsonl", "parquet"];
+
+/**
+ * Sink of export rows. close() must be awaited to flush the file.
+ */
+export interface ExportWriter {
+  write(row: ExportRow): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * Open a writer for the given format.
+ */
+export async function openExportWriter(
+  format: ExportFormat,
+  path: string,
+  columns: ExportColumn[]
+): Promise<ExportWriter> {
+  switch (format) {
+    case "csv":
+      return new CsvWriter(await openFileStream(path), columns);
+    case "jsonl":
+      return new JsonlWriter(await openFileStream(path), columns);
+    case "parquet":
+      return ParquetExportWriter.open(path, columns);
+  }
+}
+
+/**
+ * Open a file for writing, rejecting when it can't be created (e.g. missing directory).
+ */
+async function openFileStream(path: string): Promise<WriteStream> {
+  const stream = createWriteStream(path, { encoding: "utf8" });
+  await once(stream, "open");
+  return stream;
+}
+
+/**
+ * Line-oriented writer honouring stream backpressure.
+ * Stream errors are rethrown by the next write or close.
+ */
+abstract class LineWriter implements ExportWriter {
+  private error: Error | null = null;
+
+  constructor(private readonly stream: WriteStream) {
+    this.stream.on("error", (error) => {
+      this.error = error;
+    });
+  }
+
+  protected abstract formatRow(row: ExportRow): string;
+
+  protected async writeLine(line: string): Promise<void> {
+    if (this.error) {
+      throw this.error;
+    }
+    if (!this.stream.write(`${line}\n`)) {
+      await once(this.stream, "drain");
+    }
+  }
+
+  async write(row: ExportRow): Promise<void> {
+    await this.writeLine(this.formatRow(row));
+  }
+
+  async close(): Promise<void> {
+    if (this.error) {
+      throw this.error;
+    }
+    this.stream.end();
+    await once(this.stream, "finish");
+  }
+}
+
+/**
+ * CSV (RFC 4180) with a header row; nulls are empty fields.
+ */
+class CsvWriter extends LineWriter {
+  private headerWritten = false;
+
+  constructor(
+    stream: WriteStream,
+    private readonly columns: ExportColumn[]
+  ) {
+    super(stream);
+  }
+
+  override async write(row: ExportRow): Promise<void> {
+    await this.writeHeader();
+    await super.write(row);
+  }
+
+  override async close(): Promise<void> {
+    // * Empty exports still get a header
+    await this.writeHeader();
+    await super.close();
+  }
+
+  private async writeHeader(): Promise<void> {
+    if (!this.headerWritten) {
+      this.headerWritten = true;
+      await this.writeLine(this.columns.map((column) => escapeCsv(column.name)).join(","));
+    }
+  }
+
+  protected formatRow(row: ExportRow): string {
+    return this.columns
+      .map((column) => {
+        const value = row[column.name];
+        return value === null ? "" : escapeCsv(String(value));
+      })
+      .join(",");
+  }
+}
+
+function escapeCsv(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * JSON Lines: one object per row.
+ * int64 values are written as plain JSON numbers (all digits kept); u64 values,
+ * which overflow int64 readers, as decimal strings.
+ */
+class JsonlWriter extends LineWriter {
+  constructor(
+    stream: WriteStream,
+    private readonly columns: ExportColumn[]
+  ) {
+    super(stream);
+  }
+
+  protected formatRow(row: ExportRow): string {
+    const fields = this.columns.map((column) => {
+      const value = row[column.name];
+      let json: string;
+      if (value === null) {
+        json = "null";
+      } else if (typeof value === "bigint") {
+        json = column.type === "u64" ? `"${value}"` : value.toString();
+      } else {
+        json = JSON.stringify(value);
+      }
+      return `${JSON.stringify(column.name)}:${json}`;
+    });
+    return `{${fields.join(",")}}`;
+  }
+}
+
+// * u64 values above 2^63 can't be written as INT64 by the Parquet library: decimal strings
+const PARQUET_TYPES: Record<ExportColumnType, ParquetType> = {
+  int64: "INT64",
+  u64: "UTF8",
+  double: "DOUBLE",
+  string: "UTF8",
+  boolean: "BOOLEAN",
+};
+
+/**
+ * Parquet (snappy-compressed, every column optional).
+ */
+class ParquetExportWriter implements ExportWriter {
+  private constructor(
+    private readonly writer: ParquetWriter,
+    private readonly u64Columns: string[]
+  ) {}
+
+  static async open(path: string, columns: ExportColumn[]): Promise<ParquetExportWriter> {
+    const schema = new parquet.ParquetSchema(
+      Object.fromEntries(
+        columns.map((column) => [
+          column.name,
+          { type: PARQUET_TYPES[column.type], optional: true, compression: "SNAPPY" as const },
+        ])
+      )
+    );
+    return new ParquetExportWriter(
+      await parquet.ParquetWriter.openFile(schema, path),
+      columns.filter((column) => column.type === "u64").map((column) => column.name)
+    );
+  }
+
+  async write(row: ExportRow): Promise<void> {
+    const record: ExportRow = { ...row };
+    for (const name of this.u64Columns) {
+      const value = record[name];
+      record[name] = value !== null ? String(value) : null;
+    }
+    await this.writer.appendRow(record);
+  }
+
+  async close(): Promise<void> {
+    await this.writer.close();
+  }
+}
@@ -0,0 +1,18 @@
+/**
+ * Dataset export (rounds ⋈ tiles) to CSV, JSON Lines and Parquet.
+ */
+
+export {
+  EXPORT_COLUMNS,
+  selectExportColumns,
+  type ExportColumn,
+  type ExportColumnType,
+  type ExportRow,
+  type ExportValue,
+} from "./export.columns.js";
+export {
+  EXPORT_FORMATS,
+  openExportWriter,
+  type ExportFormat,
+  type ExportWriter,
+} from "./export.writers.js";
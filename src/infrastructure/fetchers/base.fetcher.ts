@@ -2,6 +2,7 @@ import type { IDataFetcher } from "../../domain/interfaces/data-fetcher.js";
 import { FetchError } from "../../domain/errors/collection.errors.js";
 import { withRetry, type RetryOptions } from "../../shared/retry.js";
 import { getLogger } from "../../shared/logger.js";
+import { collectorMetrics } from "../../shared/metrics.js";
 
 /**
  * Abstract base class for data fetchers with built-in retry logic.
@@ -27,14 +28,26 @@ export abstract class BaseFetcher<T> implements IDataFetcher<T> {
    * @throws FetchError if all retries fail
    */
   async fetch(): Promise<T> {
+    const start = Date.now();
+
     try {
-      return await withRetry(() => this.doFetch(), this.retryOptions);
+      const result = await withRetry(() => this.doFetch(), this.retryOptions);
+      this.observeFetch(start, "success");
+      return result;
     } catch (error) {
+      this.observeFetch(start, "failure");
       const err = error instanceof Error ? error : new Error(String(error));
       throw new FetchError(this.name, err.message, null, err);
     }
   }
 
+  private observeFetch(start: number, outcome: "success" | "failure"): void {
+    collectorMetrics.fetchDuration.observe((Date.now() - start) / 1000, {
+      fetcher: this.name,
+      outcome,
+    });
+  }
+
   /**
    * Implement the actual fetch logic in subclasses.
    * @throws Error on failure (will be retried)
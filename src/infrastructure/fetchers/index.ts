@@ -11,5 +11,12 @@
 export { BaseFetcher } from "./base.fetcher.js";
 export { JupiterPriceFetcher } from "./jupiter-price.fetcher.js";
 export { MiningCostFetcher, type MiningCostData } from "./mining-cost.fetcher.js";
-export { fetchRoundState, fetchRoundStateOrNull } from "./round-state.fetcher.js";
+export {
+  fetchRoundState,
+  fetchRoundStateOrNull,
+  fetchRoundStatesBatch,
+} from "./round-state.fetcher.js";
 
+export { fetchMinerAccounts } from "./miner.fetcher.js";
+export { fetchTreasuryWithContext, type TreasuryWithContext } from "./treasury.fetcher.js";
+export { fetchSlotHashesWithContext, type SlotHashesWithContext } from "./slot-hashes.fetcher.js";
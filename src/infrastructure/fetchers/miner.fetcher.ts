@@ -0,0 +1,53 @@
+import type { Commitment, PublicKey } from "@solana/web3.js";
+import type { MinerAccount } from "../solana/decoders/miner.decoder.js";
+import { decodeMinerAccount } from "../solana/decoders/miner.decoder.js";
+import { deriveMinerPda } from "../solana/pda.js";
+import { getSolanaConnection } from "../solana/connection.js";
+import { getLogger } from "../../shared/logger.js";
+import { withRetry } from "../../shared/retry.js";
+
+const logger = getLogger().child("MinerFetcher");
+
+// * getMultipleAccountsInfo accepts at most 100 keys per request
+const MAX_ACCOUNTS_PER_REQUEST = 100;
+
+interface FetchOptions {
+  commitment?: Commitment;
+  retries?: number;
+  delayMs?: number;
+}
+
+/**
+ * Fetch Miner accounts for several authorities, batching getMultipleAccountsInfo calls.
+ * Entries are null for authorities that never mined (no Miner account).
+ * @returns Miner accounts in the same order as authorities
+ */
+export async function fetchMinerAccounts(
+  authorities: PublicKey[],
+  options: FetchOptions = {}
+): Promise<(MinerAccount | null)[]> {
+  const { commitment = "confirmed", retries = 3, delayMs = 1000 } = options;
+  const results: (MinerAccount | null)[] = [];
+
+  for (let i = 0; i < authorities.length; i += MAX_ACCOUNTS_PER_REQUEST) {
+    const chunk = authorities.slice(i, i + MAX_ACCOUNTS_PER_REQUEST);
+    const pdas = chunk.map((authority) => deriveMinerPda(authority));
+
+    logger.debug("Fetching miner accounts", { count: chunk.length, commitment });
+
+    const accounts = await withRetry(
+      () => getSolanaConnection().getMultipleAccountsInfo(pdas, commitment),
+      {
+        retries,
+        delayMs,
+        name: "MinerAccountsFetch",
+      }
+    );
+
+    for (const account of accounts) {
+      results.push(account ? decodeMinerAccount(account.data) : null);
+    }
+  }
+
+  return results;
+}
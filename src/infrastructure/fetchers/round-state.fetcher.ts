@@ -8,6 +8,9 @@ import { withRetry } from "../../shared/retry.js";
 
 const logger = getLogger().child("RoundStateFetcher");
 
+// * getMultipleAccountsInfo accepts at most 100 keys per request
+const MAX_ACCOUNTS_PER_REQUEST = 100;
+
 export interface RoundStateWithContext {
   roundState: RoundAccount;
   contextSlot: bigint;
@@ -16,6 +19,10 @@ export interface RoundStateWithContext {
 interface FetchOptions {
   commitment?: Commitment;
   minContextSlot?: number;
+  /** Race the read across the best RPC endpoints (latency-critical fetches) */
+  race?: boolean;
+  /** Raced reads: responses behind this slot only win when no endpoint reaches it */
+  preferredContextSlot?: number;
   retries?: number;
   delayMs?: number;
 }
@@ -39,13 +46,15 @@ export async function fetchRoundStateWithContext(
   const {
     commitment = "confirmed",
     minContextSlot,
+    race = false,
+    preferredContextSlot,
     retries = 3,
     delayMs = 2000,
   } = options;
 
   return withRetry(
     async () => {
-      const connection = getSolanaConnection().getConnection();
+      const connection = getSolanaConnection();
       const roundPda = deriveRoundPda(roundId);
 
       logger.debug("Fetching round state", {
@@ -53,12 +62,16 @@ export async function fetchRoundStateWithContext(
         pda: roundPda.toString(),
         commitment,
         minContextSlot,
+        race,
       });
 
-      const accountInfo = await connection.getAccountInfoAndContext(roundPda, {
-        commitment,
-        minContextSlot,
-      });
+      const accountInfo = race
+        ? await connection.raceAccountInfoAndContext(
+            roundPda,
+            { commitment, minContextSlot },
+            preferredContextSlot
+          )
+        : await connection.getAccountInfoAndContext(roundPda, { commitment, minContextSlot });
 
       if (!accountInfo?.value) {
         throw new Error(`Round account not found: ${roundPda.toString()}`);
@@ -77,6 +90,45 @@ export async function fetchRoundStateWithContext(
   );
 }
 
+/**
+ * Fetch several round states, batching getMultipleAccountsInfo calls.
+ * Entries are null for rounds whose account does not exist (never created or closed).
+ * @returns Round states in the same order as roundIds
+ */
+export async function fetchRoundStatesBatch(
+  roundIds: bigint[],
+  options: FetchOptions = {}
+): Promise<(RoundAccount | null)[]> {
+  const { commitment = "confirmed", retries = 3, delayMs = 2000 } = options;
+  const results: (RoundAccount | null)[] = [];
+
+  for (let i = 0; i < roundIds.length; i += MAX_ACCOUNTS_PER_REQUEST) {
+    const chunk = roundIds.slice(i, i + MAX_ACCOUNTS_PER_REQUEST);
+    const pdas = chunk.map((roundId) => deriveRoundPda(roundId));
+
+    logger.debug("Fetching round states batch", {
+      firstRoundId: chunk[0].toString(),
+      count: chunk.length,
+      commitment,
+    });
+
+    const accounts = await withRetry(
+      () => getSolanaConnection().getMultipleAccountsInfo(pdas, commitment),
+      {
+        retries,
+        delayMs,
+        name: "RoundStateBatchFetch",
+      }
+    );
+
+    for (const account of accounts) {
+      results.push(account ? decodeRoundAccount(account.data) : null);
+    }
+  }
+
+  return results;
+}
+
 /**
  * Fetch round state, returning null if not found instead of throwing.
  */
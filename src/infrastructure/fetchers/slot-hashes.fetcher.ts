@@ -0,0 +1,53 @@
+import { SYSVAR_SLOT_HASHES_PUBKEY, type Commitment } from "@solana/web3.js";
+import type { SlotHashEntry } from "../solana/decoders/slot-hashes.decoder.js";
+import { decodeSlotHashes } from "../solana/decoders/slot-hashes.decoder.js";
+import { getSolanaConnection } from "../solana/connection.js";
+import { getLogger } from "../../shared/logger.js";
+import { withRetry } from "../../shared/retry.js";
+
+const logger = getLogger().child("SlotHashesFetcher");
+
+export interface SlotHashesWithContext {
+  entries: SlotHashEntry[];
+  contextSlot: bigint;
+}
+
+interface FetchOptions {
+  commitment?: Commitment;
+  retries?: number;
+  delayMs?: number;
+}
+
+/**
+ * Fetch the SlotHashes sysvar with RPC context slot metadata.
+ */
+export async function fetchSlotHashesWithContext(
+  options: FetchOptions = {}
+): Promise<SlotHashesWithContext> {
+  const { commitment = "confirmed", retries = 3, delayMs = 1000 } = options;
+
+  return withRetry(
+    async () => {
+      logger.debug("Fetching slot hashes", { commitment });
+
+      const accountInfo = await getSolanaConnection().getAccountInfoAndContext(
+        SYSVAR_SLOT_HASHES_PUBKEY,
+        { commitment }
+      );
+
+      if (!accountInfo?.value) {
+        throw new Error(`SlotHashes sysvar not found: ${SYSVAR_SLOT_HASHES_PUBKEY.toString()}`);
+      }
+
+      return {
+        entries: decodeSlotHashes(accountInfo.value.data),
+        contextSlot: BigInt(accountInfo.context.slot),
+      };
+    },
+    {
+      retries,
+      delayMs,
+      name: "SlotHashesFetch",
+    }
+  );
+}
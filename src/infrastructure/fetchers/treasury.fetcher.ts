@@ -0,0 +1,53 @@
+import type { Commitment } from "@solana/web3.js";
+import type { TreasuryAccount } from "../solana/decoders/treasury.decoder.js";
+import { decodeTreasuryAccount } from "../solana/decoders/treasury.decoder.js";
+import { TREASURY_ADDRESS } from "../solana/pda.js";
+import { getSolanaConnection } from "../solana/connection.js";
+import { getLogger } from "../../shared/logger.js";
+import { withRetry } from "../../shared/retry.js";
+
+const logger = getLogger().child("TreasuryFetcher");
+
+export interface TreasuryWithContext {
+  treasury: TreasuryAccount;
+  contextSlot: bigint;
+}
+
+interface FetchOptions {
+  commitment?: Commitment;
+  retries?: number;
+  delayMs?: number;
+}
+
+/**
+ * Fetch the Treasury account with RPC context slot metadata.
+ */
+export async function fetchTreasuryWithContext(
+  options: FetchOptions = {}
+): Promise<TreasuryWithContext> {
+  const { commitment = "confirmed", retries = 3, delayMs = 1000 } = options;
+
+  return withRetry(
+    async () => {
+      logger.debug("Fetching treasury", { commitment });
+
+      const accountInfo = await getSolanaConnection().getAccountInfoAndContext(TREASURY_ADDRESS, {
+        commitment,
+      });
+
+      if (!accountInfo?.value) {
+        throw new Error(`Treasury account not found: ${TREASURY_ADDRESS.toString()}`);
+      }
+
+      return {
+        treasury: decodeTreasuryAccount(accountInfo.value.data),
+        contextSlot: BigInt(accountInfo.context.slot),
+      };
+    },
+    {
+      retries,
+      delayMs,
+      name: "TreasuryFetch",
+    }
+  );
+}
@@ -3,3 +3,4 @@ export * from "./solana/index.js";
 export * from "./fetchers/index.js";
 export * from "./notifications/index.js";
 
+export * from "./export/index.js";
@@ -0,0 +1,69 @@
+import type { AccountInfo, PublicKey } from "@solana/web3.js";
+import { getSolanaConnection } from "./connection.js";
+import { YellowstoneStream, type YellowstoneStreamStatus } from "./yellowstone-stream.js";
+
+/**
+ * Push source of account updates:
+ * - websocket: RPC onAccountChange (SolanaConnection)
+ * - yellowstone: Yellowstone gRPC stream (lower latency, no dropped notifications)
+ */
+export type AccountStreamSource = "websocket" | "yellowstone";
+
+/**
+ * Account subscriptions that survive reconnects, with the update's context slot.
+ */
+export interface AccountStream {
+  subscribeToAccount(
+    address: PublicKey,
+    callback: (accountInfo: AccountInfo<Buffer>, contextSlot: bigint) => void
+  ): number;
+  unsubscribeFromAccount(subscriptionId: number): Promise<void>;
+  /**
+   * Since when updates have been flowing without interruption.
+   * Pushed state received before that may miss updates sent during the outage.
+   * @returns null while (re)connecting
+   */
+  getConnectedAt(): number | null;
+}
+
+// * Singleton instance (null: the WebSocket connection is the stream)
+let yellowstoneStream: YellowstoneStream | null = null;
+
+/**
+ * Use a Yellowstone gRPC stream as the account stream.
+ * Its slot updates feed the Solana connection's current slot and slot clock.
+ */
+export function initYellowstoneStream(endpoint: string, xToken?: string): YellowstoneStream {
+  yellowstoneStream = new YellowstoneStream(endpoint, xToken, (slot) =>
+    getSolanaConnection().observeSlotNotification(slot)
+  );
+  return yellowstoneStream;
+}
+
+export function getYellowstoneStream(): YellowstoneStream | null {
+  return yellowstoneStream;
+}
+
+export function getAccountStreamSource(): AccountStreamSource {
+  return yellowstoneStream ? "yellowstone" : "websocket";
+}
+
+/**
+ * The configured account stream (WebSocket unless a Yellowstone stream was initialized).
+ */
+export function getAccountStream(): AccountStream {
+  return yellowstoneStream ?? getSolanaConnection();
+}
+
+/**
+ * Account stream source and, for Yellowstone, the gRPC stream state.
+ */
+export function getAccountStreamStatus(): {
+  source: AccountStreamSource;
+  yellowstone: YellowstoneStreamStatus | null;
+} {
+  return {
+    source: getAccountStreamSource(),
+    yellowstone: yellowstoneStream?.getStatus() ?? null,
+  };
+}
@@ -1,37 +1,134 @@
-import { Connection, PublicKey, type AccountInfo, type Commitment } from "@solana/web3.js";
+import {
+  Connection,
+  PublicKey,
+  type AccountInfo,
+  type Commitment,
+  type GetAccountInfoConfig,
+  type RpcResponseAndContext,
+} from "@solana/web3.js";
 import { getLogger } from "../../shared/logger.js";
+import { collectorMetrics } from "../../shared/metrics.js";
+import { RpcPool, type RpcEndpointStatus } from "./rpc-pool.js";
+import { SlotClock } from "./slot-clock.js";
+
+// * Slot age above which slot-based triggers must not fire (~5 slots)
+const SLOT_FRESH_MS = 2_000;
+// * Slot notification silence after which the WebSocket is reconnected
+const WS_STALE_MS = 10_000;
+const WS_WATCHDOG_INTERVAL_MS = 1_000;
+const WS_RECONNECT_BASE_MS = 1_000;
+const WS_RECONNECT_MAX_MS = 30_000;
+
+/**
+ * WebSocket lifecycle:
+ * - connecting: subscribed, waiting for the first slot notification
+ * - connected: slot notifications flowing
+ * - reconnecting: notifications stopped, a new socket is being set up (with backoff)
+ * - closed: close() was called
+ */
+export type WsConnectionState = "connecting" | "connected" | "reconnecting" | "closed";
+
+export interface WsStatus {
+  state: WsConnectionState;
+  /** Timestamp of the last WebSocket slot notification (ms) */
+  lastSlotNotificationAt: number | null;
+  /** Timestamp of the last current slot update, from WS or HTTP context (ms) */
+  lastSlotUpdateAt: number | null;
+  reconnects: number;
+  /** Account subscriptions restored on reconnect */
+  accountSubscriptions: number;
+}
+
+/**
+ * web3.js's internal RPC WebSocket client (not part of its public API).
+ */
+interface RpcWebSocketClient {
+  setAutoReconnect(reconnect: boolean): void;
+  close(): void;
+}
+
+/**
+ * Account subscription kept across reconnects.
+ */
+interface AccountSubscription {
+  address: PublicKey;
+  callback: (accountInfo: AccountInfo<Buffer>, contextSlot: bigint) => void;
+  commitment: Commitment;
+  /** web3.js listener ID on the current socket */
+  listenerId: number | null;
+}
+
+export interface SolanaConnectionOptions {
+  /** Extra HTTP endpoints used for failover and racing (the primary stays first) */
+  fallbackRpcUrls?: string[];
+  /** Endpoints raced by raceAccountInfoAndContext (default: 2, 1 disables racing) */
+  raceWidth?: number;
+}
 
 /**
  * Solana connection wrapper with HTTP and WS endpoints.
+ * Reads go through an RPC pool (primary + fallbacks) with failover.
+ * Subscriptions use a dedicated WebSocket connection to the primary endpoint,
+ * watched through slot notifications: when they stop, the socket is replaced
+ * (exponential backoff) and every subscription is restored.
  */
 export class SolanaConnection {
   private readonly logger = getLogger().child("Solana");
   private connection: Connection | null = null;
+  private wsConnection: Connection | null = null;
+  private pool: RpcPool | null = null;
   private currentSlot: bigint = 0n;
+  private readonly slotClock = new SlotClock();
   private slotSubscriptionId: number | null = null;
+  private readonly accountSubscriptions = new Map<number, AccountSubscription>();
+  private nextSubscriptionId = 1;
+
+  // * WebSocket state
+  private wsState: WsConnectionState = "connecting";
+  private wsOpenedAt = 0;
+  private wsConnectedAt = 0;
+  private lastSlotNotificationAt = 0;
+  private lastSlotUpdateAt = 0;
+  private reconnects = 0;
+  private reconnectAttempts = 0;
+  private nextReconnectAt = 0;
+  private watchdogIntervalId: ReturnType<typeof setInterval> | null = null;
 
   constructor(
     private readonly rpcUrl: string,
-    private readonly wsUrl: string
+    private readonly wsUrl: string,
+    private readonly options: SolanaConnectionOptions = {}
   ) {}
 
   /**
    * Initialize the connection.
    */
   async initialize(): Promise<void> {
-    this.logger.info("Initializing Solana connection", { rpcUrl: this.rpcUrl });
+    const fallbackRpcUrls = this.options.fallbackRpcUrls ?? [];
+    this.logger.info("Initializing Solana connection", {
+      rpcUrl: this.rpcUrl,
+      fallbackEndpoints: fallbackRpcUrls.length,
+    });
 
     this.connection = new Connection(this.rpcUrl, {
       wsEndpoint: this.wsUrl,
       commitment: "confirmed",
     });
+    this.pool = new RpcPool([
+      { url: this.rpcUrl, connection: this.connection },
+      ...fallbackRpcUrls.map((url) => ({
+        url,
+        connection: new Connection(url, { commitment: "confirmed" }),
+      })),
+    ]);
 
     // * Fetch initial slot
-    this.currentSlot = BigInt(await this.connection.getSlot());
+    await this.refreshSlot();
     this.logger.info("Connected to Solana", { currentSlot: this.currentSlot.toString() });
 
-    // * Subscribe to slot updates
-    this.subscribeToSlotUpdates();
+    // * Subscribe to slot updates, reconnect when they stop
+    this.openWebSocket();
+    this.watchdogIntervalId = setInterval(() => this.checkWebSocket(), WS_WATCHDOG_INTERVAL_MS);
   }
 
   /**
@@ -44,6 +141,23 @@ export class SolanaConnection {
     return this.connection;
   }
 
+  /**
+   * Get the RPC endpoint pool (primary + fallbacks).
+   */
+  getPool(): RpcPool {
+    if (!this.pool) {
+      throw new Error("Connection not initialized. Call initialize() first.");
+    }
+    return this.pool;
+  }
+
+  /**
+   * Health of the pooled RPC endpoints, best first.
+   */
+  getRpcStatus(): RpcEndpointStatus[] {
+    return this.pool?.getStatus() ?? [];
+  }
+
   /**
    * Get the current slot.
    */
@@ -52,52 +166,278 @@ export class SolanaConnection {
   }
 
   /**
-   * Fetch an account's data.
+   * Record a slot seen in an RPC response context (never moves the slot back).
+   */
+  observeSlot(slot: bigint): void {
+    if (slot >= this.currentSlot) {
+      this.currentSlot = slot;
+      this.lastSlotUpdateAt = Date.now();
+    }
+  }
+
+  /**
+   * Record a streamed slot notification: advances the current slot and feeds the slot clock.
+   */
+  observeSlotNotification(slot: bigint): void {
+    this.slotClock.record(slot);
+    this.observeSlot(slot);
+  }
+
+  /**
+   * Slot duration estimates from slot notifications, for slot-accurate timers.
+   */
+  getSlotClock(): SlotClock {
+    return this.slotClock;
+  }
+
+  /**
+   * Whether the current slot was updated recently enough to time slot-based triggers.
+   */
+  isSlotFresh(maxAgeMs = SLOT_FRESH_MS): boolean {
+    return this.lastSlotUpdateAt > 0 && Date.now() - this.lastSlotUpdateAt <= maxAgeMs;
+  }
+
+  /**
+   * Fetch the current slot over HTTP (pool), e.g. while the WebSocket is down.
+   */
+  async refreshSlot(): Promise<bigint> {
+    const slot = await this.getPool().request("getSlot", (conn) => conn.getSlot());
+    this.observeSlot(BigInt(slot));
+    return this.currentSlot;
+  }
+
+  /**
+   * WebSocket connection state and slot freshness.
+   */
+  getWsStatus(): WsStatus {
+    return {
+      state: this.wsState,
+      lastSlotNotificationAt: this.lastSlotNotificationAt > 0 ? this.lastSlotNotificationAt : null,
+      lastSlotUpdateAt: this.lastSlotUpdateAt > 0 ? this.lastSlotUpdateAt : null,
+      reconnects: this.reconnects,
+      accountSubscriptions: this.accountSubscriptions.size,
+    };
+  }
+
+  /**
+   * Since when the current WebSocket has been delivering notifications.
+   * @returns null while connecting or reconnecting (account notifications may be missed)
+   */
+  getConnectedAt(): number | null {
+    return this.wsState === "connected" ? this.wsConnectedAt : null;
+  }
+
+  /**
+   * Fetch an account's data (with failover).
    */
   async getAccountInfo(
     address: PublicKey,
     commitment: Commitment = "confirmed"
   ): Promise<AccountInfo<Buffer> | null> {
-    const conn = this.getConnection();
-    return conn.getAccountInfo(address, commitment);
+    return this.getPool().request("getAccountInfo", (conn) =>
+      conn.getAccountInfo(address, commitment)
+    );
   }
 
   /**
-   * Subscribe to account changes.
+   * Fetch an account's data with RPC context (with failover).
+   */
+  async getAccountInfoAndContext(
+    address: PublicKey,
+    config?: GetAccountInfoConfig
+  ): Promise<RpcResponseAndContext<AccountInfo<Buffer> | null>> {
+    return this.getPool().request("getAccountInfo", (conn) =>
+      conn.getAccountInfoAndContext(address, config)
+    );
+  }
+
+  /**
+   * Fetch an account's data with RPC context from the best endpoints at once,
+   * keeping the first response at or after `preferredContextSlot` (else the freshest).
+   * For latency-critical reads.
+   */
+  async raceAccountInfoAndContext(
+    address: PublicKey,
+    config?: GetAccountInfoConfig,
+    preferredContextSlot?: number
+  ): Promise<RpcResponseAndContext<AccountInfo<Buffer> | null>> {
+    return this.getPool().race(
+      "getAccountInfo",
+      (conn) => conn.getAccountInfoAndContext(address, config),
+      this.options.raceWidth ?? 2,
+      preferredContextSlot
+    );
+  }
+
+  /**
+   * Fetch several accounts' data (with failover).
+   */
+  async getMultipleAccountsInfo(
+    addresses: PublicKey[],
+    commitment: Commitment = "confirmed"
+  ): Promise<(AccountInfo<Buffer> | null)[]> {
+    return this.getPool().request("getMultipleAccounts", (conn) =>
+      conn.getMultipleAccountsInfo(addresses, commitment)
+    );
+  }
+
+  /**
+   * Subscribe to account changes. The subscription survives reconnects.
    * @returns Subscription ID for cleanup
    */
   subscribeToAccount(
     address: PublicKey,
-    callback: (accountInfo: AccountInfo<Buffer>) => void,
+    callback: (accountInfo: AccountInfo<Buffer>, contextSlot: bigint) => void,
     commitment: Commitment = "confirmed"
   ): number {
-    const conn = this.getConnection();
-    return conn.onAccountChange(
-      address,
-      (accountInfo) => {
-        callback(accountInfo);
-      },
-      commitment
-    );
+    const subscriptionId = this.nextSubscriptionId++;
+    const subscription: AccountSubscription = { address, callback, commitment, listenerId: null };
+    this.accountSubscriptions.set(subscriptionId, subscription);
+    this.listenToAccount(subscription);
+    return subscriptionId;
   }
 
   /**
    * Unsubscribe from account changes.
    */
   async unsubscribeFromAccount(subscriptionId: number): Promise<void> {
-    const conn = this.getConnection();
-    await conn.removeAccountChangeListener(subscriptionId);
+    const subscription = this.accountSubscriptions.get(subscriptionId);
+    if (!subscription) {
+      return;
+    }
+
+    this.accountSubscriptions.delete(subscriptionId);
+    if (subscription.listenerId !== null && this.wsConnection) {
+      await this.wsConnection.removeAccountChangeListener(subscription.listenerId);
+    }
+  }
+
+  private getWsConnection(): Connection {
+    if (!this.wsConnection) {
+      throw new Error("Connection not initialized. Call initialize() first.");
+    }
+    return this.wsConnection;
+  }
+
+  private listenToAccount(subscription: AccountSubscription): void {
+    subscription.listenerId = this.getWsConnection().onAccountChange(
+      subscription.address,
+      (accountInfo, context) => {
+        this.observeSlot(BigInt(context.slot));
+        subscription.callback(accountInfo, BigInt(context.slot));
+      },
+      subscription.commitment
+    );
+  }
+
+  /**
+   * Open a WebSocket connection and (re)subscribe to slots and accounts.
+   */
+  private openWebSocket(): void {
+    this.wsConnection = new Connection(this.rpcUrl, {
+      wsEndpoint: this.wsUrl,
+      commitment: "confirmed",
+    });
+    // * Until the first notification, staleness is measured from the first subscription
+    if (this.wsOpenedAt === 0) {
+      this.wsOpenedAt = Date.now();
+    }
+
+    this.slotSubscriptionId = this.wsConnection.onSlotChange((slotInfo) => {
+      this.lastSlotNotificationAt = Date.now();
+      this.observeSlotNotification(BigInt(slotInfo.slot));
+
+      if (this.wsState !== "connected" && this.wsState !== "closed") {
+        this.logger.info("WebSocket connected", {
+          slot: slotInfo.slot,
+          reconnects: this.reconnects,
+        });
+        this.wsState = "connected";
+        this.wsConnectedAt = Date.now();
+        this.reconnectAttempts = 0;
+      }
+    });
+
+    for (const subscription of this.accountSubscriptions.values()) {
+      this.listenToAccount(subscription);
+    }
+
+    this.logger.debug("Subscribed to slot updates", {
+      accountSubscriptions: this.accountSubscriptions.size,
+    });
   }
 
   /**
-   * Subscribe to slot updates to keep currentSlot fresh.
+   * Detach the current WebSocket, drop its listeners and shut the socket down
+   * (best effort: the socket may already be dead).
    */
-  private subscribeToSlotUpdates(): void {
-    const conn = this.getConnection();
-    this.slotSubscriptionId = conn.onSlotChange((slotInfo) => {
-      this.currentSlot = BigInt(slotInfo.slot);
+  private async closeWebSocket(): Promise<void> {
+    const wsConnection = this.wsConnection;
+    if (!wsConnection) {
+      return;
+    }
+    this.wsConnection = null;
+
+    const removals: Promise<void>[] = [];
+    if (this.slotSubscriptionId !== null) {
+      removals.push(wsConnection.removeSlotChangeListener(this.slotSubscriptionId));
+      this.slotSubscriptionId = null;
+    }
+    for (const subscription of this.accountSubscriptions.values()) {
+      if (subscription.listenerId !== null) {
+        removals.push(wsConnection.removeAccountChangeListener(subscription.listenerId));
+        subscription.listenerId = null;
+      }
+    }
+
+    const results = await Promise.allSettled(removals);
+    const failed = results.filter((result) => result.status === "rejected").length;
+    if (failed > 0) {
+      this.logger.debug("Some WebSocket listeners could not be removed", { failed });
+    }
+
+    // * web3.js only closes sockets that were connected, a dead one would retry forever
+    const rpcWebSocket = Reflect.get(wsConnection, "_rpcWebSocket") as
+      | RpcWebSocketClient
+      | undefined;
+    rpcWebSocket?.setAutoReconnect(false);
+    rpcWebSocket?.close();
+  }
+
+  /**
+   * Reconnect the WebSocket when slot notifications stopped, with exponential backoff:
+   * once reconnecting, a socket still silent at the next attempt time is replaced.
+   */
+  private checkWebSocket(): void {
+    if (this.wsState === "closed") {
+      return;
+    }
+
+    const now = Date.now();
+    const silenceMs = now - (this.lastSlotNotificationAt || this.wsOpenedAt);
+    if (this.wsState === "reconnecting" ? now < this.nextReconnectAt : silenceMs <= WS_STALE_MS) {
+      return;
+    }
+
+    const backoffMs = Math.min(
+      WS_RECONNECT_BASE_MS * 2 ** this.reconnectAttempts,
+      WS_RECONNECT_MAX_MS
+    );
+    this.reconnectAttempts++;
+    this.nextReconnectAt = now + backoffMs;
+    this.reconnects++;
+    this.wsState = "reconnecting";
+    collectorMetrics.wsReconnects.inc();
+
+    this.logger.warn("No slot notification, reconnecting WebSocket", {
+      silenceMs,
+      attempt: this.reconnectAttempts,
+      nextAttemptInMs: backoffMs,
     });
-    this.logger.debug("Subscribed to slot updates");
+
+    // * Listener IDs are detached synchronously, the old socket is cleaned up in the background
+    void this.closeWebSocket();
+    this.openWebSocket();
   }
 
   /**
@@ -105,10 +445,13 @@ export class SolanaConnection {
    */
   async close(): Promise<void> {
     if (this.connection) {
-      if (this.slotSubscriptionId !== null) {
-        await this.connection.removeSlotChangeListener(this.slotSubscriptionId);
-        this.slotSubscriptionId = null;
+      this.wsState = "closed";
+      if (this.watchdogIntervalId !== null) {
+        clearInterval(this.watchdogIntervalId);
+        this.watchdogIntervalId = null;
       }
+      await this.closeWebSocket();
+      this.accountSubscriptions.clear();
       this.logger.info("Solana connection closed");
     }
   }
@@ -117,8 +460,12 @@ export class SolanaConnection {
 // * Singleton instance
 let instance: SolanaConnection | null = null;
 
-export function initSolanaConnection(rpcUrl: string, wsUrl: string): SolanaConnection {
-  instance = new SolanaConnection(rpcUrl, wsUrl);
+export function initSolanaConnection(
+  rpcUrl: string,
+  wsUrl: string,
+  options: SolanaConnectionOptions = {}
+): SolanaConnection {
+  instance = new SolanaConnection(rpcUrl, wsUrl, options);
   return instance;
 }
 
@@ -12,3 +12,18 @@ export {
   getTotalMiners,
 } from "./round.decoder.js";
 
+export {
+  type MinerAccount,
+  decodeMinerAccount,
+  getMinerTotalDeployed,
+} from "./miner.decoder.js";
+
+export {
+  type TreasuryAccount,
+  decodeTreasuryAccount,
+} from "./treasury.decoder.js";
+
+export {
+  type SlotHashEntry,
+  decodeSlotHashes,
+} from "./slot-hashes.decoder.js";
@@ -0,0 +1,150 @@
+import { PublicKey } from "@solana/web3.js";
+
+const ACCOUNT_DISCRIMINATOR_SIZE = 8;
+const U64_SIZE = 8;
+const I64_SIZE = 8;
+const PUBKEY_SIZE = 32;
+const NUMERIC_SIZE = 16;
+const TILES_COUNT = 25;
+
+/**
+ * Decoded Miner account data.
+ */
+export interface MinerAccount {
+  /** Miner authority (wallet) */
+  authority: PublicKey;
+  /** Deployed lamports per tile in the miner's current round (25 values) */
+  deployed: bigint[];
+  /** Cumulative deployed lamports per tile at deploy time (25 values) */
+  cumulative: bigint[];
+  /** Checkpoint fee (lamports) */
+  checkpointFee: bigint;
+  /** Last round checkpointed */
+  checkpointId: bigint;
+  /** Last ORE claim timestamp (unix seconds) */
+  lastClaimOreAt: bigint;
+  /** Last SOL claim timestamp (unix seconds) */
+  lastClaimSolAt: bigint;
+  /** Claimable SOL rewards (lamports) */
+  rewardsSol: bigint;
+  /** Claimable ORE rewards (atomic units) */
+  rewardsOre: bigint;
+  /** Refined ORE (atomic units) */
+  refinedOre: bigint;
+  /** Round the `deployed` values belong to */
+  roundId: bigint;
+  /** Lifetime SOL rewards (lamports) */
+  lifetimeRewardsSol: bigint;
+  /** Lifetime ORE rewards (atomic units) */
+  lifetimeRewardsOre: bigint;
+}
+
+/**
+ * Read a u64 from a buffer at the given offset.
+ */
+function readU64LE(buffer: Buffer, offset: number): bigint {
+  return buffer.readBigUInt64LE(offset);
+}
+
+/**
+ * Decode a Miner account from raw account data.
+ *
+ * Layout:
+ * - [0..8]     discriminator
+ * - [8..40]    authority: Pubkey
+ * - [40..240]  deployed: [u64; 25]
+ * - [240..440] cumulative: [u64; 25]
+ * - [440..448] checkpoint_fee: u64
+ * - [448..456] checkpoint_id: u64
+ * - [456..464] last_claim_ore_at: i64
+ * - [464..472] last_claim_sol_at: i64
+ * - [472..488] rewards_factor: Numeric (skipped)
+ * - [488..496] rewards_sol: u64
+ * - [496..504] rewards_ore: u64
+ * - [504..512] refined_ore: u64
+ * - [512..520] round_id: u64
+ * - [520..528] lifetime_rewards_sol: u64
+ * - [528..536] lifetime_rewards_ore: u64
+ */
+export function decodeMinerAccount(data: Buffer): MinerAccount {
+  const minSize = ACCOUNT_DISCRIMINATOR_SIZE + PUBKEY_SIZE + U64_SIZE * 2 * TILES_COUNT +
+    U64_SIZE * 2 + I64_SIZE * 2 + NUMERIC_SIZE + U64_SIZE * 6;
+  if (data.length < minSize) {
+    throw new Error(`Miner account data too small: ${data.length} < ${minSize}`);
+  }
+
+  let offset = ACCOUNT_DISCRIMINATOR_SIZE;
+
+  // * Authority
+  const authority = new PublicKey(data.subarray(offset, offset + PUBKEY_SIZE));
+  offset += PUBKEY_SIZE;
+
+  // * Deployed array (25 x u64)
+  const deployed: bigint[] = [];
+  for (let i = 0; i < TILES_COUNT; i++) {
+    deployed.push(readU64LE(data, offset));
+    offset += U64_SIZE;
+  }
+
+  // * Cumulative array (25 x u64)
+  const cumulative: bigint[] = [];
+  for (let i = 0; i < TILES_COUNT; i++) {
+    cumulative.push(readU64LE(data, offset));
+    offset += U64_SIZE;
+  }
+
+  // * Checkpoint
+  const checkpointFee = readU64LE(data, offset);
+  offset += U64_SIZE;
+  const checkpointId = readU64LE(data, offset);
+  offset += U64_SIZE;
+
+  // * Claim timestamps
+  const lastClaimOreAt = data.readBigInt64LE(offset);
+  offset += I64_SIZE;
+  const lastClaimSolAt = data.readBigInt64LE(offset);
+  offset += I64_SIZE;
+
+  // * Rewards factor (fixed-point, not needed by the collector)
+  offset += NUMERIC_SIZE;
+
+  // * Rewards
+  const rewardsSol = readU64LE(data, offset);
+  offset += U64_SIZE;
+  const rewardsOre = readU64LE(data, offset);
+  offset += U64_SIZE;
+  const refinedOre = readU64LE(data, offset);
+  offset += U64_SIZE;
+
+  // * Round ID
+  const roundId = readU64LE(data, offset);
+  offset += U64_SIZE;
+
+  // * Lifetime rewards
+  const lifetimeRewardsSol = readU64LE(data, offset);
+  offset += U64_SIZE;
+  const lifetimeRewardsOre = readU64LE(data, offset);
+
+  return {
+    authority,
+    deployed,
+    cumulative,
+    checkpointFee,
+    checkpointId,
+    lastClaimOreAt,
+    lastClaimSolAt,
+    rewardsSol,
+    rewardsOre,
+    refinedOre,
+    roundId,
+    lifetimeRewardsSol,
+    lifetimeRewardsOre,
+  };
+}
+
+/**
+ * Calculate total deployed lamports across all tiles.
+ */
+export function getMinerTotalDeployed(miner: MinerAccount): bigint {
+  return miner.deployed.reduce((sum, deployed) => sum + deployed, 0n);
+}
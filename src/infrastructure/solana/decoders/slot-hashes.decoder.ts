@@ -0,0 +1,41 @@
+const U64_SIZE = 8;
+const HASH_SIZE = 32;
+const ENTRY_SIZE = U64_SIZE + HASH_SIZE;
+
+/**
+ * One entry of the SlotHashes sysvar.
+ */
+export interface SlotHashEntry {
+  slot: bigint;
+  /** 32-byte bank hash of the slot */
+  hash: Buffer;
+}
+
+/**
+ * Decode the SlotHashes sysvar (most recent slot first, ~512 entries).
+ * Skipped slots have no entry.
+ *
+ * Layout (bincode Vec<(Slot, Hash)>):
+ * - [0..8]  length: u64
+ * - then length × { slot: u64, hash: [u8; 32] }
+ */
+export function decodeSlotHashes(data: Buffer): SlotHashEntry[] {
+  if (data.length < U64_SIZE) {
+    throw new Error(`SlotHashes data too small: ${data.length} < ${U64_SIZE}`);
+  }
+
+  const length = Number(data.readBigUInt64LE(0));
+  const minSize = U64_SIZE + length * ENTRY_SIZE;
+  if (data.length < minSize) {
+    throw new Error(`SlotHashes data too small: ${data.length} < ${minSize}`);
+  }
+
+  const entries: SlotHashEntry[] = [];
+  for (let offset = U64_SIZE; entries.length < length; offset += ENTRY_SIZE) {
+    entries.push({
+      slot: data.readBigUInt64LE(offset),
+      hash: Buffer.from(data.subarray(offset + U64_SIZE, offset + ENTRY_SIZE)),
+    });
+  }
+  return entries;
+}
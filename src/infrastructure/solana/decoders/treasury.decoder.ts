@@ -0,0 +1,97 @@
+const ACCOUNT_DISCRIMINATOR_SIZE = 8;
+const U64_SIZE = 8;
+const NUMERIC_SIZE = 16;
+const NUMERIC_FRACTIONAL_BITS = 48;
+
+/**
+ * Decoded Treasury account data.
+ */
+export interface TreasuryAccount {
+  /** SOL collected for buy-bury (lamports) */
+  balance: bigint;
+  /** Motherlode ORE pool (atomic units) */
+  motherlode: bigint;
+  /** Cumulative ORE distributed per unclaimed ORE (miner rewards factor) */
+  minerRewardsFactor: number;
+  /** Cumulative ORE distributed per staked ORE (staking rewards factor) */
+  stakeRewardsFactor: number;
+  /** Total refined ORE mining rewards (atomic units) */
+  totalRefined: bigint;
+  /** Total ORE staking deposits (atomic units) */
+  totalStaked: bigint;
+  /** Total unclaimed ORE mining rewards (atomic units) */
+  totalUnclaimed: bigint;
+}
+
+/**
+ * Read a u64 from a buffer at the given offset.
+ */
+function readU64LE(buffer: Buffer, offset: number): bigint {
+  return buffer.readBigUInt64LE(offset);
+}
+
+/**
+ * Read a Numeric (I80F48 fixed-point, i128 LE) as a float.
+ */
+function readNumeric(buffer: Buffer, offset: number): number {
+  const low = buffer.readBigUInt64LE(offset);
+  const high = buffer.readBigInt64LE(offset + U64_SIZE);
+  const raw = (high << 64n) | low;
+  return Number(raw) / 2 ** NUMERIC_FRACTIONAL_BITS;
+}
+
+/**
+ * Decode the Treasury account from raw account data.
+ *
+ * Layout:
+ * - [0..8]   discriminator
+ * - [8..16]  balance: u64
+ * - [16..24] buffer_a: u64 (unused)
+ * - [24..32] motherlode: u64
+ * - [32..48] miner_rewards_factor: Numeric
+ * - [48..64] stake_rewards_factor: Numeric
+ * - [64..72] buffer_b: u64 (unused)
+ * - [72..80] total_refined: u64
+ * - [80..88] total_staked: u64
+ * - [88..96] total_unclaimed: u64
+ */
+export function decodeTreasuryAccount(data: Buffer): TreasuryAccount {
+  const minSize = ACCOUNT_DISCRIMINATOR_SIZE + U64_SIZE * 7 + NUMERIC_SIZE * 2;
+  if (data.length < minSize) {
+    throw new Error(`Treasury account data too small: ${data.length} < ${minSize}`);
+  }
+
+  let offset = ACCOUNT_DISCRIMINATOR_SIZE;
+
+  // * SOL balance
+  const balance = readU64LE(data, offset);
+  offset += U64_SIZE * 2; // skip buffer_a
+
+  // * Motherlode pool
+  const motherlode = readU64LE(data, offset);
+  offset += U64_SIZE;
+
+  // * Rewards factors
+  const minerRewardsFactor = readNumeric(data, offset);
+  offset += NUMERIC_SIZE;
+  const stakeRewardsFactor = readNumeric(data, offset);
+  offset += NUMERIC_SIZE;
+  offset += U64_SIZE; // skip buffer_b
+
+  // * Totals
+  const totalRefined = readU64LE(data, offset);
+  offset += U64_SIZE;
+  const totalStaked = readU64LE(data, offset);
+  offset += U64_SIZE;
+  const totalUnclaimed = readU64LE(data, offset);
+
+  return {
+    balance,
+    motherlode,
+    minerRewardsFactor,
+    stakeRewardsFactor,
+    totalRefined,
+    totalStaked,
+    totalUnclaimed,
+  };
+}
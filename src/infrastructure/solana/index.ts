@@ -1,5 +1,28 @@
 export * from "./constants.js";
 export * from "./pda.js";
 export * from "./decoders/index.js";
-export { SolanaConnection, initSolanaConnection, getSolanaConnection } from "./connection.js";
+export {
+  SolanaConnection,
+  initSolanaConnection,
+  getSolanaConnection,
+  type SolanaConnectionOptions,
+  type WsConnectionState,
+  type WsStatus,
+} from "./connection.js";
+export { RpcPool, type RpcEndpointStatus } from "./rpc-pool.js";
+export { SlotClock, type SlotClockStatus } from "./slot-clock.js";
+export {
+  YellowstoneStream,
+  type YellowstoneStreamState,
+  type YellowstoneStreamStatus,
+} from "./yellowstone-stream.js";
+export {
+  initYellowstoneStream,
+  getYellowstoneStream,
+  getAccountStream,
+  getAccountStreamSource,
+  getAccountStreamStatus,
+  type AccountStream,
+  type AccountStreamSource,
+} from "./account-stream.js";
 
@@ -0,0 +1,254 @@
+import type { Connection } from "@solana/web3.js";
+import { getLogger } from "../../shared/logger.js";
+import { collectorMetrics } from "../../shared/metrics.js";
+
+// * Exponential moving average weight of the latest request
+const EWMA_ALPHA = 0.2;
+// * Latency equivalent of a 100% error rate when ranking endpoints
+const ERROR_PENALTY_MS = 2000;
+// * Consecutive failures after which an endpoint is only used as a last resort
+const COOLDOWN_FAILURES = 3;
+const COOLDOWN_MS = 30_000;
+
+/**
+ * Health of a pooled RPC endpoint.
+ */
+export interface RpcEndpointStatus {
+  /** Endpoint host (the URL may carry an API key) */
+  endpoint: string;
+  /** Average request latency (EWMA, ms), null before the first success */
+  latencyMs: number | null;
+  /** Average failure rate (EWMA, 0-1) */
+  errorRate: number;
+  requests: number;
+  failures: number;
+  consecutiveFailures: number;
+  coolingDown: boolean;
+  /** Ranking score, lower is better */
+  score: number;
+}
+
+interface RpcEndpoint {
+  endpoint: string;
+  connection: Connection;
+  latencyMs: number | null;
+  errorRate: number;
+  requests: number;
+  failures: number;
+  consecutiveFailures: number;
+  lastFailureAt: number;
+}
+
+function describeEndpoint(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Pool of RPC endpoints ranked by latency and error rate.
+ *
+ * - request(): tries endpoints best-first until one succeeds (failover)
+ * - race(): sends the same read to the best endpoints at once, first success wins
+ *
+ * Endpoints with repeated failures cool down (tried last) before being ranked again.
+ * Endpoints without a latency yet rank as the slowest measured one, and equal
+ * scores keep the configured order, so the primary endpoint is preferred.
+ */
+export class RpcPool {
+  private readonly logger = getLogger().child("RpcPool");
+  private readonly endpoints: RpcEndpoint[];
+
+  constructor(endpoints: { url: string; connection: Connection }[]) {
+    if (endpoints.length === 0) {
+      throw new Error("RPC pool needs at least one endpoint");
+    }
+
+    this.endpoints = endpoints.map(({ url, connection }) => ({
+      endpoint: describeEndpoint(url),
+      connection,
+      latencyMs: null,
+      errorRate: 0,
+      requests: 0,
+      failures: 0,
+      consecutiveFailures: 0,
+      lastFailureAt: 0,
+    }));
+  }
+
+  get size(): number {
+    return this.endpoints.length;
+  }
+
+  /**
+   * Run a request on the best endpoint, failing over to the next ones.
+   * @throws The last error if every endpoint fails
+   */
+  async request<T>(name: string, fn: (connection: Connection) => Promise<T>): Promise<T> {
+    return this.failover(name, this.rank(), fn);
+  }
+
+  /**
+   * Run the same request on the `width` best endpoints concurrently and return
+   * the first success. Falls back to the remaining endpoints if all of them fail.
+   *
+   * Responses behind `preferredContextSlot` don't win: if no contender reaches it,
+   * the freshest response is returned (a lagging endpoint never beats a fresher one).
+   */
+  async race<T extends { context: { slot: number } }>(
+    name: string,
+    fn: (connection: Connection) => Promise<T>,
+    width = 2,
+    preferredContextSlot?: number
+  ): Promise<T> {
+    const ranked = this.rank();
+    const contenders = ranked.slice(0, Math.max(1, width));
+    if (contenders.length === 1) {
+      return this.failover(name, ranked, fn);
+    }
+
+    const lagging: T[] = [];
+    try {
+      return await Promise.any(
+        contenders.map(async (endpoint) => {
+          const result = await this.measure(name, endpoint, fn);
+          if (preferredContextSlot !== undefined && result.context.slot < preferredContextSlot) {
+            lagging.push(result);
+            throw new Error(`Context slot ${result.context.slot} behind ${preferredContextSlot}`);
+          }
+          this.logger.debug("Race won", { name, endpoint: endpoint.endpoint });
+          return result;
+        })
+      );
+    } catch (error) {
+      if (lagging.length > 0) {
+        const freshest = lagging.reduce((best, result) =>
+          result.context.slot > best.context.slot ? result : best
+        );
+        this.logger.debug("No raced response reached the preferred slot, using the freshest", {
+          name,
+          preferredContextSlot,
+          contextSlot: freshest.context.slot,
+        });
+        return freshest;
+      }
+
+      const remaining = ranked.slice(contenders.length);
+      if (remaining.length === 0) {
+        throw error instanceof AggregateError ? error.errors[error.errors.length - 1] : error;
+      }
+      return this.failover(name, remaining, fn);
+    }
+  }
+
+  /**
+   * Health of each endpoint, best first.
+   */
+  getStatus(): RpcEndpointStatus[] {
+    const now = Date.now();
+    const unmeasuredLatencyMs = this.getUnmeasuredLatencyMs();
+    return this.rank().map((endpoint) => ({
+      endpoint: endpoint.endpoint,
+      latencyMs: endpoint.latencyMs !== null ? Math.round(endpoint.latencyMs) : null,
+      errorRate: endpoint.errorRate,
+      requests: endpoint.requests,
+      failures: endpoint.failures,
+      consecutiveFailures: endpoint.consecutiveFailures,
+      coolingDown: this.isCoolingDown(endpoint, now),
+      score: Math.round(this.score(endpoint, unmeasuredLatencyMs)),
+    }));
+  }
+
+  private async failover<T>(
+    name: string,
+    endpoints: RpcEndpoint[],
+    fn: (connection: Connection) => Promise<T>
+  ): Promise<T> {
+    let lastError: unknown = null;
+
+    for (const [index, endpoint] of endpoints.entries()) {
+      try {
+        return await this.measure(name, endpoint, fn);
+      } catch (error) {
+        lastError = error;
+        if (index < endpoints.length - 1) {
+          this.logger.warn("RPC request failed, failing over", {
+            name,
+            endpoint: endpoint.endpoint,
+            next: endpoints[index + 1].endpoint,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+    }
+
+    throw lastError;
+  }
+
+  private async measure<T>(
+    name: string,
+    endpoint: RpcEndpoint,
+    fn: (connection: Connection) => Promise<T>
+  ): Promise<T> {
+    const start = Date.now();
+    endpoint.requests++;
+
+    try {
+      const result = await fn(endpoint.connection);
+      const latencyMs = Date.now() - start;
+      endpoint.latencyMs =
+        endpoint.latencyMs === null
+          ? latencyMs
+          : endpoint.latencyMs + EWMA_ALPHA * (latencyMs - endpoint.latencyMs);
+      endpoint.errorRate *= 1 - EWMA_ALPHA;
+      endpoint.consecutiveFailures = 0;
+      collectorMetrics.rpcRequests.inc(1, { endpoint: endpoint.endpoint, name, outcome: "ok" });
+      return result;
+    } catch (error) {
+      endpoint.errorRate += EWMA_ALPHA * (1 - endpoint.errorRate);
+      endpoint.failures++;
+      endpoint.consecutiveFailures++;
+      endpoint.lastFailureAt = Date.now();
+      collectorMetrics.rpcRequests.inc(1, { endpoint: endpoint.endpoint, name, outcome: "error" });
+      throw error;
+    }
+  }
+
+  /**
+   * Latency assumed for endpoints never measured: the slowest measured one
+   * (0 before any measurement), so an untried fallback doesn't outrank the primary.
+   */
+  private getUnmeasuredLatencyMs(): number {
+    return this.endpoints.reduce(
+      (slowest, endpoint) => Math.max(slowest, endpoint.latencyMs ?? 0),
+      0
+    );
+  }
+
+  private score(endpoint: RpcEndpoint, unmeasuredLatencyMs: number): number {
+    return (endpoint.latencyMs ?? unmeasuredLatencyMs) + endpoint.errorRate * ERROR_PENALTY_MS;
+  }
+
+  private isCoolingDown(endpoint: RpcEndpoint, now: number): boolean {
+    return (
+      endpoint.consecutiveFailures >= COOLDOWN_FAILURES &&
+      now - endpoint.lastFailureAt < COOLDOWN_MS
+    );
+  }
+
+  /**
+   * Endpoints best-first: healthy ones by score, then cooling-down ones.
+   */
+  private rank(): RpcEndpoint[] {
+    const now = Date.now();
+    const unmeasuredLatencyMs = this.getUnmeasuredLatencyMs();
+    return [...this.endpoints].sort((a, b) => {
+      const cooling = Number(this.isCoolingDown(a, now)) - Number(this.isCoolingDown(b, now));
+      return cooling !== 0
+        ? cooling
+        : this.score(a, unmeasuredLatencyMs) - this.score(b, unmeasuredLatencyMs);
+    });
+  }
+}
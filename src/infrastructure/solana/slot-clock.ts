@@ -0,0 +1,77 @@
+// * Slot notifications kept for the estimate (~1 min at 400ms per slot)
+const MAX_SAMPLES = 150;
+// * Below this many samples the nominal slot duration is used
+const MIN_SAMPLES = 10;
+const NOMINAL_SLOT_MS = 400;
+// * Bounds of the estimate (guards against clock jumps and long outages)
+const MIN_SLOT_MS = 250;
+const MAX_SLOT_MS = 1_000;
+
+export interface SlotClockStatus {
+  /** Estimated slot duration (ms) */
+  slotDurationMs: number;
+  samples: number;
+  lastSlot: bigint | null;
+  /** Reception timestamp of lastSlot (ms) */
+  lastSlotAt: number | null;
+}
+
+/**
+ * Slot clock - estimates when future slots start from the history of slot
+ * notifications (average duration over the last ~150 slots, anchored on the
+ * latest notification).
+ */
+export class SlotClock {
+  private readonly samples: { slot: bigint; at: number }[] = [];
+
+  /**
+   * Record a slot notification (ignored unless it is a new highest slot).
+   */
+  record(slot: bigint, at = Date.now()): void {
+    const last = this.samples[this.samples.length - 1];
+    if (last && slot <= last.slot) {
+      return;
+    }
+
+    this.samples.push({ slot, at });
+    if (this.samples.length > MAX_SAMPLES) {
+      this.samples.shift();
+    }
+  }
+
+  /**
+   * Estimated slot duration (ms), nominal 400ms until enough notifications were seen.
+   */
+  getSlotDurationMs(): number {
+    if (this.samples.length < MIN_SAMPLES) {
+      return NOMINAL_SLOT_MS;
+    }
+
+    const first = this.samples[0];
+    const last = this.samples[this.samples.length - 1];
+    const durationMs = (last.at - first.at) / Number(last.slot - first.slot);
+    return Math.min(Math.max(durationMs, MIN_SLOT_MS), MAX_SLOT_MS);
+  }
+
+  /**
+   * Estimated start time of a slot (ms).
+   * @returns null before the first notification
+   */
+  estimateSlotTime(slot: bigint): number | null {
+    const last = this.samples[this.samples.length - 1];
+    if (!last) {
+      return null;
+    }
+    return last.at + Number(slot - last.slot) * this.getSlotDurationMs();
+  }
+
+  getStatus(): SlotClockStatus {
+    const last = this.samples[this.samples.length - 1];
+    return {
+      slotDurationMs: Math.round(this.getSlotDurationMs() * 10) / 10,
+      samples: this.samples.length,
+      lastSlot: last?.slot ?? null,
+      lastSlotAt: last?.at ?? null,
+    };
+  }
+}
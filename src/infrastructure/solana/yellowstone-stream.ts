@@ -0,0 +1,343 @@
+import { PublicKey, type AccountInfo } from "@solana/web3.js";
+import yellowstone, {
+  CommitmentLevel,
+  type SubscribeRequest,
+  type SubscribeUpdate,
+  type SubscribeUpdateAccountInfo,
+} from "@triton-one/yellowstone-grpc";
+import { getLogger } from "../../shared/logger.js";
+import { collectorMetrics } from "../../shared/metrics.js";
+
+// * CommonJS package: under Node ESM the default import is module.exports
+const Client =
+  (yellowstone as unknown as { default?: typeof yellowstone }).default ?? yellowstone;
+
+type YellowstoneClient = InstanceType<typeof Client>;
+type SubscribeStream = Awaited<ReturnType<YellowstoneClient["subscribe"]>>;
+
+// * Update silence after which the stream is re-opened (slots arrive every ~400ms)
+const STREAM_STALE_MS = 10_000;
+const STREAM_WATCHDOG_INTERVAL_MS = 1_000;
+const STREAM_RECONNECT_BASE_MS = 1_000;
+const STREAM_RECONNECT_MAX_MS = 30_000;
+const SLOT_FILTER = "slots";
+const ACCOUNT_FILTER_PREFIX = "account-";
+
+/**
+ * gRPC stream lifecycle (same states as the WebSocket):
+ * - connecting: subscribed, waiting for the first update
+ * - connected: updates flowing
+ * - reconnecting: stream failed or went silent, a new one is being opened (with backoff)
+ * - closed: close() was called
+ */
+export type YellowstoneStreamState = "connecting" | "connected" | "reconnecting" | "closed";
+
+export interface YellowstoneStreamStatus {
+  state: YellowstoneStreamState;
+  /** Timestamp of the last update (slot or account) received on the stream (ms) */
+  lastUpdateAt: number | null;
+  reconnects: number;
+  accountSubscriptions: number;
+}
+
+interface StreamAccountSubscription {
+  address: PublicKey;
+  callback: (accountInfo: AccountInfo<Buffer>, contextSlot: bigint) => void;
+}
+
+function toAccountInfo(account: SubscribeUpdateAccountInfo): AccountInfo<Buffer> {
+  return {
+    data: Buffer.from(account.data),
+    executable: account.executable,
+    lamports: Number(account.lamports),
+    owner: new PublicKey(account.owner),
+    rentEpoch: Number(account.rentEpoch),
+  };
+}
+
+/**
+ * Yellowstone (Geyser) gRPC account stream.
+ *
+ * One subscribe stream carries the slot feed and every account subscription
+ * (one filter per subscription, at confirmed commitment). Changing the
+ * subscriptions rewrites the filters on the open stream. When the stream
+ * errors, ends or goes silent it is re-opened (exponential backoff) with the
+ * current filters.
+ */
+export class YellowstoneStream {
+  private readonly logger = getLogger().child("Yellowstone");
+  private client: YellowstoneClient | null = null;
+  private stream: SubscribeStream | null = null;
+  private readonly accountSubscriptions = new Map<number, StreamAccountSubscription>();
+  private nextSubscriptionId = 1;
+
+  private state: YellowstoneStreamState = "connecting";
+  private openedAt = 0;
+  private connectedAt = 0;
+  private lastUpdateAt = 0;
+  private reconnects = 0;
+  private reconnectAttempts = 0;
+  private reconnectTimeoutId: ReturnType<typeof setTimeout> | null = null;
+  private watchdogIntervalId: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    private readonly endpoint: string,
+    private readonly xToken: string | undefined,
+    private readonly onSlot: (slot: bigint) => void
+  ) {}
+
+  /**
+   * Open the stream and start the silence watchdog.
+   */
+  async start(): Promise<void> {
+    this.logger.info("Starting Yellowstone gRPC stream", {
+      endpoint: new URL(this.endpoint).host,
+    });
+    this.client = new Client(this.endpoint, this.xToken, {
+      "grpc.max_receive_message_length": 64 * 1024 * 1024,
+    });
+
+    await this.openStream();
+    this.watchdogIntervalId = setInterval(() => this.checkStream(), STREAM_WATCHDOG_INTERVAL_MS);
+  }
+
+  /**
+   * Subscribe to account changes. The subscription survives reconnects.
+   * @returns Subscription ID for cleanup
+   */
+  subscribeToAccount(
+    address: PublicKey,
+    callback: (accountInfo: AccountInfo<Buffer>, contextSlot: bigint) => void
+  ): number {
+    const subscriptionId = this.nextSubscriptionId++;
+    this.accountSubscriptions.set(subscriptionId, { address, callback });
+    this.writeRequest();
+    return subscriptionId;
+  }
+
+  /**
+   * Unsubscribe from account changes.
+   */
+  async unsubscribeFromAccount(subscriptionId: number): Promise<void> {
+    if (this.accountSubscriptions.delete(subscriptionId)) {
+      this.writeRequest();
+    }
+  }
+
+  /**
+   * Since when the current stream has been delivering updates.
+   * @returns null while connecting or reconnecting (account updates may be missed)
+   */
+  getConnectedAt(): number | null {
+    return this.state === "connected" ? this.connectedAt : null;
+  }
+
+  /**
+   * Stream state and update freshness.
+   */
+  getStatus(): YellowstoneStreamStatus {
+    return {
+      state: this.state,
+      lastUpdateAt: this.lastUpdateAt > 0 ? this.lastUpdateAt : null,
+      reconnects: this.reconnects,
+      accountSubscriptions: this.accountSubscriptions.size,
+    };
+  }
+
+  /**
+   * Close the stream and stop reconnecting.
+   */
+  async close(): Promise<void> {
+    this.state = "closed";
+    if (this.watchdogIntervalId !== null) {
+      clearInterval(this.watchdogIntervalId);
+      this.watchdogIntervalId = null;
+    }
+    if (this.reconnectTimeoutId !== null) {
+      clearTimeout(this.reconnectTimeoutId);
+      this.reconnectTimeoutId = null;
+    }
+    this.closeStream();
+    this.accountSubscriptions.clear();
+    this.logger.info("Yellowstone gRPC stream closed");
+  }
+
+  private buildRequest(): SubscribeRequest {
+    const accounts: SubscribeRequest["accounts"] = {};
+    for (const [subscriptionId, subscription] of this.accountSubscriptions) {
+      accounts[`${ACCOUNT_FILTER_PREFIX}${subscriptionId}`] = {
+        account: [subscription.address.toBase58()],
+        owner: [],
+        filters: [],
+      };
+    }
+
+    return {
+      accounts,
+      slots: { [SLOT_FILTER]: { filterByCommitment: true } },
+      transactions: {},
+      transactionsStatus: {},
+      blocks: {},
+      blocksMeta: {},
+      entry: {},
+      accountsDataSlice: [],
+      commitment: CommitmentLevel.CONFIRMED,
+    };
+  }
+
+  /**
+   * Send the current filters (and an optional ping) on the open stream.
+   */
+  private writeRequest(ping?: number): void {
+    if (!this.stream) {
+      return;
+    }
+
+    const request = this.buildRequest();
+    if (ping !== undefined) {
+      request.ping = { id: ping };
+    }
+    this.stream.write(request, (error: Error | null | undefined) => {
+      if (error) {
+        this.logger.warn("Failed to write subscribe request", { error: error.message });
+      }
+    });
+  }
+
+  private async openStream(): Promise<void> {
+    if (!this.client) {
+      throw new Error("Yellowstone stream not started. Call start() first.");
+    }
+
+    // * Staleness is measured from the (re)subscription
+    this.openedAt = Date.now();
+    const stream = await this.client.subscribe();
+    if (this.state === "closed") {
+      stream.cancel();
+      return;
+    }
+
+    this.stream = stream;
+    stream.on("data", (update: SubscribeUpdate) => this.handleUpdate(update));
+    stream.on("error", (error: Error) => {
+      if (this.stream === stream) {
+        this.logger.warn("Yellowstone stream error", { error: error.message });
+        this.scheduleReconnect();
+      }
+    });
+    stream.on("end", () => {
+      if (this.stream === stream) {
+        this.logger.warn("Yellowstone stream ended");
+        this.scheduleReconnect();
+      }
+    });
+
+    this.writeRequest();
+    this.logger.debug("Subscribed to Yellowstone stream", {
+      accountSubscriptions: this.accountSubscriptions.size,
+    });
+  }
+
+  /**
+   * Detach the current stream (listeners of a detached stream are ignored).
+   */
+  private closeStream(): void {
+    const stream = this.stream;
+    if (!stream) {
+      return;
+    }
+    this.stream = null;
+    stream.removeAllListeners("data");
+    // * Keep an error listener: cancelling emits a CANCELLED error
+    stream.on("error", () => {});
+    stream.cancel();
+  }
+
+  private handleUpdate(update: SubscribeUpdate): void {
+    this.lastUpdateAt = Date.now();
+    if (this.state !== "connected" && this.state !== "closed") {
+      this.logger.info("Yellowstone stream connected", { reconnects: this.reconnects });
+      this.state = "connected";
+      this.connectedAt = Date.now();
+      this.reconnectAttempts = 0;
+    }
+
+    if (update.slot) {
+      this.onSlot(BigInt(update.slot.slot));
+      return;
+    }
+
+    if (update.ping) {
+      // * Keep the stream alive behind load balancers that drop idle connections
+      this.writeRequest(1);
+      return;
+    }
+
+    const account = update.account?.account;
+    if (!update.account || !account) {
+      return;
+    }
+
+    const contextSlot = BigInt(update.account.slot);
+    this.onSlot(contextSlot);
+
+    for (const filter of update.filters) {
+      if (!filter.startsWith(ACCOUNT_FILTER_PREFIX)) {
+        continue;
+      }
+      const subscription = this.accountSubscriptions.get(
+        Number(filter.slice(ACCOUNT_FILTER_PREFIX.length))
+      );
+      subscription?.callback(toAccountInfo(account), contextSlot);
+    }
+  }
+
+  /**
+   * Re-open the stream after the backoff delay (once per failure).
+   */
+  private scheduleReconnect(): void {
+    if (this.state === "closed" || this.reconnectTimeoutId !== null) {
+      return;
+    }
+
+    const backoffMs = Math.min(
+      STREAM_RECONNECT_BASE_MS * 2 ** this.reconnectAttempts,
+      STREAM_RECONNECT_MAX_MS
+    );
+    this.reconnectAttempts++;
+    this.reconnects++;
+    this.state = "reconnecting";
+    collectorMetrics.grpcReconnects.inc();
+    this.closeStream();
+
+    this.logger.warn("Reconnecting Yellowstone stream", {
+      attempt: this.reconnectAttempts,
+      nextAttemptInMs: backoffMs,
+    });
+
+    this.reconnectTimeoutId = setTimeout(() => {
+      this.reconnectTimeoutId = null;
+      this.openStream().catch((error) => {
+        this.logger.warn("Failed to open Yellowstone stream", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+        this.scheduleReconnect();
+      });
+    }, backoffMs);
+  }
+
+  /**
+   * Reconnect when the open stream stopped delivering updates.
+   */
+  private checkStream(): void {
+    if (this.state === "closed" || this.reconnectTimeoutId !== null || !this.stream) {
+      return;
+    }
+
+    const silenceMs = Date.now() - Math.max(this.lastUpdateAt, this.openedAt);
+    if (silenceMs > STREAM_STALE_MS) {
+      this.logger.warn("No update on Yellowstone stream", { silenceMs });
+      this.scheduleReconnect();
+    }
+  }
+}
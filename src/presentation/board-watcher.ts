@@ -1,13 +1,26 @@
 import type { AccountInfo } from "@solana/web3.js";
 import { getSolanaConnection } from "../infrastructure/solana/connection.js";
-import { BOARD_ADDRESS } from "../infrastructure/solana/pda.js";
+import {
+  getAccountStream,
+  getAccountStreamSource,
+} from "../infrastructure/solana/account-stream.js";
+import { BOARD_ADDRESS, deriveRoundPda } from "../infrastructure/solana/pda.js";
 import {
   decodeBoardAccount,
   isRoundActive,
   getRemainingSlots,
   type BoardAccount,
 } from "../infrastructure/solana/decoders/board.decoder.js";
+import {
+  decodeRoundAccount,
+  type RoundAccount,
+} from "../infrastructure/solana/decoders/round.decoder.js";
+import {
+  fetchRoundStateWithContext,
+  type RoundStateWithContext,
+} from "../infrastructure/fetchers/round-state.fetcher.js";
 import { getLogger } from "../shared/logger.js";
+import { collectorMetrics } from "../shared/metrics.js";
 
 /**
  * Events emitted by the BoardWatcher.
@@ -15,45 +28,120 @@ import { getLogger } from "../shared/logger.js";
  * Two-phase timing:
  * 1. onPricesFetchTrigger: Early trigger (~15 slots) for stable data (prices, mining cost)
  * 2. onEvSnapshotTrigger: Late trigger (~5 slots) for volatile data (board state, EV)
+ *
+ * Optional snapshot series:
+ * - onBoardSnapshotTrigger: once per configured offset (e.g. 40, 20, 10, 2 slots)
  */
 export interface BoardWatcherEvents {
   /** Phase 1: Emitted early for fetching prices/mining cost (stable data) */
-  onPricesFetchTrigger: (board: BoardAccount, remainingSlots: number, currentSlot: bigint) => void;
+  onPricesFetchTrigger: (
+    board: BoardAccount,
+    remainingSlots: number,
+    currentSlot: bigint,
+    targetSlot: bigint
+  ) => void;
   /** Phase 2: Emitted late for board state + EV snapshot (volatile data, like smart-bot) */
-  onEvSnapshotTrigger: (board: BoardAccount, remainingSlots: number, currentSlot: bigint) => void;
+  onEvSnapshotTrigger: (
+    board: BoardAccount,
+    remainingSlots: number,
+    currentSlot: bigint,
+    targetSlot: bigint
+  ) => void;
+  /** Emitted once per configured snapshot offset (board time series) */
+  onBoardSnapshotTrigger: (
+    board: BoardAccount,
+    targetSlots: number,
+    remainingSlots: number,
+    currentSlot: bigint
+  ) => void;
   /** Emitted when board.roundId increments (new round started) */
   onPostFinTrigger: (previousRoundId: bigint, newBoard: BoardAccount) => void;
   /** Emitted on any board update */
   onBoardUpdate: (board: BoardAccount) => void;
 }
 
+// * Slot-timed triggers
+type SlotPhase = "phase1" | "phase2";
+type TriggerSource = "timer" | "update";
+
+// * A timer firing this early (clock ahead of slot notifications) is re-armed
+const SLOT_TIMER_TOLERANCE_MS = 50;
+
 /**
- * Board Watcher - monitors board state via WebSocket with HTTP fallback.
+ * Latest state of the watched round account.
+ */
+interface WatchedRoundState extends RoundStateWithContext {
+  roundId: bigint;
+  /** Reception timestamp (ms) */
+  receivedAt: number;
+}
+
+/**
+ * Whether pushed state can stand in for a fetch. The round account only changes on
+ * deploys, so a quiet round's last push may be old yet current: it is as long as the
+ * account stream has been connected since it was received and slot updates are current.
+ */
+export function isPushedStateFresh(
+  state: { receivedAt: number },
+  connectedAt: number | null,
+  slotFresh: boolean
+): boolean {
+  return slotFresh && connectedAt !== null && state.receivedAt >= connectedAt;
+}
+
+/**
+ * Board Watcher - monitors board state via the account stream (WebSocket or
+ * Yellowstone gRPC) with HTTP fallback.
  *
  * Two-phase triggers:
  * - Phase 1 (prices fetch): when remaining_slots <= preFinThresholdSlots (~15)
  * - Phase 2 (EV snapshot): when remaining_slots <= evSnapshotSlots (~5)
+ * - Snapshot series: when remaining_slots <= each offset in snapshotOffsets
  * - Post-fin: when board.roundId increments
+ *
+ * Phase 1 and Phase 2 are also timed on the slot clock: a timer is armed for the
+ * estimated start of the target slot (end slot - threshold) and re-armed on every
+ * board update; the threshold check on board updates stays as a fallback.
+ *
+ * Slot-based triggers only fire on a fresh current slot: when slot notifications
+ * stopped (WebSocket reconnecting), the slot is refreshed over HTTP first.
+ *
+ * The active round's account is watched too (switching at post-fin), so Phase 2
+ * can read its pushed state instead of fetching it.
  */
 export class BoardWatcher {
   private readonly logger = getLogger().child("BoardWatcher");
   private subscriptionId: number | null = null;
+  private roundSubscription: { roundId: bigint; subscriptionId: number } | null = null;
+  private watchedRoundState: WatchedRoundState | null = null;
   private lastBoard: BoardAccount | null = null;
   private pricesFetchTriggeredForRound: bigint | null = null;
   private evSnapshotTriggeredForRound: bigint | null = null;
+  private snapshotOffsetsTriggered = new Set<number>();
+  private snapshotOffsetsRound: bigint | null = null;
+  private readonly slotTimers = new Map<SlotPhase, ReturnType<typeof setTimeout>>();
+  private readonly snapshotOffsets: number[];
   private isRunning = false;
+  private slotRefreshInFlight = false;
   private httpPollIntervalId: ReturnType<typeof setInterval> | null = null;
 
-  // * HTTP fallback settings
+  // * HTTP fallback settings (lastWsUpdate: last streamed update, WS or gRPC)
   private lastWsUpdate = 0;
+  private lastBoardUpdate = 0;
   private readonly WS_STALE_THRESHOLD_MS = 5_000; // Consider WS stale after 5s
   private readonly HTTP_POLL_INTERVAL_MS = 2_000; // Poll every 2s when WS is stale
 
   constructor(
     private readonly preFinThresholdSlots: number,
     private readonly evSnapshotSlots: number,
+    snapshotOffsets: number[],
     private readonly events: BoardWatcherEvents
-  ) {}
+  ) {
+    // * Phase 2 already snapshots at evSnapshotSlots; keep offsets descending
+    this.snapshotOffsets = [...new Set(snapshotOffsets)]
+      .filter((offset) => offset !== evSnapshotSlots)
+      .sort((a, b) => b - a);
+  }
 
   /**
    * Start watching the board.
@@ -68,12 +156,13 @@ export class BoardWatcher {
     this.logger.info("Starting BoardWatcher", {
       pricesFetchThreshold: this.preFinThresholdSlots,
       evSnapshotThreshold: this.evSnapshotSlots,
+      snapshotOffsets: this.snapshotOffsets,
     });
 
     // * Fetch initial board state
     await this.fetchAndProcessBoard();
 
-    // * Subscribe to WebSocket updates
+    // * Subscribe to streamed updates
     this.subscribeToBoard();
 
     // * Start HTTP fallback polling
@@ -85,12 +174,19 @@ export class BoardWatcher {
    */
   async stop(): Promise<void> {
     this.isRunning = false;
+    this.clearSlotTimers();
 
     if (this.subscriptionId !== null) {
-      await getSolanaConnection().unsubscribeFromAccount(this.subscriptionId);
+      await getAccountStream().unsubscribeFromAccount(this.subscriptionId);
       this.subscriptionId = null;
     }
 
+    if (this.roundSubscription !== null) {
+      await getAccountStream().unsubscribeFromAccount(this.roundSubscription.subscriptionId);
+      this.roundSubscription = null;
+      this.watchedRoundState = null;
+    }
+
     if (this.httpPollIntervalId !== null) {
       clearInterval(this.httpPollIntervalId);
       this.httpPollIntervalId = null;
@@ -100,20 +196,79 @@ export class BoardWatcher {
   }
 
   /**
-   * Subscribe to board account changes via WebSocket.
+   * Subscribe to board account changes via the configured account stream.
    */
   private subscribeToBoard(): void {
-    const connection = getSolanaConnection();
+    const source = getAccountStreamSource();
 
-    this.subscriptionId = connection.subscribeToAccount(
+    this.subscriptionId = getAccountStream().subscribeToAccount(
       BOARD_ADDRESS,
       (accountInfo) => {
         this.lastWsUpdate = Date.now();
+        collectorMetrics.boardUpdates.inc(1, { source: source === "yellowstone" ? "grpc" : "ws" });
         this.processAccountInfo(accountInfo);
       }
     );
 
-    this.logger.debug("Subscribed to board account via WebSocket");
+    this.logger.debug("Subscribed to board account", { source });
+  }
+
+  /**
+   * Watch the round's account, dropping the previous round's subscription.
+   * Subscriptions only push changes, so the current state is seeded over HTTP.
+   */
+  private watchRound(roundId: bigint): void {
+    const stream = getAccountStream();
+
+    const previous = this.roundSubscription;
+    if (previous !== null) {
+      stream.unsubscribeFromAccount(previous.subscriptionId).catch((error) => {
+        this.logger.debug("Failed to unsubscribe from round account", {
+          roundId: previous.roundId.toString(),
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+    }
+
+    const subscriptionId = stream.subscribeToAccount(
+      deriveRoundPda(roundId),
+      (accountInfo, contextSlot) => {
+        try {
+          this.storeRoundState(roundId, decodeRoundAccount(accountInfo.data), contextSlot);
+        } catch (error) {
+          this.logger.warn("Failed to decode round account", {
+            roundId: roundId.toString(),
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+    );
+    this.roundSubscription = { roundId, subscriptionId };
+    this.watchedRoundState = null;
+
+    this.logger.debug("Watching round account", { roundId: roundId.toString() });
+
+    fetchRoundStateWithContext(roundId, { retries: 1 })
+      .then(({ roundState, contextSlot }) => this.storeRoundState(roundId, roundState, contextSlot))
+      .catch((error) => {
+        this.logger.debug("Failed to seed round state, waiting for a push", {
+          roundId: roundId.toString(),
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+  }
+
+  private storeRoundState(roundId: bigint, roundState: RoundAccount, contextSlot: bigint): void {
+    if (this.roundSubscription?.roundId !== roundId) {
+      return;
+    }
+
+    // * Keep the newest state: the HTTP seed may resolve after a push
+    if (this.watchedRoundState !== null && this.watchedRoundState.contextSlot > contextSlot) {
+      return;
+    }
+
+    this.watchedRoundState = { roundId, roundState, contextSlot, receivedAt: Date.now() };
   }
 
   /**
@@ -129,6 +284,7 @@ export class BoardWatcher {
         this.logger.debug("WS stale, using HTTP fallback", {
           staleDurationMs: timeSinceWsUpdate
         });
+        collectorMetrics.httpFallbackPolls.inc();
         await this.fetchAndProcessBoard();
       }
     }, this.HTTP_POLL_INTERVAL_MS);
@@ -140,9 +296,13 @@ export class BoardWatcher {
   private async fetchAndProcessBoard(): Promise<void> {
     try {
       const connection = getSolanaConnection();
-      const accountInfo = await connection.getAccountInfo(BOARD_ADDRESS);
+      const { context, value: accountInfo } = await connection.getAccountInfoAndContext(
+        BOARD_ADDRESS
+      );
+      connection.observeSlot(BigInt(context.slot));
 
       if (accountInfo) {
+        collectorMetrics.boardUpdates.inc(1, { source: "http" });
         this.processAccountInfo(accountInfo);
       }
     } catch (error) {
@@ -172,10 +332,16 @@ export class BoardWatcher {
   private processBoard(board: BoardAccount): void {
     const previousBoard = this.lastBoard;
     this.lastBoard = board;
+    this.lastBoardUpdate = Date.now();
 
     // * Emit board update event
     this.events.onBoardUpdate(board);
 
+    // * Follow the active round's account (switches along with post-fin)
+    if (this.isRunning && this.roundSubscription?.roundId !== board.roundId) {
+      this.watchRound(board.roundId);
+    }
+
     // * Check for post-fin trigger (round ID changed)
     if (previousBoard && board.roundId > previousBoard.roundId) {
       this.logger.info("Round changed, triggering post-fin", {
@@ -186,49 +352,217 @@ export class BoardWatcher {
       // * Reset triggers for the new round
       this.pricesFetchTriggeredForRound = null;
       this.evSnapshotTriggeredForRound = null;
+      this.clearSlotTimers();
 
       this.events.onPostFinTrigger(previousBoard.roundId, board);
     }
 
     // * Check for two-phase triggers
     if (isRoundActive(board)) {
-      const currentSlot = getSolanaConnection().getCurrentSlot();
+      const connection = getSolanaConnection();
+      if (!connection.isSlotFresh()) {
+        this.deferStaleSlotTriggers(board);
+        return;
+      }
+
+      const currentSlot = connection.getCurrentSlot();
       const remainingSlots = getRemainingSlots(board, currentSlot);
 
-      // * Phase 1: Prices fetch trigger (early, ~15 slots)
-      if (
-        remainingSlots >= 0 &&
-        remainingSlots <= this.preFinThresholdSlots &&
-        this.pricesFetchTriggeredForRound !== board.roundId
-      ) {
-        this.logger.info("Phase 1: Prices fetch trigger", {
-          roundId: board.roundId.toString(),
-          remainingSlots,
-          threshold: this.preFinThresholdSlots,
-        });
+      // * Phase 1 (early, ~15 slots) then Phase 2 (late, ~5 slots - like smart-bot)
+      for (const phase of ["phase1", "phase2"] as const) {
+        if (this.isTriggered(phase, board.roundId) || remainingSlots < 0) {
+          continue;
+        }
+
+        if (remainingSlots <= this.getThreshold(phase)) {
+          this.firePhase(phase, board, currentSlot, "update");
+        } else {
+          this.scheduleSlotTimer(phase, board.roundId, this.getTargetSlot(phase, board));
+        }
+      }
 
-        this.pricesFetchTriggeredForRound = board.roundId;
-        this.events.onPricesFetchTrigger(board, remainingSlots, currentSlot);
+      if (remainingSlots >= 0) {
+        this.checkSnapshotOffsets(board, remainingSlots, currentSlot);
       }
+    }
+  }
 
-      // * Phase 2: EV snapshot trigger (late, ~5 slots - like smart-bot)
-      if (
-        remainingSlots >= 0 &&
-        remainingSlots <= this.evSnapshotSlots &&
-        this.evSnapshotTriggeredForRound !== board.roundId
-      ) {
-        this.logger.info("Phase 2: EV snapshot trigger", {
-          roundId: board.roundId.toString(),
-          remainingSlots,
-          threshold: this.evSnapshotSlots,
-        });
+  private getThreshold(phase: SlotPhase): number {
+    return phase === "phase1" ? this.preFinThresholdSlots : this.evSnapshotSlots;
+  }
 
-        this.evSnapshotTriggeredForRound = board.roundId;
-        this.events.onEvSnapshotTrigger(board, remainingSlots, currentSlot);
-      }
+  /**
+   * Slot at which the phase is due (end slot - threshold).
+   */
+  private getTargetSlot(phase: SlotPhase, board: BoardAccount): bigint {
+    return board.endSlot - BigInt(this.getThreshold(phase));
+  }
+
+  private isTriggered(phase: SlotPhase, roundId: bigint): boolean {
+    const triggeredForRound =
+      phase === "phase1" ? this.pricesFetchTriggeredForRound : this.evSnapshotTriggeredForRound;
+    return triggeredForRound === roundId;
+  }
+
+  /**
+   * Emit a phase trigger once per round, recording how far the current slot
+   * landed from the target slot.
+   */
+  private firePhase(
+    phase: SlotPhase,
+    board: BoardAccount,
+    currentSlot: bigint,
+    source: TriggerSource
+  ): void {
+    this.clearSlotTimer(phase);
+
+    const remainingSlots = getRemainingSlots(board, currentSlot);
+    const targetSlot = this.getTargetSlot(phase, board);
+    collectorMetrics.triggerSlotError.observe(Number(currentSlot - targetSlot), { phase, source });
+
+    const details = {
+      roundId: board.roundId.toString(),
+      remainingSlots,
+      threshold: this.getThreshold(phase),
+      targetSlot: targetSlot.toString(),
+      currentSlot: currentSlot.toString(),
+      source,
+    };
+
+    if (phase === "phase1") {
+      this.logger.info("Phase 1: Prices fetch trigger", details);
+      this.pricesFetchTriggeredForRound = board.roundId;
+      this.events.onPricesFetchTrigger(board, remainingSlots, currentSlot, targetSlot);
+    } else {
+      this.logger.info("Phase 2: EV snapshot trigger", details);
+      this.evSnapshotTriggeredForRound = board.roundId;
+      this.events.onEvSnapshotTrigger(board, remainingSlots, currentSlot, targetSlot);
     }
   }
 
+  /**
+   * Arm (or re-arm with the latest estimate) the timer of a phase for the
+   * estimated start of its target slot.
+   */
+  private scheduleSlotTimer(phase: SlotPhase, roundId: bigint, targetSlot: bigint): void {
+    const startsAt = getSolanaConnection().getSlotClock().estimateSlotTime(targetSlot);
+    if (startsAt === null) {
+      return;
+    }
+
+    this.clearSlotTimer(phase);
+    const delayMs = Math.max(0, startsAt - Date.now());
+    this.slotTimers.set(
+      phase,
+      setTimeout(() => this.onSlotTimer(phase, roundId, targetSlot), delayMs)
+    );
+  }
+
+  private onSlotTimer(phase: SlotPhase, roundId: bigint, targetSlot: bigint): void {
+    this.slotTimers.delete(phase);
+
+    const board = this.lastBoard;
+    if (
+      !this.isRunning ||
+      !board ||
+      board.roundId !== roundId ||
+      this.isTriggered(phase, roundId)
+    ) {
+      return;
+    }
+
+    const connection = getSolanaConnection();
+    if (!connection.isSlotFresh()) {
+      this.deferStaleSlotTriggers(board);
+      return;
+    }
+
+    // * Slots ran slower than estimated: wait for the updated estimate
+    const currentSlot = connection.getCurrentSlot();
+    const startsAt = connection.getSlotClock().estimateSlotTime(targetSlot);
+    if (
+      currentSlot < targetSlot &&
+      startsAt !== null &&
+      startsAt - Date.now() > SLOT_TIMER_TOLERANCE_MS
+    ) {
+      this.scheduleSlotTimer(phase, roundId, targetSlot);
+      return;
+    }
+
+    this.firePhase(phase, board, currentSlot, "timer");
+  }
+
+  private clearSlotTimer(phase: SlotPhase): void {
+    const timeoutId = this.slotTimers.get(phase);
+    if (timeoutId !== undefined) {
+      clearTimeout(timeoutId);
+      this.slotTimers.delete(phase);
+    }
+  }
+
+  private clearSlotTimers(): void {
+    this.clearSlotTimer("phase1");
+    this.clearSlotTimer("phase2");
+  }
+
+  /**
+   * Refresh a stale current slot over HTTP, then re-check the triggers on the latest board.
+   * A stale slot would make remaining_slots too high and fire the phases late.
+   */
+  private deferStaleSlotTriggers(board: BoardAccount): void {
+    collectorMetrics.staleSlotTriggerSkips.inc();
+    if (this.slotRefreshInFlight) {
+      return;
+    }
+
+    this.slotRefreshInFlight = true;
+    this.logger.warn("Current slot is stale, refreshing before triggers", {
+      roundId: board.roundId.toString(),
+      ws: getSolanaConnection().getWsStatus().state,
+    });
+
+    // * The HTTP board fetch carries a fresh context slot and reprocesses the board
+    this.fetchAndProcessBoard().finally(() => {
+      this.slotRefreshInFlight = false;
+    });
+  }
+
+  /**
+   * Fire the snapshot series trigger for offsets the round just crossed.
+   * When several offsets are crossed at once, only the smallest one fires.
+   */
+  private checkSnapshotOffsets(
+    board: BoardAccount,
+    remainingSlots: number,
+    currentSlot: bigint
+  ): void {
+    if (this.snapshotOffsetsRound !== board.roundId) {
+      this.snapshotOffsetsRound = board.roundId;
+      this.snapshotOffsetsTriggered.clear();
+    }
+
+    const crossed = this.snapshotOffsets.filter(
+      (offset) => remainingSlots <= offset && !this.snapshotOffsetsTriggered.has(offset)
+    );
+    if (crossed.length === 0) {
+      return;
+    }
+
+    for (const offset of crossed) {
+      this.snapshotOffsetsTriggered.add(offset);
+    }
+
+    const targetSlots = crossed[crossed.length - 1];
+    this.logger.debug("Snapshot series trigger", {
+      roundId: board.roundId.toString(),
+      remainingSlots,
+      targetSlots,
+      skippedOffsets: crossed.slice(0, -1),
+    });
+
+    this.events.onBoardSnapshotTrigger(board, targetSlots, remainingSlots, currentSlot);
+  }
+
   /**
    * Get the current board state.
    */
@@ -236,6 +570,52 @@ export class BoardWatcher {
     return this.lastBoard;
   }
 
+  /**
+   * Get the pushed state of the watched round.
+   * @returns null if the round is not watched, has no state yet, or the stream can't vouch
+   * for it: it reconnected since the state was received (updates may have been missed)
+   * or slot updates stopped flowing
+   */
+  getPushedRoundState(roundId: bigint): RoundStateWithContext | null {
+    const state = this.watchedRoundState;
+    if (
+      state === null ||
+      state.roundId !== roundId ||
+      !isPushedStateFresh(
+        state,
+        getAccountStream().getConnectedAt(),
+        getSolanaConnection().isSlotFresh()
+      )
+    ) {
+      return null;
+    }
+
+    return { roundState: state.roundState, contextSlot: state.contextSlot };
+  }
+
+  /**
+   * Get the timestamp of the last streamed (WebSocket or gRPC) board update.
+   * @returns null if no WebSocket update was received yet
+   */
+  getLastWsUpdate(): number | null {
+    return this.lastWsUpdate > 0 ? this.lastWsUpdate : null;
+  }
+
+  /**
+   * Get the timestamp of the last processed board state (WS or HTTP).
+   * @returns null if no board was processed yet
+   */
+  getLastBoardUpdate(): number | null {
+    return this.lastBoardUpdate > 0 ? this.lastBoardUpdate : null;
+  }
+
+  /**
+   * Whether the watcher is started.
+   */
+  isActive(): boolean {
+    return this.isRunning;
+  }
+
   /**
    * Force a refresh of the board state.
    */
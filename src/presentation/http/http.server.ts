@@ -0,0 +1,193 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import { getLogger } from "../../shared/logger.js";
+
+/**
+ * Parsed request passed to route handlers.
+ */
+export interface HttpRequest {
+  /** Path parameters (e.g. `:id`) */
+  params: Record<string, string>;
+  /** Query string parameters */
+  query: URLSearchParams;
+}
+
+/**
+ * Route handler result.
+ * Bodies are JSON-serialized unless a content type is given.
+ */
+export interface HttpResponse {
+  status: number;
+  body: unknown;
+  contentType?: string;
+}
+
+export type RouteHandler = (request: HttpRequest) => Promise<HttpResponse> | HttpResponse;
+
+/**
+ * Error carrying an HTTP status, thrown from route handlers.
+ */
+export class HttpError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+interface Route {
+  segments: string[];
+  handler: RouteHandler;
+}
+
+/**
+ * JSON replacer for on-chain values: bigint as decimal string, Buffer as hex.
+ */
+function jsonReplacer(this: Record<string, unknown>, key: string, value: unknown): unknown {
+  const raw = this[key];
+  if (typeof raw === "bigint") {
+    return raw.toString();
+  }
+  if (Buffer.isBuffer(raw)) {
+    return raw.toString("hex");
+  }
+  return value;
+}
+
+/**
+ * Decode a path parameter (400 on malformed percent-encoding).
+ */
+function decodePathSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    throw new HttpError(400, `Malformed path segment: ${segment}`);
+  }
+}
+
+/**
+ * Minimal read-only HTTP server with path-parameter routing (GET only).
+ */
+export class HttpServer {
+  private readonly logger = getLogger().child("HTTP");
+  private readonly routes: Route[] = [];
+  private server: Server | null = null;
+
+  constructor(
+    private readonly port: number,
+    private readonly host: string
+  ) {}
+
+  /**
+   * Register a GET route. Segments starting with `:` are captured as params.
+   */
+  get(path: string, handler: RouteHandler): this {
+    this.routes.push({ segments: path.split("/").filter(Boolean), handler });
+    return this;
+  }
+
+  /**
+   * Start listening.
+   */
+  async start(): Promise<void> {
+    this.server = createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        this.logger.error("Unhandled HTTP error", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once("error", reject);
+      this.server!.listen(this.port, this.host, () => resolve());
+    });
+
+    this.logger.info("HTTP server listening", { host: this.host, port: this.port });
+  }
+
+  /**
+   * Stop accepting connections and close the server.
+   */
+  async stop(): Promise<void> {
+    if (!this.server) {
+      return;
+    }
+
+    const server = this.server;
+    this.server = null;
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    this.logger.info("HTTP server stopped");
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? "/", "http://localhost");
+
+    if (req.method !== "GET") {
+      this.send(res, { status: 405, body: { error: "Method not allowed" } });
+      return;
+    }
+
+    try {
+      const match = this.match(url.pathname);
+      if (!match) {
+        this.send(res, { status: 404, body: { error: "Not found" } });
+        return;
+      }
+
+      const response = await match.route.handler({ params: match.params, query: url.searchParams });
+      this.send(res, response);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        this.send(res, { status: error.status, body: { error: error.message } });
+        return;
+      }
+
+      this.logger.error("Route handler failed", {
+        path: url.pathname,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      this.send(res, { status: 500, body: { error: "Internal server error" } });
+    }
+  }
+
+  private match(pathname: string): { route: Route; params: Record<string, string> } | null {
+    const segments = pathname.split("/").filter(Boolean);
+
+    for (const route of this.routes) {
+      if (route.segments.length !== segments.length) {
+        continue;
+      }
+
+      const params: Record<string, string> = {};
+      const matched = route.segments.every((segment, i) => {
+        if (segment.startsWith(":")) {
+          params[segment.slice(1)] = decodePathSegment(segments[i]);
+          return true;
+        }
+        return segment === segments[i];
+      });
+
+      if (matched) {
+        return { route, params };
+      }
+    }
+
+    return null;
+  }
+
+  private send(res: ServerResponse, response: HttpResponse): void {
+    const isJson = response.contentType === undefined;
+    const payload = isJson
+      ? JSON.stringify(response.body, jsonReplacer)
+      : String(response.body);
+
+    res.writeHead(response.status, {
+      "Content-Type": response.contentType ?? "application/json",
+      "Content-Length": Buffer.byteLength(payload),
+    });
+    res.end(payload);
+  }
+}
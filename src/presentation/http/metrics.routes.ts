@@ -0,0 +1,21 @@
+/**
+ * Prometheus scrape route.
+ *
+ * - GET /metrics   Collector metrics in Prometheus text format
+ */
+
+import type { MetricsRegistry } from "../../shared/metrics.js";
+import type { HttpServer } from "./http.server.js";
+
+const PROMETHEUS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+/**
+ * Register the metrics route on the server.
+ */
+export function registerMetricsRoutes(server: HttpServer, registry: MetricsRegistry): void {
+  server.get("/metrics", () => ({
+    status: 200,
+    body: registry.render(),
+    contentType: PROMETHEUS_CONTENT_TYPE,
+  }));
+}
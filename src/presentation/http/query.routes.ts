@@ -0,0 +1,159 @@
+/**
+ * Read-only query routes over collected rounds and tiles.
+ *
+ * - GET /rounds/:id            Single round
+ * - GET /rounds?from=&to=      Rounds in an ID range (default: latest rounds)
+ * - GET /rounds/:id/tiles      25 tiles of a round
+ * - GET /rounds/:id/snapshots  Board snapshot series of a round
+ * - GET /rounds/:id/miners     Watched miners' deployments and rewards
+ * - GET /rounds/:id/treasury   Treasury balances at pre-fin and post-fin
+ * - GET /rounds/:id/late-flow  Deposits between the pre-fin snapshot and round end, per tile
+ * - GET /stats/tiles           Per-tile aggregates (optional from/to)
+ * - GET /stats/late-flow       Late flow per tile and EV rank (default: latest rounds)
+ *
+ * u64 values are returned as decimal strings, slot hashes as hex.
+ */
+
+import type { IRoundRepository } from "../../domain/interfaces/round.repository.js";
+import {
+  buildLateFlowReport,
+  getRoundLateFlow,
+} from "../../application/use-cases/build-late-flow.js";
+import { HttpError, type HttpServer } from "./http.server.js";
+
+const DEFAULT_ROUNDS_LIMIT = 100;
+const MAX_ROUNDS_LIMIT = 1000;
+// * Late flow is computed round by round: ranges are capped (and default to the latest rounds)
+const MAX_LATE_FLOW_ROUNDS = BigInt(MAX_ROUNDS_LIMIT);
+// * Round IDs are bound as signed 64-bit integers
+const MAX_ROUND_ID = (1n << 63n) - 1n;
+
+/**
+ * Parse a round ID (path or query), throwing 400 on invalid input.
+ */
+function parseRoundId(value: string, name: string): bigint {
+  if (!/^\d+$/.test(value) || BigInt(value) > MAX_ROUND_ID) {
+    throw new HttpError(400, `Invalid ${name}: ${value}`);
+  }
+  return BigInt(value);
+}
+
+function parseOptionalRoundId(query: URLSearchParams, name: string): bigint | undefined {
+  const value = query.get(name);
+  return value !== null ? parseRoundId(value, name) : undefined;
+}
+
+function parseLimit(query: URLSearchParams): number {
+  const value = query.get("limit");
+  if (value === null) {
+    return DEFAULT_ROUNDS_LIMIT;
+  }
+
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_ROUNDS_LIMIT) {
+    throw new HttpError(400, `Invalid limit: must be 1-${MAX_ROUNDS_LIMIT}`);
+  }
+  return limit;
+}
+
+/**
+ * Register round/tile query routes on the server.
+ */
+export function registerQueryRoutes(server: HttpServer, repository: IRoundRepository): void {
+  server.get("/rounds", async ({ query }) => {
+    const limit = parseLimit(query);
+    let from = parseOptionalRoundId(query, "from");
+    let to = parseOptionalRoundId(query, "to");
+
+    // * Without bounds, return the latest rounds
+    if (to === undefined) {
+      const latest = await repository.getLatestRoundId();
+      // * Only an explicit `to` makes from > to a bad range: past the latest round is empty
+      if (latest === null || (from !== undefined && from > latest)) {
+        return { status: 200, body: { rounds: [] } };
+      }
+      to = latest;
+    }
+    if (from === undefined) {
+      from = to >= BigInt(limit) ? to - BigInt(limit) + 1n : 0n;
+    }
+    if (from > to) {
+      throw new HttpError(400, "Invalid range: from > to");
+    }
+
+    const rounds = await repository.getRounds(from, to, limit);
+    return { status: 200, body: { rounds } };
+  });
+
+  server.get("/rounds/:id", async ({ params }) => {
+    const round = await repository.getRound(parseRoundId(params.id, "round id"));
+    if (!round) {
+      throw new HttpError(404, `Round not found: ${params.id}`);
+    }
+    return { status: 200, body: round };
+  });
+
+  server.get("/rounds/:id/tiles", async ({ params }) => {
+    const tiles = await repository.getTiles(parseRoundId(params.id, "round id"));
+    if (tiles.length === 0) {
+      throw new HttpError(404, `Round not found: ${params.id}`);
+    }
+    return { status: 200, body: { tiles } };
+  });
+
+  server.get("/rounds/:id/snapshots", async ({ params }) => {
+    const snapshots = await repository.getSnapshots(parseRoundId(params.id, "round id"));
+    return { status: 200, body: { snapshots } };
+  });
+
+  server.get("/rounds/:id/miners", async ({ params }) => {
+    const miners = await repository.getMinerRounds(parseRoundId(params.id, "round id"));
+    return { status: 200, body: { miners } };
+  });
+
+  server.get("/rounds/:id/treasury", async ({ params }) => {
+    const snapshots = await repository.getTreasurySnapshots(parseRoundId(params.id, "round id"));
+    return { status: 200, body: { snapshots } };
+  });
+
+  server.get("/rounds/:id/anomalies", async ({ params }) => {
+    const anomalies = await repository.getAnomalies(parseRoundId(params.id, "round id"));
+    return { status: 200, body: { anomalies } };
+  });
+
+  server.get("/rounds/:id/late-flow", async ({ params }) => {
+    const lateFlow = await getRoundLateFlow(parseRoundId(params.id, "round id"), { repository });
+    if (!lateFlow) {
+      throw new HttpError(
+        404,
+        `No late flow for round ${params.id} (missing, pending or backfilled)`
+      );
+    }
+    return { status: 200, body: lateFlow };
+  });
+
+  server.get("/stats/tiles", async ({ query }) => {
+    const from = parseOptionalRoundId(query, "from");
+    const to = parseOptionalRoundId(query, "to");
+    const tiles = await repository.getTileStats(from, to);
+    return { status: 200, body: { tiles } };
+  });
+
+  server.get("/stats/late-flow", async ({ query }) => {
+    let from = parseOptionalRoundId(query, "from");
+    const to = parseOptionalRoundId(query, "to") ?? (await repository.getLatestRoundId()) ?? 0n;
+
+    if (from === undefined) {
+      from = to >= MAX_LATE_FLOW_ROUNDS ? to - MAX_LATE_FLOW_ROUNDS + 1n : 0n;
+    }
+    if (from > to) {
+      throw new HttpError(400, "Invalid range: from > to");
+    }
+    if (to - from + 1n > MAX_LATE_FLOW_ROUNDS) {
+      throw new HttpError(400, `Invalid range: at most ${MAX_LATE_FLOW_ROUNDS} rounds`);
+    }
+
+    const report = await buildLateFlowReport({ fromRoundId: from, toRoundId: to }, { repository });
+    return { status: 200, body: report };
+  });
+}
@@ -0,0 +1,101 @@
+/**
+ * Health and status routes for process supervisors.
+ *
+ * - GET /health   200 when the board watcher is fresh, 503 when stale
+ * - GET /status   Full collector status (in-flight phases, last rounds, slot, WebSocket,
+ *                  slot clock, account stream, RPC endpoints)
+ */
+
+import type { Orchestrator, OrchestratorStatus } from "../../application/orchestrator.js";
+import type { SolanaConnection } from "../../infrastructure/solana/connection.js";
+import { getAccountStreamStatus } from "../../infrastructure/solana/account-stream.js";
+import type { HttpServer } from "./http.server.js";
+
+export interface StatusRoutesOptions {
+  /** WebSocket update age (ms) above which the watcher is considered stale */
+  maxWsUpdateAgeMs: number;
+}
+
+interface WatcherHealth {
+  healthy: boolean;
+  wsUpdateAgeMs: number | null;
+  boardUpdateAgeMs: number | null;
+}
+
+function ageMs(timestamp: number | null, now: number): number | null {
+  return timestamp !== null ? now - timestamp : null;
+}
+
+/**
+ * Evaluate watcher freshness.
+ * Before the first WS update, the board update age is used instead.
+ */
+function evaluateWatcher(status: OrchestratorStatus, options: StatusRoutesOptions): WatcherHealth {
+  const now = Date.now();
+  const wsUpdateAgeMs = ageMs(status.lastWsUpdateAt, now);
+  const boardUpdateAgeMs = ageMs(status.lastBoardUpdateAt, now);
+  const referenceAgeMs = wsUpdateAgeMs ?? boardUpdateAgeMs;
+
+  return {
+    healthy:
+      status.watcherRunning &&
+      referenceAgeMs !== null &&
+      referenceAgeMs <= options.maxWsUpdateAgeMs,
+    wsUpdateAgeMs,
+    boardUpdateAgeMs,
+  };
+}
+
+/**
+ * Register health and status routes on the server.
+ */
+export function registerStatusRoutes(
+  server: HttpServer,
+  orchestrator: Orchestrator,
+  connection: SolanaConnection,
+  options: StatusRoutesOptions
+): void {
+  server.get("/health", () => {
+    const watcher = evaluateWatcher(orchestrator.getStatus(), options);
+
+    return {
+      status: watcher.healthy ? 200 : 503,
+      body: {
+        status: watcher.healthy ? "ok" : "stale",
+        wsUpdateAgeMs: watcher.wsUpdateAgeMs,
+        maxWsUpdateAgeMs: options.maxWsUpdateAgeMs,
+      },
+    };
+  });
+
+  server.get("/status", () => {
+    const status = orchestrator.getStatus();
+    const watcher = evaluateWatcher(status, options);
+
+    return {
+      status: watcher.healthy ? 200 : 503,
+      body: {
+        healthy: watcher.healthy,
+        currentRoundId: status.currentRoundId,
+        currentSlot: connection.getCurrentSlot(),
+        slotClock: connection.getSlotClock().getStatus(),
+        websocket: connection.getWsStatus(),
+        accountStream: getAccountStreamStatus(),
+        inFlight: {
+          phase1: status.phase1InFlight,
+          phase2: status.phase2InFlight,
+          postFin: status.postFinInFlight,
+        },
+        hasCachedPrices: status.hasCachedPrices,
+        watcher: {
+          running: status.watcherRunning,
+          wsUpdateAgeMs: watcher.wsUpdateAgeMs,
+          boardUpdateAgeMs: watcher.boardUpdateAgeMs,
+        },
+        lastPreFin: status.lastPreFin,
+        lastPostFin: status.lastPostFin,
+        rpcEndpoints: connection.getRpcStatus(),
+      },
+    };
+  });
+}
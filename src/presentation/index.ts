@@ -1,2 +1,12 @@
 export { BoardWatcher, type BoardWatcherEvents } from "./board-watcher.js";
 
+export {
+  HttpServer,
+  HttpError,
+  type HttpRequest,
+  type HttpResponse,
+  type RouteHandler,
+} from "./http/http.server.js";
+export { registerQueryRoutes } from "./http/query.routes.js";
+export { registerMetricsRoutes } from "./http/metrics.routes.js";
+export { registerStatusRoutes, type StatusRoutesOptions } from "./http/status.routes.js";
@@ -1,4 +1,13 @@
 export { Logger, initLogger, getLogger } from "./logger.js";
+export {
+  Counter,
+  Gauge,
+  Histogram,
+  MetricsRegistry,
+  metricsRegistry,
+  collectorMetrics,
+  type MetricLabels,
+} from "./metrics.js";
 export { sleep, withRetry, parallelFetch, type RetryOptions } from "./retry.js";
 export {
   LAMPORTS_PER_SOL,
@@ -9,3 +18,10 @@ export {
   type RequiredBy,
 } from "./types.js";
 
+export {
+  regularizedGammaQ,
+  chiSquarePValue,
+  normalCdf,
+  binomialTestPValue,
+  wilsonInterval,
+} from "./statistics.js";
@@ -0,0 +1,278 @@
+/**
+ * Minimal Prometheus-compatible metrics (counters, gauges, histograms).
+ * Rendered in the text exposition format (version 0.0.4).
+ */
+
+export type MetricLabels = Record<string, string>;
+
+interface Metric {
+  readonly name: string;
+  render(): string[];
+}
+
+/**
+ * Serialize labels as `{a="1",b="2"}` (sorted by key for stable series identity).
+ */
+function formatLabels(labels: MetricLabels): string {
+  const entries = Object.entries(labels).sort(([a], [b]) => a.localeCompare(b));
+  if (entries.length === 0) {
+    return "";
+  }
+  const body = entries
+    .map(([key, value]) => {
+      const escaped = value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+      return `${key}="${escaped}"`;
+    })
+    .join(",");
+  return `{${body}}`;
+}
+
+function formatValue(value: number): string {
+  if (value === Number.POSITIVE_INFINITY) return "+Inf";
+  if (value === Number.NEGATIVE_INFINITY) return "-Inf";
+  return String(value);
+}
+
+/**
+ * Monotonically increasing counter.
+ */
+export class Counter implements Metric {
+  private readonly series = new Map<string, number>();
+
+  constructor(
+    public readonly name: string,
+    private readonly help: string
+  ) {}
+
+  inc(value = 1, labels: MetricLabels = {}): void {
+    const key = formatLabels(labels);
+    this.series.set(key, (this.series.get(key) ?? 0) + value);
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`];
+    for (const [labels, value] of this.series) {
+      lines.push(`${this.name}${labels} ${formatValue(value)}`);
+    }
+    return lines;
+  }
+}
+
+/**
+ * Value that can go up and down.
+ */
+export class Gauge implements Metric {
+  private readonly series = new Map<string, number>();
+
+  constructor(
+    public readonly name: string,
+    private readonly help: string
+  ) {}
+
+  set(value: number, labels: MetricLabels = {}): void {
+    this.series.set(formatLabels(labels), value);
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} gauge`];
+    for (const [labels, value] of this.series) {
+      lines.push(`${this.name}${labels} ${formatValue(value)}`);
+    }
+    return lines;
+  }
+}
+
+interface HistogramSeries {
+  labels: MetricLabels;
+  bucketCounts: number[];
+  sum: number;
+  count: number;
+}
+
+/**
+ * Histogram with fixed upper bounds (cumulative buckets).
+ */
+export class Histogram implements Metric {
+  private readonly series = new Map<string, HistogramSeries>();
+  private readonly buckets: number[];
+
+  constructor(
+    public readonly name: string,
+    private readonly help: string,
+    buckets: number[]
+  ) {
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(value: number, labels: MetricLabels = {}): void {
+    const key = formatLabels(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels, bucketCounts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+
+    for (let i = 0; i < this.buckets.length; i++) {
+      if (value <= this.buckets[i]) {
+        series.bucketCounts[i]++;
+      }
+    }
+    series.sum += value;
+    series.count++;
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const series of this.series.values()) {
+      for (let i = 0; i < this.buckets.length; i++) {
+        const labels = formatLabels({ ...series.labels, le: formatValue(this.buckets[i]) });
+        lines.push(`${this.name}_bucket${labels} ${series.bucketCounts[i]}`);
+      }
+      lines.push(`${this.name}_bucket${formatLabels({ ...series.labels, le: "+Inf" })} ${series.count}`);
+      lines.push(`${this.name}_sum${formatLabels(series.labels)} ${formatValue(series.sum)}`);
+      lines.push(`${this.name}_count${formatLabels(series.labels)} ${series.count}`);
+    }
+    return lines;
+  }
+}
+
+/**
+ * Registry of metrics rendered together.
+ */
+export class MetricsRegistry {
+  private readonly metrics = new Map<string, Metric>();
+
+  counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help));
+  }
+
+  gauge(name: string, help: string): Gauge {
+    return this.register(new Gauge(name, help));
+  }
+
+  histogram(name: string, help: string, buckets: number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets));
+  }
+
+  /**
+   * Render all metrics in Prometheus text format.
+   */
+  render(): string {
+    const lines: string[] = [];
+    for (const metric of this.metrics.values()) {
+      lines.push(...metric.render());
+    }
+    return lines.join("\n") + "\n";
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric already registered: ${metric.name}`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+}
+
+// * Shared bucket layouts
+const LATENCY_BUCKETS_SECONDS = [0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+const SLOT_BUCKETS = [0, 1, 2, 3, 4, 5, 6, 8, 10, 15, 20, 30, 50];
+const ATTEMPT_BUCKETS = [1, 2, 3, 4, 5, 6];
+const SLOT_ERROR_BUCKETS = [-5, -3, -2, -1, 0, 1, 2, 3, 5, 10];
+
+/**
+ * Global registry for the collector process.
+ */
+export const metricsRegistry = new MetricsRegistry();
+
+/**
+ * Collection pipeline metrics.
+ */
+export const collectorMetrics = {
+  fetchDuration: metricsRegistry.histogram(
+    "ore_fetch_duration_seconds",
+    "Fetcher latency including retries, by fetcher and outcome",
+    LATENCY_BUCKETS_SECONDS
+  ),
+  roundStateFetchDuration: metricsRegistry.histogram(
+    "ore_round_state_fetch_duration_seconds",
+    "Phase 2 round state fetch latency",
+    LATENCY_BUCKETS_SECONDS
+  ),
+  roundStateReads: metricsRegistry.counter(
+    "ore_round_state_reads_total",
+    "Phase 2 round state reads, by source (push or http)"
+  ),
+  phaseDuration: metricsRegistry.histogram(
+    "ore_phase_duration_seconds",
+    "End-to-end duration of a collection phase",
+    LATENCY_BUCKETS_SECONDS
+  ),
+  snapshotRemainingSlots: metricsRegistry.histogram(
+    "ore_snapshot_remaining_slots",
+    "Slots remaining before round end when the EV snapshot was taken",
+    SLOT_BUCKETS
+  ),
+  triggerSlotError: metricsRegistry.histogram(
+    "ore_trigger_slot_error",
+    "Current slot minus target slot when a phase trigger fired, by phase and source (timer or update)",
+    SLOT_ERROR_BUCKETS
+  ),
+  slotHashFetchAttempts: metricsRegistry.histogram(
+    "ore_slot_hash_fetch_attempts",
+    "Post-fin fetch attempts until a valid slot hash was seen",
+    ATTEMPT_BUCKETS
+  ),
+  roundsCollected: metricsRegistry.counter(
+    "ore_rounds_collected_total",
+    "Rounds successfully stored, by phase"
+  ),
+  roundsDeleted: metricsRegistry.counter(
+    "ore_rounds_deleted_total",
+    "Rounds deleted after a collection failure"
+  ),
+  collectionFailures: metricsRegistry.counter(
+    "ore_collection_failures_total",
+    "Collection failures, by phase"
+  ),
+  boardUpdates: metricsRegistry.counter(
+    "ore_board_updates_total",
+    "Board states processed, by source (ws, grpc or http)"
+  ),
+  httpFallbackPolls: metricsRegistry.counter(
+    "ore_board_http_fallback_polls_total",
+    "HTTP polls made because the board WebSocket was stale"
+  ),
+  minerCaptures: metricsRegistry.counter(
+    "ore_miner_captures_total",
+    "Watched miner captures, by outcome (captured, missed or failed)"
+  ),
+  treasurySnapshots: metricsRegistry.counter(
+    "ore_treasury_snapshots_total",
+    "Treasury snapshots, by phase and outcome"
+  ),
+  slotHashVerifications: metricsRegistry.counter(
+    "ore_slot_hash_verifications_total",
+    "SlotHashes checks of post-fin slot hashes, by outcome"
+  ),
+  wsReconnects: metricsRegistry.counter(
+    "ore_ws_reconnects_total",
+    "WebSocket reconnections after slot notifications stopped"
+  ),
+  grpcReconnects: metricsRegistry.counter(
+    "ore_grpc_reconnects_total",
+    "Yellowstone gRPC stream reconnections after an error, end or silence"
+  ),
+  staleSlotTriggerSkips: metricsRegistry.counter(
+    "ore_stale_slot_trigger_skips_total",
+    "Board updates whose slot-based triggers were deferred because the current slot was stale"
+  ),
+  rpcRequests: metricsRegistry.counter(
+    "ore_rpc_requests_total",
+    "RPC requests through the endpoint pool, by endpoint, request and outcome"
+  ),
+  consistencyAnomalies: metricsRegistry.counter(
+    "ore_consistency_anomalies_total",
+    "Post-fin consistency checks failed against the on-chain round, by check"
+  ),
+};
@@ -0,0 +1,144 @@
+/**
+ * Statistical helpers for the dataset reports (no external dependency).
+ */
+
+/**
+ * Natural log of the gamma function (Lanczos approximation, g=7).
+ */
+function logGamma(x: number): number {
+  const coefficients = [
+    0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+    -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6,
+    1.5056327351493116e-7,
+  ];
+
+  if (x < 0.5) {
+    // * Reflection formula
+    return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+  }
+
+  const z = x - 1;
+  let sum = coefficients[0];
+  for (let i = 1; i < coefficients.length; i++) {
+    sum += coefficients[i] / (z + i);
+  }
+  const t = z + 7.5;
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(sum);
+}
+
+/**
+ * Regularized upper incomplete gamma function Q(a, x) = Γ(a, x) / Γ(a).
+ * Series expansion below a + 1, continued fraction above (Numerical Recipes).
+ */
+export function regularizedGammaQ(a: number, x: number): number {
+  if (x <= 0) {
+    return 1;
+  }
+
+  const logPrefix = a * Math.log(x) - x - logGamma(a);
+
+  if (x < a + 1) {
+    let term = 1 / a;
+    let sum = term;
+    for (let n = 1; n < 1000; n++) {
+      term *= x / (a + n);
+      sum += term;
+      if (Math.abs(term) < Math.abs(sum) * 1e-15) {
+        break;
+      }
+    }
+    return Math.max(0, 1 - sum * Math.exp(logPrefix));
+  }
+
+  // * Modified Lentz continued fraction
+  const tiny = 1e-300;
+  let b = x + 1 - a;
+  let c = 1 / tiny;
+  let d = 1 / b;
+  let h = d;
+  for (let n = 1; n < 1000; n++) {
+    const an = -n * (n - a);
+    b += 2;
+    d = an * d + b;
+    d = Math.abs(d) < tiny ? tiny : d;
+    c = b + an / c;
+    c = Math.abs(c) < tiny ? tiny : c;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-15) {
+      break;
+    }
+  }
+  return Math.min(1, Math.exp(logPrefix) * h);
+}
+
+/**
+ * P(X >= statistic) for a chi-square distribution.
+ */
+export function chiSquarePValue(statistic: number, degreesOfFreedom: number): number {
+  return regularizedGammaQ(degreesOfFreedom / 2, statistic / 2);
+}
+
+/**
+ * Standard normal CDF (erfc approximation, |error| < 1.2e-7).
+ */
+export function normalCdf(z: number): number {
+  const coefficients = [
+    -1.26551223, 1.00002368, 0.37409196, 0.09678418, -0.18628806, 0.27886807, -1.13520398,
+    1.48851587, -0.82215223, 0.17087277,
+  ];
+
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.5 * x);
+  let polynomial = 0;
+  for (let i = coefficients.length - 1; i >= 0; i--) {
+    polynomial = coefficients[i] + t * polynomial;
+  }
+  const erfc = t * Math.exp(-x * x + polynomial);
+  return z >= 0 ? 1 - erfc / 2 : erfc / 2;
+}
+
+/**
+ * Two-sided p-value of observing `successes` in `trials` with probability `p`.
+ * Normal approximation (continuity-corrected) when n·p·(1-p) >= 10,
+ * Poisson approximation otherwise (rare events, e.g. the motherlode).
+ */
+export function binomialTestPValue(successes: number, trials: number, p: number): number {
+  if (trials === 0) {
+    return 1;
+  }
+
+  const mean = trials * p;
+  const variance = mean * (1 - p);
+
+  if (variance >= 10) {
+    const deviation = Math.max(Math.abs(successes - mean) - 0.5, 0);
+    return Math.min(1, 2 * (1 - normalCdf(deviation / Math.sqrt(variance))));
+  }
+
+  // * P(X <= k) = Q(k + 1, λ), P(X >= k) = 1 - Q(k, λ)
+  const lower = regularizedGammaQ(successes + 1, mean);
+  const upper = successes === 0 ? 1 : 1 - regularizedGammaQ(successes, mean);
+  return Math.min(1, 2 * Math.min(lower, upper));
+}
+
+/**
+ * Wilson score interval of a proportion (95% by default).
+ */
+export function wilsonInterval(
+  successes: number,
+  trials: number,
+  z = 1.959964
+): { low: number; high: number } {
+  if (trials === 0) {
+    return { low: 0, high: 1 };
+  }
+
+  const rate = successes / trials;
+  const z2 = z * z;
+  const center = (rate + z2 / (2 * trials)) / (1 + z2 / trials);
+  const margin =
+    (z * Math.sqrt((rate * (1 - rate)) / trials + z2 / (4 * trials * trials))) / (1 + z2 / trials);
+  return { low: Math.max(0, center - margin), high: Math.min(1, center + margin) };
+}
@@ -0,0 +1,84 @@
+/**
+ * Gap classification and per-day coverage built from stored round statuses.
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  buildDailyCoverage,
+  buildGaps,
+  type RoundStatus,
+} from "../src/infrastructure/database/aggregates.js";
+
+function statuses(complete: number[], pending: number[] = []): RoundStatus[] {
+  return [
+    ...complete.map((roundId) => ({ roundId, pending: false })),
+    ...pending.map((roundId) => ({ roundId, pending: true })),
+  ].sort((a, b) => a.roundId - b.roundId);
+}
+
+describe("buildGaps", () => {
+  it("returns no gaps for contiguous complete rounds", () => {
+    assert.deepEqual(buildGaps(statuses([10, 11, 12]), []), []);
+    assert.deepEqual(buildGaps([], [5]), []);
+  });
+
+  it("splits holes into missing and failed runs and merges pending rounds", () => {
+    const gaps = buildGaps(statuses([10, 15, 20], [11, 12]), [13, 17]);
+
+    assert.deepEqual(gaps, [
+      { fromRoundId: 11n, toRoundId: 12n, kind: "pending" },
+      { fromRoundId: 13n, toRoundId: 13n, kind: "failed" },
+      { fromRoundId: 14n, toRoundId: 14n, kind: "missing" },
+      { fromRoundId: 16n, toRoundId: 16n, kind: "missing" },
+      { fromRoundId: 17n, toRoundId: 17n, kind: "failed" },
+      { fromRoundId: 18n, toRoundId: 19n, kind: "missing" },
+    ]);
+  });
+
+  it("ignores failures outside the stored range", () => {
+    const gaps = buildGaps(statuses([10, 13]), [2, 11, 40]);
+
+    assert.deepEqual(gaps, [
+      { fromRoundId: 11n, toRoundId: 11n, kind: "failed" },
+      { fromRoundId: 12n, toRoundId: 12n, kind: "missing" },
+    ]);
+  });
+});
+
+describe("buildDailyCoverage", () => {
+  it("buckets rounds by the first live round of each day", () => {
+    // * 8: backfilled before the first dated round, 13: missing
+    const coverage = buildDailyCoverage(
+      [
+        { day: "2025-01-01", firstRoundId: 10 },
+        { day: "2025-01-02", firstRoundId: 14 },
+      ],
+      statuses([8, 10, 12, 14, 16], [11, 15])
+    );
+
+    assert.deepEqual(coverage, [
+      {
+        day: "2025-01-01",
+        firstRoundId: 8n,
+        expected: 6,
+        complete: 3,
+        pending: 1,
+        coveragePct: 50,
+      },
+      {
+        day: "2025-01-02",
+        firstRoundId: 14n,
+        expected: 3,
+        complete: 2,
+        pending: 1,
+        coveragePct: (2 / 3) * 100,
+      },
+    ]);
+  });
+
+  it("returns no coverage without dated days or rounds", () => {
+    assert.deepEqual(buildDailyCoverage([], statuses([1, 2])), []);
+    assert.deepEqual(buildDailyCoverage([{ day: "2025-01-01", firstRoundId: 1 }], []), []);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Backtester settlement against a hand-computed round, and the summary.
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  isBacktestable,
+  settleBets,
+  simulateRound,
+  summarizeBacktest,
+} from "../src/application/services/backtester.js";
+import type { BacktestStrategy } from "../src/domain/entities/index.js";
+import { buildRoundRecord, buildTileRecords } from "./fixtures.js";
+
+const STRATEGY: BacktestStrategy = {
+  name: "top2-fixed",
+  topN: 2,
+  minEvRatio: 1,
+  stakeMode: "fixed",
+  stakeSol: 0.1,
+};
+
+function assertClose(actual: number, expected: number): void {
+  assert.ok(Math.abs(actual - expected) < 1e-9, `expected ${expected}, got ${actual}`);
+}
+
+describe("backtester", () => {
+  // * 25 tiles of 1 SOL, tile 3 wins 21.6 SOL (24 losing SOL minus 10%),
+  //   100 ORE top miner reward and a 10 ORE motherlode paid out
+  const round = buildRoundRecord(1n, {
+    motherlodeTriggered: true,
+    motherlodePaid: 10_000_000_000n,
+  });
+  const tiles = buildTileRecords(1n);
+
+  it("settles a winning stake with its share of winnings, rewards and our losing stakes", () => {
+    const settlement = settleBets(round, tiles, [
+      { tileIndex: 3, stake: 100_000_000n },
+      { tileIndex: 5, stake: 100_000_000n },
+    ]);
+
+    // * Winnings: 21.6 SOL + 0.1 SOL lost on tile 5 × 21.6 / 24 = 21.69 SOL
+    //   Share on tile 3: 0.1 / 1.1 → 1.971818181 SOL, plus the 0.1 SOL stake back
+    assert.equal(settlement.staked, 200_000_000n);
+    assert.equal(settlement.won, true);
+    assert.equal(settlement.returnedSol, 2_071_818_181n);
+    // * (100 + 10) ORE × 0.1 / 1.1 = 0.1 ORE
+    assert.equal(settlement.rewardsOre, 10_000_000_000n);
+    // * 2.071818181 - 0.2 SOL + 0.1 ORE × 0.5 SOL × 0.9 fee factor
+    assertClose(settlement.pnlSol, 1.871818181 + 0.045);
+  });
+
+  it("loses the whole stake when no staked tile wins", () => {
+    const settlement = settleBets(round, tiles, [{ tileIndex: 5, stake: 100_000_000n }]);
+
+    assert.deepEqual(settlement, {
+      staked: 100_000_000n,
+      won: false,
+      returnedSol: 0n,
+      rewardsOre: 0n,
+      pnlSol: -0.1,
+    });
+  });
+
+  it("stakes on the best-ranked tiles above the EV threshold", () => {
+    assert.equal(isBacktestable(round, tiles), true);
+    assert.equal(isBacktestable({ ...round, backfilled: true }, tiles), false);
+
+    const result = simulateRound(round, tiles, STRATEGY);
+    assert.deepEqual(result?.tiles, [0, 1]);
+    assert.equal(result?.staked, 200_000_000n);
+    assert.equal(result?.won, false);
+
+    assert.equal(simulateRound(round, tiles, { ...STRATEGY, minEvRatio: 2 }), null);
+  });
+
+  it("summarizes PnL, ROI and drawdown in round order", () => {
+    const winBets = [
+      { tileIndex: 3, stake: 100_000_000n },
+      { tileIndex: 5, stake: 100_000_000n },
+    ];
+    const lossBets = [{ tileIndex: 5, stake: 100_000_000n }];
+    const win = { roundId: 1n, tiles: [3, 5], ...settleBets(round, tiles, winBets) };
+    const loss = { roundId: 2n, tiles: [5], ...settleBets(round, tiles, lossBets) };
+
+    const summary = summarizeBacktest(STRATEGY, 3, [win, loss, loss]);
+
+    assert.equal(summary.roundsScanned, 3);
+    assert.equal(summary.roundsPlayed, 3);
+    assert.equal(summary.roundsWon, 1);
+    assertClose(summary.stakedSol, 0.4);
+    assertClose(summary.returnedSol, 2.071818181);
+    assertClose(summary.rewardsOre, 0.1);
+    assertClose(summary.pnlSol, 1.916818181 - 0.2);
+    assertClose(summary.roi, (1.916818181 - 0.2) / 0.4);
+    // * Peak after the win, then two 0.1 SOL losses
+    assertClose(summary.maxDrawdownSol, 0.2);
+  });
+});
@@ -0,0 +1,27 @@
+/**
+ * Freshness rules for the BoardWatcher's pushed round state.
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { isPushedStateFresh } from "../src/presentation/board-watcher.js";
+
+const NOW = 1_700_000_000_000;
+const CONNECTED_AT = NOW - 60_000;
+
+describe("isPushedStateFresh", () => {
+  it("keeps old state of a quiet round while the stream stays live", () => {
+    assert.equal(isPushedStateFresh({ receivedAt: NOW - 50_000 }, CONNECTED_AT, true), true);
+    assert.equal(isPushedStateFresh({ receivedAt: CONNECTED_AT }, CONNECTED_AT, true), true);
+  });
+
+  it("rejects state once slot updates stop", () => {
+    assert.equal(isPushedStateFresh({ receivedAt: NOW - 1_000 }, CONNECTED_AT, false), false);
+  });
+
+  it("rejects state received before the stream (re)connected, or while reconnecting", () => {
+    const state = { receivedAt: NOW - 1_000 };
+    assert.equal(isPushedStateFresh(state, NOW - 500, true), false);
+    assert.equal(isPushedStateFresh(state, null, true), false);
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Post-fin consistency checks of a stored round against its on-chain account.
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { findRoundAnomalies } from "../src/application/services/consistency-checker.js";
+import type { RoundRecord, TileRecord } from "../src/domain/entities/index.js";
+import { buildRoundAccount, buildRoundRecord, buildTileRecords, slotHashOf } from "./fixtures.js";
+
+const DETECTED_AT = Date.UTC(2025, 0, 1, 0, 2);
+
+// * 28: tile 3 wins, top miner reward split
+const SLOT_HASH = slotHashOf(28n);
+const ON_CHAIN = buildRoundAccount(1n, SLOT_HASH);
+
+function check(
+  overrides: Partial<RoundRecord> = {},
+  tiles: TileRecord[] = buildTileRecords(1n)
+): Array<[string, string, string]> {
+  const round = buildRoundRecord(1n, { slotHash: SLOT_HASH, splitTopMiner: true, ...overrides });
+  return findRoundAnomalies(round, tiles, ON_CHAIN, DETECTED_AT).map((anomaly) => {
+    assert.equal(anomaly.roundId, 1n);
+    assert.equal(anomaly.detectedAt, DETECTED_AT);
+    return [anomaly.check, anomaly.expected, anomaly.actual];
+  });
+}
+
+describe("findRoundAnomalies", () => {
+  it("finds nothing for a round stored as it is on-chain", () => {
+    assert.deepEqual(check(), []);
+  });
+
+  it("flags a final board that doesn't add up to total_deployed", () => {
+    const tiles = buildTileRecords(1n);
+    tiles[7] = { ...tiles[7], deployedFinal: 900_000_000n };
+    assert.deepEqual(check({}, tiles), [["deployed_total", "25000000000", "24900000000"]]);
+
+    assert.deepEqual(check({}, buildTileRecords(1n).slice(0, 24)), [
+      ["deployed_total", "25000000000", "24000000000"],
+    ]);
+  });
+
+  it("flags winners that don't match the winning tile's miner count", () => {
+    assert.deepEqual(check({ numWinners: 9n }), [["num_winners", "10", "9"]]);
+    assert.deepEqual(check({ numWinners: null }), [["num_winners", "10", "null"]]);
+  });
+
+  it("flags a split flag that disagrees with the slot hash", () => {
+    assert.deepEqual(check({ splitTopMiner: false }), [["split_top_miner", "true", "false"]]);
+  });
+
+  it("skips the split check when the winning tile had no miners", () => {
+    const counts = new Array<bigint>(25).fill(10n);
+    counts[3] = 0n;
+    const round = buildRoundRecord(1n, { slotHash: SLOT_HASH, numWinners: 0n });
+    const onChain = buildRoundAccount(1n, SLOT_HASH, { counts });
+
+    assert.deepEqual(findRoundAnomalies(round, buildTileRecords(1n), onChain, DETECTED_AT), []);
+  });
+
+  it("flags payouts above the SOL deployed on the losing tiles", () => {
+    assert.deepEqual(check({ totalWinnings: 21_600_000_001n }), [
+      ["payout_total", "<=24000000000", "24000000001"],
+    ]);
+    assert.deepEqual(check({ totalVaulted: null }), [["payout_total", "<=24000000000", "null"]]);
+  });
+
+  it("only checks the final board without a winning tile", () => {
+    const tiles = buildTileRecords(1n).slice(0, 24);
+    assert.deepEqual(check({ winningTile: null, numWinners: null, totalWinnings: null }, tiles), [
+      ["deployed_total", "25000000000", "24000000000"],
+    ]);
+  });
+});
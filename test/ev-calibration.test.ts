@@ -0,0 +1,91 @@
+/**
+ * EV calibration samples and bucketing.
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  EvCalibrationBuilder,
+  buildCalibrationSamples,
+  type CalibrationSample,
+} from "../src/application/services/ev-calibration.js";
+import { buildRoundRecord, buildTileRecords } from "./fixtures.js";
+
+function sample(rankEv: number, evRatio: number, realizedReturn: number): CalibrationSample {
+  return { rankEv, evRatio, finalEvRatio: evRatio - 0.1, realizedReturn, won: realizedReturn > 0 };
+}
+
+describe("EV calibration", () => {
+  it("builds one sample per tile, settled against the final board", () => {
+    const samples = buildCalibrationSamples(buildRoundRecord(1n), buildTileRecords(1n));
+
+    assert.equal(samples.length, 25);
+    // * Tile 3 (rank 4) won
+    assert.deepEqual(samples.filter((entry) => entry.won).map((entry) => entry.rankEv), [4]);
+    assert.ok(samples.filter((entry) => !entry.won).every((entry) => entry.realizedReturn === 0));
+    assert.ok(samples[3].realizedReturn > 1);
+  });
+
+  it("buckets samples on ev_ratio with inclusive lower bounds", () => {
+    const builder = new EvCalibrationBuilder([1, 1.1]);
+    builder.addRound([sample(1, 1.2, 0), sample(2, 1.1, 0), sample(3, 1.05, 2)]);
+    builder.addRound([sample(1, 1, 0), sample(2, 0.9, 0)]);
+
+    const report = builder.build();
+
+    assert.equal(report.rounds, 2);
+    assert.equal(report.overall.tiles, 5);
+    assert.equal(report.overall.wins, 1);
+    assert.deepEqual(
+      report.buckets.map((bucket) => [bucket.minEvRatio, bucket.maxEvRatio, bucket.tiles]),
+      [
+        [null, 1, 1],
+        [1, 1.1, 2],
+        [1.1, null, 2],
+      ]
+    );
+
+    // * [1, 1.1): returns 2 and 0
+    const middle = report.buckets[1];
+    assert.equal(middle.wins, 1);
+    assert.equal(middle.hitRate, 0.5);
+    assert.equal(middle.avgEvRatio, 1.025);
+    assert.equal(middle.avgRealizedReturn, 1);
+    // * Sample variance 2, standard error sqrt(2 / 2)
+    assert.equal(middle.realizedStdErr, 1);
+
+    assert.equal(report.ranks.length, 25);
+    assert.deepEqual(
+      report.ranks.slice(0, 4).map((rank) => [rank.rankEv, rank.tiles]),
+      [
+        [1, 2],
+        [2, 2],
+        [3, 1],
+        [4, 0],
+      ]
+    );
+  });
+
+  it("serializes open bucket bounds as null", () => {
+    const builder = new EvCalibrationBuilder([1]);
+    builder.addRound([sample(1, 0.5, 0)]);
+
+    const buckets = JSON.parse(JSON.stringify(builder.build().buckets)) as unknown[];
+
+    assert.deepEqual(
+      buckets.map((bucket) => {
+        const { minEvRatio, maxEvRatio } = bucket as Record<string, unknown>;
+        return [minEvRatio, maxEvRatio];
+      }),
+      [
+        [null, 1],
+        [1, null],
+      ]
+    );
+  });
+
+  it("rejects edges that aren't ascending", () => {
+    assert.throws(() => new EvCalibrationBuilder([1, 1]), /ascending/);
+    assert.throws(() => new EvCalibrationBuilder([1.1, 1]), /ascending/);
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Dataset export rows read through the repository: tile rows, column values
+ * and the date / completion filters.
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { initLogger } from "../src/shared/logger.js";
+import {
+  initSqliteClient,
+  type SqliteClient,
+} from "../src/infrastructure/database/sqlite.client.js";
+import { SqliteRoundRepository } from "../src/infrastructure/database/sqlite.repository.js";
+import { selectExportColumns, type ExportRow } from "../src/infrastructure/export/index.js";
+import {
+  iterateExportRows,
+  type ExportFilters,
+} from "../src/application/use-cases/export-rounds.js";
+import { U64_MAX, buildBackfill, buildPostFin, buildPreFin } from "./fixtures.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe("iterateExportRows", () => {
+  let client: SqliteClient;
+  const repository = new SqliteRoundRepository();
+
+  async function exportRows(names: string[], filters: ExportFilters = {}): Promise<ExportRow[]> {
+    const rows: ExportRow[] = [];
+    for await (const row of iterateExportRows(repository, selectExportColumns(names), filters)) {
+      rows.push(row);
+    }
+    return rows;
+  }
+
+  before(async () => {
+    initLogger("error");
+    client = initSqliteClient(":memory:");
+    await client.initialize();
+
+    // * 100: complete, 101: pending (next day), 102: backfilled
+    await repository.insertPreFin(buildPreFin(100n));
+    await repository.completePostFin(buildPostFin(100n));
+    const nextDay = buildPreFin(101n);
+    await repository.insertPreFin({ ...nextDay, tsPre: nextDay.tsPre + DAY_MS });
+    await repository.insertBackfilled(buildBackfill(102n));
+  });
+
+  after(() => {
+    client.close();
+  });
+
+  it("writes one row per round and tile in round/tile order", async () => {
+    const rows = await exportRows(["round_id", "tile_index", "rng_u64", "tile_is_winner"]);
+
+    assert.equal(rows.length, 75);
+    assert.deepEqual(rows[3], {
+      round_id: 100n,
+      tile_index: 3n,
+      rng_u64: U64_MAX,
+      tile_is_winner: true,
+    });
+    assert.deepEqual(rows[25], {
+      round_id: 101n,
+      tile_index: 0n,
+      rng_u64: null,
+      tile_is_winner: null,
+    });
+  });
+
+  it("keeps completed rounds only, backfilled included", async () => {
+    const rows = await exportRows(["round_id", "backfilled"], { completedOnly: true });
+    assert.deepEqual([...new Set(rows.map((row) => row.round_id))], [100n, 102n]);
+  });
+
+  it("filters days on the pre-fin time and leaves backfilled rounds out", async () => {
+    const start = buildPreFin(100n).tsPre;
+    const rows = await exportRows(["round_id"], {
+      fromTimestamp: start,
+      toTimestamp: start + DAY_MS,
+    });
+    assert.deepEqual([...new Set(rows.map((row) => row.round_id))], [100n]);
+  });
+
+  it("narrows the scan to the date window and reads tiles of matching rounds only", async () => {
+    const start = buildPreFin(100n).tsPre;
+    const scanned: bigint[] = [];
+    const tilesRead: bigint[] = [];
+    const counting: SqliteRoundRepository = Object.create(repository);
+    counting.getRounds = (fromRoundId, toRoundId, limit) => {
+      scanned.push(fromRoundId, toRoundId);
+      return repository.getRounds(fromRoundId, toRoundId, limit);
+    };
+    counting.getTiles = (roundId) => {
+      tilesRead.push(roundId);
+      return repository.getTiles(roundId);
+    };
+
+    const columns = selectExportColumns(["round_id"]);
+    const collect = async (filters: ExportFilters): Promise<number> => {
+      let rows = 0;
+      for await (const _row of iterateExportRows(counting, columns, filters)) {
+        rows++;
+      }
+      return rows;
+    };
+
+    assert.equal(await collect({ fromTimestamp: start + DAY_MS }), 25);
+    assert.deepEqual(scanned, [101n, 101n]);
+    assert.deepEqual(tilesRead, [101n]);
+
+    // * 101 is still pending: left out without reading its tiles
+    tilesRead.length = 0;
+    assert.equal(await collect({ fromTimestamp: start + DAY_MS, completedOnly: true }), 0);
+    assert.deepEqual(tilesRead, []);
+  });
+
+  it("exports nothing for an empty date window and keeps the round ID bounds", async () => {
+    const start = buildPreFin(100n).tsPre;
+    assert.deepEqual(await exportRows(["round_id"], { toTimestamp: start }), []);
+    assert.deepEqual(
+      await exportRows(["round_id"], { fromTimestamp: start, fromRoundId: 101n, toRoundId: 102n }),
+      await exportRows(["round_id"], { fromRoundId: 101n, toRoundId: 101n })
+    );
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Round data shared by the tests.
+ */
+
+import { PublicKey } from "@solana/web3.js";
+import type {
+  BoardSnapshot,
+  RoundBackfill,
+  RoundPostFin,
+  RoundPreFin,
+  RoundRecord,
+  TileRecord,
+} from "../src/domain/entities/index.js";
+import type { RoundAccount } from "../src/infrastructure/solana/decoders/round.decoder.js";
+
+export const U64_MAX = 2n ** 64n - 1n;
+// * Above Number.MAX_SAFE_INTEGER: lost if a value goes through a JS number
+export const LARGE_LAMPORTS = 2n ** 60n + 7n;
+
+export function buildPreFin(roundId: bigint): RoundPreFin {
+  return {
+    roundId,
+    tsPre: Date.UTC(2025, 0, 1),
+    slotPre: 350_000_000n,
+    contextSlot: 349_999_999n,
+    targetSlot: 350_000_000n,
+    remainingSlots: 5,
+    boardStartSlot: 349_999_850n,
+    boardEndSlot: 350_000_005n,
+    price: { oreSol: 0.5, solUsd: 200, oreUsd: 100, fetchedAt: Date.UTC(2025, 0, 1) },
+    totalDeployed: LARGE_LAMPORTS,
+    totalMiners: 420n,
+    latencyFetchMs: 12,
+    latencyEvMs: 1,
+    miningCostPct: 3.5,
+    tiles: Array.from({ length: 25 }, (_, tileIndex) => ({
+      tileIndex,
+      deployed: LARGE_LAMPORTS + BigInt(tileIndex),
+      minersCount: 10n,
+      othersStake: LARGE_LAMPORTS,
+      evRatio: 1 - tileIndex / 100,
+      maxProfitable: 1_000_000n,
+      rankEv: tileIndex + 1,
+    })),
+  };
+}
+
+/** Series snapshot of buildPreFin's board read at `slot` */
+export function buildSnapshot(roundId: bigint, slot: bigint): BoardSnapshot {
+  const preFin = buildPreFin(roundId);
+  return {
+    roundId,
+    slot,
+    tsCapture: preFin.tsPre - 2_000,
+    remainingSlots: 10,
+    totalDeployed: preFin.totalDeployed,
+    totalMiners: preFin.totalMiners,
+    priceOreSol: preFin.price.oreSol,
+    targetSlot: 349_999_995n,
+    triggerSlot: 349_999_995n,
+    tiles: preFin.tiles,
+  };
+}
+
+export function buildPostFin(roundId: bigint): RoundPostFin {
+  return {
+    roundId,
+    tsPost: Date.UTC(2025, 0, 1, 0, 1),
+    slotHash: Buffer.alloc(32, 7),
+    rngU64: U64_MAX,
+    winningTile: 3,
+    splitTopMiner: false,
+    topMinerReward: 100_000_000_000n,
+    motherlodeTriggered: false,
+    motherlodePaid: 0n,
+    motherlodePool: LARGE_LAMPORTS,
+    numWinners: 12n,
+    totalWinnings: LARGE_LAMPORTS,
+    totalVaulted: 1_000n,
+    rentPayer: "11111111111111111111111111111111",
+    topMinerPubkey: "11111111111111111111111111111111",
+    tiles: Array.from({ length: 25 }, (_, tileIndex) => ({
+      tileIndex,
+      deployedFinal: LARGE_LAMPORTS + BigInt(tileIndex) * 2n,
+      countFinal: 11n,
+    })),
+  };
+}
+
+export function buildBackfill(roundId: bigint): RoundBackfill {
+  const { tsPost, ...outcome } = buildPostFin(roundId);
+  return { ...outcome, backfilledAt: tsPost + 86_400_000 };
+}
+
+/**
+ * Stored round as read back from the repository (completed live round).
+ */
+export function buildRoundRecord(roundId: bigint, overrides: Partial<RoundRecord> = {}): RoundRecord {
+  return {
+    roundId,
+    tsPre: Date.UTC(2025, 0, 1),
+    tsPost: Date.UTC(2025, 0, 1, 0, 1),
+    slotPre: 350_000_000n,
+    remainingSlots: 5,
+    boardStartSlot: 349_999_850n,
+    boardEndSlot: 350_000_005n,
+    priceOreSol: 0.5,
+    priceSolUsd: 200,
+    priceOreUsd: 100,
+    priceFetchedAt: Date.UTC(2025, 0, 1),
+    totalDeployed: 25_000_000_000n,
+    totalMiners: 250n,
+    latencyFetchMs: 12,
+    latencyEvMs: 1,
+    miningCostPct: 3.5,
+    slotHash: Buffer.alloc(32, 7),
+    rngU64: 0n,
+    winningTile: 3,
+    splitTopMiner: false,
+    topMinerReward: 100_000_000_000n,
+    motherlodeTriggered: false,
+    motherlodePaid: 0n,
+    motherlodePool: 0n,
+    numWinners: 10n,
+    totalWinnings: 21_600_000_000n,
+    totalVaulted: 2_400_000_000n,
+    rentPayer: "11111111111111111111111111111111",
+    topMinerPubkey: "11111111111111111111111111111111",
+    hashVerified: null,
+    backfilled: false,
+    backfilledAt: null,
+    ...overrides,
+  };
+}
+
+/**
+ * Stored tiles of a completed live round: 1 SOL deployed per tile at pre-fin and final.
+ */
+export function buildTileRecords(roundId: bigint): TileRecord[] {
+  return Array.from({ length: 25 }, (_, tileIndex) => ({
+    roundId,
+    tileIndex,
+    deployed: 1_000_000_000n,
+    minersCount: 10n,
+    othersStake: 1_000_000_000n,
+    evRatio: 1.1 - tileIndex / 100,
+    maxProfitable: 100_000_000n,
+    rankEv: tileIndex + 1,
+    deployedFinal: 1_000_000_000n,
+    countFinal: 10n,
+  }));
+}
+
+/**
+ * Finished Round account matching buildRoundRecord / buildTileRecords
+ * (25 tiles of 1 SOL, 10 miners each, 10 ORE motherlode pool).
+ */
+export function buildRoundAccount(
+  id: bigint,
+  slotHash: Buffer,
+  overrides: Partial<RoundAccount> = {}
+): RoundAccount {
+  return {
+    id,
+    deployed: new Array<bigint>(25).fill(1_000_000_000n),
+    slotHash,
+    counts: new Array<bigint>(25).fill(10n),
+    expiresAt: 350_216_005n,
+    motherlode: 10_000_000_000n,
+    rentPayer: PublicKey.default,
+    topMiner: PublicKey.default,
+    topMinerReward: 100_000_000_000n,
+    totalDeployed: 25_000_000_000n,
+    totalVaulted: 2_400_000_000n,
+    totalWinnings: 21_600_000_000n,
+    ...overrides,
+  };
+}
+
+/**
+ * Slot hash whose four u64 chunks XOR to `rng` (other chunks zero).
+ */
+export function slotHashOf(rng: bigint): Buffer {
+  const slotHash = Buffer.alloc(32);
+  slotHash.writeBigUInt64LE(rng, 0);
+  return slotHash;
+}
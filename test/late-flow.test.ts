@@ -0,0 +1,110 @@
+/**
+ * Late flow per round and over a range, through the query routes
+ * (including the /stats/late-flow range cap).
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { initLogger } from "../src/shared/logger.js";
+import {
+  initSqliteClient,
+  type SqliteClient,
+} from "../src/infrastructure/database/sqlite.client.js";
+import { SqliteRoundRepository } from "../src/infrastructure/database/sqlite.repository.js";
+import type { LateFlowReport, RoundLateFlow } from "../src/domain/entities/index.js";
+import { HttpError } from "../src/presentation/http/http.server.js";
+import { registerQueryRoutes } from "../src/presentation/http/query.routes.js";
+import { LARGE_LAMPORTS, buildBackfill, buildPostFin, buildPreFin } from "./fixtures.js";
+import { RouteRecorder } from "./route-recorder.js";
+
+describe("late flow", () => {
+  let client: SqliteClient;
+  const repository = new SqliteRoundRepository();
+  let routes: RouteRecorder;
+
+  async function request(
+    path: string,
+    params: Record<string, string>,
+    query = ""
+  ): Promise<unknown> {
+    const handler = routes.handlers.get(path)!;
+    const response = await handler({ params, query: new URLSearchParams(query) });
+    assert.equal(response.status, 200);
+    return response.body;
+  }
+
+  before(async () => {
+    initLogger("error");
+    client = initSqliteClient(":memory:");
+    await client.initialize();
+    routes = new RouteRecorder();
+    registerQueryRoutes(routes, repository);
+
+    // * 100: complete (tile i gets i late lamports, 1 late miner), 101: pending, 102: backfilled
+    await repository.insertPreFin(buildPreFin(100n));
+    await repository.completePostFin(buildPostFin(100n));
+    await repository.insertPreFin(buildPreFin(101n));
+    await repository.insertBackfilled(buildBackfill(102n));
+  });
+
+  after(() => {
+    client.close();
+  });
+
+  it("computes the late deposits of a round per tile", async () => {
+    const lateFlow = (await request("/rounds/:id/late-flow", { id: "100" })) as RoundLateFlow;
+
+    assert.equal(lateFlow.remainingSlots, 5);
+    assert.equal(lateFlow.lateDeployed, 300n);
+    assert.equal(lateFlow.lateMiners, 25n);
+    assert.equal(lateFlow.lateShare, 300 / Number(25n * LARGE_LAMPORTS + 600n));
+
+    assert.equal(lateFlow.tiles.length, 25);
+    const tile = lateFlow.tiles[24];
+    assert.equal(tile.lateDeployed, 24n);
+    assert.equal(tile.lateMiners, 1n);
+    assert.equal(tile.lateShare, 24 / Number(LARGE_LAMPORTS + 48n));
+    assert.equal(tile.rankEv, 25);
+    assert.ok(tile.finalRankEv >= 1 && tile.finalRankEv <= 25);
+  });
+
+  it("has no late flow for pending, backfilled or missing rounds", async () => {
+    for (const id of ["101", "102", "999"]) {
+      await assert.rejects(
+        request("/rounds/:id/late-flow", { id }),
+        (error: unknown) => error instanceof HttpError && error.status === 404
+      );
+    }
+  });
+
+  it("aggregates the latest rounds by tile and pre-fin rank", async () => {
+    const report = (await request("/stats/late-flow", {})) as LateFlowReport;
+
+    assert.equal(report.rounds, 1);
+    assert.equal(report.avgRemainingSlots, 5);
+    assert.equal(report.avgLateDeployed, 300);
+    assert.equal(report.byTile[24].avgLateDeployed, 24);
+    assert.equal(report.byTile[24].shareOfLateFlow, 24 / 300);
+    assert.equal(report.byRank[0].rankEv, 1);
+    assert.equal(report.byRank[0].avgLateDeployed, 0);
+  });
+
+  it("caps /stats/late-flow ranges at 1000 rounds", async () => {
+    const report = (await request("/stats/late-flow", {}, "from=1&to=1000")) as LateFlowReport;
+    assert.equal(report.rounds, 1);
+
+    // * Without from, the range ends at `to` and spans the cap
+    const latest = (await request("/stats/late-flow", {}, "to=1099")) as LateFlowReport;
+    assert.equal(latest.rounds, 1);
+    const beyond = (await request("/stats/late-flow", {}, "to=1100")) as LateFlowReport;
+    assert.equal(beyond.rounds, 0);
+
+    for (const query of ["from=1&to=1001", "from=0&to=1000", "from=200&to=100"]) {
+      await assert.rejects(
+        request("/stats/late-flow", {}, query),
+        (error: unknown) => error instanceof HttpError && error.status === 400,
+        query
+      );
+    }
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Miner account decoding from raw bytes, and a watched miner's round rewards.
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { PublicKey } from "@solana/web3.js";
+import {
+  decodeMinerAccount,
+  type MinerAccount,
+} from "../src/infrastructure/solana/decoders/miner.decoder.js";
+import { computeMinerRound } from "../src/application/services/miner-rewards.js";
+import { SPLIT_ADDRESS } from "../src/infrastructure/solana/constants.js";
+import { LARGE_LAMPORTS, U64_MAX, buildRoundAccount, slotHashOf } from "./fixtures.js";
+
+const MINER_ACCOUNT_SIZE = 536;
+const AUTHORITY = new PublicKey(Buffer.alloc(32, 9));
+const TS_CAPTURE = Date.UTC(2025, 0, 1, 0, 1);
+
+/**
+ * Raw Miner account: tile i deployed i + 1 lamports (tile 24: 2^60 + 7),
+ * cumulative 1000 + i, distinct values in every scalar field.
+ */
+function buildMinerAccountData(): Buffer {
+  const data = Buffer.alloc(MINER_ACCOUNT_SIZE);
+  data.fill(0xaa, 0, 8);
+  AUTHORITY.toBuffer().copy(data, 8);
+  for (let i = 0; i < 25; i++) {
+    data.writeBigUInt64LE(i === 24 ? LARGE_LAMPORTS : BigInt(i + 1), 40 + i * 8);
+    data.writeBigUInt64LE(1_000n + BigInt(i), 240 + i * 8);
+  }
+  data.writeBigUInt64LE(5_000n, 440);
+  data.writeBigUInt64LE(41n, 448);
+  data.writeBigInt64LE(-1n, 456);
+  data.writeBigInt64LE(1_735_689_600n, 464);
+  // * rewards_factor (Numeric, 472..488): skipped by the decoder
+  data.fill(0xff, 472, 488);
+  data.writeBigUInt64LE(2_000_000n, 488);
+  data.writeBigUInt64LE(3_000_000n, 496);
+  data.writeBigUInt64LE(4_000_000n, 504);
+  data.writeBigUInt64LE(42n, 512);
+  data.writeBigUInt64LE(U64_MAX, 520);
+  data.writeBigUInt64LE(6_000_000n, 528);
+  return data;
+}
+
+function buildMiner(
+  roundId: bigint,
+  deployed: Record<number, bigint>,
+  cumulative: Record<number, bigint> = {}
+): MinerAccount {
+  const miner = decodeMinerAccount(buildMinerAccountData());
+  return {
+    ...miner,
+    roundId,
+    deployed: Array.from({ length: 25 }, (_, i) => deployed[i] ?? 0n),
+    cumulative: miner.cumulative.map((value, i) => cumulative[i] ?? value),
+  };
+}
+
+describe("decodeMinerAccount", () => {
+  it("decodes every field at its layout offset", () => {
+    const miner = decodeMinerAccount(buildMinerAccountData());
+
+    assert.ok(miner.authority.equals(AUTHORITY));
+    assert.equal(miner.deployed.length, 25);
+    assert.equal(miner.deployed[0], 1n);
+    assert.equal(miner.deployed[23], 24n);
+    assert.equal(miner.deployed[24], LARGE_LAMPORTS);
+    assert.equal(miner.cumulative.length, 25);
+    assert.equal(miner.cumulative[0], 1_000n);
+    assert.equal(miner.cumulative[24], 1_024n);
+    assert.equal(miner.checkpointFee, 5_000n);
+    assert.equal(miner.checkpointId, 41n);
+    assert.equal(miner.lastClaimOreAt, -1n);
+    assert.equal(miner.lastClaimSolAt, 1_735_689_600n);
+    assert.equal(miner.rewardsSol, 2_000_000n);
+    assert.equal(miner.rewardsOre, 3_000_000n);
+    assert.equal(miner.refinedOre, 4_000_000n);
+    assert.equal(miner.roundId, 42n);
+    assert.equal(miner.lifetimeRewardsSol, U64_MAX);
+    assert.equal(miner.lifetimeRewardsOre, 6_000_000n);
+  });
+
+  it("rejects truncated account data", () => {
+    assert.throws(
+      () => decodeMinerAccount(buildMinerAccountData().subarray(0, MINER_ACCOUNT_SIZE - 1)),
+      /too small: 535 < 536/
+    );
+  });
+});
+
+describe("computeMinerRound", () => {
+  // * 28: tile 3 wins, no motherlode. 25 tiles of 1 SOL, 21.6 SOL of winnings, 100 ORE top reward
+  const round = buildRoundAccount(42n, slotHashOf(28n), { topMiner: SPLIT_ADDRESS });
+
+  it("shares winnings and a split top miner reward pro rata on the winning tile", () => {
+    const miner = buildMiner(42n, { 3: 100_000_000n, 5: 200_000_000n });
+
+    assert.deepEqual(computeMinerRound(miner, round, TS_CAPTURE), {
+      roundId: 42n,
+      authority: AUTHORITY.toBase58(),
+      tsCapture: TS_CAPTURE,
+      totalDeployed: 300_000_000n,
+      deployedWinning: 100_000_000n,
+      // * 0.1 SOL back + 10% of 21.6 SOL
+      rewardsSol: 2_260_000_000n,
+      // * 10% of 100 ORE
+      rewardsOre: 10_000_000_000n,
+      isTopMiner: false,
+      tiles: [
+        { tileIndex: 3, deployed: 100_000_000n },
+        { tileIndex: 5, deployed: 200_000_000n },
+      ],
+    });
+  });
+
+  it("picks the top miner by its cumulative range on the winning tile", () => {
+    // * Not split: rng 28 reversed % 1 SOL on tile 3 = 123_964_416
+    const unsplit = buildRoundAccount(42n, slotHashOf(28n));
+    const topMiner = (cumulative: bigint): [bigint, boolean] => {
+      const miner = buildMiner(42n, { 3: 100_000_000n }, { 3: cumulative });
+      const result = computeMinerRound(miner, unsplit, TS_CAPTURE);
+      return [result.rewardsOre, result.isTopMiner];
+    };
+
+    // * [cumulative, cumulative + 0.1 SOL) holds the sample
+    assert.deepEqual(topMiner(123_964_416n), [100_000_000_000n, true]);
+    assert.deepEqual(topMiner(23_964_417n), [100_000_000_000n, true]);
+    // * Range ends right before the sample, or starts right after it
+    assert.deepEqual(topMiner(23_964_416n), [0n, false]);
+    assert.deepEqual(topMiner(123_964_417n), [0n, false]);
+  });
+
+  it("adds the motherlode share when the round hits it", () => {
+    // * 569: tile 19 wins, motherlode hit (10 ORE pool)
+    const motherlodeRound = buildRoundAccount(42n, slotHashOf(569n));
+    const miner = buildMiner(42n, { 19: 100_000_000n });
+
+    assert.equal(computeMinerRound(miner, motherlodeRound, TS_CAPTURE).rewardsOre, 1_000_000_000n);
+  });
+
+  it("earns nothing off the winning tile", () => {
+    const result = computeMinerRound(buildMiner(42n, { 5: 200_000_000n }), round, TS_CAPTURE);
+
+    assert.equal(result.deployedWinning, 0n);
+    assert.equal(result.rewardsSol, 0n);
+    assert.equal(result.rewardsOre, 0n);
+  });
+
+  it("rejects a miner account holding another round", () => {
+    assert.throws(
+      () => computeMinerRound(buildMiner(43n, { 3: 1n }), round, TS_CAPTURE),
+      /Miner round mismatch: miner=43, round=42/
+    );
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * PostgresRoundRepository round trips against an in-process PostgreSQL (PGlite):
+ * migrations, u64 NUMERIC values above 2^53, pre-fin/post-fin and gap detection.
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { QueryResultRow } from "pg";
+import { PGlite, types } from "@electric-sql/pglite";
+import { initLogger } from "../src/shared/logger.js";
+import {
+  initPostgresClient,
+  type PostgresClient,
+  type PostgresPool,
+  type PostgresQueryable,
+} from "../src/infrastructure/database/postgres.client.js";
+import { PostgresRoundRepository } from "../src/infrastructure/database/postgres.repository.js";
+import {
+  LARGE_LAMPORTS,
+  U64_MAX,
+  buildBackfill,
+  buildPostFin,
+  buildPreFin,
+  buildSnapshot,
+} from "./fixtures.js";
+
+/**
+ * Pool backed by an in-process PGlite (real PostgreSQL in WASM).
+ * Results are parsed like node-postgres does (int8/numeric as strings, bytea as Buffer)
+ * and bigint parameters are sent as decimal text.
+ */
+function createPglitePool(): PostgresPool {
+  const db = new PGlite({
+    parsers: {
+      [types.INT8]: (value: string) => value,
+      [types.NUMERIC]: (value: string) => value,
+      [types.BYTEA]: (value: string) => Buffer.from(value.slice(2), "hex"),
+    },
+  });
+
+  const query: PostgresQueryable["query"] = async <R extends QueryResultRow>(
+    text: string,
+    params: unknown[] = []
+  ) => {
+    if (params.length === 0) {
+      // * Migrations hold several statements: simple protocol
+      const results = await db.exec(text);
+      const last = results[results.length - 1];
+      return { rows: (last?.rows ?? []) as R[], rowCount: last?.affectedRows ?? 0 };
+    }
+    const values = params.map((value) => (typeof value === "bigint" ? value.toString() : value));
+    const result = await db.query<R>(text, values);
+    return { rows: result.rows, rowCount: result.affectedRows ?? 0 };
+  };
+
+  return {
+    query,
+    connect: async () => ({ query, release: () => undefined }),
+    on: () => undefined,
+    end: () => db.close(),
+  };
+}
+
+describe("PostgresRoundRepository", () => {
+  let client: PostgresClient;
+  let repository: PostgresRoundRepository;
+
+  before(async () => {
+    initLogger("error");
+    client = initPostgresClient("postgres://localhost/ore-test", createPglitePool);
+    await client.initialize();
+    repository = new PostgresRoundRepository();
+  });
+
+  after(async () => {
+    await client.close();
+  });
+
+  it("stores a pre-fin round with u64 values above 2^53", async () => {
+    await repository.insertPreFin(buildPreFin(100n));
+
+    const round = await repository.getRound(100n);
+    assert.ok(round);
+    assert.equal(round.totalDeployed, LARGE_LAMPORTS);
+    assert.equal(round.slotPre, 350_000_000n);
+    assert.equal(round.tsPost, null);
+    assert.equal(round.backfilled, false);
+
+    const tiles = await repository.getTiles(100n);
+    assert.equal(tiles.length, 25);
+    assert.equal(tiles[24].deployed, LARGE_LAMPORTS + 24n);
+    assert.equal(tiles[0].rankEv, 1);
+    assert.equal(tiles[0].deployedFinal, null);
+
+    assert.deepEqual(await repository.getPendingRoundIds(), [100n]);
+  });
+
+  it("completes the round with post-fin data", async () => {
+    await repository.completePostFin(buildPostFin(100n));
+
+    const round = await repository.getRound(100n);
+    assert.ok(round);
+    assert.equal(round.rngU64, U64_MAX);
+    assert.equal(round.motherlodePool, LARGE_LAMPORTS);
+    assert.equal(round.totalWinnings, LARGE_LAMPORTS);
+    assert.equal(round.winningTile, 3);
+    assert.deepEqual(round.slotHash, Buffer.alloc(32, 7));
+
+    const tiles = await repository.getTiles(100n);
+    assert.equal(tiles[24].deployedFinal, LARGE_LAMPORTS + 48n);
+    assert.equal(tiles[24].countFinal, 11n);
+
+    assert.deepEqual(await repository.getPendingRoundIds(), []);
+  });
+
+  it("classifies missing, failed and pending gaps", async () => {
+    // * 100: complete, 101-102: missing, 103: failed, 104: pending, 105: backfilled
+    await repository.recordFailure(103n, "pre-fin", "RPC timeout");
+    await repository.insertPreFin(buildPreFin(104n));
+    await repository.insertBackfilled(buildBackfill(105n));
+
+    assert.deepEqual(await repository.findGaps(), [
+      { fromRoundId: 101n, toRoundId: 102n, kind: "missing" },
+      { fromRoundId: 103n, toRoundId: 103n, kind: "failed" },
+      { fromRoundId: 104n, toRoundId: 104n, kind: "pending" },
+    ]);
+
+    const backfilled = await repository.getRound(105n);
+    assert.ok(backfilled);
+    assert.equal(backfilled.backfilled, true);
+    assert.equal(backfilled.tsPre, null);
+    assert.equal(backfilled.tsPost, null);
+    assert.equal(backfilled.backfilledAt, buildBackfill(105n).backfilledAt);
+    assert.equal(backfilled.rngU64, U64_MAX);
+    assert.deepEqual(await repository.getPendingRoundIds(), [104n]);
+  });
+
+  it("keys the Phase 2 snapshot on the round state's slot, replacing a series snapshot there", async () => {
+    await repository.insertSnapshot(buildSnapshot(110n, 349_999_990n));
+    await repository.insertSnapshot(buildSnapshot(110n, 349_999_999n));
+    await repository.insertPreFin(buildPreFin(110n));
+
+    const snapshots = await repository.getSnapshots(110n);
+    assert.deepEqual(
+      snapshots.map((snapshot) => [snapshot.slot, snapshot.triggerSlot, snapshot.tiles.length]),
+      [
+        [349_999_990n, 349_999_995n, 25],
+        [349_999_999n, 350_000_000n, 25],
+      ]
+    );
+
+    // * A later snapshot at a stored slot is rejected, not silently dropped
+    await assert.rejects(repository.insertSnapshot(buildSnapshot(110n, 349_999_999n)));
+  });
+
+  it("finds the round IDs collected in a time window", async () => {
+    const tsPre = buildPreFin(100n).tsPre;
+
+    // * 100, 104 and 110 share the fixture pre-fin time, 105 is backfilled
+    assert.deepEqual(await repository.getRoundIdRangeByTime(tsPre, tsPre + 1), {
+      fromRoundId: 100n,
+      toRoundId: 110n,
+    });
+    assert.equal(await repository.getRoundIdRangeByTime(undefined, tsPre), null);
+  });
+});
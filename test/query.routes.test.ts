@@ -0,0 +1,77 @@
+/**
+ * Round ID and range validation of the query routes.
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { initLogger } from "../src/shared/logger.js";
+import {
+  initSqliteClient,
+  type SqliteClient,
+} from "../src/infrastructure/database/sqlite.client.js";
+import { SqliteRoundRepository } from "../src/infrastructure/database/sqlite.repository.js";
+import { HttpError } from "../src/presentation/http/http.server.js";
+import { registerQueryRoutes } from "../src/presentation/http/query.routes.js";
+import { buildPostFin, buildPreFin } from "./fixtures.js";
+import { RouteRecorder } from "./route-recorder.js";
+
+const I64_MAX = "9223372036854775807";
+
+describe("query routes", () => {
+  let client: SqliteClient;
+  let routes: RouteRecorder;
+
+  async function status(path: string, params: Record<string, string>, query = ""): Promise<number> {
+    const handler = routes.handlers.get(path)!;
+    try {
+      const response = await handler({ params, query: new URLSearchParams(query) });
+      return response.status;
+    } catch (error) {
+      assert.ok(error instanceof HttpError, String(error));
+      return error.status;
+    }
+  }
+
+  before(async () => {
+    initLogger("error");
+    client = initSqliteClient(":memory:");
+    await client.initialize();
+    routes = new RouteRecorder();
+    const repository = new SqliteRoundRepository();
+    registerQueryRoutes(routes, repository);
+
+    await repository.insertPreFin(buildPreFin(100n));
+    await repository.completePostFin(buildPostFin(100n));
+  });
+
+  after(() => {
+    client.close();
+  });
+
+  it("accepts round IDs up to the i64 max", async () => {
+    assert.equal(await status("/rounds/:id", { id: "100" }), 200);
+    assert.equal(await status("/rounds/:id", { id: I64_MAX }), 404);
+    assert.equal(await status("/rounds", {}, `from=0&to=${I64_MAX}`), 200);
+  });
+
+  it("answers 400 on round IDs the database can't bind", async () => {
+    for (const id of ["9223372036854775808", "18446744073709551616", "-1", "1e3", "abc"]) {
+      assert.equal(await status("/rounds/:id", { id }), 400, id);
+      assert.equal(await status("/rounds/:id/tiles", { id }), 400, id);
+    }
+    assert.equal(await status("/rounds", {}, "from=9223372036854775808"), 400);
+    assert.equal(await status("/stats/tiles", {}, "to=9223372036854775808"), 400);
+  });
+
+  it("lists no rounds past the latest one when only `from` is given", async () => {
+    const handler = routes.handlers.get("/rounds")!;
+    const response = await handler({ params: {}, query: new URLSearchParams("from=101") });
+
+    assert.deepEqual(response, { status: 200, body: { rounds: [] } });
+  });
+
+  it("answers 400 on an explicit range with from > to", async () => {
+    assert.equal(await status("/rounds", {}, "from=101&to=100"), 400);
+    assert.equal(await status("/rounds", {}, "from=100&to=100"), 200);
+  });
+});
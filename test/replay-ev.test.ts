@@ -0,0 +1,104 @@
+/**
+ * EV replays over stored rounds: recomputed tiles in ev_replay_tiles, skipped
+ * backfilled rounds and re-runs under the same name.
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { initLogger } from "../src/shared/logger.js";
+import {
+  initSqliteClient,
+  type SqliteClient,
+} from "../src/infrastructure/database/sqlite.client.js";
+import { SqliteRoundRepository } from "../src/infrastructure/database/sqlite.repository.js";
+import { DEFAULT_EV_PARAMETERS } from "../src/application/services/ev-calculator.js";
+import { replayEv } from "../src/application/use-cases/replay-ev.js";
+import { buildBackfill, buildPostFin, buildPreFin } from "./fixtures.js";
+
+interface ReplayTileRow {
+  round_id: number;
+  tile_index: number;
+  ev_ratio: number;
+  rank_ev: number;
+}
+
+describe("replayEv", () => {
+  let client: SqliteClient;
+  const repository = new SqliteRoundRepository();
+
+  function replayTiles(name: string): ReplayTileRow[] {
+    return client
+      .getDb()
+      .prepare(
+        `SELECT round_id, tile_index, ev_ratio, rank_ev FROM ev_replay_tiles
+        WHERE replay_name = ? ORDER BY round_id, tile_index`
+      )
+      .all(name) as ReplayTileRow[];
+  }
+
+  before(async () => {
+    initLogger("error");
+    client = initSqliteClient(":memory:");
+    await client.initialize();
+
+    // * 100, 101: complete, 102: backfilled (no pre-fin board to replay)
+    for (const roundId of [100n, 101n]) {
+      await repository.insertPreFin(buildPreFin(roundId));
+      await repository.completePostFin(buildPostFin(roundId));
+    }
+    await repository.insertBackfilled(buildBackfill(102n));
+  });
+
+  after(() => {
+    client.close();
+  });
+
+  it("stores the recomputed and ranked tiles of every round with a pre-fin board", async () => {
+    const result = await replayEv(
+      { name: "baseline", parameters: DEFAULT_EV_PARAMETERS },
+      { repository },
+      { batchSize: 2 }
+    );
+
+    assert.deepEqual(result, { scanned: 3, replayed: 2, skippedNoPreFin: 1 });
+    const rows = replayTiles("baseline");
+    assert.equal(rows.length, 50);
+    for (const roundId of [100, 101]) {
+      const tiles = rows.filter((row) => row.round_id === roundId);
+      assert.deepEqual(
+        tiles.map((row) => row.tile_index),
+        Array.from({ length: 25 }, (_, i) => i)
+      );
+      assert.deepEqual(
+        tiles.map((row) => row.rank_ev).sort((a, b) => a - b),
+        Array.from({ length: 25 }, (_, i) => i + 1)
+      );
+    }
+  });
+
+  it("replaces the rows of an earlier replay with the same name", async () => {
+    const baseline = replayTiles("baseline").filter((row) => row.round_id === 101);
+
+    const result = await replayEv(
+      {
+        name: "baseline",
+        parameters: { ...DEFAULT_EV_PARAMETERS, feeFactor: 0.8 },
+        fromRoundId: 101n,
+        toRoundId: 101n,
+      },
+      { repository }
+    );
+
+    assert.deepEqual(result, { scanned: 1, replayed: 1, skippedNoPreFin: 0 });
+    const rows = replayTiles("baseline");
+    assert.deepEqual([...new Set(rows.map((row) => row.round_id))], [101]);
+    // * A higher fee lowers every tile's EV
+    assert.ok(rows.every((row, i) => row.ev_ratio < baseline[i].ev_ratio));
+
+    const run = client
+      .getDb()
+      .prepare(`SELECT fee_factor FROM ev_replays WHERE name = ?`)
+      .get("baseline") as { fee_factor: number };
+    assert.equal(run.fee_factor, 0.8);
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ * Round outcome derived from a finished Round account (live post-fin and backfill).
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { buildRoundOutcome } from "../src/application/use-cases/complete-post-fin.js";
+import { SPLIT_ADDRESS } from "../src/infrastructure/solana/constants.js";
+import { buildRoundAccount, slotHashOf } from "./fixtures.js";
+
+describe("buildRoundOutcome", () => {
+  it("pays the motherlode pool out when the round hits it", () => {
+    // * 569: tile 19, motherlode hit
+    const outcome = buildRoundOutcome(
+      1n,
+      buildRoundAccount(1n, slotHashOf(569n), { topMiner: SPLIT_ADDRESS })
+    );
+
+    assert.equal(outcome.rngU64, 569n);
+    assert.equal(outcome.winningTile, 19);
+    assert.equal(outcome.splitTopMiner, true);
+    assert.equal(outcome.motherlodeTriggered, true);
+    assert.equal(outcome.motherlodePaid, 10_000_000_000n);
+    assert.equal(outcome.motherlodePool, 10_000_000_000n);
+    assert.equal(outcome.numWinners, 10n);
+    assert.equal(outcome.tiles.length, 25);
+  });
+
+  it("keeps the pool without a payout when the motherlode isn't hit", () => {
+    // * 28: tile 3, no motherlode
+    const outcome = buildRoundOutcome(2n, buildRoundAccount(2n, slotHashOf(28n)));
+
+    assert.equal(outcome.winningTile, 3);
+    assert.equal(outcome.splitTopMiner, false);
+    assert.equal(outcome.motherlodeTriggered, false);
+    assert.equal(outcome.motherlodePaid, 0n);
+    assert.equal(outcome.motherlodePool, 10_000_000_000n);
+  });
+});
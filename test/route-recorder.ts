@@ -0,0 +1,18 @@
+/**
+ * HttpServer that records its routes instead of serving them.
+ */
+
+import { HttpServer, type RouteHandler } from "../src/presentation/http/http.server.js";
+
+export class RouteRecorder extends HttpServer {
+  readonly handlers = new Map<string, RouteHandler>();
+
+  constructor() {
+    super(0, "127.0.0.1");
+  }
+
+  override get(path: string, handler: RouteHandler): this {
+    this.handlers.set(path, handler);
+    return this;
+  }
+}
@@ -0,0 +1,202 @@
+/**
+ * RpcPool ranking (latency EWMA, error rate, cooldown) and raced reads,
+ * with endpoints answering on a mocked clock.
+ */
+
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { Connection } from "@solana/web3.js";
+import { initLogger } from "../src/shared/logger.js";
+import { RpcPool } from "../src/infrastructure/solana/rpc-pool.js";
+
+interface MockResponse {
+  latencyMs: number;
+  /** Context slot of the response */
+  slot?: number;
+  fail?: boolean;
+}
+
+interface MockResult {
+  context: { slot: number };
+  /** Host of the endpoint that answered */
+  value: string;
+}
+
+function createPool(hosts: string[]): RpcPool {
+  return new RpcPool(
+    hosts.map((host) => ({ url: `http://${host}`, connection: new Connection(`http://${host}`) }))
+  );
+}
+
+/**
+ * Request answered by each endpoint after its latency, recording the endpoints called.
+ */
+function respond(
+  responses: Record<string, MockResponse>,
+  called: string[] = []
+): (connection: Connection) => Promise<MockResult> {
+  return (connection) => {
+    const host = new URL(connection.rpcEndpoint).host;
+    const response = responses[host];
+    called.push(host);
+    return new Promise((resolve, reject) => {
+      setTimeout(() => {
+        if (response.fail) {
+          reject(new Error(`${host} unavailable`));
+        } else {
+          resolve({ context: { slot: response.slot ?? 100 }, value: host });
+        }
+      }, response.latencyMs);
+    });
+  };
+}
+
+/**
+ * Advance the mocked clock to each time (ms from now), letting responses settle in between.
+ */
+async function elapse(...timesMs: number[]): Promise<void> {
+  let elapsed = 0;
+  for (const time of [...new Set(timesMs)].sort((a, b) => a - b)) {
+    mock.timers.tick(time - elapsed);
+    elapsed = time;
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+}
+
+function ranking(pool: RpcPool): string[] {
+  return pool.getStatus().map((status) => status.endpoint);
+}
+
+describe("RpcPool", () => {
+  beforeEach(() => {
+    initLogger("error");
+    mock.timers.enable({ apis: ["setTimeout", "Date"], now: 1_000_000 });
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+  });
+
+  it("ranks endpoints by their latency EWMA", async () => {
+    const pool = createPool(["a.test", "b.test"]);
+    const race = pool.race(
+      "getSlot",
+      respond({
+        "a.test": { latencyMs: 100 },
+        "b.test": { latencyMs: 50 },
+      })
+    );
+    await elapse(50, 100);
+    assert.equal((await race).value, "b.test");
+    assert.deepEqual(ranking(pool), ["b.test", "a.test"]);
+
+    // * One slow response only moves the average by 20% of the difference
+    const slowB = respond({ "b.test": { latencyMs: 150 } });
+    for (const expectedLatencyMs of [70, 86, 99]) {
+      const request = pool.request("getSlot", slowB);
+      await elapse(150);
+      await request;
+      assert.equal(pool.getStatus()[0].latencyMs, expectedLatencyMs);
+      assert.deepEqual(ranking(pool), ["b.test", "a.test"]);
+    }
+
+    const request = pool.request("getSlot", slowB);
+    await elapse(150);
+    await request;
+    assert.deepEqual(ranking(pool), ["a.test", "b.test"]);
+    assert.equal(pool.getStatus()[1].latencyMs, 109);
+  });
+
+  it("ranks unmeasured endpoints as the slowest measured one, in configured order", async () => {
+    const pool = createPool(["a.test", "b.test", "c.test"]);
+    assert.deepEqual(ranking(pool), ["a.test", "b.test", "c.test"]);
+    assert.deepEqual(pool.getStatus().map((status) => status.latencyMs), [null, null, null]);
+
+    const race = pool.race(
+      "getSlot",
+      respond({
+        "a.test": { latencyMs: 300 },
+        "b.test": { latencyMs: 100 },
+      })
+    );
+    await elapse(100, 300);
+    await race;
+
+    // * c.test was never tried: it ties with the slowest (a.test) and stays behind it
+    const status = pool.getStatus();
+    assert.deepEqual(ranking(pool), ["b.test", "a.test", "c.test"]);
+    assert.equal(status[2].latencyMs, null);
+    assert.equal(status[2].score, 300);
+  });
+
+  it("cools an endpoint down for 30s after 3 consecutive failures", async () => {
+    const pool = createPool(["a.test", "b.test"]);
+    const race = pool.race(
+      "getSlot",
+      respond({
+        "a.test": { latencyMs: 10 },
+        "b.test": { latencyMs: 2_000 },
+      })
+    );
+    await elapse(10, 2_000);
+    await race;
+
+    const failingA = { "a.test": { latencyMs: 0, fail: true }, "b.test": { latencyMs: 2_000 } };
+    for (let failures = 1; failures <= 3; failures++) {
+      const called: string[] = [];
+      const request = pool.request("getSlot", respond(failingA, called));
+      await elapse(0, 2_000);
+      assert.equal((await request).value, "b.test");
+      assert.deepEqual(called, ["a.test", "b.test"]);
+      if (failures < 3) {
+        assert.deepEqual(ranking(pool), ["a.test", "b.test"]);
+      }
+    }
+
+    // * Still the better score despite its error rate, but only tried last while cooling down
+    const cooling = pool.getStatus().find((status) => status.endpoint === "a.test")!;
+    assert.equal(cooling.coolingDown, true);
+    assert.ok(cooling.score < 2_000);
+    assert.deepEqual(ranking(pool), ["b.test", "a.test"]);
+
+    const called: string[] = [];
+    const request = pool.request("getSlot", respond(failingA, called));
+    await elapse(2_000);
+    await request;
+    assert.deepEqual(called, ["b.test"]);
+
+    mock.timers.tick(30_000);
+    assert.deepEqual(ranking(pool), ["a.test", "b.test"]);
+    assert.equal(pool.getStatus()[0].coolingDown, false);
+  });
+
+  it("lets no response behind the preferred context slot win a race", async () => {
+    const pool = createPool(["a.test", "b.test"]);
+    const race = pool.race(
+      "getAccountInfo",
+      respond({
+        "a.test": { latencyMs: 10, slot: 100 },
+        "b.test": { latencyMs: 50, slot: 105 },
+      }),
+      2,
+      105
+    );
+    await elapse(10, 50);
+    assert.deepEqual(await race, { context: { slot: 105 }, value: "b.test" });
+  });
+
+  it("returns the freshest response when no contender reaches the preferred slot", async () => {
+    const pool = createPool(["a.test", "b.test"]);
+    const race = pool.race(
+      "getAccountInfo",
+      respond({
+        "a.test": { latencyMs: 10, slot: 100 },
+        "b.test": { latencyMs: 50, slot: 102 },
+      }),
+      2,
+      105
+    );
+    await elapse(10, 50);
+    assert.deepEqual(await race, { context: { slot: 102 }, value: "b.test" });
+  });
+});
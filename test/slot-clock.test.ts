@@ -0,0 +1,71 @@
+/**
+ * SlotClock slot duration estimate: nominal fallback, bounds and sample window.
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { SlotClock } from "../src/infrastructure/solana/slot-clock.js";
+
+const START_AT = 1_700_000_000_000;
+
+/**
+ * Record `count` consecutive slots `slotMs` apart, after the clock's last sample.
+ */
+function recordSlots(clock: SlotClock, count: number, slotMs: number): void {
+  const { lastSlot, lastSlotAt } = clock.getStatus();
+  const fromSlot = lastSlot === null ? 1_000n : lastSlot + 1n;
+  const fromAt = lastSlotAt === null ? START_AT : lastSlotAt + slotMs;
+  for (let index = 0; index < count; index++) {
+    clock.record(fromSlot + BigInt(index), fromAt + index * slotMs);
+  }
+}
+
+describe("SlotClock", () => {
+  it("uses the nominal 400ms until 10 notifications were seen", () => {
+    const clock = new SlotClock();
+    assert.equal(clock.estimateSlotTime(1_000n), null);
+
+    recordSlots(clock, 9, 300);
+    assert.equal(clock.getSlotDurationMs(), 400);
+
+    recordSlots(clock, 1, 300);
+    assert.equal(clock.getSlotDurationMs(), 300);
+    assert.equal(clock.estimateSlotTime(1_019n), START_AT + 9 * 300 + 10 * 300);
+  });
+
+  it("ignores notifications that are not a new highest slot", () => {
+    const clock = new SlotClock();
+    recordSlots(clock, 10, 400);
+    clock.record(1_005n, START_AT + 60_000);
+    clock.record(1_009n, START_AT + 60_000);
+    assert.equal(clock.getStatus().samples, 10);
+    assert.equal(clock.getSlotDurationMs(), 400);
+  });
+
+  it("bounds the estimate to 250-1000ms", () => {
+    const fast = new SlotClock();
+    recordSlots(fast, 20, 100);
+    assert.equal(fast.getSlotDurationMs(), 250);
+
+    const slow = new SlotClock();
+    recordSlots(slow, 20, 2_000);
+    assert.equal(slow.getSlotDurationMs(), 1_000);
+  });
+
+  it("averages over the last 150 notifications only", () => {
+    const clock = new SlotClock();
+    recordSlots(clock, 50, 600);
+    recordSlots(clock, 100, 300);
+    assert.equal(clock.getStatus().samples, 150);
+    assert.ok(clock.getSlotDurationMs() > 300);
+
+    // * The last 600ms gap stays in the window until the 49th slot is evicted
+    recordSlots(clock, 48, 300);
+    assert.equal(clock.getStatus().samples, 150);
+    assert.ok(clock.getSlotDurationMs() > 300);
+
+    recordSlots(clock, 1, 300);
+    assert.equal(clock.getStatus().samples, 150);
+    assert.equal(clock.getSlotDurationMs(), 300);
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * SolanaConnection WebSocket watchdog against a local mock RPC server whose
+ * WebSocket accepts the upgrade but never sends a slot notification.
+ */
+
+import { after, before, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type Server } from "node:http";
+import type { Duplex } from "node:stream";
+import { initLogger } from "../src/shared/logger.js";
+import { SolanaConnection } from "../src/infrastructure/solana/connection.js";
+
+/**
+ * Answers getSlot over HTTP and holds WebSocket upgrades open without replying.
+ */
+async function startMockRpcServer(): Promise<{ server: Server; sockets: Duplex[]; port: number }> {
+  const sockets: Duplex[] = [];
+  const server = createServer((request, response) => {
+    let body = "";
+    request.on("data", (chunk: Buffer) => (body += chunk.toString()));
+    request.on("end", () => {
+      const { id } = JSON.parse(body) as { id: number | string };
+      response.setHeader("Content-Type", "application/json");
+      response.end(JSON.stringify({ jsonrpc: "2.0", id, result: 1_000 }));
+    });
+  });
+  server.on("upgrade", (_request, socket: Duplex) => {
+    socket.on("error", () => undefined);
+    sockets.push(socket);
+  });
+
+  const port = await new Promise<number>((resolve) => {
+    server.listen(0, "127.0.0.1", () => {
+      const address = server.address();
+      resolve(typeof address === "object" && address ? address.port : 0);
+    });
+  });
+  return { server, sockets, port };
+}
+
+describe("SolanaConnection WebSocket watchdog", () => {
+  let mockServer: Awaited<ReturnType<typeof startMockRpcServer>>;
+  let connection: SolanaConnection;
+
+  before(async () => {
+    initLogger("error");
+    // * web3.js reports socket errors on the console
+    mock.method(console, "error", () => undefined);
+    mockServer = await startMockRpcServer();
+    // * Only the watchdog interval and the clock are faked, sockets keep real timers
+    mock.timers.enable({ apis: ["setInterval", "Date"], now: 1_000_000 });
+    connection = new SolanaConnection(
+      `http://127.0.0.1:${mockServer.port}`,
+      `ws://127.0.0.1:${mockServer.port}`
+    );
+    await connection.initialize();
+  });
+
+  after(async () => {
+    await connection.close();
+    mock.timers.reset();
+    mock.restoreAll();
+    for (const socket of mockServer.sockets) {
+      socket.destroy();
+    }
+    await new Promise((resolve) => mockServer.server.close(resolve));
+  });
+
+  it("reconnects after the stale window, then retries on the 1s-30s backoff schedule", () => {
+    assert.equal(connection.getCurrentSlot(), 1_000n);
+    assert.equal(connection.getWsStatus().state, "connecting");
+
+    // * First socket silent for the stale window (10s)
+    mock.timers.tick(10_000);
+    assert.equal(connection.getWsStatus().reconnects, 0);
+    mock.timers.tick(1_000);
+    assert.equal(connection.getWsStatus().reconnects, 1);
+    assert.equal(connection.getWsStatus().state, "reconnecting");
+
+    // * Replacement sockets still silent: 1s, 2s, 4s, ... capped at 30s
+    const expectedDelaysMs = [1_000, 2_000, 4_000, 8_000, 16_000, 30_000, 30_000];
+    for (const [index, delayMs] of expectedDelaysMs.entries()) {
+      mock.timers.tick(delayMs - 1_000);
+      assert.equal(connection.getWsStatus().reconnects, index + 1, `before retry ${index + 2}`);
+      mock.timers.tick(1_000);
+      assert.equal(connection.getWsStatus().reconnects, index + 2, `retry ${index + 2}`);
+    }
+    assert.equal(connection.getConnectedAt(), null);
+  });
+});
@@ -0,0 +1,331 @@
+/**
+ * SQLite schema upgrades: a database created before the migration framework
+ * (original schema, no schema_migrations table) must accept every write path,
+ * and data-rewriting migrations must fix the rows they rewrite.
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import Database from "better-sqlite3";
+import { initLogger } from "../src/shared/logger.js";
+import {
+  MIGRATIONS,
+  applyMigrations,
+} from "../src/infrastructure/database/migrations/index.js";
+import { initialSchema } from "../src/infrastructure/database/migrations/001-initial-schema.js";
+import {
+  initSqliteClient,
+  type SqliteClient,
+} from "../src/infrastructure/database/sqlite.client.js";
+import { SqliteRoundRepository } from "../src/infrastructure/database/sqlite.repository.js";
+import { decodeU64, encodeU64 } from "../src/infrastructure/database/u64.codec.js";
+import {
+  U64_MAX,
+  buildBackfill,
+  buildPostFin,
+  buildPreFin,
+  buildSnapshot,
+  slotHashOf,
+} from "./fixtures.js";
+
+interface ColumnInfo {
+  name: string;
+  notnull: number;
+}
+
+/**
+ * Create a database as the collector did before the migration framework existed.
+ */
+function createLegacyDatabase(dbPath: string): void {
+  const db = new Database(dbPath);
+  initialSchema.up(db);
+  db.prepare(`
+    INSERT INTO rounds (
+        round_id, ts_pre, slot_pre, remaining_slots, board_start_slot, board_end_slot,
+        price_ore_sol, price_sol_usd, price_ore_usd, price_fetched_at,
+        total_deployed, total_miners, latency_fetch_ms, latency_ev_ms, mining_cost_pct
+    ) VALUES (99, 1, 349999000, 5, 349998850, 349999005, 0.5, 200, 100, 1, 0, 0, 10, 1, 3.5)
+  `).run();
+  db.close();
+}
+
+/**
+ * Create a database as the collector did once backfill support existed but before
+ * migrations were tracked: pre-fin columns already nullable, `backfilled` present,
+ * no schema_migrations table.
+ */
+function createBackfillEraDatabase(dbPath: string): void {
+  const db = new Database(dbPath);
+  db.exec(`
+    CREATE TABLE rounds (
+        round_id            INTEGER PRIMARY KEY,
+        ts_pre              INTEGER,
+        ts_post             INTEGER,
+        slot_pre            INTEGER,
+        remaining_slots     INTEGER,
+        board_start_slot    INTEGER,
+        board_end_slot      INTEGER,
+        price_ore_sol       REAL,
+        price_sol_usd       REAL,
+        price_ore_usd       REAL,
+        price_fetched_at    INTEGER,
+        total_deployed      INTEGER,
+        total_miners        INTEGER,
+        latency_fetch_ms    INTEGER,
+        latency_ev_ms       INTEGER,
+        mining_cost_pct     REAL,
+        slot_hash           BLOB,
+        rng_u64             INTEGER,
+        winning_tile        INTEGER,
+        split_top_miner     INTEGER DEFAULT 0,
+        top_miner_reward    INTEGER,
+        motherlode_paid     INTEGER,
+        num_winners         INTEGER,
+        total_winnings      INTEGER,
+        total_vaulted       INTEGER,
+        rent_payer          TEXT,
+        top_miner_pubkey    TEXT,
+        backfilled          INTEGER NOT NULL DEFAULT 0,
+        CHECK(winning_tile IS NULL OR (winning_tile >= 0 AND winning_tile <= 24)),
+        CHECK(split_top_miner IN (0, 1)),
+        CHECK(backfilled IN (0, 1)),
+        CHECK(slot_hash IS NULL OR length(slot_hash) = 32)
+    );
+
+    CREATE TABLE tiles (
+        round_id            INTEGER NOT NULL,
+        tile_index          INTEGER NOT NULL,
+        deployed            INTEGER,
+        miners_count        INTEGER,
+        others_stake        INTEGER,
+        ev_ratio            REAL,
+        max_profitable      INTEGER,
+        rank_ev             INTEGER,
+        deployed_final      INTEGER,
+        count_final         INTEGER,
+        PRIMARY KEY (round_id, tile_index),
+        FOREIGN KEY (round_id) REFERENCES rounds(round_id) ON DELETE CASCADE,
+        CHECK(tile_index >= 0 AND tile_index <= 24),
+        CHECK(rank_ev >= 1 AND rank_ev <= 25)
+    );
+
+    INSERT INTO rounds (round_id, ts_pre, slot_pre, backfilled) VALUES (98, 1, 349998000, 0);
+    INSERT INTO rounds (round_id, ts_post, slot_hash, rng_u64, winning_tile, backfilled)
+    VALUES (99, 2000, zeroblob(32), 0, 0, 1);
+  `);
+  db.close();
+}
+
+describe("SQLite migrations", () => {
+  let directory: string;
+  let client: SqliteClient;
+  let repository: SqliteRoundRepository;
+
+  before(async () => {
+    initLogger("error");
+    directory = mkdtempSync(join(tmpdir(), "ore-migrations-"));
+    const dbPath = join(directory, "legacy.db");
+    createLegacyDatabase(dbPath);
+
+    client = initSqliteClient(dbPath);
+    await client.initialize();
+    repository = new SqliteRoundRepository();
+  });
+
+  after(() => {
+    client.close();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("upgrades a legacy database to the latest schema", () => {
+    const db = client.getDb();
+    const versions = db.prepare(`SELECT version FROM schema_migrations ORDER BY version`).all();
+    assert.deepEqual(
+      versions.map((row) => (row as { version: number }).version),
+      MIGRATIONS.map((migration) => migration.version)
+    );
+
+    const columns = db.prepare(`PRAGMA table_info(rounds)`).all() as ColumnInfo[];
+    assert.ok(columns.some((column) => column.name === "backfilled"));
+    assert.equal(columns.find((column) => column.name === "ts_pre")?.notnull, 0);
+  });
+
+  it("keeps rounds recorded before the upgrade", async () => {
+    const round = await repository.getRound(99n);
+    assert.ok(round);
+    assert.equal(round.slotPre, 349_999_000n);
+    assert.equal(round.backfilled, false);
+  });
+
+  it("accepts pre-fin, post-fin and backfilled writes after the upgrade", async () => {
+    await repository.insertPreFin(buildPreFin(100n));
+    await repository.completePostFin(buildPostFin(100n));
+    await repository.insertBackfilled(buildBackfill(101n));
+
+    const completed = await repository.getRound(100n);
+    assert.ok(completed);
+    assert.equal(completed.winningTile, 3);
+    assert.equal(completed.rngU64, U64_MAX);
+
+    const backfilled = await repository.getRound(101n);
+    assert.ok(backfilled);
+    assert.equal(backfilled.backfilled, true);
+    assert.equal(backfilled.tsPre, null);
+    assert.equal(backfilled.tsPost, null);
+    assert.equal(backfilled.backfilledAt, buildBackfill(101n).backfilledAt);
+  });
+
+  it("replaces a series snapshot read at the Phase 2 snapshot's slot", async () => {
+    await repository.insertSnapshot(buildSnapshot(102n, 349_999_999n));
+    await repository.insertPreFin(buildPreFin(102n));
+
+    const snapshots = await repository.getSnapshots(102n);
+    assert.deepEqual(
+      snapshots.map((snapshot) => [snapshot.slot, snapshot.triggerSlot, snapshot.tiles.length]),
+      [[349_999_999n, 350_000_000n, 25]]
+    );
+    await assert.rejects(repository.insertSnapshot(buildSnapshot(102n, 349_999_999n)));
+  });
+});
+
+describe("backfilled_at migration", () => {
+  it("moves the backfill run time out of ts_post", () => {
+    const db = new Database(":memory:");
+    applyMigrations(db, MIGRATIONS.filter((migration) => migration.version < 13));
+    db.exec(`
+      INSERT INTO rounds (round_id, ts_pre, ts_post, backfilled) VALUES (1, 1000, 2000, 0);
+      INSERT INTO rounds (round_id, ts_post, backfilled) VALUES (2, 3000, 1);
+    `);
+
+    applyMigrations(db, MIGRATIONS);
+
+    const rows = db.prepare(`SELECT ts_post, backfilled_at FROM rounds ORDER BY round_id`).all();
+    assert.deepEqual(rows, [
+      { ts_post: 2000, backfilled_at: null },
+      { ts_post: null, backfilled_at: 3000 },
+    ]);
+    db.close();
+  });
+});
+
+describe("u64 codec", () => {
+  it("round-trips values above 2^53 through a TEXT column", () => {
+    const db = new Database(":memory:");
+    db.exec(`CREATE TABLE u64_values (id INTEGER PRIMARY KEY, value TEXT)`);
+    const insert = db.prepare(`INSERT INTO u64_values (id, value) VALUES (?, ?)`);
+    const select = db.prepare(`SELECT value FROM u64_values WHERE id = ?`).pluck();
+
+    const values = [0n, 2n ** 53n + 1n, 2n ** 63n, 2n ** 63n + 1n, U64_MAX];
+    values.forEach((value, id) => insert.run(id, encodeU64(value)));
+
+    assert.deepEqual(values.map((_, id) => decodeU64(select.get(id) as string)), values);
+    assert.equal(decodeU64(null), null);
+    db.close();
+  });
+
+  it("rejects values outside the u64 range", () => {
+    assert.throws(() => encodeU64(-1n), RangeError);
+    assert.throws(() => encodeU64(U64_MAX + 1n), RangeError);
+  });
+});
+
+describe("lossless rng_u64 migration", () => {
+  it("recomputes rng_u64 as TEXT from the stored slot hash", () => {
+    const db = new Database(":memory:");
+    applyMigrations(db, MIGRATIONS.filter((migration) => migration.version < 8));
+
+    // * rng = U64_MAX - 2, stored rounded through a JS number
+    const rng = U64_MAX - 2n;
+    const slotHash = slotHashOf(rng);
+    db.prepare(`
+      INSERT INTO rounds (round_id, ts_post, slot_hash, rng_u64, backfilled)
+      VALUES (1, 1000, ?, ?, 1)
+    `).run(slotHash, Number(rng));
+    db.exec(`INSERT INTO rounds (round_id, ts_pre, backfilled) VALUES (2, 1000, 0)`);
+
+    applyMigrations(db, MIGRATIONS);
+
+    const rows = db
+      .prepare(`SELECT round_id, rng_u64, typeof(rng_u64) AS type FROM rounds ORDER BY round_id`)
+      .all();
+    assert.deepEqual(rows, [
+      { round_id: 1, rng_u64: "18446744073709551613", type: "text" },
+      { round_id: 2, rng_u64: null, type: "null" },
+    ]);
+    assert.equal(decodeU64((rows[0] as { rng_u64: string }).rng_u64), rng);
+    db.close();
+  });
+});
+
+describe("motherlode payout migration", () => {
+  it("keeps the pool in motherlode_paid only for rounds that hit the motherlode", () => {
+    const db = new Database(":memory:");
+    applyMigrations(db, MIGRATIONS.filter((migration) => migration.version < 7));
+
+    // * motherlode_paid held the pool: 569 hits the motherlode, 28 doesn't
+    const insert = db.prepare(`
+      INSERT INTO rounds (round_id, ts_post, slot_hash, motherlode_paid, backfilled)
+      VALUES (?, ?, ?, ?, 1)
+    `);
+    insert.run(1, 1000, slotHashOf(569n), 5_000_000_000);
+    insert.run(2, 2000, slotHashOf(28n), 6_000_000_000);
+    db.exec(`INSERT INTO rounds (round_id, ts_pre, backfilled) VALUES (3, 3000, 0)`);
+
+    applyMigrations(db, MIGRATIONS);
+
+    const rows = db
+      .prepare(`
+        SELECT round_id, motherlode_triggered, motherlode_paid, motherlode_pool
+        FROM rounds ORDER BY round_id
+      `)
+      .raw()
+      .all();
+    assert.deepEqual(rows, [
+      [1, 1, 5_000_000_000, 5_000_000_000],
+      [2, 0, 0, 6_000_000_000],
+      // * Pending round: untouched
+      [3, 0, null, null],
+    ]);
+    db.close();
+  });
+});
+
+describe("backfill-era database upgrade", () => {
+  it("keeps backfilled rounds and accepts every write path", async () => {
+    initLogger("error");
+    const directory = mkdtempSync(join(tmpdir(), "ore-migrations-"));
+    const dbPath = join(directory, "backfill-era.db");
+    createBackfillEraDatabase(dbPath);
+
+    const client = initSqliteClient(dbPath);
+    try {
+      await client.initialize();
+      const repository = new SqliteRoundRepository();
+
+      const columns = client.getDb().prepare(`PRAGMA table_info(rounds)`).all() as ColumnInfo[];
+      assert.equal(columns.filter((column) => column.name === "backfilled").length, 1);
+
+      const live = await repository.getRound(98n);
+      assert.equal(live?.backfilled, false);
+      assert.equal(live?.slotPre, 349_998_000n);
+
+      // * Backfill run time moved out of ts_post (013)
+      const backfilled = await repository.getRound(99n);
+      assert.equal(backfilled?.backfilled, true);
+      assert.equal(backfilled?.tsPost, null);
+      assert.equal(backfilled?.backfilledAt, 2000);
+
+      await repository.insertPreFin(buildPreFin(100n));
+      await repository.completePostFin(buildPostFin(100n));
+      await repository.insertBackfilled(buildBackfill(101n));
+      assert.equal((await repository.getRound(100n))?.rngU64, U64_MAX);
+      assert.equal((await repository.getRound(101n))?.backfilled, true);
+    } finally {
+      client.close();
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
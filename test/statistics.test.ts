@@ -0,0 +1,163 @@
+/**
+ * Statistical helpers against reference values, and the RNG fairness report.
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  binomialTestPValue,
+  chiSquarePValue,
+  normalCdf,
+  regularizedGammaQ,
+  wilsonInterval,
+} from "../src/shared/statistics.js";
+import {
+  buildRngSample,
+  computeRngFairnessReport,
+  type RngSample,
+} from "../src/application/services/rng-fairness.js";
+import { buildRoundRecord, slotHashOf } from "./fixtures.js";
+
+function assertClose(actual: number, expected: number, tolerance: number): void {
+  assert.ok(
+    Math.abs(actual - expected) <= tolerance,
+    `expected ${expected} ± ${tolerance}, got ${actual}`
+  );
+}
+
+describe("statistics", () => {
+  it("matches the closed forms of the incomplete gamma function", () => {
+    // * Q(1, x) = e^-x
+    assertClose(regularizedGammaQ(1, 0.5), Math.exp(-0.5), 1e-12);
+    assertClose(regularizedGammaQ(1, 5), Math.exp(-5), 1e-12);
+    // * Q(2, x) = e^-x (1 + x)
+    assertClose(regularizedGammaQ(2, 3), Math.exp(-3) * 4, 1e-12);
+    assert.equal(regularizedGammaQ(3, 0), 1);
+  });
+
+  it("gives chi-square p-values matching the critical value tables", () => {
+    // * df = 2: P(X >= x) = e^(-x/2)
+    assertClose(chiSquarePValue(2, 2), Math.exp(-1), 1e-12);
+    // * df = 24 (winning tile uniformity): 5% and 1% critical values
+    assertClose(chiSquarePValue(36.415, 24), 0.05, 1e-4);
+    assertClose(chiSquarePValue(42.98, 24), 0.01, 1e-4);
+    assertClose(chiSquarePValue(23.337, 24), 0.5, 1e-3);
+  });
+
+  it("approximates the standard normal CDF", () => {
+    assertClose(normalCdf(0), 0.5, 1e-7);
+    assertClose(normalCdf(1.959964), 0.975, 1e-6);
+    assertClose(normalCdf(-1.959964), 0.025, 1e-6);
+    assertClose(normalCdf(1), 0.8413447, 1e-6);
+  });
+
+  it("bounds the Wilson interval at 0/n and n/n", () => {
+    const none = wilsonInterval(0, 10);
+    assert.equal(none.low, 0);
+    assertClose(none.high, 0.2775328, 1e-6);
+
+    const all = wilsonInterval(10, 10);
+    assertClose(all.low, 0.7224672, 1e-6);
+    assertClose(all.high, 1, 1e-12);
+
+    const half = wilsonInterval(50, 100);
+    assertClose(half.low, 0.4038315, 1e-6);
+    assertClose(half.high, 0.5961685, 1e-6);
+
+    assert.deepEqual(wilsonInterval(0, 0), { low: 0, high: 1 });
+  });
+
+  it("computes two-sided binomial p-values", () => {
+    // * Normal approximation: 60 heads in 100 fair tosses
+    assertClose(binomialTestPValue(60, 100, 0.5), 0.0574331, 1e-5);
+    assertClose(binomialTestPValue(50, 100, 0.5), 1, 1e-12);
+    // * Poisson tail (λ = 1): 0 hits is 2 P(X = 0), 5 hits is 2 P(X >= 5)
+    assertClose(binomialTestPValue(0, 625, 1 / 625), 2 * Math.exp(-1), 1e-9);
+    assertClose(binomialTestPValue(5, 625, 1 / 625), 2 * 0.0036598468, 1e-8);
+    assert.equal(binomialTestPValue(0, 0, 0.5), 1);
+  });
+});
+
+describe("RNG fairness", () => {
+  it("derives the RNG outcomes of a stored round", () => {
+    // * 28 % 25 = 3, u16 XOR even (split), reversed bits % 625 != 0
+    const sample = buildRngSample(buildRoundRecord(1n, { slotHash: slotHashOf(28n) }));
+    assert.deepEqual(sample, {
+      roundId: 1n,
+      winningTile: 3,
+      split: true,
+      motherlode: false,
+      winningTileMismatch: false,
+      splitMismatch: true,
+    });
+
+    // * 569: reversed bits % 625 == 0, tile 19, odd u16 XOR
+    const motherlode = buildRngSample(
+      buildRoundRecord(2n, { slotHash: slotHashOf(569n), winningTile: 19, numWinners: 0n })
+    );
+    assert.equal(motherlode?.motherlode, true);
+    assert.equal(motherlode?.split, false);
+    assert.equal(motherlode?.winningTileMismatch, false);
+    // * No winners, no top miner: the split isn't checked
+    assert.equal(motherlode?.splitMismatch, false);
+
+    assert.equal(buildRngSample(buildRoundRecord(3n, { slotHash: Buffer.alloc(32) })), null);
+    assert.equal(buildRngSample(buildRoundRecord(4n, { slotHash: null })), null);
+  });
+
+  it("reports a uniform sample as fair", () => {
+    const samples: RngSample[] = Array.from({ length: 50 }, (_, i) => ({
+      roundId: BigInt(i),
+      winningTile: i % 25,
+      split: i % 2 === 0,
+      motherlode: false,
+      winningTileMismatch: i === 7,
+      splitMismatch: false,
+    }));
+
+    const report = computeRngFairnessReport(samples, 20);
+
+    assert.equal(report.rounds, 50);
+    assert.equal(report.fromRoundId, 0n);
+    assert.equal(report.toRoundId, 49n);
+    assert.equal(report.winningTile.expectedCount, 2);
+    assert.equal(report.winningTile.chiSquare, 0);
+    assert.equal(report.winningTile.degreesOfFreedom, 24);
+    assertClose(report.winningTile.pValue, 1, 1e-12);
+    assert.equal(report.split.successes, 25);
+    assert.equal(report.split.pValue, 1);
+    assert.equal(report.motherlode.successes, 0);
+    assert.equal(report.motherlode.ciLow, 0);
+    assert.equal(report.tiles.length, 25);
+    assert.ok(report.tiles.every((tile) => tile.successes === 2 && tile.rate === 0.04));
+    assert.equal(report.winningTileMismatches, 1);
+    assert.equal(report.splitMismatches, 0);
+    // * Full windows only: [0, 20) and [20, 40)
+    assert.deepEqual(
+      report.windows.map((window) => [window.fromRoundId, window.toRoundId, window.rounds]),
+      [
+        [0n, 19n, 20],
+        [20n, 39n, 20],
+      ]
+    );
+  });
+
+  it("rejects a skewed winning tile distribution", () => {
+    const samples: RngSample[] = Array.from({ length: 25 }, (_, i) => ({
+      roundId: BigInt(i),
+      winningTile: 0,
+      split: true,
+      motherlode: false,
+      winningTileMismatch: false,
+      splitMismatch: false,
+    }));
+
+    const report = computeRngFairnessReport(samples, 0);
+
+    // * (25 - 1)² / 1 + 24 · (0 - 1)² / 1
+    assert.equal(report.winningTile.chiSquare, 600);
+    assert.ok(report.winningTile.pValue < 1e-10);
+    assert.ok(report.split.pValue < 0.01);
+    assert.deepEqual(report.windows, []);
+  });
+});
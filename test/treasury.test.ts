@@ -0,0 +1,81 @@
+/**
+ * Treasury account decoding from raw bytes, I80F48 rewards factors included.
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { decodeTreasuryAccount } from "../src/infrastructure/solana/decoders/treasury.decoder.js";
+import { LARGE_LAMPORTS, U64_MAX } from "./fixtures.js";
+
+const TREASURY_ACCOUNT_SIZE = 96;
+const FRACTION_ONE = 2n ** 48n;
+
+/**
+ * Write an I80F48 Numeric: raw i128 (value × 2^48) as a u64 low word and i64 high word.
+ */
+function writeNumeric(data: Buffer, offset: number, raw: bigint): void {
+  data.writeBigUInt64LE(BigInt.asUintN(64, raw), offset);
+  data.writeBigInt64LE(BigInt.asIntN(64, raw >> 64n), offset + 8);
+}
+
+/**
+ * Raw Treasury account: distinct totals, unused buffers filled with 0xff, a miner
+ * rewards factor of 32768.5 (top bit of the low word set) and a stake factor of -2.25.
+ */
+function buildTreasuryAccountData(): Buffer {
+  const data = Buffer.alloc(TREASURY_ACCOUNT_SIZE);
+  data.fill(0xaa, 0, 8);
+  data.writeBigUInt64LE(U64_MAX, 8);
+  data.fill(0xff, 16, 24);
+  data.writeBigUInt64LE(LARGE_LAMPORTS, 24);
+  writeNumeric(data, 32, 2n ** 63n + FRACTION_ONE / 2n);
+  writeNumeric(data, 48, (-9n * FRACTION_ONE) / 4n);
+  data.fill(0xff, 64, 72);
+  data.writeBigUInt64LE(1_000_000n, 72);
+  data.writeBigUInt64LE(2_000_000n, 80);
+  data.writeBigUInt64LE(3_000_000n, 88);
+  return data;
+}
+
+describe("decodeTreasuryAccount", () => {
+  it("decodes every field at its layout offset", () => {
+    assert.deepEqual(decodeTreasuryAccount(buildTreasuryAccountData()), {
+      balance: U64_MAX,
+      motherlode: LARGE_LAMPORTS,
+      minerRewardsFactor: 32_768.5,
+      stakeRewardsFactor: -2.25,
+      totalRefined: 1_000_000n,
+      totalStaked: 2_000_000n,
+      totalUnclaimed: 3_000_000n,
+    });
+  });
+
+  it("reads the sign from the high word of a Numeric", () => {
+    const data = buildTreasuryAccountData();
+
+    // * -1 / 2^48: all bits set
+    writeNumeric(data, 32, -1n);
+    assert.equal(decodeTreasuryAccount(data).minerRewardsFactor, -(2 ** -48));
+
+    // * -2^63 / 2^48: high word -1, low word with only its top bit set
+    writeNumeric(data, 32, -(2n ** 63n));
+    assert.equal(decodeTreasuryAccount(data).minerRewardsFactor, -(2 ** 15));
+  });
+
+  it("reads factors beyond the low word", () => {
+    const data = buildTreasuryAccountData();
+
+    // * 2^56 + 3: integer part spills into the high word
+    writeNumeric(data, 32, (2n ** 56n + 3n) * FRACTION_ONE);
+    assert.equal(decodeTreasuryAccount(data).minerRewardsFactor, 2 ** 56 + 3);
+
+    // * Most negative I80F48: -2^79
+    writeNumeric(data, 48, -(2n ** 127n));
+    assert.equal(decodeTreasuryAccount(data).stakeRewardsFactor, -(2 ** 79));
+  });
+
+  it("rejects truncated account data", () => {
+    const truncated = buildTreasuryAccountData().subarray(0, TREASURY_ACCOUNT_SIZE - 1);
+    assert.throws(() => decodeTreasuryAccount(truncated), /too small: 95 < 96/);
+  });
+});
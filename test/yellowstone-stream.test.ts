@@ -0,0 +1,243 @@
+/**
+ * YellowstoneStream against a local mock Geyser Subscribe server:
+ * account updates, filter rewrites and reconnects with backoff.
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  Server,
+  ServerCredentials,
+  status,
+  type ServerDuplexStream,
+  type ServiceDefinition,
+} from "@grpc/grpc-js";
+import { Keypair, type AccountInfo } from "@solana/web3.js";
+import { SubscribeRequest, SubscribeUpdate } from "@triton-one/yellowstone-grpc";
+import { initLogger } from "../src/shared/logger.js";
+import { YellowstoneStream } from "../src/infrastructure/solana/yellowstone-stream.js";
+
+type SubscribeCall = ServerDuplexStream<SubscribeRequest, SubscribeUpdate>;
+
+const GEYSER_SERVICE: ServiceDefinition = {
+  subscribe: {
+    path: "/geyser.Geyser/Subscribe",
+    requestStream: true,
+    responseStream: true,
+    requestSerialize: (request: SubscribeRequest) =>
+      Buffer.from(SubscribeRequest.encode(request).finish()),
+    requestDeserialize: (bytes: Buffer) => SubscribeRequest.decode(bytes),
+    responseSerialize: (update: SubscribeUpdate) =>
+      Buffer.from(SubscribeUpdate.encode(update).finish()),
+    responseDeserialize: (bytes: Buffer) => SubscribeUpdate.decode(bytes),
+  },
+};
+
+/**
+ * Mock Geyser server recording each Subscribe call and the requests written on it.
+ */
+class MockGeyserServer {
+  readonly calls: { call: SubscribeCall; openedAt: number; requests: SubscribeRequest[] }[] = [];
+  private readonly server = new Server();
+  private listeners: (() => void)[] = [];
+
+  async start(): Promise<string> {
+    this.server.addService(GEYSER_SERVICE, {
+      subscribe: (call: SubscribeCall) => {
+        const entry = { call, openedAt: Date.now(), requests: [] as SubscribeRequest[] };
+        this.calls.push(entry);
+        call.on("data", (request: SubscribeRequest) => {
+          entry.requests.push(request);
+          this.notify();
+        });
+        call.on("error", () => undefined);
+        this.notify();
+      },
+    });
+
+    const port = await new Promise<number>((resolve, reject) => {
+      this.server.bindAsync("127.0.0.1:0", ServerCredentials.createInsecure(), (error, bound) =>
+        error ? reject(error) : resolve(bound)
+      );
+    });
+    return `http://127.0.0.1:${port}`;
+  }
+
+  get current(): SubscribeCall {
+    return this.calls[this.calls.length - 1].call;
+  }
+
+  lastRequest(): SubscribeRequest | undefined {
+    const requests = this.calls[this.calls.length - 1]?.requests ?? [];
+    return requests[requests.length - 1];
+  }
+
+  /**
+   * Resolve once the condition holds (checked on every call and request).
+   */
+  async waitFor(condition: () => boolean, timeoutMs = 5_000): Promise<void> {
+    if (condition()) {
+      return;
+    }
+    await new Promise<void>((resolve, reject) => {
+      const timeoutId = setTimeout(
+        () => reject(new Error("Timed out waiting for the mock server")),
+        timeoutMs
+      );
+      const listener = (): void => {
+        if (condition()) {
+          clearTimeout(timeoutId);
+          this.listeners = this.listeners.filter((other) => other !== listener);
+          resolve();
+        }
+      };
+      this.listeners.push(listener);
+    });
+  }
+
+  sendSlot(slot: bigint): void {
+    this.current.write(SubscribeUpdate.fromPartial({ slot: { slot: slot.toString() } }));
+  }
+
+  sendAccount(filter: string, data: Buffer, slot: bigint): void {
+    this.current.write(
+      SubscribeUpdate.fromPartial({
+        filters: [filter],
+        account: {
+          slot: slot.toString(),
+          account: {
+            pubkey: Keypair.generate().publicKey.toBytes(),
+            lamports: "1000",
+            owner: Keypair.generate().publicKey.toBytes(),
+            executable: false,
+            rentEpoch: "0",
+            data,
+          },
+        },
+      })
+    );
+  }
+
+  async stop(): Promise<void> {
+    this.server.forceShutdown();
+  }
+
+  private notify(): void {
+    for (const listener of [...this.listeners]) {
+      listener();
+    }
+  }
+}
+
+describe("YellowstoneStream", () => {
+  const server = new MockGeyserServer();
+  const slots: bigint[] = [];
+  let stream: YellowstoneStream;
+
+  before(async () => {
+    initLogger("error");
+    const endpoint = await server.start();
+    stream = new YellowstoneStream(endpoint, undefined, (slot) => slots.push(slot));
+    await stream.start();
+  });
+
+  after(async () => {
+    await stream.close();
+    await server.stop();
+  });
+
+  it("subscribes to the slot feed at confirmed commitment", async () => {
+    await server.waitFor(() => server.lastRequest() !== undefined);
+    const request = server.lastRequest()!;
+    assert.deepEqual(Object.keys(request.slots), ["slots"]);
+    assert.deepEqual(request.accounts, {});
+
+    server.sendSlot(100n);
+    await waitUntil(() => stream.getStatus().state === "connected");
+    assert.deepEqual(slots, [100n]);
+  });
+
+  it("rewrites the account filters on subscribe and unsubscribe", async () => {
+    const address = Keypair.generate().publicKey;
+    const subscriptionId = stream.subscribeToAccount(address, () => undefined);
+
+    await server.waitFor(() => Object.keys(server.lastRequest()?.accounts ?? {}).length === 1);
+    assert.deepEqual(server.lastRequest()!.accounts[`account-${subscriptionId}`].account, [
+      address.toBase58(),
+    ]);
+
+    await stream.unsubscribeFromAccount(subscriptionId);
+    await server.waitFor(() => Object.keys(server.lastRequest()?.accounts ?? {}).length === 0);
+    assert.equal(stream.getStatus().accountSubscriptions, 0);
+  });
+
+  it("delivers account updates with their context slot to the subscriber", async () => {
+    // * The BoardWatcher's subscriber hands these to processAccountInfo
+    const received: { accountInfo: AccountInfo<Buffer>; contextSlot: bigint }[] = [];
+    const subscriptionId = stream.subscribeToAccount(
+      Keypair.generate().publicKey,
+      (accountInfo, contextSlot) => received.push({ accountInfo, contextSlot })
+    );
+    await server.waitFor(() => Object.keys(server.lastRequest()?.accounts ?? {}).length === 1);
+
+    server.sendAccount(`account-${subscriptionId}`, Buffer.from([1, 2, 3]), 120n);
+    // * Updates for other filters are not delivered
+    server.sendAccount("account-999", Buffer.from([9]), 121n);
+    await waitUntil(() => slots.includes(121n));
+
+    assert.equal(received.length, 1);
+    assert.deepEqual(received[0].accountInfo.data, Buffer.from([1, 2, 3]));
+    assert.equal(received[0].accountInfo.lamports, 1000);
+    assert.equal(received[0].contextSlot, 120n);
+
+    await stream.unsubscribeFromAccount(subscriptionId);
+  });
+
+  it("reconnects with exponential backoff and restores the filters", async () => {
+    const address = Keypair.generate().publicKey;
+    const subscriptionId = stream.subscribeToAccount(address, () => undefined);
+    await server.waitFor(() => Object.keys(server.lastRequest()?.accounts ?? {}).length === 1);
+    const callsBefore = server.calls.length;
+
+    // * Stream ends after updates flowed: first retry after the base delay (1s)
+    const endedAt = Date.now();
+    server.current.end();
+    await server.waitFor(() => server.calls.length === callsBefore + 1);
+    const firstDelayMs = server.calls[callsBefore].openedAt - endedAt;
+    assert.ok(firstDelayMs >= 900 && firstDelayMs < 1_900, `first retry after ${firstDelayMs}ms`);
+    assert.equal(stream.getStatus().reconnects, 1);
+    assert.equal(stream.getConnectedAt(), null);
+
+    // * Fails again before any update: the delay doubles (2s)
+    await server.waitFor(() => server.lastRequest() !== undefined);
+    const failedAt = Date.now();
+    server.current.emit("error", { code: status.UNAVAILABLE, details: "unavailable" });
+    await server.waitFor(() => server.calls.length === callsBefore + 2, 5_000);
+    const secondDelayMs = server.calls[callsBefore + 1].openedAt - failedAt;
+    assert.ok(
+      secondDelayMs >= 1_900 && secondDelayMs < 3_000,
+      `second retry after ${secondDelayMs}ms`
+    );
+    assert.equal(stream.getStatus().reconnects, 2);
+
+    // * The new stream carries the current filters
+    await server.waitFor(() => server.lastRequest() !== undefined);
+    assert.deepEqual(server.lastRequest()!.accounts[`account-${subscriptionId}`].account, [
+      address.toBase58(),
+    ]);
+
+    server.sendSlot(200n);
+    await waitUntil(() => stream.getStatus().state === "connected");
+    assert.ok(stream.getConnectedAt() !== null);
+  });
+});
+
+async function waitUntil(condition: () => boolean, timeoutMs = 5_000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error("Timed out waiting for the stream");
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}